@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "pending_transaction_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transactions_pending_transaction_id_idx" ON "transactions"("pending_transaction_id");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "plaid_accounts" ADD COLUMN     "is_manual" BOOLEAN NOT NULL DEFAULT false,
+ALTER COLUMN "plaid_account_id" DROP NOT NULL,
+ALTER COLUMN "plaid_access_token" DROP NOT NULL,
+ALTER COLUMN "plaid_item_id" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "transactions" ALTER COLUMN "plaid_transaction_id" DROP NOT NULL;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "import_source" TEXT;
+
+-- CreateTable
+CREATE TABLE "import_profiles" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "has_header" BOOLEAN NOT NULL DEFAULT true,
+    "date_column" TEXT NOT NULL,
+    "date_format" TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    "amount_column" TEXT,
+    "debit_column" TEXT,
+    "credit_column" TEXT,
+    "description_column" TEXT NOT NULL,
+    "merchant_column" TEXT,
+    "invert_amounts" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_profiles_account_id_key" ON "import_profiles"("account_id");
+
+-- CreateIndex
+CREATE INDEX "import_profiles_user_id_idx" ON "import_profiles"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "import_profiles" ADD CONSTRAINT "import_profiles_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_profiles" ADD CONSTRAINT "import_profiles_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "plaid_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN     "category_group" TEXT NOT NULL DEFAULT 'expense';
+
+-- Mark the seeded Income category
+UPDATE "categories" SET "category_group" = 'income' WHERE "is_system" = true AND "name" = 'Income';
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "is_transfer" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "transfer_pairs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "outflow_transaction_id" TEXT NOT NULL,
+    "inflow_transaction_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'suggested',
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transfer_pairs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_is_transfer_idx" ON "transactions"("is_transfer");
+
+-- CreateIndex
+CREATE INDEX "transfer_pairs_user_id_idx" ON "transfer_pairs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "transfer_pairs_inflow_transaction_id_idx" ON "transfer_pairs"("inflow_transaction_id");
+
+-- CreateIndex
+CREATE INDEX "transfer_pairs_status_idx" ON "transfer_pairs"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_pairs_outflow_transaction_id_inflow_transaction_id_key" ON "transfer_pairs"("outflow_transaction_id", "inflow_transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "transfer_pairs" ADD CONSTRAINT "transfer_pairs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_pairs" ADD CONSTRAINT "transfer_pairs_outflow_transaction_id_fkey" FOREIGN KEY ("outflow_transaction_id") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_pairs" ADD CONSTRAINT "transfer_pairs_inflow_transaction_id_fkey" FOREIGN KEY ("inflow_transaction_id") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "budgets" ADD COLUMN     "rollover" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "rollover_cap" DECIMAL(12,2);
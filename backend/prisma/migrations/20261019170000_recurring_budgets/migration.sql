@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "budgets" ADD COLUMN     "is_recurring" BOOLEAN NOT NULL DEFAULT false,
+ALTER COLUMN "end_date" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "budget_periods" (
+    "id" TEXT NOT NULL,
+    "budget_id" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "budget_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_periods_budget_id_start_date_key" ON "budget_periods"("budget_id", "start_date");
+
+-- AddForeignKey
+ALTER TABLE "budget_periods" ADD CONSTRAINT "budget_periods_budget_id_fkey" FOREIGN KEY ("budget_id") REFERENCES "budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "envelope_plans" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "month" TIMESTAMP(3) NOT NULL,
+    "expected_income" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "envelope_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "envelope_assignments" (
+    "id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "category_id" TEXT NOT NULL,
+    "assigned" DECIMAL(12,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "envelope_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "envelope_moves" (
+    "id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "from_category_id" TEXT,
+    "to_category_id" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "envelope_moves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "envelope_plans_user_id_month_key" ON "envelope_plans"("user_id", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "envelope_assignments_plan_id_category_id_key" ON "envelope_assignments"("plan_id", "category_id");
+
+-- CreateIndex
+CREATE INDEX "envelope_moves_plan_id_idx" ON "envelope_moves"("plan_id");
+
+-- AddForeignKey
+ALTER TABLE "envelope_plans" ADD CONSTRAINT "envelope_plans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "envelope_assignments" ADD CONSTRAINT "envelope_assignments_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "envelope_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "envelope_assignments" ADD CONSTRAINT "envelope_assignments_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "envelope_moves" ADD CONSTRAINT "envelope_moves_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "envelope_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "envelope_moves" ADD CONSTRAINT "envelope_moves_from_category_id_fkey" FOREIGN KEY ("from_category_id") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "envelope_moves" ADD CONSTRAINT "envelope_moves_to_category_id_fkey" FOREIGN KEY ("to_category_id") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "budget_alerts" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "budget_id" TEXT NOT NULL,
+    "period_start_date" TIMESTAMP(3) NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "percentage_used" DECIMAL(7,2) NOT NULL,
+    "spending" DECIMAL(12,2) NOT NULL,
+    "available_amount" DECIMAL(12,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "budget_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "budget_alerts_user_id_idx" ON "budget_alerts"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_alerts_budget_id_period_start_date_threshold_key" ON "budget_alerts"("budget_id", "period_start_date", "threshold");
+
+-- AddForeignKey
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_budget_id_fkey" FOREIGN KEY ("budget_id") REFERENCES "budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
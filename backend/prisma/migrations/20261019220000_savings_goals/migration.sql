@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "goals" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "target_amount" DECIMAL(12,2) NOT NULL,
+    "target_date" TIMESTAMP(3),
+    "linked_balance" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "goals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goal_accounts" (
+    "id" TEXT NOT NULL,
+    "goal_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goal_contributions" (
+    "id" TEXT NOT NULL,
+    "goal_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_contributions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "goals_user_id_idx" ON "goals"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_accounts_account_id_key" ON "goal_accounts"("account_id");
+
+-- CreateIndex
+CREATE INDEX "goal_accounts_goal_id_idx" ON "goal_accounts"("goal_id");
+
+-- CreateIndex
+CREATE INDEX "goal_contributions_goal_id_date_idx" ON "goal_contributions"("goal_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "goals" ADD CONSTRAINT "goals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goal_accounts" ADD CONSTRAINT "goal_accounts_goal_id_fkey" FOREIGN KEY ("goal_id") REFERENCES "goals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goal_accounts" ADD CONSTRAINT "goal_accounts_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "plaid_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_goal_id_fkey" FOREIGN KEY ("goal_id") REFERENCES "goals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "balance_snapshots" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "account_type" TEXT NOT NULL,
+    "current_balance" DECIMAL(12,2) NOT NULL,
+    "available_balance" DECIMAL(12,2),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "balance_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "balance_snapshots_account_id_date_key" ON "balance_snapshots"("account_id", "date");
+
+-- CreateIndex
+CREATE INDEX "balance_snapshots_user_id_date_idx" ON "balance_snapshots"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "balance_snapshots" ADD CONSTRAINT "balance_snapshots_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "balance_snapshots" ADD CONSTRAINT "balance_snapshots_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "plaid_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "low_balance_floor" DECIMAL(12,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "merchants" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_aliases" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "merchant_id" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "merchant_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "categorization_rules" ADD COLUMN "merchant_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "merchants_user_id_idx" ON "merchants"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_aliases_user_id_alias_key" ON "merchant_aliases"("user_id", "alias");
+
+-- CreateIndex
+CREATE INDEX "merchant_aliases_merchant_id_idx" ON "merchant_aliases"("merchant_id");
+
+-- CreateIndex
+CREATE INDEX "transactions_merchant_id_idx" ON "transactions"("merchant_id");
+
+-- CreateIndex
+CREATE INDEX "categorization_rules_merchant_id_idx" ON "categorization_rules"("merchant_id");
+
+-- AddForeignKey
+ALTER TABLE "merchants" ADD CONSTRAINT "merchants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_aliases" ADD CONSTRAINT "merchant_aliases_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_aliases" ADD CONSTRAINT "merchant_aliases_merchant_id_fkey" FOREIGN KEY ("merchant_id") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_merchant_id_fkey" FOREIGN KEY ("merchant_id") REFERENCES "merchants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_merchant_id_fkey" FOREIGN KEY ("merchant_id") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- DropForeignKey
+ALTER TABLE "categorization_rules" DROP CONSTRAINT "categorization_rules_category_id_fkey";
+
+-- AlterTable
+ALTER TABLE "categorization_rules" ALTER COLUMN "merchant_pattern" DROP NOT NULL,
+ALTER COLUMN "category_id" DROP NOT NULL,
+ADD COLUMN "min_amount" DECIMAL(12,2),
+ADD COLUMN "max_amount" DECIMAL(12,2),
+ADD COLUMN "account_id" TEXT,
+ADD COLUMN "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "day_of_month_from" INTEGER,
+ADD COLUMN "day_of_month_to" INTEGER,
+ADD COLUMN "direction" TEXT,
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "rename_merchant_to" TEXT,
+ADD COLUMN "mark_as_transfer" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "plaid_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "merchant_pattern_rules" (
+    "id" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "category_id" TEXT NOT NULL,
+    "confidence" INTEGER NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "built_in_version" INTEGER,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_pattern_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_pattern_rule_versions" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "category_id" TEXT NOT NULL,
+    "confidence" INTEGER NOT NULL,
+    "priority" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL,
+    "changed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_pattern_rule_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "merchant_pattern_rules_category_id_idx" ON "merchant_pattern_rules"("category_id");
+
+-- CreateIndex
+CREATE INDEX "merchant_pattern_rules_priority_idx" ON "merchant_pattern_rules"("priority");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_pattern_rule_versions_rule_id_version_key" ON "merchant_pattern_rule_versions"("rule_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "merchant_pattern_rules" ADD CONSTRAINT "merchant_pattern_rules_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_pattern_rule_versions" ADD CONSTRAINT "merchant_pattern_rule_versions_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "merchant_pattern_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
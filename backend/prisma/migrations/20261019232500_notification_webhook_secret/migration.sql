@@ -0,0 +1,4 @@
+-- AlterTable
+-- Existing webhook URLs have no secret until they are saved again, and their
+-- notifications fail until then rather than going out unsigned
+ALTER TABLE "notification_preferences" ADD COLUMN "webhook_secret" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "recurring_announcements" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "series_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recurring_announcements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurring_announcements_user_id_series_id_key" ON "recurring_announcements"("user_id", "series_id");
+
+-- AddForeignKey
+ALTER TABLE "recurring_announcements" ADD CONSTRAINT "recurring_announcements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
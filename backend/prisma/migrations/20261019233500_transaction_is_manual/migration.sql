@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "is_manual" BOOLEAN NOT NULL DEFAULT false;
+
+-- Rows on manual accounts, including statement imports, are the editable ones
+UPDATE "transactions" t
+SET "is_manual" = true
+FROM "plaid_accounts" a
+WHERE t."account_id" = a."id" AND a."is_manual" = true;
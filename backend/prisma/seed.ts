@@ -1,4 +1,5 @@
-import { PrismaClient } from '../src/generated/prisma';
+import { PrismaClient } from '@prisma/client';
+import { builtInMerchantPatterns, MERCHANT_PATTERNS_VERSION } from '../src/config/merchantPatterns';
 
 const prisma = new PrismaClient();
 
@@ -17,7 +18,7 @@ const defaultCategories = [
   { name: 'Personal Care', icon: '💆', color: '#FF5722' },
   { name: 'Subscriptions', icon: '📱', color: '#673AB7' },
   { name: 'Gifts & Donations', icon: '🎁', color: '#CDDC39' },
-  { name: 'Income', icon: '💰', color: '#8BC34A' },
+  { name: 'Income', icon: '💰', color: '#8BC34A', group: 'income' },
   { name: 'Other', icon: '📦', color: '#9E9E9E' },
 ];
 
@@ -31,12 +32,13 @@ async function main() {
         // For now, we'll check by name for system categories
         id: category.name.toLowerCase().replace(/\s+/g, '-'),
       },
-      update: {},
+      update: { group: category.group || 'expense' },
       create: {
         id: category.name.toLowerCase().replace(/\s+/g, '-'),
         name: category.name,
         icon: category.icon,
         color: category.color,
+        group: category.group || 'expense',
         isSystem: true,
         userId: null,
       },
@@ -44,6 +46,94 @@ async function main() {
   }
 
   console.log(`Seeded ${defaultCategories.length} default categories`);
+
+  await seedMerchantPatterns();
+}
+
+/**
+ * Seed the built-in merchant patterns. Rules from an older version of the
+ * built-in list are updated, or deactivated when dropped from it; rules an
+ * admin has edited are left alone.
+ */
+async function seedMerchantPatterns() {
+  console.log(`Seeding built-in merchant patterns (version ${MERCHANT_PATTERNS_VERSION})...`);
+
+  let created = 0;
+  let updated = 0;
+
+  for (const [index, builtIn] of builtInMerchantPatterns.entries()) {
+    const category = await prisma.category.findFirst({
+      where: { name: builtIn.category, isSystem: true },
+    });
+    if (!category) {
+      throw new Error(`Merchant pattern ${builtIn.id} uses unknown category ${builtIn.category}`);
+    }
+
+    const data = {
+      pattern: builtIn.pattern,
+      categoryId: category.id,
+      confidence: builtIn.confidence,
+      priority: (builtInMerchantPatterns.length - index) * 10, // Gaps leave room for admin rules
+      isActive: true,
+    };
+
+    const existing = await prisma.merchantPatternRule.findUnique({ where: { id: builtIn.id } });
+
+    if (!existing) {
+      await prisma.merchantPatternRule.create({
+        data: {
+          id: builtIn.id,
+          ...data,
+          builtInVersion: MERCHANT_PATTERNS_VERSION,
+          versions: { create: { version: 1, ...data } },
+        },
+      });
+      created++;
+    } else if (existing.builtInVersion !== null && existing.builtInVersion < MERCHANT_PATTERNS_VERSION) {
+      const version = existing.version + 1;
+      await prisma.merchantPatternRule.update({
+        where: { id: builtIn.id },
+        data: {
+          ...data,
+          version,
+          builtInVersion: MERCHANT_PATTERNS_VERSION,
+          versions: { create: { version, ...data } },
+        },
+      });
+      updated++;
+    }
+  }
+
+  const dropped = await prisma.merchantPatternRule.findMany({
+    where: {
+      id: { notIn: builtInMerchantPatterns.map((builtIn) => builtIn.id) },
+      isActive: true,
+      builtInVersion: { lt: MERCHANT_PATTERNS_VERSION },
+    },
+  });
+  for (const rule of dropped) {
+    const version = rule.version + 1;
+    await prisma.merchantPatternRule.update({
+      where: { id: rule.id },
+      data: {
+        isActive: false,
+        version,
+        builtInVersion: MERCHANT_PATTERNS_VERSION,
+        versions: {
+          create: {
+            version,
+            pattern: rule.pattern,
+            categoryId: rule.categoryId,
+            confidence: rule.confidence,
+            priority: rule.priority,
+            isActive: false,
+          },
+        },
+      },
+    });
+  }
+
+  console.log(`Merchant patterns: ${created} created, ${updated} updated, ${dropped.length} deactivated`);
 }
 
 main()
@@ -0,0 +1,97 @@
+/**
+ * Labeled merchant names for scoring the merchant pattern rules. A null
+ * category means no pattern should match; those transactions are left to
+ * Plaid's category or AI categorization.
+ */
+
+export interface MerchantPatternFixture {
+  merchantName: string; // As banks send it
+  category: string | null; // System category name
+}
+
+export const merchantPatternFixtures: MerchantPatternFixture[] = [
+  // Groceries
+  { merchantName: 'WALMART SUPERCENTER #1234', category: 'Groceries' },
+  { merchantName: 'TARGET T-0827', category: 'Groceries' },
+  { merchantName: 'COSTCO WHSE #0112', category: 'Groceries' },
+  { merchantName: 'KROGER #455', category: 'Groceries' },
+  { merchantName: 'WHOLE FOODS MARKET', category: 'Groceries' },
+  { merchantName: "TRADER JOE'S #552", category: 'Groceries' },
+  { merchantName: 'FOOD LION #1520', category: 'Groceries' },
+  { merchantName: 'ALDI 72014', category: 'Groceries' },
+
+  // Dining & Restaurants
+  { merchantName: 'CHICK-FIL-A #01234', category: 'Dining & Restaurants' },
+  { merchantName: "MCDONALD'S F1234", category: 'Dining & Restaurants' },
+  { merchantName: 'TACO BELL 3321', category: 'Dining & Restaurants' },
+  { merchantName: 'STARBUCKS STORE 10023', category: 'Dining & Restaurants' },
+  { merchantName: 'DUNKIN #341234', category: 'Dining & Restaurants' },
+  { merchantName: 'BLUE BOTTLE COFFEE', category: 'Dining & Restaurants' },
+  { merchantName: "JOE'S PIZZA", category: 'Dining & Restaurants' },
+  { merchantName: 'MAIN STREET BISTRO', category: 'Dining & Restaurants' },
+  { merchantName: 'UBER EATS', category: 'Dining & Restaurants' },
+  { merchantName: 'DOORDASH*CHIPOTLE', category: 'Dining & Restaurants' },
+
+  // Transportation
+  { merchantName: 'SHELL OIL 57444', category: 'Transportation' },
+  { merchantName: 'CHEVRON 0203', category: 'Transportation' },
+  { merchantName: 'BP#9513', category: 'Transportation' },
+  { merchantName: 'MARATHON PETRO123', category: 'Transportation' },
+  { merchantName: 'CIRCLE K # 21', category: 'Transportation' },
+  { merchantName: 'UBER *TRIP', category: 'Transportation' },
+  { merchantName: 'LYFT *RIDE SUN 4PM', category: 'Transportation' },
+  { merchantName: 'CITY PARKING GARAGE', category: 'Transportation' },
+  { merchantName: 'JIFFY LUBE #1822', category: 'Transportation' },
+  { merchantName: 'DISCOUNT TIRE', category: 'Transportation' },
+
+  // Utilities
+  { merchantName: 'DUKE ENERGY', category: 'Utilities' },
+  { merchantName: 'PIEDMONT NATURAL GAS', category: 'Utilities' },
+  { merchantName: 'CITY WATER DEPT', category: 'Utilities' },
+  { merchantName: 'VERIZON WIRELESS', category: 'Utilities' },
+  { merchantName: 'AT&T PAYMENT', category: 'Utilities' },
+  { merchantName: 'COMCAST CABLE', category: 'Utilities' },
+  { merchantName: 'SPECTRUM', category: 'Utilities' },
+
+  // Entertainment
+  { merchantName: 'NETFLIX.COM', category: 'Entertainment' },
+  { merchantName: 'SPOTIFY USA', category: 'Entertainment' },
+  { merchantName: 'HULU 877-8244858', category: 'Entertainment' },
+  { merchantName: 'APPLE MUSIC', category: 'Entertainment' },
+  { merchantName: 'DISNEY PLUS', category: 'Entertainment' },
+
+  // Shopping
+  { merchantName: 'AMAZON.COM*MK1AB2CD3', category: 'Shopping' },
+  { merchantName: 'AMZN MKTP US', category: 'Shopping' },
+  { merchantName: 'EBAY O*12-34567-89012', category: 'Shopping' },
+  { merchantName: 'APPLE.COM/BILL', category: 'Shopping' },
+  { merchantName: 'ETSY.COM', category: 'Shopping' },
+
+  // Healthcare
+  { merchantName: 'CVS/PHARMACY #01234', category: 'Healthcare' },
+  { merchantName: 'WALGREENS #3321', category: 'Healthcare' },
+  { merchantName: 'SMILE DENTAL GROUP', category: 'Healthcare' },
+  { merchantName: 'URGENT CARE CLINIC', category: 'Healthcare' },
+
+  // Personal Care (gyms)
+  { merchantName: 'PLANET FITNESS', category: 'Personal Care' },
+  { merchantName: 'LA FITNESS', category: 'Personal Care' },
+  { merchantName: 'CORE POWER YOGA', category: 'Personal Care' },
+
+  // Gifts & Donations
+  { merchantName: 'YOUNG LIFE', category: 'Gifts & Donations' },
+  { merchantName: 'GRACE CHURCH ONLINE GIVING', category: 'Gifts & Donations' },
+  { merchantName: 'AMERICAN RED CROSS DONATION', category: 'Gifts & Donations' },
+
+  // No pattern should match these
+  { merchantName: 'CUSTOMER SERVICE FEE', category: null },
+  { merchantName: 'TAX SERVICE CENTER', category: null },
+  { merchantName: 'LAS VEGAS HOTEL & CASINO', category: null },
+  { merchantName: 'BANK OF AMERICA ONLINE TRANSFER', category: null },
+  { merchantName: 'VANGUARD BUY INVESTMENT', category: null },
+  { merchantName: 'PAYROLL DEPOSIT ACME CORP', category: null },
+  { merchantName: 'SPORTS AUTHORITY', category: null },
+  { merchantName: 'POWERADE VENDING', category: null },
+  { merchantName: 'TARGETED ADS LLC', category: null },
+  { merchantName: 'DELTA AIR LINES', category: null },
+];
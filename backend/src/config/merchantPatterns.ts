@@ -0,0 +1,113 @@
+/**
+ * Built-in merchant patterns, seeded into the merchant_pattern_rules table.
+ * Bump MERCHANT_PATTERNS_VERSION when changing this list so the seed updates
+ * rules that admins have not edited. Run `npm run evaluate-patterns` first to
+ * check precision and recall against the labeled fixtures.
+ */
+
+export const MERCHANT_PATTERNS_VERSION = 1;
+
+export interface BuiltInMerchantPattern {
+  id: string; // Stable key, kept across versions
+  pattern: string; // Case-insensitive regex on the merchant name
+  category: string; // System category name (see prisma/seed.ts)
+  confidence: number;
+}
+
+// Highest priority first: the first matching pattern wins
+export const builtInMerchantPatterns: BuiltInMerchantPattern[] = [
+  // Before online shopping, so "Apple Music" is not Shopping
+  {
+    id: 'streaming',
+    pattern: 'netflix|spotify|hulu|disney\\+|disney plus|apple music|youtube|\\bhbo\\b',
+    category: 'Entertainment',
+    confidence: 90,
+  },
+  // Before rideshare, so "Uber Eats" is not Transportation
+  {
+    id: 'food-delivery',
+    pattern: 'uber eats|doordash|grubhub|postmates',
+    category: 'Dining & Restaurants',
+    confidence: 85,
+  },
+  {
+    id: 'fast-food',
+    pattern: "chick-fil-a|chick fil a|\\bsonic\\b|mcdonald|burger king|wendy'?s|taco bell|\\bsubway\\b|chipotle|panera",
+    category: 'Dining & Restaurants',
+    confidence: 90,
+  },
+  {
+    id: 'coffee',
+    pattern: 'starbucks|coffee|\\bcafe\\b|dunkin|dutch bros',
+    category: 'Dining & Restaurants',
+    confidence: 85,
+  },
+  // Before fuel, so "natural gas" is a utility
+  {
+    id: 'utilities',
+    pattern: 'duke energy|natural gas|\\belectric\\b|\\bwater (bill|dept|department|utility)|waterworks|\\butility|\\butilities|\\bpower (co|company)\\b|\\benergy\\b',
+    category: 'Utilities',
+    confidence: 90,
+  },
+  {
+    id: 'telecom',
+    pattern: 'at&t|verizon|t-mobile|\\bsprint\\b|comcast|xfinity|spectrum|\\binternet\\b|\\bphone\\b|\\bcable\\b',
+    category: 'Utilities',
+    confidence: 90,
+  },
+  {
+    id: 'groceries',
+    pattern: 'walmart|\\btarget\\b|costco|kroger|safeway|whole foods|publix|trader joe|\\baldi\\b|food lion',
+    category: 'Groceries',
+    confidence: 85,
+  },
+  {
+    id: 'fuel',
+    pattern: '\\bshell\\b|chevron|exxon|\\bbp\\b|\\bgas station|\\bgas\\b|\\bfuel\\b|marathon petro|speedway|circle k',
+    category: 'Transportation',
+    confidence: 85,
+  },
+  {
+    id: 'rideshare-transit',
+    pattern: '\\buber\\b|\\blyft\\b|\\btaxi\\b|\\btransit\\b|\\bparking\\b',
+    category: 'Transportation',
+    confidence: 85,
+  },
+  {
+    id: 'auto-service',
+    pattern: 'auto shop|auto repair|mechanic|jiffy lube|oil change|car wash|\\btires?\\b',
+    category: 'Transportation',
+    confidence: 80,
+  },
+  {
+    id: 'restaurants',
+    pattern: 'restaurant|pizza|burger|\\bfood\\b|dining|\\bgrill\\b|kitchen|bistro',
+    category: 'Dining & Restaurants',
+    confidence: 75,
+  },
+  {
+    id: 'online-shopping',
+    pattern: 'amazon|\\bamzn\\b|\\bebay\\b|\\betsy\\b|\\bapple\\b',
+    category: 'Shopping',
+    confidence: 80,
+  },
+  // Before healthcare, so "health club" is a gym
+  {
+    id: 'fitness',
+    pattern: '\\bgym\\b|fitness|\\byoga\\b|crossfit|health club',
+    category: 'Personal Care',
+    confidence: 85,
+  },
+  {
+    id: 'healthcare',
+    pattern: 'pharmacy|\\bcvs\\b|walgreens|doctor|hospital|medical|\\bclinic\\b|dental|\\bhealth\\b',
+    category: 'Healthcare',
+    confidence: 85,
+  },
+  {
+    id: 'charity',
+    pattern: 'charity|donation|young life|church|nonprofit|red cross|united way',
+    category: 'Gifts & Donations',
+    confidence: 80,
+  },
+];
@@ -107,6 +107,22 @@ export const cache = {
     }
   },
 
+  /**
+   * Delete all keys matching a glob-style pattern
+   */
+  async delPattern(pattern: string): Promise<void> {
+    try {
+      const client = await getRedisClient();
+      for await (const keys of client.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+        if (keys.length > 0) {
+          await client.del(keys);
+        }
+      }
+    } catch (error) {
+      console.error(`Cache delete error for pattern ${pattern}:`, error);
+    }
+  },
+
   /**
    * Check if key exists in cache
    */
@@ -8,10 +8,20 @@ import logger, { stream } from './utils/logger';
 import { validateEnvironment } from './utils/validateEnv';
 import authRoutes from './routes/authRoutes';
 import plaidRoutes from './routes/plaidRoutes';
+import accountRoutes from './routes/accountRoutes';
 import transactionRoutes from './routes/transactionRoutes';
 import budgetRoutes from './routes/budgetRoutes';
 import fraudRoutes from './routes/fraudRoutes';
 import reportRoutes from './routes/reportRoutes';
+import transferRoutes from './routes/transferRoutes';
+import recurringRoutes from './routes/recurringRoutes';
+import envelopeRoutes from './routes/envelopeRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import goalRoutes from './routes/goalRoutes';
+import merchantRoutes from './routes/merchantRoutes';
+import categorizationRuleRoutes from './routes/categorizationRuleRoutes';
+import merchantPatternRoutes from './routes/merchantPatternRoutes';
 import { sessionTimeout } from './middleware/authMiddleware';
 import { apiRateLimiter } from './middleware/rateLimitMiddleware';
 import { errorHandler, notFoundHandler } from './middleware/errorMiddleware';
@@ -77,10 +87,20 @@ app.use('/api', sessionTimeout);
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/plaid', plaidRoutes);
+app.use('/api/accounts', accountRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/budgets', budgetRoutes);
 app.use('/api/fraud', fraudRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/recurring', recurringRoutes);
+app.use('/api/envelopes', envelopeRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/goals', goalRoutes);
+app.use('/api/merchants', merchantRoutes);
+app.use('/api/categorization-rules', categorizationRuleRoutes);
+app.use('/api/admin/merchant-patterns', merchantPatternRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -85,6 +85,25 @@ export const optionalAuth = async (
   next();
 };
 
+/**
+ * Middleware to restrict a route to admins, listed by user ID in the
+ * comma-separated ADMIN_USER_IDS environment variable. Emails are not used, as
+ * they are not verified. Use after authenticateToken.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminUserIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+
+  if (!req.user || !adminUserIds.includes(req.user.userId)) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Session timeout tracking middleware
  * Tracks last activity time and enforces 15-minute timeout
@@ -1,15 +1,24 @@
-import { Budget as PrismaBudget } from '@prisma/client';
+import { Budget as PrismaBudget, BudgetPeriod as PrismaBudgetPeriod } from '@prisma/client';
 
 export type BudgetPeriod = 'monthly' | 'quarterly' | 'annual';
 
+const PERIOD_MONTHS: Record<BudgetPeriod, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
 export interface CreateBudgetInput {
   userId: string;
   categoryId: string;
   amount: number;
   period: BudgetPeriod;
+  isRecurring?: boolean;
   startDate: Date;
-  endDate: Date;
+  endDate?: Date; // Optional for recurring budgets
   alertThreshold?: number;
+  rollover?: boolean;
+  rolloverCap?: number | null;
 }
 
 export interface BudgetResponse {
@@ -19,14 +28,26 @@ export interface BudgetResponse {
   categoryName?: string;
   amount: number;
   period: string;
+  isRecurring: boolean;
   startDate: Date;
-  endDate: Date;
+  endDate?: Date;
+  currentPeriod?: BudgetPeriodResponse; // Recurring budgets only
   alertThreshold: number;
+  rollover: boolean;
+  rolloverCap?: number;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface BudgetPeriodResponse {
+  id: string;
+  budgetId: string;
+  startDate: Date;
+  endDate: Date;
+  amount: number;
+}
+
 export class BudgetModel {
   /**
    * Validate budget period
@@ -43,6 +64,13 @@ export class BudgetModel {
     return threshold > 0 && threshold <= 100;
   }
 
+  /**
+   * Validate rollover cap (null means no cap)
+   */
+  static validateRolloverCap(cap: number | null): boolean {
+    return cap === null || (!isNaN(cap) && cap >= 0);
+  }
+
   /**
    * Validate date range
    */
@@ -72,9 +100,9 @@ export class BudgetModel {
       errors.push('Period must be monthly, quarterly, or annual');
     }
 
-    if (!input.startDate || !input.endDate) {
+    if (!input.startDate || (!input.endDate && !input.isRecurring)) {
       errors.push('Start date and end date are required');
-    } else if (!this.validateDateRange(input.startDate, input.endDate)) {
+    } else if (input.endDate && !this.validateDateRange(input.startDate, input.endDate)) {
       errors.push('End date must be after start date');
     }
 
@@ -82,13 +110,72 @@ export class BudgetModel {
       errors.push('Alert threshold must be between 1 and 100');
     }
 
+    if (input.rolloverCap !== undefined && !this.validateRolloverCap(input.rolloverCap)) {
+      errors.push('Rollover cap must be 0 or greater');
+    }
+
     return { valid: errors.length === 0, errors };
   }
 
+  /**
+   * Get the bounds of the nth period of a recurring budget. Periods start on the
+   * same day of the month as the budget (clamped to shorter months) and end one
+   * millisecond before the next period starts.
+   */
+  static getPeriodBounds(anchor: Date, period: BudgetPeriod, index: number): { startDate: Date; endDate: Date } {
+    const months = PERIOD_MONTHS[period];
+    return {
+      startDate: this.addMonths(anchor, months * index),
+      endDate: new Date(this.addMonths(anchor, months * (index + 1)).getTime() - 1),
+    };
+  }
+
+  /**
+   * Get the index of the period containing a date (negative before the first period)
+   */
+  static getPeriodIndex(anchor: Date, period: BudgetPeriod, date: Date): number {
+    const months = PERIOD_MONTHS[period];
+    const monthsApart =
+      (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (date.getUTCMonth() - anchor.getUTCMonth());
+    let index = Math.floor(monthsApart / months);
+
+    // The estimate can be one period off around the anchor day of the month
+    while (this.getPeriodBounds(anchor, period, index).startDate > date) index--;
+    while (this.getPeriodBounds(anchor, period, index).endDate < date) index++;
+
+    return index;
+  }
+
+  private static addMonths(date: Date, months: number): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const result = new Date(date);
+    result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDay));
+    return result;
+  }
+
+  /**
+   * Convert Prisma BudgetPeriod to response format
+   */
+  static toPeriodResponse(period: PrismaBudgetPeriod): BudgetPeriodResponse {
+    return {
+      id: period.id,
+      budgetId: period.budgetId,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      amount: Number(period.amount),
+    };
+  }
+
   /**
    * Convert Prisma Budget to response format
    */
-  static toResponse(budget: PrismaBudget, categoryName?: string): BudgetResponse {
+  static toResponse(
+    budget: PrismaBudget,
+    categoryName?: string,
+    currentPeriod?: PrismaBudgetPeriod
+  ): BudgetResponse {
     return {
       id: budget.id,
       userId: budget.userId,
@@ -96,9 +183,13 @@ export class BudgetModel {
       categoryName: categoryName,
       amount: Number(budget.amount),
       period: budget.period,
+      isRecurring: budget.isRecurring,
       startDate: budget.startDate,
-      endDate: budget.endDate,
+      endDate: budget.endDate || undefined,
+      currentPeriod: currentPeriod ? this.toPeriodResponse(currentPeriod) : undefined,
       alertThreshold: budget.alertThreshold,
+      rollover: budget.rollover,
+      rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : undefined,
       isActive: budget.isActive,
       createdAt: budget.createdAt,
       updatedAt: budget.updatedAt,
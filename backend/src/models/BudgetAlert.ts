@@ -0,0 +1,45 @@
+import { BudgetAlert as PrismaBudgetAlert } from '@prisma/client';
+
+// Levels past the budget's own alert threshold that are always reported
+const FIXED_THRESHOLDS = [100, 120];
+
+export interface BudgetAlertResponse {
+  id: string;
+  userId: string;
+  budgetId: string;
+  categoryName?: string;
+  periodStartDate: Date;
+  threshold: number;
+  percentageUsed: number;
+  spending: number;
+  availableAmount: number;
+  createdAt: Date;
+}
+
+export class BudgetAlertModel {
+  /**
+   * Thresholds a budget is checked against: its own alert threshold, then
+   * reaching and exceeding the budget
+   */
+  static getThresholds(alertThreshold: number): number[] {
+    return Array.from(new Set([alertThreshold, ...FIXED_THRESHOLDS])).sort((a, b) => a - b);
+  }
+
+  /**
+   * Convert Prisma BudgetAlert to response format
+   */
+  static toResponse(alert: PrismaBudgetAlert, categoryName?: string): BudgetAlertResponse {
+    return {
+      id: alert.id,
+      userId: alert.userId,
+      budgetId: alert.budgetId,
+      categoryName,
+      periodStartDate: alert.periodStartDate,
+      threshold: alert.threshold,
+      percentageUsed: Number(alert.percentageUsed),
+      spending: Number(alert.spending),
+      availableAmount: Number(alert.availableAmount),
+      createdAt: alert.createdAt,
+    };
+  }
+}
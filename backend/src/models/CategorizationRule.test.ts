@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CategorizationRuleModel } from './CategorizationRule';
+
+describe('CategorizationRuleModel.validatePattern', () => {
+  it('accepts ordinary merchant patterns', () => {
+    for (const pattern of [
+      'starbucks',
+      'netflix|spotify',
+      '^amzn mktp',
+      'shell\\s+oil',
+      '(uber|lyft) trip',
+      '[a-z]+ coffee',
+    ]) {
+      expect(CategorizationRuleModel.validatePattern(pattern)).toEqual({ valid: true });
+    }
+  });
+
+  it('refuses invalid regexes', () => {
+    expect(CategorizationRuleModel.validatePattern('(unclosed').valid).toBe(false);
+  });
+
+  it('refuses patterns over the length limit', () => {
+    expect(CategorizationRuleModel.validatePattern('a'.repeat(201)).valid).toBe(false);
+  });
+
+  it('refuses repeated groups that repeat inside', () => {
+    for (const pattern of ['(a+)+', '(\\w*x)*', '((ab)*c)+', '(a{2,})*']) {
+      expect(CategorizationRuleModel.validatePattern(pattern).valid).toBe(false);
+    }
+  });
+
+  it('refuses repeated groups with alternatives', () => {
+    for (const pattern of ['(a|a)*b', '(a|aa)+$', '(\\w|\\d)+x', '((a|b)c)+', '(?:x|y){2,}']) {
+      expect(CategorizationRuleModel.validatePattern(pattern).valid).toBe(false);
+    }
+  });
+
+  it('ignores repeats and pipes that are escaped or in a character class', () => {
+    for (const pattern of ['(a\\+)+', '([+|*])+', '(disney\\+)']) {
+      expect(CategorizationRuleModel.validatePattern(pattern)).toEqual({ valid: true });
+    }
+  });
+});
+
+describe('CategorizationRuleModel.matchesMerchant', () => {
+  it('matches case-insensitively', () => {
+    expect(CategorizationRuleModel.matchesMerchant('starbucks', 'STARBUCKS #123')).toBe(true);
+    expect(CategorizationRuleModel.matchesMerchant('starbucks', 'Peets')).toBe(false);
+  });
+
+  it('never runs stored patterns that could backtrack catastrophically', () => {
+    const started = Date.now();
+    expect(CategorizationRuleModel.matchesMerchant('(a|a)*b', 'a'.repeat(28) + '!')).toBe(false);
+    expect(CategorizationRuleModel.matchesMerchant('(a+)+$', 'a'.repeat(40) + '!')).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('treats invalid patterns as no match', () => {
+    expect(CategorizationRuleModel.matchesMerchant('(unclosed', 'unclosed')).toBe(false);
+  });
+});
+
+describe('CategorizationRuleModel.matchesDayOfMonth', () => {
+  it('matches days inside a plain range', () => {
+    expect(CategorizationRuleModel.matchesDayOfMonth(10, 20, 10)).toBe(true);
+    expect(CategorizationRuleModel.matchesDayOfMonth(10, 20, 20)).toBe(true);
+    expect(CategorizationRuleModel.matchesDayOfMonth(10, 20, 21)).toBe(false);
+  });
+
+  it('wraps past the end of the month', () => {
+    expect(CategorizationRuleModel.matchesDayOfMonth(28, 3, 30)).toBe(true);
+    expect(CategorizationRuleModel.matchesDayOfMonth(28, 3, 2)).toBe(true);
+    expect(CategorizationRuleModel.matchesDayOfMonth(28, 3, 15)).toBe(false);
+  });
+});
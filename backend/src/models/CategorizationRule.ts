@@ -1,59 +1,255 @@
-import { CategorizationRule as PrismaCategorizationRule } from '@prisma/client';
+import {
+  CategorizationRule as PrismaCategorizationRule,
+  Category as PrismaCategory,
+  Merchant as PrismaMerchant,
+} from '@prisma/client';
 
-export interface CreateCategorizationRuleInput {
+export type RuleDirection = 'inflow' | 'outflow';
+
+// Longest merchant pattern a user or admin can save
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * What a rule matches. A rule matches a transaction when every condition it
+ * sets holds.
+ */
+export interface RuleConditions {
+  merchantPattern?: string; // Regex on the merchant name
+  merchantId?: string; // Canonical merchant, instead of the pattern
+  minAmount?: number; // Absolute amount
+  maxAmount?: number;
+  accountId?: string;
+  keywords?: string[]; // Any of these in the description
+  dayOfMonthFrom?: number;
+  dayOfMonthTo?: number; // Lower than dayOfMonthFrom to wrap past the end of the month
+  direction?: RuleDirection;
+}
+
+/**
+ * What a rule does to the transactions it matches
+ */
+export interface RuleActions {
+  categoryId?: string;
+  tags?: string[]; // Added to the transaction's tags
+  renameMerchantTo?: string;
+  markAsTransfer?: boolean;
+}
+
+export interface CreateCategorizationRuleInput extends RuleConditions, RuleActions {
   userId: string;
-  merchantPattern: string;
-  categoryId: string;
   priority?: number;
   learnedFromUser?: boolean;
 }
 
-export interface CategorizationRuleResponse {
+// Fields left out stay as they are; null clears a condition or action
+export type UpdateCategorizationRuleInput = {
+  [K in keyof (RuleConditions & RuleActions)]?: (RuleConditions & RuleActions)[K] | null;
+};
+
+export interface CategorizationRuleResponse extends RuleConditions, RuleActions {
   id: string;
   userId: string;
-  merchantPattern: string;
-  categoryId: string;
+  merchantName?: string;
+  categoryName?: string;
+  keywords: string[];
+  tags: string[];
+  markAsTransfer: boolean;
   priority: number;
   learnedFromUser: boolean;
   createdAt: Date;
 }
 
+export interface RuleTestResult {
+  matchCount: number;
+  transactions: Array<{
+    id: string;
+    date: Date;
+    amount: number;
+    merchantName?: string;
+    description: string;
+    categoryId?: string;
+  }>; // Most recent matches
+}
+
 export class CategorizationRuleModel {
   /**
-   * Validate regex pattern
+   * Validate regex pattern. Patterns run against every transaction, so long
+   * ones and ones that can backtrack catastrophically are refused.
    */
   static validatePattern(pattern: string): { valid: boolean; error?: string } {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return { valid: false, error: `Pattern must be at most ${MAX_PATTERN_LENGTH} characters` };
+    }
+
     try {
       new RegExp(pattern);
-      return { valid: true };
     } catch (error) {
       return { valid: false, error: 'Invalid regex pattern' };
     }
+
+    if (this.hasAmbiguousRepeat(pattern)) {
+      return {
+        valid: false,
+        error: 'Pattern cannot repeat a group that itself repeats or has alternatives, such as (a+)+ or (a|aa)+',
+      };
+    }
+
+    return { valid: true };
   }
 
   /**
-   * Validate create input
+   * Whether a pattern repeats a group that contains a repeat or an
+   * alternation, like (a+)+, (\w*x)* or (a|aa)+. The regex engine can try
+   * exponentially many ways to match those on a near-miss.
    */
-  static validateCreateInput(input: CreateCategorizationRuleInput): { valid: boolean; errors: string[] } {
+  private static hasAmbiguousRepeat(pattern: string): boolean {
+    const repeatsAt = (index: number) =>
+      pattern[index] === '*' || pattern[index] === '+' || /^\{\d+(,\d*)?\}/.test(pattern.slice(index));
+
+    // For each open group, whether anything inside it repeats or branches
+    const groups: boolean[] = [];
+    let inClass = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '\\') {
+        i++;
+      } else if (inClass) {
+        inClass = char !== ']';
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === '(') {
+        groups.push(false);
+      } else if (char === ')') {
+        const innerAmbiguous = groups.pop() ?? false;
+        if (innerAmbiguous && repeatsAt(i + 1)) return true;
+        if (innerAmbiguous && groups.length > 0) groups[groups.length - 1] = true;
+      } else if (groups.length > 0 && (char === '|' || repeatsAt(i))) {
+        groups[groups.length - 1] = true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Validate direction
+   */
+  static validateDirection(direction: string): boolean {
+    const validDirections: RuleDirection[] = ['inflow', 'outflow'];
+    return validDirections.includes(direction as RuleDirection);
+  }
+
+  /**
+   * Validate a rule's conditions; a rule needs at least one
+   */
+  static validateConditions(conditions: RuleConditions): string[] {
     const errors: string[] = [];
 
-    if (!input.userId || input.userId.trim().length === 0) {
-      errors.push('User ID is required');
+    if (conditions.merchantPattern !== undefined) {
+      if (conditions.merchantPattern.trim().length === 0) {
+        errors.push('Merchant pattern cannot be empty');
+      } else {
+        const patternValidation = this.validatePattern(conditions.merchantPattern);
+        if (!patternValidation.valid) {
+          errors.push(patternValidation.error!);
+        }
+      }
+    }
+
+    for (const [field, amount] of [
+      ['Minimum amount', conditions.minAmount],
+      ['Maximum amount', conditions.maxAmount],
+    ] as const) {
+      if (amount !== undefined && (isNaN(amount) || amount < 0)) {
+        errors.push(`${field} must be zero or more`);
+      }
+    }
+
+    if (
+      conditions.minAmount !== undefined &&
+      conditions.maxAmount !== undefined &&
+      conditions.minAmount > conditions.maxAmount
+    ) {
+      errors.push('Minimum amount cannot be more than maximum amount');
+    }
+
+    if (conditions.keywords?.some((keyword) => keyword.trim().length === 0)) {
+      errors.push('Keywords cannot be empty');
     }
 
-    if (!input.merchantPattern || input.merchantPattern.trim().length === 0) {
-      errors.push('Merchant pattern is required');
-    } else {
-      const patternValidation = this.validatePattern(input.merchantPattern);
-      if (!patternValidation.valid) {
-        errors.push(patternValidation.error!);
+    for (const [field, day] of [
+      ['Day of month from', conditions.dayOfMonthFrom],
+      ['Day of month to', conditions.dayOfMonthTo],
+    ] as const) {
+      if (day !== undefined && (!Number.isInteger(day) || day < 1 || day > 31)) {
+        errors.push(`${field} must be between 1 and 31`);
       }
     }
 
-    if (!input.categoryId || input.categoryId.trim().length === 0) {
-      errors.push('Category ID is required');
+    if ((conditions.dayOfMonthFrom === undefined) !== (conditions.dayOfMonthTo === undefined)) {
+      errors.push('Day of month needs both from and to');
     }
 
+    if (conditions.direction !== undefined && !this.validateDirection(conditions.direction)) {
+      errors.push('Direction must be inflow or outflow');
+    }
+
+    const hasCondition =
+      conditions.merchantPattern !== undefined ||
+      conditions.merchantId !== undefined ||
+      conditions.minAmount !== undefined ||
+      conditions.maxAmount !== undefined ||
+      conditions.accountId !== undefined ||
+      (conditions.keywords?.length ?? 0) > 0 ||
+      conditions.dayOfMonthFrom !== undefined ||
+      conditions.direction !== undefined;
+    if (!hasCondition) {
+      errors.push('At least one condition is required');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a rule's actions; a rule needs at least one
+   */
+  static validateActions(actions: RuleActions): string[] {
+    const errors: string[] = [];
+
+    if (actions.tags?.some((tag) => tag.trim().length === 0)) {
+      errors.push('Tags cannot be empty');
+    }
+
+    if (actions.renameMerchantTo !== undefined && actions.renameMerchantTo.trim().length === 0) {
+      errors.push('New merchant name cannot be empty');
+    }
+
+    const hasAction =
+      actions.categoryId !== undefined ||
+      (actions.tags?.length ?? 0) > 0 ||
+      actions.renameMerchantTo !== undefined ||
+      actions.markAsTransfer === true;
+    if (!hasAction) {
+      errors.push('At least one action is required');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate create input
+   */
+  static validateCreateInput(input: CreateCategorizationRuleInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!input.userId || input.userId.trim().length === 0) {
+      errors.push('User ID is required');
+    }
+
+    errors.push(...this.validateConditions(input), ...this.validateActions(input));
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -61,6 +257,9 @@ export class CategorizationRuleModel {
    * Test if a merchant name matches the pattern
    */
   static matchesMerchant(pattern: string, merchantName: string): boolean {
+    // Rules saved before patterns were checked for ambiguous repeats never match
+    if (this.hasAmbiguousRepeat(pattern)) return false;
+
     try {
       const regex = new RegExp(pattern, 'i'); // Case-insensitive
       return regex.test(merchantName);
@@ -69,15 +268,50 @@ export class CategorizationRuleModel {
     }
   }
 
+  /**
+   * Test if a day of the month falls in a rule's range, which may wrap past
+   * the end of the month (28 to 3)
+   */
+  static matchesDayOfMonth(from: number, to: number, day: number): boolean {
+    return from <= to ? day >= from && day <= to : day >= from || day <= to;
+  }
+
+  /**
+   * Conditions and actions of a stored rule, with unset ones left out
+   */
+  static toInput(rule: PrismaCategorizationRule): RuleConditions & RuleActions {
+    return {
+      merchantPattern: rule.merchantPattern ?? undefined,
+      merchantId: rule.merchantId ?? undefined,
+      minAmount: rule.minAmount !== null ? Number(rule.minAmount) : undefined,
+      maxAmount: rule.maxAmount !== null ? Number(rule.maxAmount) : undefined,
+      accountId: rule.accountId ?? undefined,
+      keywords: rule.keywords,
+      dayOfMonthFrom: rule.dayOfMonthFrom ?? undefined,
+      dayOfMonthTo: rule.dayOfMonthTo ?? undefined,
+      direction: (rule.direction as RuleDirection | null) ?? undefined,
+      categoryId: rule.categoryId ?? undefined,
+      tags: rule.tags,
+      renameMerchantTo: rule.renameMerchantTo ?? undefined,
+      markAsTransfer: rule.markAsTransfer,
+    };
+  }
+
   /**
    * Convert Prisma CategorizationRule to response format
    */
-  static toResponse(rule: PrismaCategorizationRule): CategorizationRuleResponse {
+  static toResponse(
+    rule: PrismaCategorizationRule & { category?: PrismaCategory | null; merchant?: PrismaMerchant | null }
+  ): CategorizationRuleResponse {
     return {
       id: rule.id,
       userId: rule.userId,
-      merchantPattern: rule.merchantPattern,
-      categoryId: rule.categoryId,
+      ...this.toInput(rule),
+      merchantName: rule.merchant?.name,
+      categoryName: rule.category?.name,
+      keywords: rule.keywords,
+      tags: rule.tags,
+      markAsTransfer: rule.markAsTransfer,
       priority: rule.priority,
       learnedFromUser: rule.learnedFromUser,
       createdAt: rule.createdAt,
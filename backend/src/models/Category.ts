@@ -1,11 +1,16 @@
 import { Category as PrismaCategory } from '@prisma/client';
 
+// Income categories hold money coming in; everything else is spending, where
+// an inflow (negative Plaid amount) is a refund that reduces the category.
+export type CategoryGroup = 'expense' | 'income';
+
 export interface CreateCategoryInput {
   userId?: string;
   name: string;
   icon: string;
   color: string;
   parentCategoryId?: string;
+  group?: CategoryGroup;
   isSystem?: boolean;
 }
 
@@ -16,6 +21,7 @@ export interface CategoryResponse {
   icon: string;
   color: string;
   parentCategoryId?: string;
+  group: CategoryGroup;
   isSystem: boolean;
   createdAt: Date;
 }
@@ -29,6 +35,14 @@ export class CategoryModel {
     return hexColorRegex.test(color);
   }
 
+  /**
+   * Validate category group
+   */
+  static validateGroup(group: string): boolean {
+    const validGroups: CategoryGroup[] = ['expense', 'income'];
+    return validGroups.includes(group as CategoryGroup);
+  }
+
   /**
    * Validate create input
    */
@@ -47,6 +61,10 @@ export class CategoryModel {
       errors.push('Valid hex color is required (e.g., #FF5733)');
     }
 
+    if (input.group !== undefined && !this.validateGroup(input.group)) {
+      errors.push('Category group must be expense or income');
+    }
+
     return { valid: errors.length === 0, errors };
   }
 
@@ -61,6 +79,7 @@ export class CategoryModel {
       icon: category.icon,
       color: category.color,
       parentCategoryId: category.parentCategoryId || undefined,
+      group: category.group as CategoryGroup,
       isSystem: category.isSystem,
       createdAt: category.createdAt,
     };
@@ -0,0 +1,118 @@
+import { EnvelopeMove as PrismaEnvelopeMove } from '@prisma/client';
+
+export interface EnvelopeResponse {
+  categoryId: string;
+  categoryName: string;
+  assigned: number;
+  spent: number; // Net of refunds
+  available: number; // Assigned minus spent; negative when overspent
+  isOverspent: boolean;
+}
+
+export interface EnvelopePlanResponse {
+  id?: string; // Unset until the month is first planned
+  month: string; // YYYY-MM
+  expectedIncome: number;
+  actualIncome: number;
+  totalAssigned: number;
+  totalSpent: number; // Includes uncategorized spending
+  uncategorizedSpent: number; // Spending with no category, so in no envelope
+  leftToAssign: number; // Expected income not yet given to an envelope; negative when over-assigned
+  envelopes: EnvelopeResponse[];
+}
+
+export interface EnvelopeMoveInput {
+  fromCategoryId?: string | null; // Omitted or null = take from "left to assign"
+  toCategoryId?: string | null; // Omitted or null = return to "left to assign"
+  amount: number;
+  note?: string;
+}
+
+export interface EnvelopeMoveResponse {
+  id: string;
+  planId: string;
+  fromCategoryId?: string;
+  fromCategoryName?: string;
+  toCategoryId?: string;
+  toCategoryName?: string;
+  amount: number;
+  note?: string;
+  createdAt: Date;
+}
+
+export class EnvelopePlanModel {
+  /**
+   * Parse a YYYY-MM month into the first day of that month (UTC), or null if invalid
+   */
+  static parseMonth(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})$/.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const month = parseInt(match[2], 10);
+    if (month < 1 || month > 12) {
+      return null;
+    }
+
+    return new Date(Date.UTC(parseInt(match[1], 10), month - 1, 1));
+  }
+
+  /**
+   * Format the first day of a month as YYYY-MM
+   */
+  static formatMonth(month: Date): string {
+    return month.toISOString().slice(0, 7);
+  }
+
+  /**
+   * Last moment of a month
+   */
+  static getMonthEnd(month: Date): Date {
+    return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1) - 1);
+  }
+
+  /**
+   * Validate a move between envelopes
+   */
+  static validateMoveInput(input: EnvelopeMoveInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (input.amount === undefined || input.amount === null || isNaN(input.amount) || input.amount <= 0) {
+      errors.push('Amount must be greater than 0');
+    }
+
+    if (!input.fromCategoryId && !input.toCategoryId) {
+      errors.push('A source or destination envelope is required');
+    } else if (input.fromCategoryId === input.toCategoryId) {
+      errors.push('Source and destination envelopes must be different');
+    }
+
+    if (input.note && input.note.length > 500) {
+      errors.push('Note must be 500 characters or less');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Convert Prisma EnvelopeMove to response format
+   */
+  static toMoveResponse(
+    move: PrismaEnvelopeMove,
+    fromCategoryName?: string,
+    toCategoryName?: string
+  ): EnvelopeMoveResponse {
+    return {
+      id: move.id,
+      planId: move.planId,
+      fromCategoryId: move.fromCategoryId || undefined,
+      fromCategoryName,
+      toCategoryId: move.toCategoryId || undefined,
+      toCategoryName,
+      amount: Number(move.amount),
+      note: move.note || undefined,
+      createdAt: move.createdAt,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { GoalContribution as PrismaGoalContribution } from '@prisma/client';
+
+export type GoalContributionSource = 'manual' | 'account';
+
+// Account types whose balance can be saved toward a goal
+export const GOAL_ACCOUNT_TYPES = ['depository', 'investment'];
+
+export interface CreateGoalInput {
+  userId: string;
+  name: string;
+  targetAmount: number;
+  targetDate?: Date | null;
+  accountIds?: string[];
+}
+
+export interface UpdateGoalInput {
+  name?: string;
+  targetAmount?: number;
+  targetDate?: Date | null;
+  accountIds?: string[];
+}
+
+export interface GoalContributionInput {
+  amount: number; // Negative to record a withdrawal
+  date?: Date;
+  note?: string;
+}
+
+export interface GoalAccountResponse {
+  accountId: string;
+  accountName: string;
+  currentBalance: number;
+}
+
+export interface GoalResponse {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate?: Date;
+  accounts: GoalAccountResponse[];
+  contributedAmount: number; // Sum of manual contributions
+  linkedBalance: number; // Current balance of linked accounts
+  currentAmount: number;
+  remainingAmount: number;
+  percentComplete: number;
+  isComplete: boolean;
+  monthlyPace: number; // Average net contribution per month recently
+  projectedCompletionDate?: Date; // Unset when the goal is not growing
+  requiredMonthly?: number; // Needed per month to finish by the target date
+  isOnTrack?: boolean; // Only set when there is a target date
+  createdAt: Date;
+}
+
+export interface GoalContributionResponse {
+  id: string;
+  goalId: string;
+  amount: number;
+  date: Date;
+  source: string;
+  note?: string;
+  createdAt: Date;
+}
+
+export class GoalModel {
+  /**
+   * Validate goal fields that are present
+   */
+  static validateInput(input: UpdateGoalInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (input.name !== undefined && (!input.name || input.name.trim().length === 0)) {
+      errors.push('Name is required');
+    } else if (input.name && input.name.length > 100) {
+      errors.push('Name must be 100 characters or fewer');
+    }
+
+    if (input.targetAmount !== undefined && (isNaN(input.targetAmount) || input.targetAmount <= 0)) {
+      errors.push('Target amount must be a positive number');
+    }
+
+    if (input.targetDate && isNaN(input.targetDate.getTime())) {
+      errors.push('Invalid target date');
+    }
+
+    if (input.accountIds !== undefined && !Array.isArray(input.accountIds)) {
+      errors.push('Account IDs must be a list');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validate a manual contribution
+   */
+  static validateContribution(input: GoalContributionInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (input.amount === undefined || isNaN(input.amount) || input.amount === 0) {
+      errors.push('Amount must be a non-zero number');
+    }
+
+    if (input.date && isNaN(input.date.getTime())) {
+      errors.push('Invalid date');
+    }
+
+    if (input.note && input.note.length > 200) {
+      errors.push('Note must be 200 characters or fewer');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Convert Prisma GoalContribution to response format
+   */
+  static toContributionResponse(contribution: PrismaGoalContribution): GoalContributionResponse {
+    return {
+      id: contribution.id,
+      goalId: contribution.goalId,
+      amount: Number(contribution.amount),
+      date: contribution.date,
+      source: contribution.source,
+      note: contribution.note || undefined,
+      createdAt: contribution.createdAt,
+    };
+  }
+}
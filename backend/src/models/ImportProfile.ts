@@ -0,0 +1,142 @@
+import { ImportProfile as PrismaImportProfile } from '@prisma/client';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qfx';
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface ImportProfileInput {
+  delimiter?: string;
+  hasHeader?: boolean;
+  dateColumn: string;
+  dateFormat?: StatementDateFormat;
+  amountColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  descriptionColumn: string;
+  merchantColumn?: string;
+  invertAmounts?: boolean;
+}
+
+export interface ImportProfileResponse {
+  id: string;
+  accountId: string;
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: string;
+  dateFormat: StatementDateFormat;
+  amountColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  descriptionColumn: string;
+  merchantColumn?: string;
+  invertAmounts: boolean;
+  updatedAt: Date;
+}
+
+export class ImportProfileModel {
+  /**
+   * Validate statement format
+   */
+  static validateFormat(format: string): format is StatementFormat {
+    return ['csv', 'ofx', 'qfx'].includes(format);
+  }
+
+  /**
+   * Validate date format
+   */
+  static validateDateFormat(dateFormat: string): dateFormat is StatementDateFormat {
+    return ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'].includes(dateFormat);
+  }
+
+  /**
+   * Validate a column mapping
+   */
+  static validateInput(input: ImportProfileInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (typeof input !== 'object' || input === null) {
+      return { valid: false, errors: ['Column mapping must be an object'] };
+    }
+
+    // Request bodies are untyped, so check before calling string methods
+    for (const field of [
+      'delimiter',
+      'dateColumn',
+      'dateFormat',
+      'amountColumn',
+      'debitColumn',
+      'creditColumn',
+      'descriptionColumn',
+      'merchantColumn',
+    ] as const) {
+      if (input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+        errors.push(`${field} must be a string`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    if (!input.dateColumn || input.dateColumn.trim().length === 0) {
+      errors.push('Date column is required');
+    }
+
+    if (!input.descriptionColumn || input.descriptionColumn.trim().length === 0) {
+      errors.push('Description column is required');
+    }
+
+    if (!input.amountColumn && !input.debitColumn && !input.creditColumn) {
+      errors.push('Either an amount column or debit/credit columns are required');
+    }
+
+    if (input.dateFormat !== undefined && !this.validateDateFormat(input.dateFormat)) {
+      errors.push('Invalid date format');
+    }
+
+    if (input.delimiter !== undefined && input.delimiter.length !== 1) {
+      errors.push('Delimiter must be a single character');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Convert Prisma ImportProfile to a column mapping
+   */
+  static toInput(profile: PrismaImportProfile): ImportProfileInput {
+    return {
+      delimiter: profile.delimiter,
+      hasHeader: profile.hasHeader,
+      dateColumn: profile.dateColumn,
+      dateFormat: profile.dateFormat as StatementDateFormat,
+      amountColumn: profile.amountColumn || undefined,
+      debitColumn: profile.debitColumn || undefined,
+      creditColumn: profile.creditColumn || undefined,
+      descriptionColumn: profile.descriptionColumn,
+      merchantColumn: profile.merchantColumn || undefined,
+      invertAmounts: profile.invertAmounts,
+    };
+  }
+
+  /**
+   * Convert Prisma ImportProfile to response format
+   */
+  static toResponse(profile: PrismaImportProfile): ImportProfileResponse {
+    return {
+      id: profile.id,
+      accountId: profile.accountId,
+      delimiter: profile.delimiter,
+      hasHeader: profile.hasHeader,
+      dateColumn: profile.dateColumn,
+      dateFormat: profile.dateFormat as StatementDateFormat,
+      amountColumn: profile.amountColumn || undefined,
+      debitColumn: profile.debitColumn || undefined,
+      creditColumn: profile.creditColumn || undefined,
+      descriptionColumn: profile.descriptionColumn,
+      merchantColumn: profile.merchantColumn || undefined,
+      invertAmounts: profile.invertAmounts,
+      updatedAt: profile.updatedAt,
+    };
+  }
+}
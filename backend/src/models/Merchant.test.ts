@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { MerchantModel } from './Merchant';
+
+describe('MerchantModel.normalize', () => {
+  it('lower-cases and collapses whitespace', () => {
+    expect(MerchantModel.normalize('  Uber   Trip ')).toBe('uber trip');
+  });
+
+  it('drops card processor prefixes', () => {
+    expect(MerchantModel.normalize('SQ *BLUE BOTTLE 1234 OAKLAND CA')).toBe('blue bottle');
+    expect(MerchantModel.normalize('PAYPAL *SPOTIFY')).toBe('spotify');
+    expect(MerchantModel.normalize("TST* JOE'S PIZZA")).toBe("joe's pizza");
+  });
+
+  it('drops bank wording', () => {
+    expect(MerchantModel.normalize('POS DEBIT TARGET T-1234')).toBe('target');
+  });
+
+  it('drops reference codes after a star', () => {
+    expect(MerchantModel.normalize('AMZN MKTP US*2X3AB4')).toBe('amzn mktp');
+  });
+
+  it('drops domains, phone numbers and trailing regions', () => {
+    expect(MerchantModel.normalize('NETFLIX.COM 866-579-7172 CA')).toBe('netflix');
+  });
+
+  it('cuts at a store number and drops the location after it', () => {
+    expect(MerchantModel.normalize('WALMART SUPERCENTER 5678 US')).toBe('walmart supercenter');
+  });
+
+  it('gives variations of a merchant the same start', () => {
+    expect(
+      MerchantModel.normalize('Blue Bottle Coffee').startsWith(
+        MerchantModel.normalize('SQ *BLUE BOTTLE 1234')
+      )
+    ).toBe(true);
+  });
+});
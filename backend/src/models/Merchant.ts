@@ -0,0 +1,142 @@
+import { Merchant as PrismaMerchant, MerchantAlias as PrismaMerchantAlias } from '@prisma/client';
+
+// Card processors and wallets that put their own prefix in front of the merchant ("SQ *BLUE BOTTLE")
+const PROCESSOR_PREFIXES = [
+  'sq', 'sqsp', 'tst', 'sp', 'pp', 'paypal', 'ctlp', 'py', 'bt', 'ec', 'in', 'fs', 'gglpay', 'google',
+  'apl pay', 'applepay', 'dd', 'doordash', 'pos', 'ach', 'clover', 'lsp', 'zettle', 'sumup', 'wpy',
+];
+
+// Bank wording around card and ACH transactions
+const BANK_PREFIXES = [
+  /^purchase authorized on \d{1,2}\/\d{1,2}\s+/,
+  /^(pos|debit card|visa|card|checkcard|check card)\s+(purchase|debit|pmt|payment)?\s*(\d{4}\s+)?/,
+  /^checkcard\s+\d{4}\s+/,
+  /^(ach|electronic|recurring|preauthorized)\s+(debit|payment|pmt|withdrawal)\s+/,
+  /^(web|ppd|ccd|tel)\s+id:?\s*\S+\s+/,
+];
+
+// Two-letter state and province codes that trail card descriptions ("... SEATTLE WA")
+const REGION_CODES = new Set([
+  'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'dc', 'fl', 'ga', 'hi', 'id', 'il', 'ia', 'ks', 'ky',
+  'la', 'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh', 'nj', 'nm', 'ny', 'nc', 'nd',
+  'oh', 'ok', 'or', 'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut', 'vt', 'va', 'wa', 'wv', 'wi', 'wy',
+  'ab', 'bc', 'mb', 'nb', 'nl', 'ns', 'on', 'pe', 'qc', 'sk',
+]);
+
+const COUNTRY_SUFFIXES = new Set(['us', 'usa', 'ca', 'can', 'gb', 'uk']);
+
+// Words that introduce a store number ("STORE 1234", "NO. 55")
+const STORE_WORDS = new Set(['store', 'str', 'no', 'unit', 'loc', 'location']);
+
+export interface MerchantResponse {
+  id: string;
+  name: string;
+  aliases: MerchantAliasResponse[];
+  transactionCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MerchantAliasResponse {
+  id: string;
+  alias: string;
+  createdAt: Date;
+}
+
+export class MerchantModel {
+  /**
+   * Reduce a raw merchant name or bank description to the key its variations
+   * share: lower case, without processor and bank prefixes, reference codes,
+   * store numbers, phone numbers, domains and trailing locations.
+   * "SQ *BLUE BOTTLE 1234 OAKLAND CA" and "Blue Bottle Coffee" both start with
+   * "blue bottle"; the alias table joins what the normalizer cannot.
+   */
+  static normalize(raw: string): string {
+    let name = raw.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    for (const prefix of BANK_PREFIXES) {
+      name = name.replace(prefix, '');
+    }
+
+    // "SQ *BLUE BOTTLE", "TST* JOE'S", "PAYPAL *SPOTIFY"
+    const starred = name.match(/^([a-z ]{1,10}?)\s*\*\s*(.+)$/);
+    if (starred && PROCESSOR_PREFIXES.includes(starred[1].trim())) {
+      name = starred[2];
+    }
+
+    // Anything after a remaining '*' is an order or reference code ("AMZN MKTP US*2X3")
+    name = name.replace(/\s*\*.*$/, '');
+
+    name = name
+      .replace(/\b[a-z0-9-]+\.(com|net|org|io|co)(\/\S*)?/g, (domain) => domain.split('.')[0])
+      .replace(/\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/g, ' ') // Phone numbers
+      .replace(/(\S)\s*#.*$/, '$1') // "#1234 OAKLAND CA": a store number and its location
+      .replace(/#\s*\S+/g, ' ')
+      .replace(/[^a-z0-9&' -]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    // A store number ends the name: what follows is its location
+    const words = name.split(' ');
+    const cut = words.findIndex(
+      (word, index) => index > 0 && (/\d/.test(word) || (STORE_WORDS.has(word) && /\d/.test(words[index + 1] || '')))
+    );
+    const kept = cut > 0 ? words.slice(0, cut) : words;
+
+    // Trailing country and state codes
+    while (kept.length > 1 && COUNTRY_SUFFIXES.has(kept[kept.length - 1])) {
+      kept.pop();
+    }
+    if (kept.length > 2 && REGION_CODES.has(kept[kept.length - 1])) {
+      kept.pop();
+    }
+
+    return kept
+      .join(' ')
+      .replace(/^[-' ]+|[-' ]+$/g, '')
+      .trim();
+  }
+
+  /**
+   * Display name for a newly seen merchant, from its normalized key
+   */
+  static displayName(normalized: string): string {
+    return normalized.replace(/(^|[\s-])([a-z])/g, (_match, separator, letter) => separator + letter.toUpperCase());
+  }
+
+  /**
+   * Validate a merchant name set by the user
+   */
+  static validateName(name: string): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!name || name.trim().length === 0) {
+      errors.push('Name is required');
+    } else if (name.length > 100) {
+      errors.push('Name must be 100 characters or fewer');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Convert Prisma Merchant to response format
+   */
+  static toResponse(
+    merchant: PrismaMerchant & { aliases: PrismaMerchantAlias[] },
+    transactionCount?: number
+  ): MerchantResponse {
+    return {
+      id: merchant.id,
+      name: merchant.name,
+      aliases: merchant.aliases.map((alias) => ({
+        id: alias.id,
+        alias: alias.alias,
+        createdAt: alias.createdAt,
+      })),
+      transactionCount,
+      createdAt: merchant.createdAt,
+      updatedAt: merchant.updatedAt,
+    };
+  }
+}
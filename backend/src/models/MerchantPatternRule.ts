@@ -0,0 +1,280 @@
+import {
+  Category as PrismaCategory,
+  MerchantPatternRule as PrismaMerchantPatternRule,
+  MerchantPatternRuleVersion as PrismaMerchantPatternRuleVersion,
+} from '@prisma/client';
+import { CategorizationRuleModel } from './CategorizationRule';
+
+export interface CreateMerchantPatternRuleInput {
+  id: string;
+  pattern: string;
+  categoryId: string;
+  confidence: number;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export interface UpdateMerchantPatternRuleInput {
+  pattern?: string;
+  categoryId?: string;
+  confidence?: number;
+  priority?: number;
+  isActive?: boolean;
+}
+
+// What categorization needs from a rule
+export type ActiveMerchantPatternRule = Pick<PrismaMerchantPatternRule, 'id' | 'pattern' | 'categoryId' | 'confidence'>;
+
+export interface MerchantPatternRuleResponse {
+  id: string;
+  pattern: string;
+  categoryId: string;
+  categoryName?: string;
+  confidence: number;
+  priority: number;
+  isActive: boolean;
+  version: number;
+  builtInVersion?: number;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MerchantPatternRuleVersionResponse {
+  version: number;
+  pattern: string;
+  categoryId: string;
+  confidence: number;
+  priority: number;
+  isActive: boolean;
+  changedBy?: string;
+  createdAt: Date;
+}
+
+// A pattern rule as the evaluation harness sees it
+export interface PatternToEvaluate {
+  id: string;
+  pattern: string;
+  category: string;
+}
+
+export interface PatternEvaluationScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number; // Share of matches that picked the right category
+  recall: number; // Share of labeled merchants that got the right category
+}
+
+export interface PatternEvaluation extends PatternEvaluationScore {
+  fixtureCount: number;
+  categories: Array<PatternEvaluationScore & { category: string }>;
+  mistakes: Array<{
+    merchantName: string;
+    expected: string | null;
+    predicted: string | null;
+    ruleId?: string;
+  }>;
+}
+
+export class MerchantPatternRuleModel {
+  /**
+   * Validate a rule key: lowercase words joined by hyphens
+   */
+  static validateId(id: string): boolean {
+    return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(id);
+  }
+
+  /**
+   * Validate confidence score
+   */
+  static validateConfidence(confidence: number): boolean {
+    return Number.isInteger(confidence) && confidence >= 0 && confidence <= 100;
+  }
+
+  /**
+   * Validate the fields of a create or update input that are set
+   */
+  static validateInput(input: UpdateMerchantPatternRuleInput): string[] {
+    const errors: string[] = [];
+
+    if (input.pattern !== undefined) {
+      if (input.pattern.trim().length === 0) {
+        errors.push('Pattern is required');
+      } else {
+        const patternValidation = CategorizationRuleModel.validatePattern(input.pattern);
+        if (!patternValidation.valid) {
+          errors.push(patternValidation.error!);
+        }
+      }
+    }
+
+    if (input.categoryId !== undefined && input.categoryId.trim().length === 0) {
+      errors.push('Category ID is required');
+    }
+
+    if (input.confidence !== undefined && !this.validateConfidence(input.confidence)) {
+      errors.push('Confidence must be an integer between 0 and 100');
+    }
+
+    if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+      errors.push('Priority must be an integer');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate create input
+   */
+  static validateCreateInput(input: CreateMerchantPatternRuleInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!input.id || !this.validateId(input.id)) {
+      errors.push('ID must be lowercase letters, digits and hyphens');
+    }
+
+    if (input.pattern === undefined) {
+      errors.push('Pattern is required');
+    }
+
+    if (input.confidence === undefined) {
+      errors.push('Confidence is required');
+    }
+
+    errors.push(...this.validateInput(input));
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * First rule whose pattern matches any of the names. Rules must be ordered
+   * highest priority first; invalid patterns never match.
+   */
+  static findMatch<T extends { pattern: string }>(rules: T[], names: string[]): T | null {
+    return (
+      rules.find((rule) => names.some((name) => CategorizationRuleModel.matchesMerchant(rule.pattern, name))) ||
+      null
+    );
+  }
+
+  /**
+   * Score pattern rules (highest priority first) against labeled merchant
+   * names. A match with the wrong category counts against precision, and
+   * against recall when the merchant had a category; a miss counts against
+   * recall only.
+   */
+  static evaluate(
+    rules: PatternToEvaluate[],
+    fixtures: Array<{ merchantName: string; category: string | null }>
+  ): PatternEvaluation {
+    const byCategory = new Map<string, { truePositives: number; falsePositives: number; falseNegatives: number }>();
+    const countsFor = (category: string) => {
+      let counts = byCategory.get(category);
+      if (!counts) {
+        counts = { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+        byCategory.set(category, counts);
+      }
+      return counts;
+    };
+
+    const mistakes: PatternEvaluation['mistakes'] = [];
+
+    for (const fixture of fixtures) {
+      const match = this.findMatch(rules, [fixture.merchantName.toLowerCase()]);
+      const predicted = match?.category ?? null;
+
+      if (predicted === fixture.category) {
+        if (predicted !== null) countsFor(predicted).truePositives++;
+        continue;
+      }
+
+      if (predicted !== null) countsFor(predicted).falsePositives++;
+      if (fixture.category !== null) countsFor(fixture.category).falseNegatives++;
+      mistakes.push({
+        merchantName: fixture.merchantName,
+        expected: fixture.category,
+        predicted,
+        ruleId: match?.id,
+      });
+    }
+
+    const categories = Array.from(byCategory.entries())
+      .map(([category, counts]) => ({ category, ...this.score(counts) }))
+      .sort((a, b) => a.category.localeCompare(b.category));
+
+    const totals = categories.reduce(
+      (sum, category) => ({
+        truePositives: sum.truePositives + category.truePositives,
+        falsePositives: sum.falsePositives + category.falsePositives,
+        falseNegatives: sum.falseNegatives + category.falseNegatives,
+      }),
+      { truePositives: 0, falsePositives: 0, falseNegatives: 0 }
+    );
+
+    return {
+      fixtureCount: fixtures.length,
+      ...this.score(totals),
+      categories,
+      mistakes,
+    };
+  }
+
+  /**
+   * Precision and recall from match counts; 1 when there is nothing to get wrong
+   */
+  private static score(counts: {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+  }): PatternEvaluationScore {
+    const { truePositives, falsePositives, falseNegatives } = counts;
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    return {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: truePositives + falsePositives > 0 ? round(truePositives / (truePositives + falsePositives)) : 1,
+      recall: truePositives + falseNegatives > 0 ? round(truePositives / (truePositives + falseNegatives)) : 1,
+    };
+  }
+
+  /**
+   * Convert Prisma MerchantPatternRule to response format
+   */
+  static toResponse(
+    rule: PrismaMerchantPatternRule & { category?: PrismaCategory | null }
+  ): MerchantPatternRuleResponse {
+    return {
+      id: rule.id,
+      pattern: rule.pattern,
+      categoryId: rule.categoryId,
+      categoryName: rule.category?.name,
+      confidence: rule.confidence,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      version: rule.version,
+      builtInVersion: rule.builtInVersion ?? undefined,
+      updatedBy: rule.updatedBy || undefined,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+
+  /**
+   * Convert Prisma MerchantPatternRuleVersion to response format
+   */
+  static toVersionResponse(version: PrismaMerchantPatternRuleVersion): MerchantPatternRuleVersionResponse {
+    return {
+      version: version.version,
+      pattern: version.pattern,
+      categoryId: version.categoryId,
+      confidence: version.confidence,
+      priority: version.priority,
+      isActive: version.isActive,
+      changedBy: version.changedBy || undefined,
+      createdAt: version.createdAt,
+    };
+  }
+}
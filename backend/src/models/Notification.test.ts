@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationModel } from './Notification';
+
+const preference = (quietHoursStart?: string, quietHoursEnd?: string, timezone = 'UTC') => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  quietHoursStart,
+  quietHoursEnd,
+  timezone,
+});
+
+describe('NotificationModel.getQuietHoursEnd', () => {
+  it('is null without quiet hours', () => {
+    expect(
+      NotificationModel.getQuietHoursEnd(preference(), new Date('2026-03-10T23:00:00Z'))
+    ).toBeNull();
+  });
+
+  it('is null outside quiet hours', () => {
+    const at = new Date('2026-03-10T12:00:00Z');
+    expect(NotificationModel.getQuietHoursEnd(preference('09:00', '11:00'), at)).toBeNull();
+    expect(NotificationModel.getQuietHoursEnd(preference('22:00', '07:00'), at)).toBeNull();
+  });
+
+  it('returns the end of quiet hours on the same day', () => {
+    const at = new Date('2026-03-10T09:30:00Z');
+    expect(NotificationModel.getQuietHoursEnd(preference('09:00', '11:00'), at)).toEqual(
+      new Date('2026-03-10T11:00:00Z')
+    );
+  });
+
+  it('ends quiet hours at the end time, not on it', () => {
+    const at = new Date('2026-03-10T11:00:00Z');
+    expect(NotificationModel.getQuietHoursEnd(preference('09:00', '11:00'), at)).toBeNull();
+  });
+
+  it('spans midnight', () => {
+    expect(
+      NotificationModel.getQuietHoursEnd(
+        preference('22:00', '07:00'),
+        new Date('2026-03-10T23:15:00Z')
+      )
+    ).toEqual(new Date('2026-03-11T07:00:00Z'));
+    expect(
+      NotificationModel.getQuietHoursEnd(
+        preference('22:00', '07:00'),
+        new Date('2026-03-11T03:00:00Z')
+      )
+    ).toEqual(new Date('2026-03-11T07:00:00Z'));
+  });
+
+  it('reads quiet hours in the user time zone', () => {
+    // 03:00 UTC is 22:00 the previous evening in New York (UTC-5 in winter)
+    const at = new Date('2026-01-15T03:00:00Z');
+    expect(
+      NotificationModel.getQuietHoursEnd(preference('21:00', '07:00', 'America/New_York'), at)
+    ).toEqual(new Date('2026-01-15T12:00:00Z'));
+    expect(NotificationModel.getQuietHoursEnd(preference('21:00', '07:00'), at)).toEqual(
+      new Date('2026-01-15T07:00:00Z')
+    );
+  });
+
+  it('drops the seconds of the current minute', () => {
+    const at = new Date('2026-03-10T09:30:45.500Z');
+    expect(NotificationModel.getQuietHoursEnd(preference('09:00', '11:00'), at)).toEqual(
+      new Date('2026-03-10T11:00:00Z')
+    );
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  Notification as PrismaNotification,
+  NotificationDelivery as PrismaNotificationDelivery,
+  NotificationPreference as PrismaNotificationPreference,
+} from '@prisma/client';
+
+export type NotificationEventType = 'fraud_alert' | 'budget_threshold' | 'sync_failed' | 'recurring_charge';
+export type NotificationChannelName = 'email' | 'webhook' | 'in_app';
+export type NotificationDeliveryMode = 'immediate' | 'digest';
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface NotificationMessage {
+  eventType: NotificationEventType;
+  title: string;
+  body: string;
+  link?: string; // Frontend path to open, e.g. /transactions
+}
+
+export interface NotificationPreferenceInput {
+  emailEnabled?: boolean;
+  webhookEnabled?: boolean;
+  webhookUrl?: string | null;
+  inAppEnabled?: boolean;
+  deliveryMode?: NotificationDeliveryMode;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone?: string;
+}
+
+export interface NotificationPreferenceResponse {
+  emailEnabled: boolean;
+  webhookEnabled: boolean;
+  webhookUrl?: string;
+  webhookSecret?: string; // Only returned when the webhook URL is set or changed
+  inAppEnabled: boolean;
+  deliveryMode: string;
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
+  timezone: string;
+  lastDigestAt?: Date;
+}
+
+export interface NotificationResponse {
+  id: string;
+  eventType: string;
+  title: string;
+  body: string;
+  link?: string;
+  isRead: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export interface NotificationListResponse {
+  notifications: NotificationResponse[];
+  unreadCount: number;
+  unreadByType: Record<NotificationEventType, number>;
+}
+
+export interface NotificationDeliveryResponse {
+  id: string;
+  channel: string;
+  eventType: string;
+  title: string;
+  isDigest: boolean;
+  status: string;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  sentAt?: Date;
+  createdAt: Date;
+}
+
+// Settings used before a user saves any preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceResponse = {
+  emailEnabled: true,
+  webhookEnabled: false,
+  inAppEnabled: true,
+  deliveryMode: 'immediate',
+  timezone: 'UTC',
+};
+
+export class NotificationModel {
+  /**
+   * Validate event type
+   */
+  static validateEventType(eventType: string): boolean {
+    const validTypes: NotificationEventType[] = ['fraud_alert', 'budget_threshold', 'sync_failed', 'recurring_charge'];
+    return validTypes.includes(eventType as NotificationEventType);
+  }
+
+  /**
+   * Validate delivery mode
+   */
+  static validateDeliveryMode(mode: string): boolean {
+    const validModes: NotificationDeliveryMode[] = ['immediate', 'digest'];
+    return validModes.includes(mode as NotificationDeliveryMode);
+  }
+
+  /**
+   * Validate delivery status
+   */
+  static validateDeliveryStatus(status: string): boolean {
+    const validStatuses: NotificationDeliveryStatus[] = ['pending', 'sent', 'failed'];
+    return validStatuses.includes(status as NotificationDeliveryStatus);
+  }
+
+  /**
+   * Validate a time of day in HH:MM (24-hour) format
+   */
+  static validateTimeOfDay(time: string): boolean {
+    return /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+  }
+
+  /**
+   * Validate an IANA time zone name
+   */
+  static validateTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate a webhook URL. Plain HTTP is only accepted outside production.
+   */
+  static validateWebhookUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol === 'https:') return true;
+      return parsed.protocol === 'http:' && process.env.NODE_ENV !== 'production';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate a preferences update
+   */
+  static validatePreferenceInput(input: NotificationPreferenceInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (input.deliveryMode !== undefined && !this.validateDeliveryMode(input.deliveryMode)) {
+      errors.push('Delivery mode must be immediate or digest');
+    }
+
+    if (input.webhookUrl && !this.validateWebhookUrl(input.webhookUrl)) {
+      errors.push('Webhook URL must be a valid https URL');
+    }
+
+    if (input.timezone !== undefined && !this.validateTimezone(input.timezone)) {
+      errors.push('Invalid time zone');
+    }
+
+    for (const time of [input.quietHoursStart, input.quietHoursEnd]) {
+      if (time && !this.validateTimeOfDay(time)) {
+        errors.push('Quiet hours must be in HH:MM format');
+        break;
+      }
+    }
+
+    if (!input.quietHoursStart !== !input.quietHoursEnd) {
+      errors.push('Quiet hours need both a start and an end');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * If `at` falls inside the user's quiet hours, the moment they end; otherwise
+   * null. Quiet hours are read in the user's time zone and may span midnight.
+   */
+  static getQuietHoursEnd(preference: NotificationPreferenceResponse, at: Date): Date | null {
+    if (!preference.quietHoursStart || !preference.quietHoursEnd) {
+      return null;
+    }
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: preference.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+
+    const now = hour * 60 + minute;
+    const start = toMinutes(preference.quietHoursStart);
+    const end = toMinutes(preference.quietHoursEnd);
+
+    const inQuietHours = start <= end ? now >= start && now < end : now >= start || now < end;
+    if (!inQuietHours) {
+      return null;
+    }
+
+    const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+    return new Date(at.getTime() + minutesLeft * 60 * 1000 - at.getSeconds() * 1000 - at.getMilliseconds());
+  }
+
+  /**
+   * Convert Prisma NotificationPreference to response format
+   */
+  static toPreferenceResponse(
+    preference: PrismaNotificationPreference,
+    webhookSecret?: string
+  ): NotificationPreferenceResponse {
+    return {
+      emailEnabled: preference.emailEnabled,
+      webhookEnabled: preference.webhookEnabled,
+      webhookUrl: preference.webhookUrl || undefined,
+      webhookSecret,
+      inAppEnabled: preference.inAppEnabled,
+      deliveryMode: preference.deliveryMode,
+      quietHoursStart: preference.quietHoursStart || undefined,
+      quietHoursEnd: preference.quietHoursEnd || undefined,
+      timezone: preference.timezone,
+      lastDigestAt: preference.lastDigestAt || undefined,
+    };
+  }
+
+  /**
+   * Convert Prisma Notification to response format
+   */
+  static toResponse(notification: PrismaNotification): NotificationResponse {
+    return {
+      id: notification.id,
+      eventType: notification.eventType,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link || undefined,
+      isRead: notification.readAt !== null,
+      readAt: notification.readAt || undefined,
+      createdAt: notification.createdAt,
+    };
+  }
+
+  /**
+   * Convert Prisma NotificationDelivery to response format
+   */
+  static toDeliveryResponse(delivery: PrismaNotificationDelivery): NotificationDeliveryResponse {
+    return {
+      id: delivery.id,
+      channel: delivery.channel,
+      eventType: delivery.eventType,
+      title: delivery.title,
+      isDigest: delivery.isDigest,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      lastError: delivery.lastError || undefined,
+      nextAttemptAt: delivery.nextAttemptAt || undefined,
+      sentAt: delivery.sentAt || undefined,
+      createdAt: delivery.createdAt,
+    };
+  }
+}
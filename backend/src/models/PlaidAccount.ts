@@ -6,16 +6,27 @@ export interface CreatePlaidAccountInput {
   plaidAccountId: string;
   plaidAccessToken: string;
   accountName: string;
-  accountType: 'depository' | 'credit' | 'loan' | 'investment';
+  accountType: AccountType;
   accountSubtype: string;
   currentBalance: number;
   availableBalance?: number;
 }
 
+export type AccountType = 'depository' | 'credit' | 'loan' | 'investment';
+
+export interface CreateManualAccountInput {
+  userId: string;
+  accountName: string;
+  accountType: AccountType;
+  accountSubtype?: string;
+  currentBalance: number;
+}
+
 export interface PlaidAccountResponse {
   id: string;
   userId: string;
-  plaidAccountId: string;
+  plaidAccountId?: string;
+  isManual: boolean;
   accountName: string;
   accountType: string;
   accountSubtype: string;
@@ -121,6 +132,46 @@ export class PlaidAccountModel {
     return { valid: errors.length === 0, errors };
   }
 
+  /**
+   * Validate manual account input
+   */
+  static validateManualAccountInput(input: CreateManualAccountInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!input.userId || input.userId.trim().length === 0) {
+      errors.push('User ID is required');
+    }
+
+    if (!input.accountName || input.accountName.trim().length === 0) {
+      errors.push('Account name is required');
+    }
+
+    if (!this.validateAccountType(input.accountType)) {
+      errors.push('Invalid account type');
+    }
+
+    if (input.currentBalance === undefined || input.currentBalance === null || isNaN(input.currentBalance)) {
+      errors.push('Current balance is required');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Balance change caused by a transaction amount (Plaid sign convention: positive = money out).
+   * Credit and loan balances are amounts owed, so spending increases them.
+   */
+  static balanceDelta(accountType: string, amount: number): number {
+    return this.isLiability(accountType) ? amount : -amount;
+  }
+
+  /**
+   * Credit and loan accounts hold debt; every other type is an asset
+   */
+  static isLiability(accountType: string): boolean {
+    return accountType === 'credit' || accountType === 'loan';
+  }
+
   /**
    * Convert Prisma PlaidAccount to response format (exclude sensitive data)
    */
@@ -128,7 +179,8 @@ export class PlaidAccountModel {
     return {
       id: account.id,
       userId: account.userId,
-      plaidAccountId: account.plaidAccountId,
+      plaidAccountId: account.plaidAccountId || undefined,
+      isManual: account.isManual,
       accountName: account.accountName,
       accountType: account.accountType,
       accountSubtype: account.accountSubtype,
@@ -0,0 +1,64 @@
+export type RecurringCadence = 'weekly' | 'biweekly' | 'monthly' | 'annual';
+export type RecurringStatus = 'active' | 'missed' | 'cancelled';
+export type RecurringFlow = 'expense' | 'income'; // Charges going out or deposits like a paycheck coming in
+
+export interface RecurringOccurrence {
+  transactionId: string;
+  date: Date;
+  amount: number;
+}
+
+export interface RecurringSeriesResponse {
+  id: string; // Merchant key, cadence and first charge
+  merchantKey: string; // Canonical merchant ID, or the normalized name for charges not linked to one yet
+  merchantName: string;
+  accountId: string; // Account of the most recent charge
+  categoryId?: string;
+  flow: RecurringFlow;
+  cadence: RecurringCadence;
+  amount: number; // Most recent charge, always positive
+  averageAmount: number;
+  previousAmount?: number; // Charge before the latest price change
+  priceIncreased: boolean;
+  priceChangedAt?: Date;
+  lastDate: Date;
+  nextExpectedDate: Date;
+  status: RecurringStatus;
+  occurrences: RecurringOccurrence[];
+}
+
+// A future charge or deposit expected from an active series
+export interface UpcomingRecurring {
+  seriesId: string;
+  merchantName: string;
+  accountId: string;
+  flow: RecurringFlow;
+  date: Date;
+  amount: number; // Always positive; flow gives the direction
+}
+
+export class RecurringSeriesModel {
+  /**
+   * Validate cadence
+   */
+  static validateCadence(cadence: string): boolean {
+    const validCadences: RecurringCadence[] = ['weekly', 'biweekly', 'monthly', 'annual'];
+    return validCadences.includes(cadence as RecurringCadence);
+  }
+
+  /**
+   * Validate flow
+   */
+  static validateFlow(flow: string): boolean {
+    const validFlows: RecurringFlow[] = ['expense', 'income'];
+    return validFlows.includes(flow as RecurringFlow);
+  }
+
+  /**
+   * Validate status
+   */
+  static validateStatus(status: string): boolean {
+    const validStatuses: RecurringStatus[] = ['active', 'missed', 'cancelled'];
+    return validStatuses.includes(status as RecurringStatus);
+  }
+}
@@ -1,4 +1,8 @@
-import { Transaction as PrismaTransaction } from '@prisma/client';
+import {
+  Transaction as PrismaTransaction,
+  TransactionSplit as PrismaTransactionSplit,
+} from '@prisma/client';
+import { TransactionSplitModel, TransactionSplitResponse } from './TransactionSplit';
 
 export interface TransactionLocation {
   city?: string;
@@ -9,32 +13,42 @@ export interface TransactionLocation {
 export interface CreateTransactionInput {
   userId: string;
   accountId: string;
-  plaidTransactionId: string;
+  plaidTransactionId?: string;
+  pendingTransactionId?: string;
   amount: number;
   date: Date;
   merchantName?: string;
+  merchantId?: string;
   description: string;
   categoryId?: string;
   categoryConfidence?: number;
   isPending?: boolean;
   location?: TransactionLocation;
   isFraudulent?: boolean;
+  importSource?: string;
 }
 
 export interface TransactionResponse {
   id: string;
   userId: string;
   accountId: string;
-  plaidTransactionId: string;
+  plaidTransactionId?: string;
+  pendingTransactionId?: string;
+  isManual: boolean;
   amount: number;
   date: Date;
   merchantName?: string;
+  merchantId?: string;
   description: string;
   categoryId?: string;
   categoryConfidence: number;
   isPending: boolean;
   location: TransactionLocation;
   isFraudulent: boolean;
+  importSource?: string;
+  isTransfer: boolean;
+  tags: string[];
+  splits?: TransactionSplitResponse[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,15 +75,15 @@ export class TransactionModel {
       errors.push('Account ID is required');
     }
 
-    if (!input.plaidTransactionId || input.plaidTransactionId.trim().length === 0) {
-      errors.push('Plaid transaction ID is required');
+    if (input.plaidTransactionId !== undefined && input.plaidTransactionId.trim().length === 0) {
+      errors.push('Plaid transaction ID cannot be empty');
     }
 
-    if (input.amount === undefined || input.amount === null) {
+    if (input.amount === undefined || input.amount === null || isNaN(input.amount)) {
       errors.push('Amount is required');
     }
 
-    if (!input.date) {
+    if (!input.date || isNaN(input.date.getTime())) {
       errors.push('Date is required');
     }
 
@@ -101,15 +115,20 @@ export class TransactionModel {
   /**
    * Convert Prisma Transaction to response format
    */
-  static toResponse(transaction: PrismaTransaction): TransactionResponse {
+  static toResponse(
+    transaction: PrismaTransaction & { splits?: PrismaTransactionSplit[] }
+  ): TransactionResponse {
     return {
       id: transaction.id,
       userId: transaction.userId,
       accountId: transaction.accountId,
-      plaidTransactionId: transaction.plaidTransactionId,
+      plaidTransactionId: transaction.plaidTransactionId || undefined,
+      pendingTransactionId: transaction.pendingTransactionId || undefined,
+      isManual: transaction.isManual,
       amount: Number(transaction.amount),
       date: transaction.date,
       merchantName: transaction.merchantName || undefined,
+      merchantId: transaction.merchantId || undefined,
       description: transaction.description,
       categoryId: transaction.categoryId || undefined,
       categoryConfidence: transaction.categoryConfidence,
@@ -120,6 +139,10 @@ export class TransactionModel {
         country: transaction.locationCountry || undefined,
       },
       isFraudulent: transaction.isFraudulent,
+      importSource: transaction.importSource || undefined,
+      isTransfer: transaction.isTransfer,
+      tags: transaction.tags,
+      splits: transaction.splits?.map((split) => TransactionSplitModel.toResponse(split)),
       createdAt: transaction.createdAt,
       updatedAt: transaction.updatedAt,
     };
@@ -0,0 +1,73 @@
+import { TransactionSplit as PrismaTransactionSplit } from '@prisma/client';
+
+export interface TransactionSplitInput {
+  categoryId: string;
+  amount: number;
+  note?: string;
+}
+
+export interface TransactionSplitResponse {
+  id: string;
+  transactionId: string;
+  categoryId: string;
+  amount: number;
+  note?: string;
+  createdAt: Date;
+}
+
+export class TransactionSplitModel {
+  /**
+   * Validate a set of splits against the parent transaction amount.
+   * An empty set is valid and means the transaction is no longer split.
+   */
+  static validateSplits(
+    parentAmount: number,
+    splits: TransactionSplitInput[]
+  ): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (splits.length === 1) {
+      errors.push('A split transaction needs at least two parts');
+    }
+
+    splits.forEach((split, index) => {
+      if (!split.categoryId || split.categoryId.trim().length === 0) {
+        errors.push(`Split ${index + 1}: Category ID is required`);
+      }
+
+      if (split.amount === undefined || split.amount === null || isNaN(split.amount) || split.amount === 0) {
+        errors.push(`Split ${index + 1}: Amount must be a non-zero number`);
+      } else if (Math.sign(split.amount) !== Math.sign(parentAmount)) {
+        errors.push(`Split ${index + 1}: Amount must have the same sign as the transaction`);
+      }
+    });
+
+    if (splits.length > 1 && !this.sumsTo(parentAmount, splits)) {
+      errors.push('Split amounts must sum to the transaction amount');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Check split amounts add up to the parent amount, compared in cents
+   */
+  static sumsTo(parentAmount: number, splits: Array<{ amount: number }>): boolean {
+    const totalCents = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+    return totalCents === Math.round(parentAmount * 100);
+  }
+
+  /**
+   * Convert Prisma TransactionSplit to response format
+   */
+  static toResponse(split: PrismaTransactionSplit): TransactionSplitResponse {
+    return {
+      id: split.id,
+      transactionId: split.transactionId,
+      categoryId: split.categoryId,
+      amount: Number(split.amount),
+      note: split.note || undefined,
+      createdAt: split.createdAt,
+    };
+  }
+}
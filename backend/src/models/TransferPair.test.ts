@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { TransferPairModel } from './TransferPair';
+
+describe('TransferPairModel.isMirrorAmount', () => {
+  it('matches an outflow with the same inflow', () => {
+    expect(TransferPairModel.isMirrorAmount(250, -250)).toBe(true);
+  });
+
+  it('compares in cents, ignoring floating point noise', () => {
+    expect(TransferPairModel.isMirrorAmount(0.1 + 0.2, -0.3)).toBe(true);
+    expect(TransferPairModel.isMirrorAmount(19.99, -19.98)).toBe(false);
+  });
+
+  it('needs money out on the first side', () => {
+    expect(TransferPairModel.isMirrorAmount(-250, 250)).toBe(false);
+    expect(TransferPairModel.isMirrorAmount(0, 0)).toBe(false);
+  });
+
+  it('does not match two outflows', () => {
+    expect(TransferPairModel.isMirrorAmount(250, 250)).toBe(false);
+  });
+});
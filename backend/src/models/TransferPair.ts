@@ -0,0 +1,59 @@
+import { TransferPair as PrismaTransferPair } from '@prisma/client';
+import { TransactionResponse } from './Transaction';
+
+export type TransferPairStatus = 'suggested' | 'confirmed' | 'unlinked';
+
+export interface TransferPairResponse {
+  id: string;
+  userId: string;
+  outflowTransactionId: string;
+  inflowTransactionId: string;
+  status: string;
+  amount?: number;
+  outflowTransaction?: TransactionResponse;
+  inflowTransaction?: TransactionResponse;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class TransferPairModel {
+  /**
+   * Validate transfer pair status
+   */
+  static validateStatus(status: string): boolean {
+    const validStatuses: TransferPairStatus[] = ['suggested', 'confirmed', 'unlinked'];
+    return validStatuses.includes(status as TransferPairStatus);
+  }
+
+  /**
+   * Check whether two amounts mirror each other, compared in cents
+   */
+  static isMirrorAmount(outflowAmount: number, inflowAmount: number): boolean {
+    const outflowCents = Math.round(outflowAmount * 100);
+    return outflowCents > 0 && outflowCents === -Math.round(inflowAmount * 100);
+  }
+
+  /**
+   * Convert Prisma TransferPair to response format
+   */
+  static toResponse(
+    pair: PrismaTransferPair,
+    outflowTransaction?: TransactionResponse,
+    inflowTransaction?: TransactionResponse
+  ): TransferPairResponse {
+    return {
+      id: pair.id,
+      userId: pair.userId,
+      outflowTransactionId: pair.outflowTransactionId,
+      inflowTransactionId: pair.inflowTransactionId,
+      status: pair.status,
+      amount: outflowTransaction?.amount,
+      outflowTransaction,
+      inflowTransaction,
+      reviewedAt: pair.reviewedAt || undefined,
+      createdAt: pair.createdAt,
+      updatedAt: pair.updatedAt,
+    };
+  }
+}
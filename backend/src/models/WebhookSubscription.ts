@@ -0,0 +1,157 @@
+import {
+  WebhookDelivery as PrismaWebhookDelivery,
+  WebhookSubscription as PrismaWebhookSubscription,
+} from '@prisma/client';
+
+export type WebhookEventType =
+  | 'transaction.created'
+  | 'transaction.categorized'
+  | 'fraud_alert.created'
+  | 'budget.threshold_crossed'
+  | 'account.sync_failed';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'transaction.created',
+  'transaction.categorized',
+  'fraud_alert.created',
+  'budget.threshold_crossed',
+  'account.sync_failed',
+];
+
+// Only sent by the "send test event" endpoint, to any subscription
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export interface CreateWebhookSubscriptionInput {
+  url: string;
+  events: string[];
+  description?: string;
+}
+
+export interface UpdateWebhookSubscriptionInput {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface WebhookSubscriptionResponse {
+  id: string;
+  url: string;
+  events: string[];
+  description?: string;
+  isActive: boolean;
+  secret?: string; // Only returned when the subscription is created or its secret rotated
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  responseStatus?: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export class WebhookSubscriptionModel {
+  /**
+   * Validate event type
+   */
+  static validateEventType(eventType: string): boolean {
+    return WEBHOOK_EVENT_TYPES.includes(eventType as WebhookEventType);
+  }
+
+  /**
+   * Validate delivery status
+   */
+  static validateDeliveryStatus(status: string): boolean {
+    const validStatuses: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+    return validStatuses.includes(status as WebhookDeliveryStatus);
+  }
+
+  /**
+   * Validate an endpoint URL. Plain HTTP is only accepted outside production.
+   */
+  static validateUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol === 'https:') return true;
+      return parsed.protocol === 'http:' && process.env.NODE_ENV !== 'production';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate subscription fields that are present
+   */
+  static validateInput(input: UpdateWebhookSubscriptionInput): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (input.url !== undefined && !this.validateUrl(input.url)) {
+      errors.push('URL must be a valid https URL');
+    }
+
+    if (input.events !== undefined) {
+      if (!Array.isArray(input.events) || input.events.length === 0) {
+        errors.push('At least one event is required');
+      } else {
+        const unknown = input.events.filter(event => !this.validateEventType(event));
+        if (unknown.length > 0) {
+          errors.push(`Unknown event types: ${unknown.join(', ')}`);
+        }
+      }
+    }
+
+    if (input.description && input.description.length > 200) {
+      errors.push('Description must be 200 characters or fewer');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Convert Prisma WebhookSubscription to response format
+   */
+  static toResponse(subscription: PrismaWebhookSubscription, secret?: string): WebhookSubscriptionResponse {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      events: subscription.events,
+      description: subscription.description || undefined,
+      isActive: subscription.isActive,
+      secret,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+
+  /**
+   * Convert Prisma WebhookDelivery to response format
+   */
+  static toDeliveryResponse(delivery: PrismaWebhookDelivery): WebhookDeliveryResponse {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: JSON.parse(delivery.payload),
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus ?? undefined,
+      lastError: delivery.lastError || undefined,
+      nextAttemptAt: delivery.nextAttemptAt || undefined,
+      deliveredAt: delivery.deliveredAt || undefined,
+      createdAt: delivery.createdAt,
+    };
+  }
+}
@@ -1,7 +1,18 @@
 export * from './User';
 export * from './PlaidAccount';
 export * from './Transaction';
+export * from './TransactionSplit';
 export * from './Category';
 export * from './Budget';
+export * from './BudgetAlert';
+export * from './EnvelopePlan';
+export * from './Goal';
 export * from './FraudAlert';
+export * from './Notification';
 export * from './CategorizationRule';
+export * from './ImportProfile';
+export * from './TransferPair';
+export * from './RecurringSeries';
+export * from './WebhookSubscription';
+export * from './Merchant';
+export * from './MerchantPatternRule';
@@ -0,0 +1,211 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import accountService, { UpdateManualAccountInput } from '../services/accountService';
+import statementImportService from '../services/statementImportService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map account service errors to HTTP responses
+ */
+function handleAccountError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Account not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (
+    error.message.includes('Validation failed') ||
+    error.message.includes('cannot be edited') ||
+    error.message.includes('required') ||
+    error.message.includes('Invalid') ||
+    error.message.includes('must be')
+  ) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * Parse manual account fields from a request body, checking their types
+ */
+function parseAccountBody(body: any): UpdateManualAccountInput {
+  const { accountName, accountType, accountSubtype, currentBalance } = body;
+  const input: UpdateManualAccountInput = {};
+  const errors: string[] = [];
+
+  for (const [field, value] of [
+    ['Account name', accountName],
+    ['Account type', accountType],
+    ['Account subtype', accountSubtype],
+  ] as const) {
+    if (value !== undefined && typeof value !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (
+    currentBalance !== undefined &&
+    ((typeof currentBalance !== 'number' && typeof currentBalance !== 'string') ||
+      isNaN(parseFloat(String(currentBalance))))
+  ) {
+    errors.push('Current balance must be a number');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Validation failed: ${errors.join(', ')}`);
+  }
+
+  if (accountName !== undefined) input.accountName = accountName;
+  if (accountType !== undefined) input.accountType = accountType;
+  if (accountSubtype !== undefined) input.accountSubtype = accountSubtype;
+  if (currentBalance !== undefined) input.currentBalance = parseFloat(currentBalance);
+
+  return input;
+}
+
+/**
+ * GET /api/accounts
+ * Get all linked and manual accounts for the authenticated user
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const accounts = await accountService.getAccounts(userId);
+    return res.json({ accounts });
+  } catch (error: any) {
+    console.error('Error fetching accounts:', error.message);
+    return res.status(500).json({ error: 'Failed to fetch accounts' });
+  }
+});
+
+/**
+ * GET /api/accounts/:id
+ * Get a single account by ID
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const account = await accountService.getAccountById(req.params.id, userId);
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    return res.json(account);
+  } catch (error: any) {
+    console.error('Error fetching account:', error.message);
+    return res.status(500).json({ error: 'Failed to fetch account' });
+  }
+});
+
+/**
+ * POST /api/accounts
+ * Create a manual account
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { accountName, accountType, currentBalance } = req.body;
+
+    if (!accountName || !accountType || currentBalance === undefined) {
+      return res.status(400).json({
+        error: 'Missing required fields: accountName, accountType, currentBalance',
+      });
+    }
+
+    const input = parseAccountBody(req.body);
+    const account = await accountService.createManualAccount({
+      userId,
+      accountName: input.accountName!,
+      accountType: input.accountType!,
+      accountSubtype: input.accountSubtype,
+      currentBalance: input.currentBalance!,
+    });
+
+    return res.status(201).json(account);
+  } catch (error: any) {
+    console.error('Error creating account:', error.message);
+    return handleAccountError(res, error, 'Failed to create account');
+  }
+});
+
+/**
+ * PUT /api/accounts/:id
+ * Update a manual account
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const account = await accountService.updateManualAccount(
+      req.params.id,
+      userId,
+      parseAccountBody(req.body)
+    );
+    return res.json(account);
+  } catch (error: any) {
+    console.error('Error updating account:', error.message);
+    return handleAccountError(res, error, 'Failed to update account');
+  }
+});
+
+/**
+ * DELETE /api/accounts/:id
+ * Delete a manual account (soft delete)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    await accountService.deleteManualAccount(req.params.id, userId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting account:', error.message);
+    return handleAccountError(res, error, 'Failed to delete account');
+  }
+});
+
+/**
+ * GET /api/accounts/:id/import-profile
+ * Get the saved CSV column mapping for an account
+ */
+router.get('/:id/import-profile', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const profile = await statementImportService.getImportProfile(req.params.id, userId);
+
+    if (!profile) {
+      return res.status(404).json({ error: 'Import profile not found' });
+    }
+
+    return res.json(profile);
+  } catch (error: any) {
+    console.error('Error fetching import profile:', error.message);
+    return handleAccountError(res, error, 'Failed to fetch import profile');
+  }
+});
+
+/**
+ * PUT /api/accounts/:id/import-profile
+ * Save the CSV column mapping used for statement imports into an account
+ */
+router.put('/:id/import-profile', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const profile = await statementImportService.saveImportProfile(req.params.id, userId, req.body);
+    return res.json(profile);
+  } catch (error: any) {
+    console.error('Error saving import profile:', error.message);
+    return handleAccountError(res, error, 'Failed to save import profile');
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/authMiddleware';
 import budgetService from '../services/budgetService';
+import budgetAlertService from '../services/budgetAlertService';
 
 const router = Router();
 
@@ -24,6 +25,27 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/budgets/alerts
+ * Get recorded budget threshold crossings, newest first
+ */
+router.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 200' });
+    }
+
+    const alerts = await budgetAlertService.getBudgetAlerts(userId, limit);
+    return res.json({ alerts });
+  } catch (error: any) {
+    console.error('Error fetching budget alerts:', error.message);
+    return res.status(500).json({ error: 'Failed to fetch budget alerts' });
+  }
+});
+
 /**
  * GET /api/budgets/:id
  * Get a single budget by ID
@@ -53,10 +75,20 @@ router.get('/:id', async (req: Request, res: Response) => {
 router.post('/', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
-    const { categoryId, amount, period, startDate, endDate, alertThreshold } = req.body;
+    const {
+      categoryId,
+      amount,
+      period,
+      isRecurring,
+      startDate,
+      endDate,
+      alertThreshold,
+      rollover,
+      rolloverCap,
+    } = req.body;
 
-    // Validate required fields
-    if (!categoryId || !amount || !period || !startDate || !endDate) {
+    // Validate required fields (recurring budgets may run without an end date)
+    if (!categoryId || !amount || !period || !startDate || (!endDate && isRecurring !== true)) {
       return res.status(400).json({ 
         error: 'Missing required fields: categoryId, amount, period, startDate, endDate' 
       });
@@ -67,9 +99,14 @@ router.post('/', async (req: Request, res: Response) => {
       categoryId,
       amount: parseFloat(amount),
       period,
+      isRecurring: isRecurring === true,
       startDate: new Date(startDate),
-      endDate: new Date(endDate),
+      endDate: endDate ? new Date(endDate) : undefined,
       alertThreshold: alertThreshold ? parseInt(alertThreshold) : undefined,
+      rollover: rollover === true,
+      rolloverCap: rolloverCap !== undefined && rolloverCap !== null && rolloverCap !== ''
+        ? parseFloat(rolloverCap)
+        : undefined,
     });
 
     res.status(201).json(budget);
@@ -94,15 +131,37 @@ router.put('/:id', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.userId;
     const budgetId = req.params.id;
-    const { amount, period, startDate, endDate, alertThreshold, isActive } = req.body;
+    const {
+      amount,
+      effectiveFrom,
+      period,
+      startDate,
+      endDate,
+      alertThreshold,
+      rollover,
+      rolloverCap,
+      isActive,
+    } = req.body;
 
     const updates: any = {};
     
     if (amount !== undefined) updates.amount = parseFloat(amount);
+    if (effectiveFrom !== undefined) {
+      updates.effectiveFrom = new Date(effectiveFrom);
+      if (isNaN(updates.effectiveFrom.getTime())) {
+        return res.status(400).json({ error: 'effectiveFrom must be a valid date' });
+      }
+    }
     if (period !== undefined) updates.period = period;
     if (startDate !== undefined) updates.startDate = new Date(startDate);
-    if (endDate !== undefined) updates.endDate = new Date(endDate);
+    // A null end date lets a recurring budget run indefinitely
+    if (endDate !== undefined) updates.endDate = endDate === null || endDate === '' ? null : new Date(endDate);
     if (alertThreshold !== undefined) updates.alertThreshold = parseInt(alertThreshold);
+    if (rollover !== undefined) updates.rollover = rollover === true;
+    // An empty or null cap removes the cap
+    if (rolloverCap !== undefined) {
+      updates.rolloverCap = rolloverCap === null || rolloverCap === '' ? null : parseFloat(rolloverCap);
+    }
     if (isActive !== undefined) updates.isActive = isActive;
 
     const budget = await budgetService.updateBudget(budgetId, userId, updates);
@@ -114,7 +173,9 @@ router.put('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: error.message });
     }
     
-    if (error.message.includes('must be') || error.message.includes('Validation')) {
+    if (error.message.includes('must be') || 
+        error.message.includes('Validation') ||
+        error.message.includes('already exists')) {
       return res.status(400).json({ error: error.message });
     }
     
@@ -166,6 +227,28 @@ router.get('/:id/progress', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/budgets/:id/history
+ * Get spending and rollover for each period of a budget, newest first
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const budgetId = req.params.id;
+
+    const history = await budgetService.getBudgetHistory(budgetId, userId);
+    return res.json({ history });
+  } catch (error: any) {
+    console.error('Error fetching budget history:', error.message);
+
+    if (error.message === 'Budget not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    return res.status(500).json({ error: 'Failed to fetch budget history' });
+  }
+});
+
 /**
  * GET /api/budgets/alerts/check
  * Check for budget alerts
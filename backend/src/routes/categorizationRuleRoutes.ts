@@ -0,0 +1,276 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import {
+  CreateCategorizationRuleInput,
+  RuleDirection,
+  UpdateCategorizationRuleInput,
+} from '../models/CategorizationRule';
+import categorizationService from '../services/categorizationService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map categorization rule errors to HTTP responses
+ */
+function handleRuleError(res: Response, error: any, fallbackMessage: string) {
+  if (
+    error.message === 'Categorization rule not found' ||
+    error.message === 'Category not found' ||
+    error.message === 'Merchant not found' ||
+    error.message === 'Account not found'
+  ) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * Parse an optional numeric body field: undefined when absent, null when
+ * cleared with null or '', NaN when not a number (rejected by validation)
+ */
+function parseNumber(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return Number(value);
+}
+
+/**
+ * Check the types of a rule's list and flag fields in a request body
+ */
+function validateRuleBody(body: Record<string, unknown>): string | null {
+  for (const field of ['keywords', 'tags']) {
+    const values = body[field];
+    if (values !== undefined && values !== null && (!Array.isArray(values) || values.some((v) => typeof v !== 'string'))) {
+      return `${field} must be an array of strings`;
+    }
+  }
+
+  if (body.markAsTransfer !== undefined && body.markAsTransfer !== null && typeof body.markAsTransfer !== 'boolean') {
+    return 'markAsTransfer must be a boolean';
+  }
+
+  return null;
+}
+
+/**
+ * Pick a rule's conditions and actions from a request body
+ */
+function parseRuleBody(body: Record<string, unknown>): UpdateCategorizationRuleInput {
+  return {
+    merchantPattern: body.merchantPattern as string | null | undefined,
+    merchantId: body.merchantId as string | null | undefined,
+    minAmount: parseNumber(body.minAmount),
+    maxAmount: parseNumber(body.maxAmount),
+    accountId: body.accountId as string | null | undefined,
+    keywords: body.keywords as string[] | null | undefined,
+    dayOfMonthFrom: parseNumber(body.dayOfMonthFrom),
+    dayOfMonthTo: parseNumber(body.dayOfMonthTo),
+    direction: body.direction as RuleDirection | null | undefined,
+    categoryId: body.categoryId as string | null | undefined,
+    tags: body.tags as string[] | null | undefined,
+    renameMerchantTo: body.renameMerchantTo as string | null | undefined,
+    markAsTransfer: body.markAsTransfer as boolean | null | undefined,
+  };
+}
+
+/**
+ * GET /api/categorization-rules
+ * Get categorization rules, highest priority first
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const rules = await categorizationService.getCategorizationRules(userId);
+    return res.json({ rules });
+  } catch (error: any) {
+    console.error('Error fetching categorization rules:', error.message);
+    return handleRuleError(res, error, 'Failed to fetch categorization rules');
+  }
+});
+
+/**
+ * POST /api/categorization-rules
+ * Create a rule from conditions (merchant pattern or merchant, amount range,
+ * account, description keywords, day of month, direction) and actions
+ * (category, tags, merchant rename, mark as transfer), optionally applying it
+ * to existing transactions
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { priority, applyToExisting } = req.body;
+    const bodyError = validateRuleBody(req.body);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    const body = parseRuleBody(req.body);
+
+    if (priority !== undefined && !Number.isInteger(priority)) {
+      return res.status(400).json({ error: 'Priority must be an integer' });
+    }
+
+    // Nothing to clear on create
+    const fields = Object.fromEntries(Object.entries(body).filter(([, value]) => value !== null));
+
+    const rule = await categorizationService.createCategorizationRule({
+      userId,
+      ...(fields as Omit<CreateCategorizationRuleInput, 'userId'>),
+      priority,
+    });
+
+    if (applyToExisting === true) {
+      const appliedCount = await categorizationService.applyCategorizationRule(rule.id, userId);
+      return res.status(201).json({ ...rule, appliedCount });
+    }
+
+    return res.status(201).json(rule);
+  } catch (error: any) {
+    console.error('Error creating categorization rule:', error.message);
+    return handleRuleError(res, error, 'Failed to create categorization rule');
+  }
+});
+
+/**
+ * PUT /api/categorization-rules/reorder
+ * Set priorities from an ordering of all rules (ruleIds, highest priority first)
+ */
+router.put('/reorder', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { ruleIds } = req.body;
+
+    if (!Array.isArray(ruleIds) || ruleIds.some((id) => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'ruleIds must be an array of rule IDs' });
+    }
+
+    const rules = await categorizationService.reorderCategorizationRules(userId, ruleIds);
+    return res.json({ rules });
+  } catch (error: any) {
+    console.error('Error reordering categorization rules:', error.message);
+    return handleRuleError(res, error, 'Failed to reorder categorization rules');
+  }
+});
+
+/**
+ * POST /api/categorization-rules/test
+ * Count the transactions a rule's conditions would match, without saving a rule
+ */
+router.post('/test', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const bodyError = validateRuleBody(req.body);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    const body = parseRuleBody(req.body);
+
+    const result = await categorizationService.testCategorizationRule(userId, {
+      merchantPattern: body.merchantPattern || undefined,
+      merchantId: body.merchantId || undefined,
+      minAmount: body.minAmount ?? undefined,
+      maxAmount: body.maxAmount ?? undefined,
+      accountId: body.accountId || undefined,
+      keywords: body.keywords || undefined,
+      dayOfMonthFrom: body.dayOfMonthFrom ?? undefined,
+      dayOfMonthTo: body.dayOfMonthTo ?? undefined,
+      direction: body.direction || undefined,
+    });
+    return res.json(result);
+  } catch (error: any) {
+    console.error('Error testing categorization rule:', error.message);
+    return handleRuleError(res, error, 'Failed to test categorization rule');
+  }
+});
+
+/**
+ * GET /api/categorization-rules/:id
+ * Get a single rule
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const rule = await categorizationService.getCategorizationRuleById(req.params.id, userId);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Categorization rule not found' });
+    }
+
+    return res.json(rule);
+  } catch (error: any) {
+    console.error('Error fetching categorization rule:', error.message);
+    return handleRuleError(res, error, 'Failed to fetch categorization rule');
+  }
+});
+
+/**
+ * PUT /api/categorization-rules/:id
+ * Update a rule's conditions and actions (null clears one), optionally applying
+ * it to existing transactions
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { applyToExisting } = req.body;
+    const bodyError = validateRuleBody(req.body);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    const body = parseRuleBody(req.body);
+
+    const rule = await categorizationService.updateCategorizationRule(req.params.id, userId, body);
+
+    if (applyToExisting === true) {
+      const appliedCount = await categorizationService.applyCategorizationRule(rule.id, userId);
+      return res.json({ ...rule, appliedCount });
+    }
+
+    return res.json(rule);
+  } catch (error: any) {
+    console.error('Error updating categorization rule:', error.message);
+    return handleRuleError(res, error, 'Failed to update categorization rule');
+  }
+});
+
+/**
+ * DELETE /api/categorization-rules/:id
+ * Delete a rule (transactions it categorized keep their category)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    await categorizationService.deleteCategorizationRule(req.params.id, userId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting categorization rule:', error.message);
+    return handleRuleError(res, error, 'Failed to delete categorization rule');
+  }
+});
+
+/**
+ * POST /api/categorization-rules/:id/apply
+ * Apply the rule's actions to existing transactions it matches; categories
+ * the user picked, or a higher-priority rule sets, are kept
+ */
+router.post('/:id/apply', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const appliedCount = await categorizationService.applyCategorizationRule(req.params.id, userId);
+    return res.json({ appliedCount });
+  } catch (error: any) {
+    console.error('Error applying categorization rule:', error.message);
+    return handleRuleError(res, error, 'Failed to apply categorization rule');
+  }
+});
+
+export default router;
@@ -0,0 +1,142 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import envelopeService from '../services/envelopeService';
+import { EnvelopePlanModel } from '../models/EnvelopePlan';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map envelope service errors to HTTP responses
+ */
+function handleEnvelopeError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Category not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * Parse the :month parameter, answering 400 when it is not YYYY-MM
+ */
+function parseMonthParam(req: Request, res: Response): Date | null {
+  const month = EnvelopePlanModel.parseMonth(req.params.month);
+  if (!month) {
+    res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+  }
+  return month;
+}
+
+/**
+ * GET /api/envelopes/:month
+ * Get the zero-based plan for a month (YYYY-MM) with envelope balances and what is left to assign
+ */
+router.get('/:month', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const month = parseMonthParam(req, res);
+    if (!month) return;
+
+    const plan = await envelopeService.getPlan(userId, month);
+    return res.json(plan);
+  } catch (error: any) {
+    console.error('Error fetching envelope plan:', error.message);
+    return handleEnvelopeError(res, error, 'Failed to fetch envelope plan');
+  }
+});
+
+/**
+ * PUT /api/envelopes/:month
+ * Set the income a month's plan expects to assign
+ */
+router.put('/:month', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const month = parseMonthParam(req, res);
+    if (!month) return;
+
+    if (req.body.expectedIncome === undefined) {
+      return res.status(400).json({ error: 'Missing required field: expectedIncome' });
+    }
+
+    const plan = await envelopeService.setExpectedIncome(userId, month, parseFloat(req.body.expectedIncome));
+    return res.json(plan);
+  } catch (error: any) {
+    console.error('Error updating envelope plan:', error.message);
+    return handleEnvelopeError(res, error, 'Failed to update envelope plan');
+  }
+});
+
+/**
+ * PUT /api/envelopes/:month/assignments/:categoryId
+ * Set the amount assigned to a category's envelope
+ */
+router.put('/:month/assignments/:categoryId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const month = parseMonthParam(req, res);
+    if (!month) return;
+
+    if (req.body.assigned === undefined) {
+      return res.status(400).json({ error: 'Missing required field: assigned' });
+    }
+
+    const plan = await envelopeService.assign(userId, month, req.params.categoryId, parseFloat(req.body.assigned));
+    return res.json(plan);
+  } catch (error: any) {
+    console.error('Error assigning to envelope:', error.message);
+    return handleEnvelopeError(res, error, 'Failed to assign to envelope');
+  }
+});
+
+/**
+ * POST /api/envelopes/:month/moves
+ * Move money between envelopes, or to and from "left to assign"
+ */
+router.post('/:month/moves', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const month = parseMonthParam(req, res);
+    if (!month) return;
+
+    const { fromCategoryId, toCategoryId, amount, note } = req.body;
+
+    const plan = await envelopeService.moveMoney(userId, month, {
+      fromCategoryId,
+      toCategoryId,
+      amount: parseFloat(amount),
+      note,
+    });
+    return res.status(201).json(plan);
+  } catch (error: any) {
+    console.error('Error moving envelope money:', error.message);
+    return handleEnvelopeError(res, error, 'Failed to move money');
+  }
+});
+
+/**
+ * GET /api/envelopes/:month/moves
+ * Get the ledger of money moves for a month, newest first
+ */
+router.get('/:month/moves', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const month = parseMonthParam(req, res);
+    if (!month) return;
+
+    const moves = await envelopeService.getLedger(userId, month);
+    return res.json({ moves });
+  } catch (error: any) {
+    console.error('Error fetching envelope ledger:', error.message);
+    return handleEnvelopeError(res, error, 'Failed to fetch envelope ledger');
+  }
+});
+
+export default router;
@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import goalService from '../services/goalService';
+import { UpdateGoalInput } from '../models/Goal';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map goal service errors to HTTP responses
+ */
+function handleGoalError(res: Response, error: any, fallbackMessage: string) {
+  if (
+    error.message === 'Goal not found' ||
+    error.message === 'Contribution not found' ||
+    error.message === 'Account not found'
+  ) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * Parse an optional date field; null or '' clears it
+ */
+function parseOptionalDate(value: any): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return new Date(value);
+}
+
+/**
+ * GET /api/goals
+ * Get all savings goals with progress and projected completion dates
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const goals = await goalService.getGoals(userId);
+    return res.json({ goals });
+  } catch (error: any) {
+    console.error('Error fetching goals:', error.message);
+    return handleGoalError(res, error, 'Failed to fetch goals');
+  }
+});
+
+/**
+ * POST /api/goals
+ * Create a savings goal, optionally linked to accounts whose balance counts toward it
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { name, targetAmount, targetDate, accountIds } = req.body;
+
+    if (!name || targetAmount === undefined) {
+      return res.status(400).json({ error: 'Missing required fields: name, targetAmount' });
+    }
+
+    const goal = await goalService.createGoal({
+      userId,
+      name,
+      targetAmount: parseFloat(targetAmount),
+      targetDate: parseOptionalDate(targetDate),
+      accountIds,
+    });
+    return res.status(201).json(goal);
+  } catch (error: any) {
+    console.error('Error creating goal:', error.message);
+    return handleGoalError(res, error, 'Failed to create goal');
+  }
+});
+
+/**
+ * GET /api/goals/:id
+ * Get a single goal
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const goal = await goalService.getGoalById(req.params.id, userId);
+
+    if (!goal) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    return res.json(goal);
+  } catch (error: any) {
+    console.error('Error fetching goal:', error.message);
+    return handleGoalError(res, error, 'Failed to fetch goal');
+  }
+});
+
+/**
+ * PUT /api/goals/:id
+ * Update a goal's name, target, target date or linked accounts
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { name, targetAmount, targetDate, accountIds } = req.body;
+
+    const updates: UpdateGoalInput = {
+      name,
+      targetDate: parseOptionalDate(targetDate),
+      accountIds,
+    };
+    if (targetAmount !== undefined) updates.targetAmount = parseFloat(targetAmount);
+
+    const goal = await goalService.updateGoal(req.params.id, userId, updates);
+    return res.json(goal);
+  } catch (error: any) {
+    console.error('Error updating goal:', error.message);
+    return handleGoalError(res, error, 'Failed to update goal');
+  }
+});
+
+/**
+ * DELETE /api/goals/:id
+ * Delete a goal and its contribution history
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    await goalService.deleteGoal(req.params.id, userId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting goal:', error.message);
+    return handleGoalError(res, error, 'Failed to delete goal');
+  }
+});
+
+/**
+ * GET /api/goals/:id/contributions
+ * Get contribution history, including recorded changes in linked account balances
+ */
+router.get('/:id/contributions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const contributions = await goalService.getContributions(req.params.id, userId);
+    return res.json({ contributions });
+  } catch (error: any) {
+    console.error('Error fetching goal contributions:', error.message);
+    return handleGoalError(res, error, 'Failed to fetch contributions');
+  }
+});
+
+/**
+ * POST /api/goals/:id/contributions
+ * Record a contribution (a negative amount records a withdrawal)
+ */
+router.post('/:id/contributions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { amount, date, note } = req.body;
+
+    const contribution = await goalService.addContribution(req.params.id, userId, {
+      amount: parseFloat(amount),
+      date: date ? new Date(date) : undefined,
+      note,
+    });
+    return res.status(201).json(contribution);
+  } catch (error: any) {
+    console.error('Error adding goal contribution:', error.message);
+    return handleGoalError(res, error, 'Failed to add contribution');
+  }
+});
+
+/**
+ * DELETE /api/goals/:id/contributions/:contributionId
+ * Delete a manual contribution
+ */
+router.delete('/:id/contributions/:contributionId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    await goalService.deleteContribution(req.params.id, req.params.contributionId, userId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting goal contribution:', error.message);
+    return handleGoalError(res, error, 'Failed to delete contribution');
+  }
+});
+
+export default router;
@@ -0,0 +1,135 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+import merchantPatternService from '../services/merchantPatternService';
+
+const router = Router();
+
+// All routes require an admin
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+/**
+ * Map merchant pattern errors to HTTP responses
+ */
+function handlePatternError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Merchant pattern rule not found' || error.message === 'Category not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * GET /api/admin/merchant-patterns
+ * Get the built-in merchant pattern rules, highest priority first
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const rules = await merchantPatternService.getRules();
+    return res.json({ rules });
+  } catch (error: any) {
+    console.error('Error fetching merchant patterns:', error.message);
+    return handlePatternError(res, error, 'Failed to fetch merchant patterns');
+  }
+});
+
+/**
+ * GET /api/admin/merchant-patterns/evaluate
+ * Score the active rules against the labeled fixtures (precision and recall)
+ */
+router.get('/evaluate', async (_req: Request, res: Response) => {
+  try {
+    const evaluation = await merchantPatternService.evaluateRules();
+    return res.json(evaluation);
+  } catch (error: any) {
+    console.error('Error evaluating merchant patterns:', error.message);
+    return handlePatternError(res, error, 'Failed to evaluate merchant patterns');
+  }
+});
+
+/**
+ * POST /api/admin/merchant-patterns
+ * Create a rule
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { id, pattern, categoryId, confidence, priority, isActive } = req.body;
+
+    if (!id || !pattern || !categoryId || confidence === undefined) {
+      return res.status(400).json({ error: 'Missing required fields: id, pattern, categoryId, confidence' });
+    }
+
+    const rule = await merchantPatternService.createRule(
+      { id, pattern, categoryId, confidence, priority, isActive },
+      req.user!.userId
+    );
+    return res.status(201).json(rule);
+  } catch (error: any) {
+    console.error('Error creating merchant pattern:', error.message);
+    return handlePatternError(res, error, 'Failed to create merchant pattern');
+  }
+});
+
+/**
+ * GET /api/admin/merchant-patterns/:id
+ * Get a single rule
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const rule = await merchantPatternService.getRuleById(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Merchant pattern rule not found' });
+    }
+
+    return res.json(rule);
+  } catch (error: any) {
+    console.error('Error fetching merchant pattern:', error.message);
+    return handlePatternError(res, error, 'Failed to fetch merchant pattern');
+  }
+});
+
+/**
+ * PUT /api/admin/merchant-patterns/:id
+ * Update a rule's pattern, category, confidence, priority or active flag,
+ * recording a new version
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { pattern, categoryId, confidence, priority, isActive } = req.body;
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be a boolean' });
+    }
+
+    const rule = await merchantPatternService.updateRule(
+      req.params.id,
+      { pattern, categoryId, confidence, priority, isActive },
+      req.user!.userId
+    );
+    return res.json(rule);
+  } catch (error: any) {
+    console.error('Error updating merchant pattern:', error.message);
+    return handlePatternError(res, error, 'Failed to update merchant pattern');
+  }
+});
+
+/**
+ * GET /api/admin/merchant-patterns/:id/versions
+ * Get a rule's version history, newest first
+ */
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const versions = await merchantPatternService.getRuleVersions(req.params.id);
+    return res.json({ versions });
+  } catch (error: any) {
+    console.error('Error fetching merchant pattern versions:', error.message);
+    return handlePatternError(res, error, 'Failed to fetch merchant pattern versions');
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import merchantService from '../services/merchantService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map merchant service errors to HTTP responses
+ */
+function handleMerchantError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Merchant not found' || error.message === 'Alias not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * GET /api/merchants
+ * Get canonical merchants with their aliases and transaction counts
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const search = (req.query.search as string | undefined)?.trim();
+    const merchants = await merchantService.getMerchants(userId, search || undefined);
+    return res.json({ merchants });
+  } catch (error: any) {
+    console.error('Error fetching merchants:', error.message);
+    return handleMerchantError(res, error, 'Failed to fetch merchants');
+  }
+});
+
+/**
+ * GET /api/merchants/:id
+ * Get a single merchant
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const merchant = await merchantService.getMerchantById(req.params.id, userId);
+
+    if (!merchant) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    return res.json(merchant);
+  } catch (error: any) {
+    console.error('Error fetching merchant:', error.message);
+    return handleMerchantError(res, error, 'Failed to fetch merchant');
+  }
+});
+
+/**
+ * PUT /api/merchants/:id
+ * Rename a merchant
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { name } = req.body;
+
+    if (typeof name !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: name' });
+    }
+
+    const merchant = await merchantService.renameMerchant(req.params.id, userId, name);
+    return res.json(merchant);
+  } catch (error: any) {
+    console.error('Error renaming merchant:', error.message);
+    return handleMerchantError(res, error, 'Failed to rename merchant');
+  }
+});
+
+/**
+ * POST /api/merchants/:id/merge
+ * Merge other merchants (aliases, transactions and rules) into this one
+ */
+router.post('/:id/merge', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { merchantIds } = req.body;
+
+    if (!Array.isArray(merchantIds) || merchantIds.some((id) => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'merchantIds must be an array of merchant IDs' });
+    }
+
+    const merchant = await merchantService.mergeMerchants(req.params.id, userId, merchantIds);
+    return res.json(merchant);
+  } catch (error: any) {
+    console.error('Error merging merchants:', error.message);
+    return handleMerchantError(res, error, 'Failed to merge merchants');
+  }
+});
+
+/**
+ * DELETE /api/merchants/:id/aliases/:aliasId
+ * Split an alias and its transactions out into a new merchant
+ */
+router.delete('/:id/aliases/:aliasId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const merchant = await merchantService.detachAlias(req.params.id, req.params.aliasId, userId);
+    return res.status(201).json(merchant);
+  } catch (error: any) {
+    console.error('Error splitting merchant alias:', error.message);
+    return handleMerchantError(res, error, 'Failed to split merchant alias');
+  }
+});
+
+export default router;
@@ -0,0 +1,174 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import notificationService from '../services/notificationService';
+import { NotificationDeliveryStatus, NotificationEventType, NotificationModel } from '../models/Notification';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map notification service errors to HTTP responses
+ */
+function handleNotificationError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Notification not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * GET /api/notifications
+ * Get in-app notifications with unread counts per event type
+ * Query: unread=true for unread only, eventType, limit
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const eventType = req.query.eventType as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+    if (eventType && !NotificationModel.validateEventType(eventType)) {
+      return res.status(400).json({ error: 'Invalid event type' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 200' });
+    }
+
+    const result = await notificationService.getNotifications(userId, {
+      unreadOnly: req.query.unread === 'true',
+      eventType: eventType as NotificationEventType | undefined,
+      limit,
+    });
+    return res.json(result);
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error.message);
+    return handleNotificationError(res, error, 'Failed to fetch notifications');
+  }
+});
+
+/**
+ * POST /api/notifications/read-all
+ * Mark all unread notifications as read, optionally only those of one eventType
+ */
+router.post('/read-all', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { eventType } = req.body;
+
+    if (eventType && !NotificationModel.validateEventType(eventType)) {
+      return res.status(400).json({ error: 'Invalid event type' });
+    }
+
+    const updated = await notificationService.markAllRead(userId, eventType);
+    return res.json({ updated });
+  } catch (error: any) {
+    console.error('Error marking notifications read:', error.message);
+    return handleNotificationError(res, error, 'Failed to mark notifications read');
+  }
+});
+
+/**
+ * GET /api/notifications/preferences
+ * Get the user's notification channels, delivery mode and quiet hours
+ */
+router.get('/preferences', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const preferences = await notificationService.getPreferences(userId);
+    return res.json(preferences);
+  } catch (error: any) {
+    console.error('Error fetching notification preferences:', error.message);
+    return handleNotificationError(res, error, 'Failed to fetch notification preferences');
+  }
+});
+
+/**
+ * PUT /api/notifications/preferences
+ * Update notification preferences
+ */
+router.put('/preferences', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const {
+      emailEnabled,
+      webhookEnabled,
+      webhookUrl,
+      inAppEnabled,
+      deliveryMode,
+      quietHoursStart,
+      quietHoursEnd,
+      timezone,
+    } = req.body;
+
+    const preferences = await notificationService.updatePreferences(userId, {
+      emailEnabled: emailEnabled !== undefined ? Boolean(emailEnabled) : undefined,
+      webhookEnabled: webhookEnabled !== undefined ? Boolean(webhookEnabled) : undefined,
+      webhookUrl,
+      inAppEnabled: inAppEnabled !== undefined ? Boolean(inAppEnabled) : undefined,
+      deliveryMode,
+      quietHoursStart,
+      quietHoursEnd,
+      timezone,
+    });
+
+    return res.json(preferences);
+  } catch (error: any) {
+    console.error('Error updating notification preferences:', error.message);
+    return handleNotificationError(res, error, 'Failed to update notification preferences');
+  }
+});
+
+/**
+ * GET /api/notifications/deliveries
+ * Get the delivery log, optionally filtered by status (pending, sent, failed)
+ */
+router.get('/deliveries', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const status = req.query.status as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    if (status && !NotificationModel.validateDeliveryStatus(status)) {
+      return res.status(400).json({ error: 'Status must be pending, sent or failed' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 200' });
+    }
+
+    const deliveries = await notificationService.getDeliveries(
+      userId,
+      status as NotificationDeliveryStatus | undefined,
+      limit
+    );
+    return res.json({ deliveries });
+  } catch (error: any) {
+    console.error('Error fetching notification deliveries:', error.message);
+    return handleNotificationError(res, error, 'Failed to fetch notification deliveries');
+  }
+});
+
+/**
+ * PATCH /api/notifications/:id/read
+ * Mark a notification as read
+ */
+router.patch('/:id/read', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const notification = await notificationService.markRead(req.params.id, userId);
+    return res.json(notification);
+  } catch (error: any) {
+    console.error('Error marking notification read:', error.message);
+    return handleNotificationError(res, error, 'Failed to mark notification read');
+  }
+});
+
+export default router;
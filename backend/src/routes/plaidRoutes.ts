@@ -118,11 +118,12 @@ router.post('/sync', async (req, res) => {
       return res.status(400).json({ error: 'Account ID is required' });
     }
 
-    const transactions = await plaidService.syncTransactions(accountId, userId);
+    const result = await plaidService.syncTransactions(accountId, userId);
     return res.json({ 
       success: true, 
       message: 'Transactions synced successfully',
-      count: transactions.length 
+      count: result.added,
+      ...result,
     });
   } catch (error: any) {
     console.error('Error syncing transactions:', error.message);
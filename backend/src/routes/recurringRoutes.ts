@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import recurringService from '../services/recurringService';
+import { RecurringCadence, RecurringFlow, RecurringSeriesModel, RecurringStatus } from '../models/RecurringSeries';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * GET /api/recurring
+ * Get detected recurring charges (or, with flow=income, recurring deposits) with
+ * their next expected date and amount
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const flow = req.query.flow as string | undefined;
+    const cadence = req.query.cadence as string | undefined;
+    const status = req.query.status as string | undefined;
+
+    if (flow && !RecurringSeriesModel.validateFlow(flow)) {
+      return res.status(400).json({ error: 'Flow must be expense or income' });
+    }
+
+    if (cadence && !RecurringSeriesModel.validateCadence(cadence)) {
+      return res.status(400).json({ error: 'Cadence must be weekly, biweekly, monthly or annual' });
+    }
+
+    if (status && !RecurringSeriesModel.validateStatus(status)) {
+      return res.status(400).json({ error: 'Status must be active, missed or cancelled' });
+    }
+
+    const recurring = await recurringService.getRecurring(userId, {
+      flow: flow as RecurringFlow | undefined,
+      cadence: cadence as RecurringCadence | undefined,
+      status: status as RecurringStatus | undefined,
+    });
+
+    return res.json({ recurring });
+  } catch (error: any) {
+    console.error('Error fetching recurring transactions:', error.message);
+    return res.status(500).json({ error: 'Failed to fetch recurring transactions' });
+  }
+});
+
+export default router;
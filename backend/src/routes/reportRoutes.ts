@@ -90,7 +90,8 @@ router.get('/spending', async (req: Request, res: Response) => {
 
 /**
  * GET /api/reports/trends
- * Get spending trends with period comparison
+ * Get spending trends compared with the previous period (compareTo=previous)
+ * or the same dates a year earlier (compareTo=year)
  * Requirements: 6.2, 6.4
  */
 router.get('/trends', async (req: Request, res: Response) => {
@@ -99,6 +100,7 @@ router.get('/trends', async (req: Request, res: Response) => {
     const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
     const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
     const accountId = req.query.accountId as string | undefined;
+    const compareTo = (req.query.compareTo as string) || 'previous';
 
     // Validate required parameters
     if (!startDate || !endDate) {
@@ -116,13 +118,17 @@ router.get('/trends', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'startDate must be before endDate' });
     }
 
+    if (compareTo !== 'previous' && compareTo !== 'year') {
+      return res.status(400).json({ error: 'compareTo must be previous or year' });
+    }
+
     // Create cache key
-    const cacheKey = `trends:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${accountId || 'all'}`;
+    const cacheKey = `trends:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${accountId || 'all'}:${compareTo}`;
 
     // Get data with caching
     const startTime = Date.now();
     const trends = await getCachedOrExecute(cacheKey, () =>
-      reportingService.getTrends(userId, startDate, endDate, accountId)
+      reportingService.getTrends(userId, startDate, endDate, accountId, compareTo)
     );
     const duration = Date.now() - startTime;
 
@@ -138,6 +144,410 @@ router.get('/trends', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/reports/series
+ * Get spending and income per day, week or month over any date range;
+ * compareTo=year adds the same periods a year earlier
+ */
+router.get('/series', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+    const interval = (req.query.interval as string) || 'month';
+    const accountId = req.query.accountId as string | undefined;
+    const compareTo = req.query.compareTo as string | undefined;
+
+    // Validate required parameters
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate query parameters are required'
+      });
+    }
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+
+    if (interval !== 'day' && interval !== 'week' && interval !== 'month') {
+      return res.status(400).json({ error: 'interval must be day, week or month' });
+    }
+
+    if (interval === 'day' && endDate.getTime() - startDate.getTime() > 366 * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: 'Daily series are limited to one year; use week or month' });
+    }
+
+    if (compareTo !== undefined && compareTo !== 'year') {
+      return res.status(400).json({ error: 'compareTo must be year' });
+    }
+
+    // Create cache key
+    const cacheKey = `series:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}:${accountId || 'all'}:${compareTo || 'none'}`;
+
+    // Get data with caching
+    const startTime = Date.now();
+    const series = await getCachedOrExecute(cacheKey, () =>
+      reportingService.getSpendingSeries(userId, startDate, endDate, interval, { accountId, compareTo })
+    );
+    const duration = Date.now() - startTime;
+
+    return res.json({
+      data: series,
+      meta: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        interval,
+        accountId: accountId || null,
+        compareTo: compareTo || null,
+        generatedIn: `${duration}ms`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating spending series:', error.message);
+    return res.status(500).json({ error: 'Failed to generate spending series' });
+  }
+});
+
+/**
+ * GET /api/reports/category-trends
+ * Get spending per category per week or month (a category-by-period matrix)
+ */
+router.get('/category-trends', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+    const interval = (req.query.interval as string) || 'month';
+    const accountId = req.query.accountId as string | undefined;
+
+    // Validate required parameters
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate query parameters are required'
+      });
+    }
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+
+    if (interval !== 'week' && interval !== 'month') {
+      return res.status(400).json({ error: 'interval must be week or month' });
+    }
+
+    // Create cache key
+    const cacheKey = `category-trends:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}:${accountId || 'all'}`;
+
+    // Get data with caching
+    const startTime = Date.now();
+    const trends = await getCachedOrExecute(cacheKey, () =>
+      reportingService.getCategoryTrends(userId, startDate, endDate, interval, accountId)
+    );
+    const duration = Date.now() - startTime;
+
+    return res.json({
+      data: trends,
+      meta: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        interval,
+        accountId: accountId || null,
+        generatedIn: `${duration}ms`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating category trends:', error.message);
+    return res.status(500).json({ error: 'Failed to generate category trends' });
+  }
+});
+
+/**
+ * GET /api/reports/merchants
+ * Rank merchants by total spend (sort=spend) or visit count (sort=visits), with
+ * average ticket size and monthly spending
+ */
+router.get('/merchants', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+    const sort = (req.query.sort as string) || 'spend';
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    const accountId = req.query.accountId as string | undefined;
+
+    // Validate required parameters
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate query parameters are required'
+      });
+    }
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+
+    if (sort !== 'spend' && sort !== 'visits') {
+      return res.status(400).json({ error: 'sort must be spend or visits' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'limit must be between 1 and 200' });
+    }
+
+    // Create cache key
+    const cacheKey = `merchants:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${sort}:${limit}:${accountId || 'all'}`;
+
+    // Get data with caching
+    const startTime = Date.now();
+    const merchants = await getCachedOrExecute(cacheKey, () =>
+      reportingService.getMerchantSpending(userId, startDate, endDate, { sort, limit, accountId })
+    );
+    const duration = Date.now() - startTime;
+
+    return res.json({
+      data: merchants,
+      meta: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        sort,
+        limit,
+        accountId: accountId || null,
+        generatedIn: `${duration}ms`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating merchant report:', error.message);
+    return res.status(500).json({ error: 'Failed to generate merchant report' });
+  }
+});
+
+/**
+ * GET /api/reports/merchants/:merchantKey/transactions
+ * Get the transactions behind a merchant in the merchant report
+ */
+router.get('/merchants/:merchantKey/transactions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+    const accountId = req.query.accountId as string | undefined;
+
+    // Validate required parameters
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate query parameters are required'
+      });
+    }
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+
+    const result = await reportingService.getMerchantTransactions(
+      userId,
+      req.params.merchantKey,
+      startDate,
+      endDate,
+      accountId
+    );
+
+    return res.json(result);
+  } catch (error: any) {
+    console.error('Error fetching merchant transactions:', error.message);
+    if (error.message === 'Merchant not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to fetch merchant transactions' });
+  }
+});
+
+/**
+ * GET /api/reports/cashflow
+ * Get income, expenses and net savings per period
+ */
+router.get('/cashflow', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+    const interval = (req.query.interval as string) || 'month';
+    const accountId = req.query.accountId as string | undefined;
+
+    // Validate required parameters
+    if (!startDate || !endDate) {
+      return res.status(400).json({ 
+        error: 'startDate and endDate query parameters are required' 
+      });
+    }
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+
+    if (interval !== 'week' && interval !== 'month') {
+      return res.status(400).json({ error: 'interval must be week or month' });
+    }
+
+    // Create cache key
+    const cacheKey = `cashflow:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}:${accountId || 'all'}`;
+
+    // Get data with caching
+    const startTime = Date.now();
+    const cashflow = await getCachedOrExecute(cacheKey, () =>
+      reportingService.getCashflow(userId, startDate, endDate, interval, accountId)
+    );
+    const duration = Date.now() - startTime;
+
+    return res.json({
+      data: cashflow,
+      meta: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        interval,
+        accountId: accountId || null,
+        generatedIn: `${duration}ms`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating cashflow report:', error.message);
+    return res.status(500).json({ error: 'Failed to generate cashflow report' });
+  }
+});
+
+/**
+ * GET /api/reports/net-worth
+ * Get assets, liabilities and net worth over time from daily balance snapshots
+ */
+router.get('/net-worth', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+    const interval = (req.query.interval as string) || 'month';
+
+    // Validate required parameters
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate query parameters are required'
+      });
+    }
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+
+    if (interval !== 'day' && interval !== 'week' && interval !== 'month') {
+      return res.status(400).json({ error: 'interval must be day, week or month' });
+    }
+
+    if (interval === 'day' && endDate.getTime() - startDate.getTime() > 366 * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: 'Daily net worth is limited to one year; use week or month' });
+    }
+
+    // Create cache key
+    const cacheKey = `networth:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}`;
+
+    // Get data with caching
+    const startTime = Date.now();
+    const netWorth = await getCachedOrExecute(cacheKey, () =>
+      reportingService.getNetWorth(userId, startDate, endDate, interval)
+    );
+    const duration = Date.now() - startTime;
+
+    return res.json({
+      data: netWorth,
+      meta: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        interval,
+        generatedIn: `${duration}ms`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating net worth report:', error.message);
+    return res.status(500).json({ error: 'Failed to generate net worth report' });
+  }
+});
+
+/**
+ * GET /api/reports/forecast
+ * Project account balances 30, 60 and 90 days ahead from recurring charges and
+ * deposits, with warnings for checking accounts projected below the floor
+ */
+router.get('/forecast', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const startTime = Date.now();
+    const forecast = await reportingService.getForecast(userId);
+    const duration = Date.now() - startTime;
+
+    return res.json({
+      data: forecast,
+      meta: {
+        generatedIn: `${duration}ms`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating forecast:', error.message);
+    return res.status(500).json({ error: 'Failed to generate forecast' });
+  }
+});
+
+/**
+ * PUT /api/reports/forecast/floor
+ * Set the balance checking accounts should stay above
+ */
+router.put('/forecast/floor', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const floor = parseFloat(req.body.floor);
+
+    if (isNaN(floor)) {
+      return res.status(400).json({ error: 'floor must be a number' });
+    }
+
+    const saved = await reportingService.setLowBalanceFloor(userId, floor);
+    return res.json({ floor: saved });
+  } catch (error: any) {
+    console.error('Error updating low balance floor:', error.message);
+    if (error.message.includes('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to update low balance floor' });
+  }
+});
+
 /**
  * GET /api/reports/export
  * Export transactions as CSV
@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/authMiddleware';
 import transactionService from '../services/transactionService';
 import syncScheduler from '../services/syncScheduler';
+import statementImportService from '../services/statementImportService';
 
 const router = Router();
 
@@ -73,6 +74,172 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Parse manual transaction fields from a request body. Text fields are
+ * type-checked by the service.
+ */
+function parseManualTransactionBody(body: any) {
+  const { accountId, amount, date, merchantName, description, categoryId, location } = body;
+  const input: any = {};
+
+  if (amount !== undefined && typeof amount !== 'number' && typeof amount !== 'string') {
+    throw new Error('Validation failed: Amount must be a number');
+  }
+
+  if (date !== undefined && typeof date !== 'string' && typeof date !== 'number') {
+    throw new Error('Validation failed: Date must be a date string');
+  }
+
+  if (accountId !== undefined) input.accountId = accountId;
+  if (amount !== undefined) input.amount = parseFloat(amount);
+  if (date !== undefined) input.date = new Date(date);
+  if (merchantName !== undefined) input.merchantName = merchantName;
+  if (description !== undefined) input.description = description;
+  if (categoryId !== undefined) input.categoryId = categoryId;
+  if (location !== undefined) input.location = location;
+
+  return input;
+}
+
+/**
+ * Map manual transaction errors to HTTP responses
+ */
+function handleManualTransactionError(res: Response, error: any, fallbackMessage: string) {
+  if (
+    error.message === 'Transaction not found' ||
+    error.message === 'Account not found' ||
+    error.message === 'Category not found'
+  ) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (
+    error.message.includes('Validation failed') ||
+    error.message.includes('cannot be edited') ||
+    error.message.includes('can be edited')
+  ) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * POST /api/transactions/import
+ * Import a CSV, OFX or QFX statement into an account.
+ * Runs as a dry-run preview unless `dryRun: false` is sent.
+ */
+router.post('/import', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { accountId, content, format, fileName, mapping, saveProfile, dryRun } = req.body;
+
+    if (!accountId || !content) {
+      return res.status(400).json({
+        error: 'Missing required fields: accountId, content',
+      });
+    }
+
+    if (
+      typeof content !== 'string' ||
+      (format !== undefined && typeof format !== 'string') ||
+      (fileName !== undefined && typeof fileName !== 'string')
+    ) {
+      return res.status(400).json({ error: 'Content, format and fileName must be strings' });
+    }
+
+    const result = await statementImportService.importStatement(userId, {
+      accountId,
+      content,
+      format: format?.toLowerCase(),
+      fileName,
+      mapping,
+      saveProfile: saveProfile === true,
+      dryRun: dryRun !== false,
+    });
+
+    return res.json(result);
+  } catch (error: any) {
+    console.error('Error importing statement:', error.message);
+
+    if (error.message === 'Account not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (
+      error.message.includes('Validation failed') ||
+      error.message.includes('Invalid') ||
+      error.message.includes('empty')
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    return res.status(500).json({ error: 'Failed to import statement' });
+  }
+});
+
+/**
+ * POST /api/transactions
+ * Create a transaction on a manual account
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { accountId, amount, date, description } = req.body;
+
+    if (!accountId || amount === undefined || !date || !description) {
+      return res.status(400).json({
+        error: 'Missing required fields: accountId, amount, date, description',
+      });
+    }
+
+    const transaction = await transactionService.createManualTransaction(
+      userId,
+      parseManualTransactionBody(req.body)
+    );
+    return res.status(201).json(transaction);
+  } catch (error: any) {
+    console.error('Error creating transaction:', error.message);
+    return handleManualTransactionError(res, error, 'Failed to create transaction');
+  }
+});
+
+/**
+ * PUT /api/transactions/:id
+ * Update a manual transaction
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const transaction = await transactionService.updateManualTransaction(
+      req.params.id,
+      userId,
+      parseManualTransactionBody(req.body)
+    );
+    return res.json(transaction);
+  } catch (error: any) {
+    console.error('Error updating transaction:', error.message);
+    return handleManualTransactionError(res, error, 'Failed to update transaction');
+  }
+});
+
+/**
+ * DELETE /api/transactions/:id
+ * Delete a manual transaction
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    await transactionService.deleteManualTransaction(req.params.id, userId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting transaction:', error.message);
+    return handleManualTransactionError(res, error, 'Failed to delete transaction');
+  }
+});
+
 /**
  * PATCH /api/transactions/:id/category
  * Update transaction category
@@ -100,6 +267,59 @@ router.patch('/:id/category', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/transactions/:id/splits
+ * Split a transaction across categories (an empty list removes the splits)
+ */
+router.put('/:id/splits', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const transactionId = req.params.id;
+    const { splits } = req.body;
+
+    if (!Array.isArray(splits)) {
+      return res.status(400).json({ error: 'Splits must be an array' });
+    }
+
+    const malformed = splits.some(
+      (split: any) =>
+        typeof split !== 'object' ||
+        split === null ||
+        typeof split.categoryId !== 'string' ||
+        (typeof split.amount !== 'number' && typeof split.amount !== 'string') ||
+        (split.note !== undefined && split.note !== null && typeof split.note !== 'string')
+    );
+    if (malformed) {
+      return res.status(400).json({
+        error: 'Each split needs a categoryId string, a numeric amount and an optional note string',
+      });
+    }
+
+    const transaction = await transactionService.updateSplits(
+      transactionId,
+      userId,
+      splits.map((split: any) => ({
+        categoryId: split.categoryId,
+        amount: parseFloat(split.amount),
+        note: split.note,
+      }))
+    );
+    return res.json(transaction);
+  } catch (error: any) {
+    console.error('Error updating transaction splits:', error.message);
+
+    if (error.message === 'Transaction not found' || error.message === 'Category not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message.includes('Validation failed')) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    return res.status(500).json({ error: 'Failed to update transaction splits' });
+  }
+});
+
 /**
  * POST /api/transactions/sync/:accountId
  * Manually trigger transaction sync for a specific account
@@ -121,6 +341,8 @@ router.post('/sync/:accountId', async (req: Request, res: Response) => {
     res.json({
       message: 'Sync completed successfully',
       imported: result.imported,
+      modified: result.modified,
+      removed: result.removed,
       duplicates: result.duplicates,
     });
   } catch (error: any) {
@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import transferService from '../services/transferService';
+import { TransferPairModel, TransferPairStatus } from '../models/TransferPair';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map transfer service errors to HTTP responses
+ */
+function handleTransferError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Transfer not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (
+    error.message === 'Transfer is already unlinked' ||
+    error.message === 'Transfer can no longer be linked'
+  ) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * GET /api/transfers
+ * Get transfer pairs (suggested and confirmed unless a status is given)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const status = req.query.status as string | undefined;
+
+    if (status && !TransferPairModel.validateStatus(status)) {
+      return res.status(400).json({ error: 'Status must be suggested, confirmed or unlinked' });
+    }
+
+    const transfers = await transferService.getTransfers(userId, status as TransferPairStatus | undefined);
+    return res.json({ transfers });
+  } catch (error: any) {
+    console.error('Error fetching transfers:', error.message);
+    return res.status(500).json({ error: 'Failed to fetch transfers' });
+  }
+});
+
+/**
+ * POST /api/transfers/:id/confirm
+ * Confirm a suggested transfer pair (or re-link an unlinked one)
+ */
+router.post('/:id/confirm', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const transfer = await transferService.confirmTransfer(req.params.id, userId);
+    return res.json(transfer);
+  } catch (error: any) {
+    console.error('Error confirming transfer:', error.message);
+    return handleTransferError(res, error, 'Failed to confirm transfer');
+  }
+});
+
+/**
+ * POST /api/transfers/:id/unlink
+ * Unlink a transfer pair so both transactions count as spending and income again
+ */
+router.post('/:id/unlink', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const transfer = await transferService.unlinkTransfer(req.params.id, userId);
+    return res.json(transfer);
+  } catch (error: any) {
+    console.error('Error unlinking transfer:', error.message);
+    return handleTransferError(res, error, 'Failed to unlink transfer');
+  }
+});
+
+export default router;
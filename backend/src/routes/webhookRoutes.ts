@@ -0,0 +1,168 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import webhookService from '../services/webhookService';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookDeliveryStatus,
+  WebhookSubscriptionModel,
+} from '../models/WebhookSubscription';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Map webhook service errors to HTTP responses
+ */
+function handleWebhookError(res: Response, error: any, fallbackMessage: string) {
+  if (error.message === 'Webhook subscription not found') {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error.message.includes('Validation failed')) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: fallbackMessage });
+}
+
+/**
+ * GET /api/webhooks/events
+ * List the event types a subscription can receive
+ */
+router.get('/events', (_req: Request, res: Response) => {
+  return res.json({ events: WEBHOOK_EVENT_TYPES });
+});
+
+/**
+ * GET /api/webhooks
+ * Get all webhook subscriptions
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const subscriptions = await webhookService.getSubscriptions(userId);
+    return res.json({ subscriptions });
+  } catch (error: any) {
+    console.error('Error fetching webhook subscriptions:', error.message);
+    return handleWebhookError(res, error, 'Failed to fetch webhook subscriptions');
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Create a webhook subscription; the response includes the signing secret
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { url, events, description } = req.body;
+
+    const subscription = await webhookService.createSubscription(userId, { url, events, description });
+    return res.status(201).json(subscription);
+  } catch (error: any) {
+    console.error('Error creating webhook subscription:', error.message);
+    return handleWebhookError(res, error, 'Failed to create webhook subscription');
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Update a subscription's URL, events, description or active state
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { url, events, description, isActive } = req.body;
+
+    const subscription = await webhookService.updateSubscription(req.params.id, userId, {
+      url,
+      events,
+      description,
+      isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+    });
+    return res.json(subscription);
+  } catch (error: any) {
+    console.error('Error updating webhook subscription:', error.message);
+    return handleWebhookError(res, error, 'Failed to update webhook subscription');
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete a subscription and its delivery log
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    await webhookService.deleteSubscription(req.params.id, userId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting webhook subscription:', error.message);
+    return handleWebhookError(res, error, 'Failed to delete webhook subscription');
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Replace the signing secret; the response includes the new secret
+ */
+router.post('/:id/rotate-secret', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const subscription = await webhookService.rotateSecret(req.params.id, userId);
+    return res.json(subscription);
+  } catch (error: any) {
+    console.error('Error rotating webhook secret:', error.message);
+    return handleWebhookError(res, error, 'Failed to rotate webhook secret');
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/test
+ * Send a webhook.test event now and return the delivery result
+ */
+router.post('/:id/test', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const delivery = await webhookService.sendTestEvent(req.params.id, userId);
+    return res.json(delivery);
+  } catch (error: any) {
+    console.error('Error sending webhook test event:', error.message);
+    return handleWebhookError(res, error, 'Failed to send test event');
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Get the delivery log, optionally filtered by status (pending, succeeded, failed)
+ */
+router.get('/:id/deliveries', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const status = req.query.status as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    if (status && !WebhookSubscriptionModel.validateDeliveryStatus(status)) {
+      return res.status(400).json({ error: 'Status must be pending, succeeded or failed' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 200' });
+    }
+
+    const deliveries = await webhookService.getDeliveries(
+      req.params.id,
+      userId,
+      status as WebhookDeliveryStatus | undefined,
+      limit
+    );
+    return res.json({ deliveries });
+  } catch (error: any) {
+    console.error('Error fetching webhook deliveries:', error.message);
+    return handleWebhookError(res, error, 'Failed to fetch webhook deliveries');
+  }
+});
+
+export default router;
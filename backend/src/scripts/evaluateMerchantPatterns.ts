@@ -0,0 +1,60 @@
+import { builtInMerchantPatterns, MERCHANT_PATTERNS_VERSION } from '../config/merchantPatterns';
+import { merchantPatternFixtures } from '../config/merchantPatternFixtures';
+import { MerchantPatternRuleModel, PatternEvaluation } from '../models/MerchantPatternRule';
+
+/**
+ * Score merchant pattern rules against the labeled fixtures. Scores the
+ * built-in list in src/config/merchantPatterns.ts (no database needed), or
+ * with --db the active rules in the database (including admin edits).
+ */
+async function evaluateMerchantPatterns() {
+  const useDatabase = process.argv.includes('--db');
+
+  try {
+    let evaluation: PatternEvaluation;
+    if (useDatabase) {
+      console.log('Evaluating active merchant pattern rules from the database...');
+      const { default: merchantPatternService } = await import('../services/merchantPatternService');
+      evaluation = await merchantPatternService.evaluateRules();
+    } else {
+      console.log(`Evaluating built-in merchant patterns (version ${MERCHANT_PATTERNS_VERSION})...`);
+      evaluation = MerchantPatternRuleModel.evaluate(builtInMerchantPatterns, merchantPatternFixtures);
+    }
+
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    console.log(`\nFixtures: ${evaluation.fixtureCount}`);
+    console.log(`Precision: ${percent(evaluation.precision)}`);
+    console.log(`Recall: ${percent(evaluation.recall)}`);
+
+    console.log('\n=== By Category ===');
+    for (const category of evaluation.categories) {
+      console.log(
+        `${category.category.padEnd(24)} precision ${percent(category.precision).padStart(6)}  ` +
+          `recall ${percent(category.recall).padStart(6)}  ` +
+          `(${category.truePositives} right, ${category.falsePositives} wrong, ${category.falseNegatives} missed)`
+      );
+    }
+
+    if (evaluation.mistakes.length > 0) {
+      console.log('\n=== Mistakes ===');
+      for (const mistake of evaluation.mistakes) {
+        console.log(
+          `✗ ${mistake.merchantName}: expected ${mistake.expected ?? 'no match'}, got ${mistake.predicted ?? 'no match'}` +
+            (mistake.ruleId ? ` (rule ${mistake.ruleId})` : '')
+        );
+      }
+    }
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exit(1);
+  } finally {
+    if (useDatabase) {
+      const { default: getPrismaClient } = await import('../config/database');
+      await getPrismaClient().$disconnect();
+    }
+  }
+}
+
+// Run the script
+evaluateMerchantPatterns();
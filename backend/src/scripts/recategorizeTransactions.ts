@@ -9,6 +9,8 @@ async function recategorizeTransactions() {
   try {
     // Get all transactions
     const transactions = await prisma.transaction.findMany({
+      where: { deletedAt: null },
+      include: { merchant: true },
       orderBy: { date: 'desc' },
     });
 
@@ -33,6 +35,10 @@ async function recategorizeTransactions() {
           {
             merchantName: transaction.merchantName || undefined,
             description: transaction.description,
+            merchant: transaction.merchant || undefined,
+            amount: Number(transaction.amount),
+            accountId: transaction.accountId,
+            date: transaction.date,
             plaidCategory: undefined, // We don't have this stored
           }
         );
@@ -24,6 +24,7 @@ async function rerunFraudDetection() {
     // Step 3: Get all transactions ordered by date
     console.log('Step 3: Fetching all transactions...');
     const transactions = await prisma.transaction.findMany({
+      where: { deletedAt: null },
       orderBy: { date: 'asc' }, // Process in chronological order
     });
     console.log(`✓ Found ${transactions.length} transactions\n`);
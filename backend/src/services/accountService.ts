@@ -0,0 +1,213 @@
+import getPrismaClient from '../config/database';
+import {
+  AccountType,
+  CreateManualAccountInput,
+  PlaidAccountModel,
+  PlaidAccountResponse,
+} from '../models/PlaidAccount';
+
+const prisma = getPrismaClient();
+
+export interface UpdateManualAccountInput {
+  accountName?: string;
+  accountType?: AccountType;
+  accountSubtype?: string;
+  currentBalance?: number;
+}
+
+export class AccountService {
+  /**
+   * Get all active accounts for a user, both Plaid-linked and manual
+   */
+  async getAccounts(userId: string): Promise<PlaidAccountResponse[]> {
+    const accounts = await prisma.plaidAccount.findMany({
+      where: {
+        userId,
+        isActive: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return accounts.map((account) => PlaidAccountModel.toResponse(account));
+  }
+
+  /**
+   * Get a single account by ID
+   */
+  async getAccountById(accountId: string, userId: string): Promise<PlaidAccountResponse | null> {
+    const account = await prisma.plaidAccount.findFirst({
+      where: {
+        id: accountId,
+        userId,
+        isActive: true,
+      },
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    return PlaidAccountModel.toResponse(account);
+  }
+
+  /**
+   * Create a manual account for institutions Plaid doesn't support (cash, HSA portals, etc.)
+   */
+  async createManualAccount(input: CreateManualAccountInput): Promise<PlaidAccountResponse> {
+    const validation = PlaidAccountModel.validateManualAccountInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const account = await prisma.plaidAccount.create({
+      data: {
+        userId: input.userId,
+        isManual: true,
+        accountName: input.accountName.trim(),
+        accountType: input.accountType,
+        accountSubtype: input.accountSubtype?.trim() || '',
+        currentBalance: input.currentBalance,
+        lastSyncedAt: new Date(),
+        isActive: true,
+      },
+    });
+
+    return PlaidAccountModel.toResponse(account);
+  }
+
+  /**
+   * Update a manual account
+   */
+  async updateManualAccount(
+    accountId: string,
+    userId: string,
+    input: UpdateManualAccountInput
+  ): Promise<PlaidAccountResponse> {
+    const existing = await this.findManualAccount(accountId, userId);
+
+    if (input.accountName !== undefined && input.accountName.trim().length === 0) {
+      throw new Error('Account name is required');
+    }
+
+    if (input.accountType !== undefined && !PlaidAccountModel.validateAccountType(input.accountType)) {
+      throw new Error('Invalid account type');
+    }
+
+    if (input.currentBalance !== undefined && isNaN(input.currentBalance)) {
+      throw new Error('Current balance must be a number');
+    }
+
+    const updated = await prisma.plaidAccount.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.accountName !== undefined && { accountName: input.accountName.trim() }),
+        ...(input.accountType !== undefined && { accountType: input.accountType }),
+        ...(input.accountSubtype !== undefined && { accountSubtype: input.accountSubtype.trim() }),
+        ...(input.currentBalance !== undefined && { currentBalance: input.currentBalance }),
+      },
+    });
+
+    return PlaidAccountModel.toResponse(updated);
+  }
+
+  /**
+   * Delete a manual account (soft delete by setting isActive to false)
+   */
+  async deleteManualAccount(accountId: string, userId: string): Promise<void> {
+    const existing = await this.findManualAccount(accountId, userId);
+
+    await prisma.plaidAccount.update({
+      where: { id: existing.id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Apply a manual transaction amount to the account balance
+   */
+  async applyTransactionToBalance(accountId: string, amount: number): Promise<void> {
+    const account = await prisma.plaidAccount.findUnique({
+      where: { id: accountId },
+      select: { accountType: true, isManual: true },
+    });
+
+    // Linked account balances come from Plaid
+    if (!account || !account.isManual) {
+      return;
+    }
+
+    await prisma.plaidAccount.update({
+      where: { id: accountId },
+      data: {
+        currentBalance: { increment: PlaidAccountModel.balanceDelta(account.accountType, amount) },
+      },
+    });
+  }
+
+  /**
+   * Record today's balance of every active account, linked and manual. Runs
+   * daily from the sync scheduler; running again the same day overwrites that
+   * day's snapshot.
+   */
+  async recordBalanceSnapshots(date: Date = new Date()): Promise<number> {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    const accounts = await prisma.plaidAccount.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        userId: true,
+        accountType: true,
+        currentBalance: true,
+        availableBalance: true,
+      },
+    });
+
+    let recorded = 0;
+    for (const account of accounts) {
+      try {
+        const balances = {
+          accountType: account.accountType,
+          currentBalance: account.currentBalance,
+          availableBalance: account.availableBalance,
+        };
+
+        await prisma.balanceSnapshot.upsert({
+          where: { accountId_date: { accountId: account.id, date: day } },
+          create: { accountId: account.id, userId: account.userId, date: day, ...balances },
+          update: balances,
+        });
+        recorded++;
+      } catch (error: any) {
+        console.error(`Error recording balance snapshot for account ${account.id}:`, error.message);
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Find an active manual account owned by the user
+   */
+  async findManualAccount(accountId: string, userId: string) {
+    const account = await prisma.plaidAccount.findFirst({
+      where: {
+        id: accountId,
+        userId,
+        isActive: true,
+      },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    if (!account.isManual) {
+      throw new Error('Linked accounts are managed by Plaid and cannot be edited');
+    }
+
+    return account;
+  }
+}
+
+export default new AccountService();
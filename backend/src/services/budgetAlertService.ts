@@ -0,0 +1,133 @@
+import { Prisma } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import { BudgetAlertModel, BudgetAlertResponse } from '../models/BudgetAlert';
+import budgetService, { BudgetProgress } from './budgetService';
+import notificationService from './notificationService';
+import webhookService from './webhookService';
+
+const prisma = getPrismaClient();
+
+export class BudgetAlertService {
+  /**
+   * Check a user's active budgets for newly crossed thresholds. Each crossing is
+   * stored once per budget period, so re-running after every import only
+   * reports what is new.
+   */
+  async evaluateBudgetAlerts(userId: string): Promise<BudgetAlertResponse[]> {
+    const budgets = await budgetService.getBudgets(userId, false);
+    const created: BudgetAlertResponse[] = [];
+
+    for (const budget of budgets) {
+      try {
+        const progress = await budgetService.getBudgetProgress(budget.id, userId);
+        const alerts = await this.recordCrossings(userId, progress);
+
+        if (alerts.length > 0) {
+          created.push(...alerts);
+          // One message per budget, for the highest level reached
+          await this.sendNotifications(userId, progress, alerts[alerts.length - 1]);
+        }
+      } catch (error: any) {
+        console.error(`Error evaluating alerts for budget ${budget.id}:`, error.message);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Get stored threshold crossings for a user, newest first
+   */
+  async getBudgetAlerts(userId: string, limit: number = 50): Promise<BudgetAlertResponse[]> {
+    const alerts = await prisma.budgetAlert.findMany({
+      where: { userId },
+      include: {
+        budget: { include: { category: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return alerts.map(alert => BudgetAlertModel.toResponse(alert, alert.budget.category.name));
+  }
+
+  /**
+   * Store thresholds the current period has crossed and not recorded yet,
+   * lowest first
+   */
+  private async recordCrossings(userId: string, progress: BudgetProgress): Promise<BudgetAlertResponse[]> {
+    const crossed = BudgetAlertModel.getThresholds(progress.budget.alertThreshold).filter(
+      threshold => progress.percentageUsed >= threshold
+    );
+
+    if (crossed.length === 0) {
+      return [];
+    }
+
+    const existing = await prisma.budgetAlert.findMany({
+      where: {
+        budgetId: progress.budget.id,
+        periodStartDate: progress.periodStartDate,
+      },
+      select: { threshold: true },
+    });
+    const recorded = new Set(existing.map(alert => alert.threshold));
+    const created: BudgetAlertResponse[] = [];
+
+    for (const threshold of crossed.filter(level => !recorded.has(level))) {
+      try {
+        const alert = await prisma.budgetAlert.create({
+          data: {
+            userId,
+            budgetId: progress.budget.id,
+            periodStartDate: progress.periodStartDate,
+            threshold,
+            percentageUsed: Math.round(progress.percentageUsed * 100) / 100,
+            spending: progress.currentSpending,
+            availableAmount: progress.availableAmount,
+          },
+        });
+        const response = BudgetAlertModel.toResponse(alert, progress.budget.categoryName);
+        created.push(response);
+        webhookService.emit(userId, 'budget.threshold_crossed', response);
+      } catch (error) {
+        // A concurrent evaluation recorded it first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return created;
+  }
+
+  private async sendNotifications(
+    userId: string,
+    progress: BudgetProgress,
+    alert: BudgetAlertResponse
+  ): Promise<void> {
+    try {
+      const categoryName = progress.budget.categoryName || 'Budget';
+      // availableAmount is the budget plus rollover, not what is left of it
+      const overBy = alert.spending - alert.availableAmount;
+      const left = Math.max(0, alert.availableAmount - alert.spending);
+      const title = alert.threshold > 100
+        ? `${categoryName} budget is over by ${overBy.toFixed(2)}`
+        : `${categoryName} budget reached ${alert.threshold}%`;
+
+      await notificationService.notify(userId, {
+        eventType: 'budget_threshold',
+        title,
+        body:
+          `You've used ${alert.percentageUsed.toFixed(1)}% of this period's budget ` +
+          `(${alert.spending.toFixed(2)} spent, ${left.toFixed(2)} left).`,
+        link: '/budgets',
+      });
+    } catch (error: any) {
+      console.error('Error sending budget alert notifications:', error.message);
+    }
+  }
+}
+
+export default new BudgetAlertService();
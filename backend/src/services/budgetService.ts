@@ -1,20 +1,52 @@
+import { Budget as PrismaBudget, BudgetPeriod as PrismaBudgetPeriod } from '@prisma/client';
 import getPrismaClient from '../config/database';
 import { BudgetModel, CreateBudgetInput, BudgetResponse, BudgetPeriod } from '../models/Budget';
 
 const prisma = getPrismaClient();
 
+// How many earlier periods a rollover budget looks back through
+const MAX_ROLLOVER_PERIODS = 24;
+
 export interface UpdateBudgetInput {
   amount?: number;
+  effectiveFrom?: Date; // Recurring budgets: the new amount applies from the period containing this date
   period?: BudgetPeriod;
   startDate?: Date;
-  endDate?: Date;
+  endDate?: Date | null;
   alertThreshold?: number;
+  rollover?: boolean;
+  rolloverCap?: number | null;
   isActive?: boolean;
 }
 
+export interface BudgetPeriodSummary {
+  budgetId: string;
+  periodId?: string; // Set for periods of a recurring budget
+  startDate: Date;
+  endDate: Date;
+  amount: number;
+  carriedIn: number;
+  availableAmount: number;
+  spending: number;
+  percentageUsed: number;
+  carriedOut: number; // What the following period received, after its cap
+}
+
+export interface BudgetCategoryBreakdown {
+  categoryId: string;
+  categoryName: string;
+  spending: number; // Includes the category's own subcategories
+}
+
 export interface BudgetProgress {
   budget: BudgetResponse;
-  currentSpending: number;
+  periodStartDate: Date;
+  periodEndDate: Date;
+  rolloverAmount: number; // Carried in from earlier periods; negative after overspending
+  availableAmount: number; // Budget amount plus rollover
+  rolloverHistory: BudgetPeriodSummary[]; // Earlier periods, oldest first
+  currentSpending: number; // Includes spending in subcategories
+  breakdown: BudgetCategoryBreakdown[]; // Budget category and each direct subcategory; empty without subcategories
   percentageUsed: number;
   remainingAmount: number;
   daysRemaining: number;
@@ -22,6 +54,23 @@ export interface BudgetProgress {
   shouldAlert: boolean;
 }
 
+// Stretch of time with its own amount: a one-off budget or one period of a recurring budget
+interface BudgetWindow {
+  budgetId: string;
+  periodId?: string;
+  startDate: Date;
+  endDate: Date;
+  amount: number;
+  rollover: boolean;
+  rolloverCap?: number;
+}
+
+interface CategoryNode {
+  id: string;
+  name: string;
+  parentCategoryId: string | null;
+}
+
 export class BudgetService {
   /**
    * Create a new budget
@@ -48,38 +97,7 @@ export class BudgetService {
       throw new Error('Category not found');
     }
 
-    // Check for overlapping budgets for the same category
-    const overlapping = await prisma.budget.findFirst({
-      where: {
-        userId: input.userId,
-        categoryId: input.categoryId,
-        isActive: true,
-        OR: [
-          {
-            AND: [
-              { startDate: { lte: input.startDate } },
-              { endDate: { gte: input.startDate } }
-            ]
-          },
-          {
-            AND: [
-              { startDate: { lte: input.endDate } },
-              { endDate: { gte: input.endDate } }
-            ]
-          },
-          {
-            AND: [
-              { startDate: { gte: input.startDate } },
-              { endDate: { lte: input.endDate } }
-            ]
-          }
-        ]
-      }
-    });
-
-    if (overlapping) {
-      throw new Error('A budget already exists for this category in the specified time period');
-    }
+    await this.assertNoOverlap(input.userId, input.categoryId, input.startDate, input.endDate || null);
 
     // Create budget
     const budget = await prisma.budget.create({
@@ -88,9 +106,12 @@ export class BudgetService {
         categoryId: input.categoryId,
         amount: input.amount,
         period: input.period,
+        isRecurring: input.isRecurring || false,
         startDate: input.startDate,
-        endDate: input.endDate,
+        endDate: input.endDate || null,
         alertThreshold: input.alertThreshold || 80,
+        rollover: input.rollover || false,
+        rolloverCap: input.rolloverCap ?? null,
         isActive: true,
       },
       include: {
@@ -98,7 +119,9 @@ export class BudgetService {
       }
     });
 
-    return BudgetModel.toResponse(budget, budget.category.name);
+    const currentPeriod = budget.isRecurring ? await this.getCurrentPeriod(budget) : undefined;
+
+    return BudgetModel.toResponse(budget, budget.category.name, currentPeriod);
   }
 
   /**
@@ -119,7 +142,14 @@ export class BudgetService {
       orderBy: { createdAt: 'desc' }
     });
 
-    return budgets.map(budget => BudgetModel.toResponse(budget, budget.category.name));
+    const responses: BudgetResponse[] = [];
+
+    for (const budget of budgets) {
+      const currentPeriod = budget.isRecurring ? await this.getCurrentPeriod(budget) : undefined;
+      responses.push(BudgetModel.toResponse(budget, budget.category.name, currentPeriod));
+    }
+
+    return responses;
   }
 
   /**
@@ -140,11 +170,15 @@ export class BudgetService {
       return null;
     }
 
-    return BudgetModel.toResponse(budget, budget.category.name);
+    const currentPeriod = budget.isRecurring ? await this.getCurrentPeriod(budget) : undefined;
+
+    return BudgetModel.toResponse(budget, budget.category.name, currentPeriod);
   }
 
   /**
-   * Update a budget
+   * Update a budget. A new amount on a recurring budget applies from the period
+   * containing `effectiveFrom` (default: the current period) onwards; earlier
+   * periods keep the amount they had.
    */
   async updateBudget(
     budgetId: string,
@@ -176,14 +210,40 @@ export class BudgetService {
       throw new Error('Alert threshold must be between 1 and 100');
     }
 
+    if (input.rolloverCap !== undefined && !BudgetModel.validateRolloverCap(input.rolloverCap)) {
+      throw new Error('Rollover cap must be 0 or greater');
+    }
+
+    // Generated periods are laid out from the start date and period length
+    if (
+      existing.isRecurring &&
+      ((input.period && input.period !== existing.period) ||
+        (input.startDate && input.startDate.getTime() !== existing.startDate.getTime()))
+    ) {
+      throw new Error('Validation failed: Period and start date cannot be changed on a recurring budget');
+    }
+
     // Check date range if both dates are provided
     const startDate = input.startDate || existing.startDate;
-    const endDate = input.endDate || existing.endDate;
-    
-    if (!BudgetModel.validateDateRange(startDate, endDate)) {
+    const endDate = input.endDate !== undefined ? input.endDate : existing.endDate;
+
+    if (!endDate && !existing.isRecurring) {
+      throw new Error('Validation failed: End date is required');
+    }
+
+    if (endDate && !BudgetModel.validateDateRange(startDate, endDate)) {
       throw new Error('End date must be after start date');
     }
 
+    const isActive = input.isActive !== undefined ? input.isActive : existing.isActive;
+    if (isActive) {
+      await this.assertNoOverlap(userId, existing.categoryId, startDate, endDate, budgetId);
+    }
+
+    if (existing.isRecurring && input.amount !== undefined && input.amount !== Number(existing.amount)) {
+      await this.applyAmountFrom(existing, input.amount, input.effectiveFrom || new Date());
+    }
+
     // Update budget
     const updated = await prisma.budget.update({
       where: { id: budgetId },
@@ -191,8 +251,10 @@ export class BudgetService {
         ...(input.amount !== undefined && { amount: input.amount }),
         ...(input.period && { period: input.period }),
         ...(input.startDate && { startDate: input.startDate }),
-        ...(input.endDate && { endDate: input.endDate }),
+        ...(input.endDate !== undefined && { endDate: input.endDate }),
         ...(input.alertThreshold !== undefined && { alertThreshold: input.alertThreshold }),
+        ...(input.rollover !== undefined && { rollover: input.rollover }),
+        ...(input.rolloverCap !== undefined && { rolloverCap: input.rolloverCap }),
         ...(input.isActive !== undefined && { isActive: input.isActive }),
       },
       include: {
@@ -200,7 +262,19 @@ export class BudgetService {
       }
     });
 
-    return BudgetModel.toResponse(updated, updated.category.name);
+    // Periods that now start after the end date no longer exist
+    if (updated.isRecurring && updated.endDate) {
+      await prisma.budgetPeriod.deleteMany({
+        where: {
+          budgetId,
+          startDate: { gt: updated.endDate }
+        }
+      });
+    }
+
+    const currentPeriod = updated.isRecurring ? await this.getCurrentPeriod(updated) : undefined;
+
+    return BudgetModel.toResponse(updated, updated.category.name, currentPeriod);
   }
 
   /**
@@ -227,7 +301,7 @@ export class BudgetService {
   }
 
   /**
-   * Calculate spending for a budget period
+   * Calculate spending for a budget's current period
    */
   async calculateSpending(budgetId: string, userId: string): Promise<number> {
     const budget = await prisma.budget.findFirst({
@@ -241,52 +315,63 @@ export class BudgetService {
       throw new Error('Budget not found');
     }
 
-    // Sum all transactions in the budget period for the category
-    const result = await prisma.transaction.aggregate({
-      where: {
-        userId,
-        categoryId: budget.categoryId,
-        date: {
-          gte: budget.startDate,
-          lte: budget.endDate
-        },
-        isPending: false // Only count non-pending transactions
-      },
-      _sum: {
-        amount: true
-      }
-    });
+    const window = await this.getCurrentWindow(budget);
+    const categoryIds = await this.getBudgetCategoryIds(userId, budget.categoryId);
 
-    return Number(result._sum.amount || 0);
+    return this.sumSpending(userId, categoryIds, window.startDate, window.endDate);
   }
 
   /**
    * Get budget progress with spending details
    */
   async getBudgetProgress(budgetId: string, userId: string): Promise<BudgetProgress> {
-    const budget = await this.getBudgetById(budgetId, userId);
-    
+    const budget = await prisma.budget.findFirst({
+      where: {
+        id: budgetId,
+        userId
+      },
+      include: {
+        category: true
+      }
+    });
+
     if (!budget) {
       throw new Error('Budget not found');
     }
 
-    const currentSpending = await this.calculateSpending(budgetId, userId);
-    const budgetAmount = budget.amount;
-    const percentageUsed = budgetAmount > 0 ? (currentSpending / budgetAmount) * 100 : 0;
-    const remainingAmount = budgetAmount - currentSpending;
-    
+    const currentPeriod = budget.isRecurring ? await this.getCurrentPeriod(budget) : undefined;
+    const window = currentPeriod ? this.toWindow(budget, currentPeriod) : await this.getCurrentWindow(budget);
+    const chain = await this.getRolloverChain(budget, window);
+    const categories = await this.getCategoryNodes(userId);
+    const categoryIds = [budget.categoryId, ...this.getDescendantIds(categories, budget.categoryId)];
+    const summaries = await this.summarizeWindows(userId, categoryIds, [...chain, window]);
+    const current = summaries[summaries.length - 1];
+    const breakdown = categoryIds.length > 1
+      ? await this.getBreakdown(userId, categories, budget.categoryId, window)
+      : [];
+
+    // A deficit carried in can leave nothing (or less than nothing) to spend
+    const currentSpending = current.spending;
+    const availableAmount = current.availableAmount;
+    const remainingAmount = this.roundCurrency(availableAmount - currentSpending);
+
     // Calculate days remaining
     const now = new Date();
-    const endDate = new Date(budget.endDate);
-    const daysRemaining = Math.max(0, Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
-    
-    const isOverBudget = currentSpending > budgetAmount;
-    const shouldAlert = percentageUsed >= budget.alertThreshold;
+    const daysRemaining = Math.max(0, Math.ceil((window.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
+
+    const isOverBudget = currentSpending > availableAmount;
+    const shouldAlert = current.percentageUsed >= budget.alertThreshold;
 
     return {
-      budget,
+      budget: BudgetModel.toResponse(budget, budget.category.name, currentPeriod),
+      periodStartDate: window.startDate,
+      periodEndDate: window.endDate,
+      rolloverAmount: current.carriedIn,
+      availableAmount,
+      rolloverHistory: summaries.slice(0, -1),
       currentSpending,
-      percentageUsed,
+      breakdown,
+      percentageUsed: current.percentageUsed,
       remainingAmount,
       daysRemaining,
       isOverBudget,
@@ -294,6 +379,499 @@ export class BudgetService {
     };
   }
 
+  /**
+   * Get a budget's periods up to the current one, newest first, with spending and
+   * rollover for each. A one-off budget lists itself and the earlier budgets it
+   * rolls over from.
+   */
+  async getBudgetHistory(budgetId: string, userId: string): Promise<BudgetPeriodSummary[]> {
+    const budget = await prisma.budget.findFirst({
+      where: {
+        id: budgetId,
+        userId
+      }
+    });
+
+    if (!budget) {
+      throw new Error('Budget not found');
+    }
+
+    const window = await this.getCurrentWindow(budget);
+    let windows: BudgetWindow[];
+
+    if (budget.isRecurring) {
+      const periods = await prisma.budgetPeriod.findMany({
+        where: {
+          budgetId,
+          startDate: { lte: window.startDate }
+        },
+        orderBy: { startDate: 'asc' }
+      });
+
+      windows = periods.map(period => this.toWindow(budget, period));
+    } else {
+      windows = [...(await this.getRolloverChain(budget, window)), window];
+    }
+
+    const categoryIds = await this.getBudgetCategoryIds(userId, budget.categoryId);
+    const summaries = await this.summarizeWindows(userId, categoryIds, windows);
+
+    return summaries.reverse();
+  }
+
+  /**
+   * Generate the current period of every active recurring budget. Run daily by
+   * the sync scheduler; reading a budget also fills in any missing periods.
+   */
+  async renewRecurringBudgets(): Promise<number> {
+    const budgets = await prisma.budget.findMany({
+      where: {
+        isActive: true,
+        isRecurring: true
+      }
+    });
+
+    let created = 0;
+
+    for (const budget of budgets) {
+      try {
+        created += await this.ensurePeriods(budget, new Date());
+      } catch (error: any) {
+        console.error(`Error renewing budget ${budget.id}:`, error.message);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Sum spending in a set of categories between two dates
+   */
+  private async sumSpending(userId: string, categoryIds: string[], startDate: Date, endDate: Date): Promise<number> {
+    const byCategory = await this.getSpendingByCategory(userId, categoryIds, startDate, endDate);
+    let total = 0;
+
+    for (const amount of byCategory.values()) {
+      total += amount;
+    }
+
+    return this.roundCurrency(total);
+  }
+
+  /**
+   * Spending between two dates for each of a set of categories
+   */
+  private async getSpendingByCategory(
+    userId: string,
+    categoryIds: string[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<Map<string, number>> {
+    const periodFilter = {
+      userId,
+      date: {
+        gte: startDate,
+        lte: endDate
+      },
+      isPending: false, // Only count non-pending transactions
+      isTransfer: false, // Moving money between accounts is not spending
+      deletedAt: null
+    };
+
+    // Sum unsplit transactions in the budget period for the categories
+    const results = await prisma.transaction.groupBy({
+      by: ['categoryId'],
+      where: {
+        ...periodFilter,
+        categoryId: { in: categoryIds },
+        splits: { none: {} }
+      },
+      _sum: {
+        amount: true
+      }
+    });
+
+    // Split transactions count only the portion assigned to each category
+    const splitResults = await prisma.transactionSplit.groupBy({
+      by: ['categoryId'],
+      where: {
+        categoryId: { in: categoryIds },
+        transaction: periodFilter
+      },
+      _sum: {
+        amount: true
+      }
+    });
+
+    const byCategory = new Map<string, number>();
+
+    for (const row of [...results, ...splitResults]) {
+      if (row.categoryId) {
+        byCategory.set(row.categoryId, (byCategory.get(row.categoryId) || 0) + Number(row._sum.amount || 0));
+      }
+    }
+
+    return byCategory;
+  }
+
+  /**
+   * Spending in the budget category itself and in each of its direct
+   * subcategories (with their own subcategories rolled in)
+   */
+  private async getBreakdown(
+    userId: string,
+    categories: CategoryNode[],
+    categoryId: string,
+    window: BudgetWindow
+  ): Promise<BudgetCategoryBreakdown[]> {
+    const categoryIds = [categoryId, ...this.getDescendantIds(categories, categoryId)];
+    const byCategory = await this.getSpendingByCategory(userId, categoryIds, window.startDate, window.endDate);
+    const sum = (ids: string[]) => this.roundCurrency(ids.reduce((total, id) => total + (byCategory.get(id) || 0), 0));
+    const self = categories.find(category => category.id === categoryId);
+
+    const breakdown: BudgetCategoryBreakdown[] = [
+      {
+        categoryId,
+        categoryName: self ? self.name : 'Unknown',
+        spending: sum([categoryId])
+      }
+    ];
+
+    for (const child of categories.filter(category => category.parentCategoryId === categoryId)) {
+      breakdown.push({
+        categoryId: child.id,
+        categoryName: child.name,
+        spending: sum([child.id, ...this.getDescendantIds(categories, child.id)])
+      });
+    }
+
+    return breakdown;
+  }
+
+  /**
+   * Throw if another active budget on this category, or on a parent or
+   * subcategory of it, overlaps the date range. Spending rolls up to parent
+   * categories, so those would count the same transactions twice.
+   */
+  private async assertNoOverlap(
+    userId: string,
+    categoryId: string,
+    startDate: Date,
+    endDate: Date | null,
+    excludeBudgetId?: string
+  ): Promise<void> {
+    const categories = await this.getCategoryNodes(userId);
+    const relatedIds = [
+      categoryId,
+      ...this.getAncestorIds(categories, categoryId),
+      ...this.getDescendantIds(categories, categoryId)
+    ];
+
+    // Two ranges overlap when each starts before the other ends; a missing end
+    // date runs indefinitely
+    const overlapping = await prisma.budget.findFirst({
+      where: {
+        userId,
+        categoryId: { in: relatedIds },
+        isActive: true,
+        ...(excludeBudgetId && { id: { not: excludeBudgetId } }),
+        ...(endDate && { startDate: { lte: endDate } }),
+        OR: [
+          { endDate: null },
+          { endDate: { gte: startDate } }
+        ]
+      }
+    });
+
+    if (overlapping && overlapping.categoryId !== categoryId) {
+      throw new Error('A budget already exists for a parent or subcategory of this category in the specified time period');
+    }
+
+    if (overlapping) {
+      throw new Error('A budget already exists for this category in the specified time period');
+    }
+  }
+
+  /**
+   * Categories available to a user (system + user-created)
+   */
+  private async getCategoryNodes(userId: string): Promise<CategoryNode[]> {
+    return prisma.category.findMany({
+      where: {
+        OR: [
+          { isSystem: true },
+          { userId }
+        ]
+      },
+      select: {
+        id: true,
+        name: true,
+        parentCategoryId: true
+      }
+    });
+  }
+
+  /**
+   * A budget category and every category below it
+   */
+  private async getBudgetCategoryIds(userId: string, categoryId: string): Promise<string[]> {
+    const categories = await this.getCategoryNodes(userId);
+    return [categoryId, ...this.getDescendantIds(categories, categoryId)];
+  }
+
+  private getDescendantIds(categories: CategoryNode[], categoryId: string): string[] {
+    const descendants: string[] = [];
+    const queue = [categoryId];
+
+    while (queue.length > 0) {
+      const parentId = queue.shift()!;
+
+      for (const category of categories) {
+        // Guard against cycles in bad data
+        if (category.parentCategoryId === parentId && category.id !== categoryId && !descendants.includes(category.id)) {
+          descendants.push(category.id);
+          queue.push(category.id);
+        }
+      }
+    }
+
+    return descendants;
+  }
+
+  private getAncestorIds(categories: CategoryNode[], categoryId: string): string[] {
+    const ancestors: string[] = [];
+    let current = categories.find(category => category.id === categoryId);
+
+    while (current && current.parentCategoryId && !ancestors.includes(current.parentCategoryId)) {
+      ancestors.push(current.parentCategoryId);
+      current = categories.find(category => category.id === current!.parentCategoryId);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Create any missing periods of a recurring budget up to the one containing
+   * `through` (or its end date). New periods take the budget's current amount.
+   * Returns how many periods were created.
+   */
+  private async ensurePeriods(budget: PrismaBudget, through: Date): Promise<number> {
+    const period = budget.period as BudgetPeriod;
+    const limit = budget.endDate && budget.endDate < through ? budget.endDate : through;
+    const lastIndex = BudgetModel.getPeriodIndex(budget.startDate, period, limit);
+
+    const latest = await prisma.budgetPeriod.findFirst({
+      where: { budgetId: budget.id },
+      orderBy: { startDate: 'desc' }
+    });
+    const firstIndex = latest ? BudgetModel.getPeriodIndex(budget.startDate, period, latest.startDate) + 1 : 0;
+
+    if (lastIndex < firstIndex) {
+      return 0;
+    }
+
+    const data = [];
+
+    for (let index = firstIndex; index <= lastIndex; index++) {
+      const bounds = BudgetModel.getPeriodBounds(budget.startDate, period, index);
+      data.push({
+        budgetId: budget.id,
+        startDate: bounds.startDate,
+        endDate: bounds.endDate,
+        amount: budget.amount
+      });
+    }
+
+    // Concurrent requests may generate the same period
+    const result = await prisma.budgetPeriod.createMany({
+      data,
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Get the period of a recurring budget that is in progress, generating it if
+   * needed. Before the budget starts this is the first period; after it ends, the last.
+   */
+  private async getCurrentPeriod(budget: PrismaBudget): Promise<PrismaBudgetPeriod> {
+    const now = new Date();
+    const target = now < budget.startDate ? budget.startDate : now;
+
+    await this.ensurePeriods(budget, target);
+
+    const current = await prisma.budgetPeriod.findFirst({
+      where: {
+        budgetId: budget.id,
+        startDate: { lte: target }
+      },
+      orderBy: { startDate: 'desc' }
+    });
+
+    if (!current) {
+      throw new Error('Budget period not found');
+    }
+
+    return current;
+  }
+
+  /**
+   * Set a recurring budget's amount from the period containing `effectiveFrom`
+   * onwards. Earlier periods are generated first so they keep the old amount.
+   */
+  private async applyAmountFrom(budget: PrismaBudget, amount: number, effectiveFrom: Date): Promise<void> {
+    const period = budget.period as BudgetPeriod;
+    const index = Math.max(0, BudgetModel.getPeriodIndex(budget.startDate, period, effectiveFrom));
+    const { startDate } = BudgetModel.getPeriodBounds(budget.startDate, period, index);
+
+    if (index > 0) {
+      await this.ensurePeriods(budget, new Date(startDate.getTime() - 1));
+    }
+
+    await prisma.budgetPeriod.updateMany({
+      where: {
+        budgetId: budget.id,
+        startDate: { gte: startDate }
+      },
+      data: { amount }
+    });
+  }
+
+  /**
+   * The window progress is measured over: the current period of a recurring
+   * budget, or the whole date range of a one-off budget
+   */
+  private async getCurrentWindow(budget: PrismaBudget): Promise<BudgetWindow> {
+    if (budget.isRecurring) {
+      return this.toWindow(budget, await this.getCurrentPeriod(budget));
+    }
+
+    return {
+      budgetId: budget.id,
+      startDate: budget.startDate,
+      endDate: budget.endDate!,
+      amount: Number(budget.amount),
+      rollover: budget.rollover,
+      rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : undefined
+    };
+  }
+
+  private toWindow(budget: PrismaBudget, period: PrismaBudgetPeriod): BudgetWindow {
+    return {
+      budgetId: budget.id,
+      periodId: period.id,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      amount: Number(period.amount),
+      rollover: budget.rollover,
+      rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : undefined
+    };
+  }
+
+  /**
+   * Find the earlier windows that carry into a rollover budget, oldest first. A
+   * recurring budget rolls over from its own earlier periods; a one-off budget
+   * walks back through earlier one-off budgets for the same category until one
+   * that does not roll over.
+   */
+  private async getRolloverChain(budget: PrismaBudget, window: BudgetWindow): Promise<BudgetWindow[]> {
+    if (!budget.rollover) {
+      return [];
+    }
+
+    if (budget.isRecurring) {
+      const periods = await prisma.budgetPeriod.findMany({
+        where: {
+          budgetId: budget.id,
+          startDate: { lt: window.startDate }
+        },
+        orderBy: { startDate: 'desc' },
+        take: MAX_ROLLOVER_PERIODS
+      });
+
+      return periods.reverse().map(period => this.toWindow(budget, period));
+    }
+
+    const chain: BudgetWindow[] = [];
+    let current = window;
+
+    while (current.rollover && chain.length < MAX_ROLLOVER_PERIODS) {
+      const previous = await prisma.budget.findFirst({
+        where: {
+          userId: budget.userId,
+          categoryId: budget.categoryId,
+          isActive: true,
+          isRecurring: false,
+          endDate: { lt: current.startDate }
+        },
+        orderBy: { endDate: 'desc' }
+      });
+
+      if (!previous) {
+        break;
+      }
+
+      current = await this.getCurrentWindow(previous);
+      chain.unshift(current);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Replay windows oldest first so each one's capped leftover feeds the next
+   * (when the next one rolls over)
+   */
+  private async summarizeWindows(
+    userId: string,
+    categoryIds: string[],
+    windows: BudgetWindow[]
+  ): Promise<BudgetPeriodSummary[]> {
+    const summaries: BudgetPeriodSummary[] = [];
+    let carry = 0;
+
+    for (let i = 0; i < windows.length; i++) {
+      const window = windows[i];
+      const next = windows[i + 1];
+      const carriedIn = window.rollover ? carry : 0;
+      const spending = await this.sumSpending(userId, categoryIds, window.startDate, window.endDate);
+      const availableAmount = this.roundCurrency(window.amount + carriedIn);
+      const percentageUsed = availableAmount > 0
+        ? (spending / availableAmount) * 100
+        : (spending > 0 || availableAmount < 0 ? 100 : 0);
+
+      carry = next && next.rollover ? this.capRollover(availableAmount - spending, next.rolloverCap) : 0;
+
+      summaries.push({
+        budgetId: window.budgetId,
+        periodId: window.periodId,
+        startDate: window.startDate,
+        endDate: window.endDate,
+        amount: window.amount,
+        carriedIn,
+        availableAmount,
+        spending,
+        percentageUsed,
+        carriedOut: carry
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Limit a carried surplus or deficit to the cap, if there is one
+   */
+  private capRollover(amount: number, cap?: number): number {
+    const capped = cap === undefined ? amount : Math.max(-cap, Math.min(cap, amount));
+    return this.roundCurrency(capped);
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
   /**
    * Check budget alerts for a user
    */
@@ -303,7 +881,7 @@ export class BudgetService {
 
     for (const budget of budgets) {
       const progress = await this.getBudgetProgress(budget.id, userId);
-      
+
       // Only include budgets that should trigger alerts
       if (progress.shouldAlert) {
         alerts.push(progress);
@@ -1,6 +1,21 @@
+import { CategorizationRule, Prisma, Transaction } from '@prisma/client';
 import getPrismaClient from '../config/database';
-import { CategorizationRuleModel } from '../models/CategorizationRule';
-import { CategoryResponse } from '../models/Category';
+import {
+  CategorizationRuleModel,
+  CategorizationRuleResponse,
+  CreateCategorizationRuleInput,
+  RuleActions,
+  RuleConditions,
+  RuleTestResult,
+  UpdateCategorizationRuleInput,
+} from '../models/CategorizationRule';
+import { CategoryGroup, CategoryResponse } from '../models/Category';
+import { MerchantPatternRuleModel } from '../models/MerchantPatternRule';
+import { TransactionModel } from '../models/Transaction';
+import reportingService from './reportingService';
+import merchantPatternService from './merchantPatternService';
+import merchantService from './merchantService';
+import webhookService from './webhookService';
 import OpenAI from 'openai';
 
 const prisma = getPrismaClient();
@@ -10,17 +25,41 @@ const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
   : null;
 
+// Confidence of a category set by a user rule
+const USER_RULE_CONFIDENCE = 95;
+
+// How many matching transactions a rule test returns
+const RULE_TEST_SAMPLE_SIZE = 10;
+
+// Transactions loaded at a time when testing or applying a rule
+const RULE_SCAN_BATCH_SIZE = 500;
+
 export interface CategorizationResult {
   categoryId: string;
   confidence: number;
+  tags?: string[]; // Added by user rules
+  merchantName?: string; // Merchant a user rule renamed the transaction's merchant to
+  isTransfer?: boolean; // Marked as a transfer by a user rule
 }
 
 export interface TransactionForCategorization {
   merchantName?: string;
   description: string;
+  merchant?: { id: string; name: string }; // Canonical merchant, when resolved
+  amount?: number; // Plaid convention: positive = money out
+  accountId?: string;
+  date?: Date;
   plaidCategory?: string[];
 }
 
+// What the user rules matching a transaction do to it
+interface UserRuleMatch {
+  categoryId?: string;
+  tags: string[];
+  merchantName?: string;
+  isTransfer: boolean;
+}
+
 export class CategorizationService {
   /**
    * Categorize a transaction using rule matching and fallback logic
@@ -30,12 +69,39 @@ export class CategorizationService {
     userId: string,
     transaction: TransactionForCategorization
   ): Promise<CategorizationResult> {
-    // Step 1: Try user-specific learned rules (highest priority)
-    const userRuleResult = await this.matchUserRules(userId, transaction);
-    if (userRuleResult) {
-      return userRuleResult;
+    // Step 1: Try user-specific rules (highest priority). Besides a category they
+    // can add tags, rename the merchant and mark the transaction as a transfer.
+    const ruleMatch = await this.matchUserRules(userId, transaction);
+    const ruleActions: Omit<CategorizationResult, 'categoryId' | 'confidence'> = {
+      ...(ruleMatch.tags.length > 0 && { tags: ruleMatch.tags }),
+      ...(ruleMatch.merchantName && { merchantName: ruleMatch.merchantName }),
+      ...(ruleMatch.isTransfer && { isTransfer: true }),
+    };
+
+    if (ruleMatch.categoryId) {
+      return {
+        categoryId: ruleMatch.categoryId,
+        confidence: USER_RULE_CONFIDENCE, // High confidence for user-learned rules
+        ...ruleActions,
+      };
     }
 
+    const fallbackResult = await this.categorizeWithoutRules(userId, {
+      ...transaction,
+      merchantName: ruleMatch.merchantName || transaction.merchantName,
+    });
+
+    return { ...fallbackResult, ...ruleActions };
+  }
+
+  /**
+   * Categorize from merchant patterns, Plaid's category or OpenAI when no user
+   * rule sets the category
+   */
+  private async categorizeWithoutRules(
+    userId: string,
+    transaction: TransactionForCategorization
+  ): Promise<CategorizationResult> {
     // Step 2: Try merchant pattern matching
     const merchantResult = await this.matchMerchantPattern(userId, transaction);
     if (merchantResult) {
@@ -65,34 +131,86 @@ export class CategorizationService {
   }
 
   /**
-   * Match against user-specific categorization rules
+   * Match against user-specific categorization rules. Each action comes from
+   * the highest-priority matching rule that sets it; tags from every matching
+   * rule add up.
    */
   private async matchUserRules(
     userId: string,
     transaction: TransactionForCategorization
-  ): Promise<CategorizationResult | null> {
-    const merchantName = transaction.merchantName || transaction.description;
-
+  ): Promise<UserRuleMatch> {
     // Get all user rules ordered by priority (highest first)
     const rules = await prisma.categorizationRule.findMany({
       where: { userId },
       orderBy: { priority: 'desc' },
     });
 
+    const match: UserRuleMatch = { tags: [], isTransfer: false };
+
     for (const rule of rules) {
-      if (CategorizationRuleModel.matchesMerchant(rule.merchantPattern, merchantName)) {
-        return {
-          categoryId: rule.categoryId,
-          confidence: 95, // High confidence for user-learned rules
-        };
+      if (!this.ruleMatches(CategorizationRuleModel.toInput(rule), transaction)) continue;
+
+      match.categoryId = match.categoryId || rule.categoryId || undefined;
+      match.merchantName = match.merchantName || rule.renameMerchantTo || undefined;
+      match.isTransfer = match.isTransfer || rule.markAsTransfer;
+      rule.tags
+        .filter(tag => !match.tags.includes(tag))
+        .forEach(tag => match.tags.push(tag));
+    }
+
+    return match;
+  }
+
+  /**
+   * Whether a transaction meets every condition a rule sets. Merchant rules
+   * cover every spelling of the merchant; pattern rules also try its canonical
+   * name. Amount, sign, account and date conditions never match transactions
+   * that lack the field.
+   */
+  private ruleMatches(conditions: RuleConditions, transaction: TransactionForCategorization): boolean {
+    if (conditions.merchantId) {
+      if (conditions.merchantId !== transaction.merchant?.id) return false;
+    } else if (conditions.merchantPattern) {
+      const pattern = conditions.merchantPattern;
+      const merchantName = transaction.merchantName || transaction.description;
+      const matchesName =
+        CategorizationRuleModel.matchesMerchant(pattern, merchantName) ||
+        (!!transaction.merchant && CategorizationRuleModel.matchesMerchant(pattern, transaction.merchant.name));
+      if (!matchesName) return false;
+    }
+
+    const amount = transaction.amount;
+    if (conditions.minAmount !== undefined || conditions.maxAmount !== undefined || conditions.direction) {
+      if (amount === undefined) return false;
+      if (conditions.minAmount !== undefined && Math.abs(amount) < conditions.minAmount) return false;
+      if (conditions.maxAmount !== undefined && Math.abs(amount) > conditions.maxAmount) return false;
+      if (conditions.direction === 'outflow' && amount <= 0) return false;
+      if (conditions.direction === 'inflow' && amount >= 0) return false;
+    }
+
+    if (conditions.accountId && conditions.accountId !== transaction.accountId) {
+      return false;
+    }
+
+    if (conditions.keywords && conditions.keywords.length > 0) {
+      const description = transaction.description.toLowerCase();
+      if (!conditions.keywords.some(keyword => description.includes(keyword.toLowerCase()))) return false;
+    }
+
+    if (conditions.dayOfMonthFrom !== undefined && conditions.dayOfMonthTo !== undefined) {
+      if (!transaction.date) return false;
+      const day = transaction.date.getUTCDate();
+      if (!CategorizationRuleModel.matchesDayOfMonth(conditions.dayOfMonthFrom, conditions.dayOfMonthTo, day)) {
+        return false;
       }
     }
 
-    return null;
+    return true;
   }
 
   /**
-   * Match merchant name against common patterns
+   * Match merchant name against the built-in merchant patterns (admin-editable,
+   * seeded from src/config/merchantPatterns.ts)
    */
   private async matchMerchantPattern(
     _userId: string,
@@ -101,69 +219,16 @@ export class CategorizationService {
     const merchantInfo = transaction.merchantName || transaction.description;
     if (!merchantInfo) return null;
     
-    const merchantName = merchantInfo.toLowerCase();
-
-    // Define common merchant patterns
-    const patterns = [
-      // Groceries
-      { pattern: /walmart|target|costco|kroger|safeway|whole foods|publix|trader joe/i, category: 'Groceries', confidence: 85 },
-      
-      // Gas & Fuel
-      { pattern: /shell|chevron|exxon|bp|gas|fuel|marathon|speedway|circle k/i, category: 'Gas & Fuel', confidence: 85 },
-      
-      // Dining & Restaurants
-      { pattern: /chick-fil-a|chick fil a|sonic|mcdonald|burger king|wendy|taco bell|subway|chipotle|panera/i, category: 'Dining', confidence: 90 },
-      { pattern: /starbucks|coffee|cafe|dunkin|dutch bros/i, category: 'Dining', confidence: 85 },
-      { pattern: /restaurant|pizza|burger|food|dining|grill|kitchen|bistro/i, category: 'Dining', confidence: 75 },
-      
-      // Shopping
-      { pattern: /amazon|ebay|etsy|apple|one apple/i, category: 'Shopping', confidence: 80 },
-      
-      // Entertainment
-      { pattern: /netflix|spotify|hulu|disney|apple music|youtube|hbo/i, category: 'Entertainment', confidence: 90 },
-      
-      // Transportation
-      { pattern: /uber|lyft|taxi|transit|auto shop|service|mechanic/i, category: 'Transportation', confidence: 85 },
-      
-      // Utilities
-      { pattern: /duke energy|piedmont|natural gas|electric|water|utility|power|energy/i, category: 'Utilities', confidence: 90 },
-      
-      // Bills & Payments
-      { pattern: /at&t|verizon|t-mobile|sprint|comcast|xfinity|internet|phone|cable/i, category: 'Bills & Payments', confidence: 90 },
-      
-      // Healthcare
-      { pattern: /pharmacy|cvs|walgreens|doctor|hospital|medical|health|clinic/i, category: 'Healthcare', confidence: 85 },
-      
-      // Health & Fitness
-      { pattern: /gym|fitness|yoga|sports|planet fitness|la fitness/i, category: 'Health & Fitness', confidence: 85 },
-      
-      // Charity
-      { pattern: /charity|donation|young life|church|nonprofit/i, category: 'Personal Care', confidence: 80 },
-      
-      // Financial Services
-      { pattern: /betterment|vanguard|fidelity|schwab|investment|bank/i, category: 'Bills & Payments', confidence: 80 },
-    ];
-
-    for (const { pattern, category: categoryName, confidence } of patterns) {
-      if (pattern.test(merchantName)) {
-        // Find the category by name (system categories)
-        const category = await prisma.category.findFirst({
-          where: {
-            name: categoryName,
-            isSystem: true,
-          },
-        });
-
-        if (category) {
-          return {
-            categoryId: category.id,
-            confidence,
-          };
-        }
-      }
+    // The canonical name catches merchants whose raw name is only a processor code
+    const names = [merchantInfo.toLowerCase()];
+    if (transaction.merchant) {
+      names.push(transaction.merchant.name.toLowerCase());
     }
 
-    return null;
+    const rules = await merchantPatternService.getActiveRules();
+    const rule = MerchantPatternRuleModel.findMatch(rules, names);
+
+    return rule ? { categoryId: rule.categoryId, confidence: rule.confidence } : null;
   }
 
   /**
@@ -182,10 +247,10 @@ export class CategorizationService {
 
     // Map Plaid categories to our system categories
     const categoryMapping: Record<string, string> = {
-      'Food and Drink': 'Dining',
-      'Restaurants': 'Dining',
+      'Food and Drink': 'Dining & Restaurants',
+      'Restaurants': 'Dining & Restaurants',
       'Groceries': 'Groceries',
-      'Gas Stations': 'Gas & Fuel',
+      'Gas Stations': 'Transportation',
       'Transportation': 'Transportation',
       'Travel': 'Travel',
       'Entertainment': 'Entertainment',
@@ -194,6 +259,9 @@ export class CategorizationService {
       'Utilities': 'Utilities',
       'Rent': 'Housing',
       'Mortgage': 'Housing',
+      'INCOME': 'Income',
+      'Payroll': 'Income',
+      'Interest Earned': 'Income',
     };
 
     const mappedCategoryName = categoryMapping[plaidCategoryName];
@@ -302,6 +370,7 @@ Respond with ONLY the category name, nothing else.`;
       icon: category.icon,
       color: category.color,
       parentCategoryId: category.parentCategoryId || undefined,
+      group: category.group as CategoryGroup,
       isSystem: category.isSystem,
       createdAt: category.createdAt,
     };
@@ -328,6 +397,7 @@ Respond with ONLY the category name, nothing else.`;
       icon: cat.icon,
       color: cat.color,
       parentCategoryId: cat.parentCategoryId || undefined,
+      group: cat.group as CategoryGroup,
       isSystem: cat.isSystem,
       createdAt: cat.createdAt,
     }));
@@ -369,19 +439,38 @@ Respond with ONLY the category name, nothing else.`;
       throw new Error('Category not found');
     }
 
+    // Rules learned for a canonical merchant apply to all of its spellings; the
+    // pattern is kept for display and for transactions without a merchant
+    const merchant = transaction.merchantId
+      ? await prisma.merchant.findUnique({ where: { id: transaction.merchantId } })
+      : null;
+
     // Extract merchant name for pattern creation
-    const merchantName = transaction.merchantName || transaction.description;
+    const rawMerchantName = transaction.merchantName || transaction.description;
     
     // Create a pattern from the merchant name
     // Escape special regex characters and make it case-insensitive
-    const merchantPattern = this.createMerchantPattern(merchantName);
+    const merchantPattern = this.createMerchantPattern(merchant?.name || rawMerchantName);
 
-    // Check if a similar rule already exists
+    // Check if a similar learned rule already exists (including a pattern rule from
+    // before merchants). Rules the user wrote themselves are left as they are.
     const existingRule = await prisma.categorizationRule.findFirst({
-      where: {
-        userId,
-        merchantPattern,
-      },
+      where: merchant
+        ? {
+            userId,
+            learnedFromUser: true,
+            OR: [
+              { merchantId: merchant.id },
+              { merchantId: null, merchantPattern: this.createMerchantPattern(rawMerchantName) },
+            ],
+          }
+        : {
+            userId,
+            learnedFromUser: true,
+            merchantId: null,
+            merchantPattern,
+          },
+      orderBy: { merchantId: { sort: 'asc', nulls: 'last' } },
     });
 
     if (existingRule) {
@@ -392,6 +481,7 @@ Respond with ONLY the category name, nothing else.`;
           categoryId: newCategoryId,
           priority: existingRule.priority + 1,
           learnedFromUser: true,
+          ...(merchant && { merchantId: merchant.id, merchantPattern }),
         },
       });
     } else {
@@ -408,6 +498,7 @@ Respond with ONLY the category name, nothing else.`;
         data: {
           userId,
           merchantPattern,
+          merchantId: merchant?.id,
           categoryId: newCategoryId,
           priority: newPriority,
           learnedFromUser: true,
@@ -435,27 +526,428 @@ Respond with ONLY the category name, nothing else.`;
   }
 
   /**
-   * Get all categorization rules for a user
+   * Get all categorization rules for a user, highest priority first
    */
-  async getCategorizationRules(userId: string) {
+  async getCategorizationRules(userId: string): Promise<CategorizationRuleResponse[]> {
     const rules = await prisma.categorizationRule.findMany({
       where: { userId },
       include: {
         category: true,
+        merchant: true,
       },
       orderBy: { priority: 'desc' },
     });
 
-    return rules.map(rule => ({
-      id: rule.id,
-      userId: rule.userId,
-      merchantPattern: rule.merchantPattern,
-      categoryId: rule.categoryId,
-      categoryName: rule.category.name,
-      priority: rule.priority,
-      learnedFromUser: rule.learnedFromUser,
-      createdAt: rule.createdAt,
-    }));
+    return rules.map(rule => CategorizationRuleModel.toResponse(rule));
+  }
+
+  /**
+   * Get a categorization rule by ID
+   */
+  async getCategorizationRuleById(ruleId: string, userId: string): Promise<CategorizationRuleResponse | null> {
+    const rule = await prisma.categorizationRule.findFirst({
+      where: { id: ruleId, userId },
+      include: { category: true, merchant: true },
+    });
+
+    return rule ? CategorizationRuleModel.toResponse(rule) : null;
+  }
+
+  /**
+   * Create a rule. Without a priority it goes on top, like learned rules do.
+   */
+  async createCategorizationRule(input: CreateCategorizationRuleInput): Promise<CategorizationRuleResponse> {
+    const rule = { ...input, ...this.normalizeRule(input) };
+
+    const validation = CategorizationRuleModel.validateCreateInput(rule);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    await this.verifyRuleReferences(rule, input.userId);
+
+    let priority = input.priority;
+    if (priority === undefined) {
+      const highestPriorityRule = await prisma.categorizationRule.findFirst({
+        where: { userId: input.userId },
+        orderBy: { priority: 'desc' },
+      });
+      priority = highestPriorityRule ? highestPriorityRule.priority + 1 : 100;
+    }
+
+    const created = await prisma.categorizationRule.create({
+      data: {
+        userId: input.userId,
+        ...this.toRuleData(rule),
+        priority,
+        learnedFromUser: input.learnedFromUser ?? false,
+      },
+    });
+
+    return (await this.getCategorizationRuleById(created.id, input.userId))!;
+  }
+
+  /**
+   * Update a rule's conditions and actions. Fields left out are kept; null
+   * clears them.
+   */
+  async updateCategorizationRule(
+    ruleId: string,
+    userId: string,
+    input: UpdateCategorizationRuleInput
+  ): Promise<CategorizationRuleResponse> {
+    const existing = await this.findRule(ruleId, userId);
+
+    const merged: RuleConditions & RuleActions = { ...CategorizationRuleModel.toInput(existing) };
+    for (const [field, value] of Object.entries(input)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[field] = value ?? undefined;
+      }
+    }
+    const rule = this.normalizeRule(merged);
+
+    const errors = [
+      ...CategorizationRuleModel.validateConditions(rule),
+      ...CategorizationRuleModel.validateActions(rule),
+    ];
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    await this.verifyRuleReferences(rule, userId);
+
+    await prisma.categorizationRule.update({
+      where: { id: ruleId },
+      data: this.toRuleData(rule),
+    });
+
+    return (await this.getCategorizationRuleById(ruleId, userId))!;
+  }
+
+  /**
+   * Delete a rule. Transactions it already categorized keep their category.
+   */
+  async deleteCategorizationRule(ruleId: string, userId: string): Promise<void> {
+    await this.findRule(ruleId, userId);
+
+    await prisma.categorizationRule.delete({
+      where: { id: ruleId },
+    });
+  }
+
+  /**
+   * Set rule priorities from an ordering of all the user's rules, highest
+   * priority first
+   */
+  async reorderCategorizationRules(userId: string, ruleIds: string[]): Promise<CategorizationRuleResponse[]> {
+    const rules = await prisma.categorizationRule.findMany({
+      where: { userId },
+      select: { id: true },
+    });
+
+    const known = new Set(rules.map(rule => rule.id));
+    if (new Set(ruleIds).size !== ruleIds.length || ruleIds.length !== known.size || ruleIds.some(id => !known.has(id))) {
+      throw new Error('Validation failed: ruleIds must list each of your rules exactly once');
+    }
+
+    await prisma.$transaction(
+      ruleIds.map((id, index) =>
+        prisma.categorizationRule.update({
+          where: { id },
+          data: { priority: ruleIds.length - index },
+        })
+      )
+    );
+
+    return this.getCategorizationRules(userId);
+  }
+
+  /**
+   * Count the user's transactions a rule's conditions would match, with the
+   * most recent matches as a sample. Nothing is changed.
+   */
+  async testCategorizationRule(userId: string, conditions: RuleConditions): Promise<RuleTestResult> {
+    const rule = this.normalizeRule(conditions);
+
+    const errors = CategorizationRuleModel.validateConditions(rule);
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    await this.verifyRuleReferences(rule, userId);
+
+    let matchCount = 0;
+    let sample: RuleTestResult['transactions'] = [];
+    let cursor: string | undefined;
+
+    for (;;) {
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          ...(cursor && { id: { gt: cursor } }),
+        },
+        include: { merchant: true },
+        orderBy: { id: 'asc' },
+        take: RULE_SCAN_BATCH_SIZE,
+      });
+      if (transactions.length === 0) break;
+
+      for (const tx of transactions) {
+        if (!this.ruleMatches(rule, this.toCategorizationInput(tx))) continue;
+
+        matchCount++;
+        sample.push({
+          id: tx.id,
+          date: tx.date,
+          amount: Number(tx.amount),
+          merchantName: tx.merchantName || undefined,
+          description: tx.description,
+          categoryId: tx.categoryId || undefined,
+        });
+      }
+
+      // Keep only the most recent matches seen so far
+      sample = sample.sort((a, b) => b.date.getTime() - a.date.getTime()).slice(0, RULE_TEST_SAMPLE_SIZE);
+      cursor = transactions[transactions.length - 1].id;
+    }
+
+    return { matchCount, transactions: sample };
+  }
+
+  /**
+   * Apply a rule's actions to existing transactions it matches. The category
+   * is left alone where the user picked it or a higher-priority rule sets one,
+   * and likewise for the merchant rename. Transactions are loaded and updated
+   * in batches. Returns how many transactions changed.
+   */
+  async applyCategorizationRule(ruleId: string, userId: string): Promise<number> {
+    const rule = await this.findRule(ruleId, userId);
+    const conditions = CategorizationRuleModel.toInput(rule);
+
+    const higherRules = (
+      await prisma.categorizationRule.findMany({
+        where: { userId, priority: { gt: rule.priority } },
+      })
+    ).map(higher => CategorizationRuleModel.toInput(higher));
+
+    const renamedTo = rule.renameMerchantTo
+      ? await merchantService.resolveMerchantByName(userId, rule.renameMerchantTo)
+      : null;
+
+    let changedCount = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          ...(cursor && { id: { gt: cursor } }),
+        },
+        include: { merchant: true },
+        orderBy: { id: 'asc' },
+        take: RULE_SCAN_BATCH_SIZE,
+      });
+      if (transactions.length === 0) break;
+
+      changedCount += await this.applyRuleToBatch(rule, conditions, higherRules, renamedTo, transactions);
+      cursor = transactions[transactions.length - 1].id;
+    }
+
+    if (changedCount > 0) {
+      await reportingService.invalidateUserCache(userId);
+    }
+
+    return changedCount;
+  }
+
+  /**
+   * Apply a rule to one batch of transactions, saving the changes together.
+   * Returns how many changed.
+   */
+  private async applyRuleToBatch(
+    rule: CategorizationRule,
+    conditions: RuleConditions,
+    higherRules: Array<RuleConditions & RuleActions>,
+    renamedTo: { id: string } | null,
+    transactions: Array<Transaction & { merchant: { id: string; name: string } | null }>
+  ): Promise<number> {
+    const changed: Array<{ tx: Transaction; data: Prisma.TransactionUncheckedUpdateInput }> = [];
+
+    for (const tx of transactions) {
+      const input = this.toCategorizationInput(tx);
+      if (!this.ruleMatches(conditions, input)) continue;
+
+      const higherMatches = higherRules.filter(higher => this.ruleMatches(higher, input));
+      const data: Prisma.TransactionUncheckedUpdateInput = {};
+
+      if (
+        rule.categoryId &&
+        tx.categoryId !== rule.categoryId &&
+        tx.categoryConfidence < 100 &&
+        !higherMatches.some(higher => higher.categoryId)
+      ) {
+        data.categoryId = rule.categoryId;
+        data.categoryConfidence = USER_RULE_CONFIDENCE;
+      }
+
+      const newTags = rule.tags.filter(tag => !tx.tags.includes(tag));
+      if (newTags.length > 0) {
+        data.tags = [...tx.tags, ...newTags];
+      }
+
+      if (renamedTo && tx.merchantId !== renamedTo.id && !higherMatches.some(higher => higher.renameMerchantTo)) {
+        data.merchantId = renamedTo.id;
+      }
+
+      if (rule.markAsTransfer && !tx.isTransfer) {
+        data.isTransfer = true;
+      }
+
+      if (Object.keys(data).length > 0) {
+        changed.push({ tx, data });
+      }
+    }
+
+    if (changed.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction(
+      changed.map(({ tx, data }) => prisma.transaction.update({ where: { id: tx.id }, data }))
+    );
+
+    for (const { tx, data } of changed) {
+      if (data.categoryId === undefined) continue;
+
+      webhookService.emit(rule.userId, 'transaction.categorized', {
+        transaction: TransactionModel.toResponse({
+          ...tx,
+          categoryId: rule.categoryId,
+          categoryConfidence: USER_RULE_CONFIDENCE,
+        }),
+        source: 'rule',
+      });
+    }
+
+    return changed.length;
+  }
+
+  /**
+   * Shape a stored transaction for rule matching
+   */
+  private toCategorizationInput(tx: {
+    merchantName: string | null;
+    description: string;
+    merchant: { id: string; name: string } | null;
+    amount: Prisma.Decimal;
+    accountId: string;
+    date: Date;
+  }): TransactionForCategorization {
+    return {
+      merchantName: tx.merchantName || undefined,
+      description: tx.description,
+      merchant: tx.merchant || undefined,
+      amount: Number(tx.amount),
+      accountId: tx.accountId,
+      date: tx.date,
+    };
+  }
+
+  /**
+   * Trim a rule's text fields, dropping empty ones and duplicate keywords and
+   * tags
+   */
+  private normalizeRule<T extends RuleConditions & RuleActions>(rule: T): T {
+    const trimList = (values?: string[]) =>
+      values ? Array.from(new Set(values.map(value => value.trim()).filter(value => value.length > 0))) : undefined;
+
+    return {
+      ...rule,
+      merchantPattern: rule.merchantPattern?.trim() || undefined,
+      merchantId: rule.merchantId || undefined,
+      accountId: rule.accountId || undefined,
+      keywords: trimList(rule.keywords),
+      categoryId: rule.categoryId || undefined,
+      tags: trimList(rule.tags),
+      renameMerchantTo: rule.renameMerchantTo?.trim() || undefined,
+    };
+  }
+
+  /**
+   * Stored columns for a rule's conditions and actions, clearing unset ones
+   */
+  private toRuleData(rule: RuleConditions & RuleActions) {
+    return {
+      merchantPattern: rule.merchantPattern ?? null,
+      merchantId: rule.merchantId ?? null,
+      minAmount: rule.minAmount ?? null,
+      maxAmount: rule.maxAmount ?? null,
+      accountId: rule.accountId ?? null,
+      keywords: rule.keywords ?? [],
+      dayOfMonthFrom: rule.dayOfMonthFrom ?? null,
+      dayOfMonthTo: rule.dayOfMonthTo ?? null,
+      direction: rule.direction ?? null,
+      categoryId: rule.categoryId ?? null,
+      tags: rule.tags ?? [],
+      renameMerchantTo: rule.renameMerchantTo ?? null,
+      markAsTransfer: rule.markAsTransfer ?? false,
+    };
+  }
+
+  /**
+   * Find a rule owned by the user or throw
+   */
+  private async findRule(ruleId: string, userId: string): Promise<CategorizationRule> {
+    const rule = await prisma.categorizationRule.findFirst({
+      where: { id: ruleId, userId },
+    });
+
+    if (!rule) {
+      throw new Error('Categorization rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Verify the category, merchant and account a rule refers to are accessible
+   * to the user
+   */
+  private async verifyRuleReferences(rule: RuleConditions & RuleActions, userId: string): Promise<void> {
+    if (rule.categoryId) {
+      const category = await prisma.category.findFirst({
+        where: {
+          id: rule.categoryId,
+          OR: [{ userId }, { isSystem: true }],
+        },
+      });
+
+      if (!category) {
+        throw new Error('Category not found');
+      }
+    }
+
+    if (rule.merchantId) {
+      const merchant = await prisma.merchant.findFirst({
+        where: { id: rule.merchantId, userId },
+      });
+
+      if (!merchant) {
+        throw new Error('Merchant not found');
+      }
+    }
+
+    if (rule.accountId) {
+      const account = await prisma.plaidAccount.findFirst({
+        where: { id: rule.accountId, userId },
+      });
+
+      if (!account) {
+        throw new Error('Account not found');
+      }
+    }
   }
 }
 
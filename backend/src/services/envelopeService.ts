@@ -0,0 +1,306 @@
+import getPrismaClient from '../config/database';
+import {
+  EnvelopeMoveInput,
+  EnvelopeMoveResponse,
+  EnvelopePlanModel,
+  EnvelopePlanResponse,
+  EnvelopeResponse,
+} from '../models/EnvelopePlan';
+
+const prisma = getPrismaClient();
+
+export class EnvelopeService {
+  /**
+   * Get a month's plan: expected income, what each envelope was given and has
+   * spent, and what is left to assign. Categories with spending but no envelope
+   * are listed too so overspending is visible.
+   */
+  async getPlan(userId: string, month: Date): Promise<EnvelopePlanResponse> {
+    const plan = await prisma.envelopePlan.findUnique({
+      where: { userId_month: { userId, month } },
+      include: {
+        assignments: { include: { category: true } },
+      },
+    });
+
+    const { income, spentByCategory, uncategorizedSpent, categoryNames } = await this.getMonthActivity(userId, month);
+    const envelopes = new Map<string, EnvelopeResponse>();
+
+    for (const assignment of plan?.assignments || []) {
+      envelopes.set(assignment.categoryId, {
+        categoryId: assignment.categoryId,
+        categoryName: assignment.category.name,
+        assigned: Number(assignment.assigned),
+        spent: 0,
+        available: 0,
+        isOverspent: false,
+      });
+    }
+
+    for (const [categoryId, spent] of spentByCategory) {
+      const envelope = envelopes.get(categoryId) || {
+        categoryId,
+        categoryName: categoryNames.get(categoryId) || 'Unknown',
+        assigned: 0,
+        spent: 0,
+        available: 0,
+        isOverspent: false,
+      };
+      envelope.spent = this.roundCurrency(spent);
+      envelopes.set(categoryId, envelope);
+    }
+
+    const list = Array.from(envelopes.values())
+      .map(envelope => {
+        const available = this.roundCurrency(envelope.assigned - envelope.spent);
+        return { ...envelope, available, isOverspent: available < 0 };
+      })
+      .sort((a, b) => a.categoryName.localeCompare(b.categoryName));
+
+    const expectedIncome = plan ? Number(plan.expectedIncome) : 0;
+    const totalAssigned = this.roundCurrency(list.reduce((sum, envelope) => sum + envelope.assigned, 0));
+    const totalSpent = this.roundCurrency(
+      list.reduce((sum, envelope) => sum + envelope.spent, 0) + uncategorizedSpent
+    );
+
+    return {
+      id: plan?.id,
+      month: EnvelopePlanModel.formatMonth(month),
+      expectedIncome,
+      actualIncome: this.roundCurrency(income),
+      totalAssigned,
+      totalSpent,
+      uncategorizedSpent: this.roundCurrency(uncategorizedSpent),
+      leftToAssign: this.roundCurrency(expectedIncome - totalAssigned),
+      envelopes: list,
+    };
+  }
+
+  /**
+   * Set the income a month's plan expects to assign
+   */
+  async setExpectedIncome(userId: string, month: Date, expectedIncome: number): Promise<EnvelopePlanResponse> {
+    if (isNaN(expectedIncome) || expectedIncome < 0) {
+      throw new Error('Validation failed: Expected income must be 0 or greater');
+    }
+
+    await prisma.envelopePlan.upsert({
+      where: { userId_month: { userId, month } },
+      create: { userId, month, expectedIncome },
+      update: { expectedIncome },
+    });
+
+    return this.getPlan(userId, month);
+  }
+
+  /**
+   * Set the amount assigned to a category's envelope. The change is recorded in
+   * the ledger as money taken from (or returned to) "left to assign".
+   */
+  async assign(userId: string, month: Date, categoryId: string, assigned: number): Promise<EnvelopePlanResponse> {
+    if (isNaN(assigned) || assigned < 0) {
+      throw new Error('Validation failed: Assigned amount must be 0 or greater');
+    }
+
+    await this.verifyCategory(userId, categoryId);
+    const planId = await this.findOrCreatePlanId(userId, month);
+
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.envelopeAssignment.findUnique({
+        where: { planId_categoryId: { planId, categoryId } },
+      });
+      const delta = this.roundCurrency(assigned - (existing ? Number(existing.assigned) : 0));
+
+      // Assigning 0 to a new category just opens its envelope
+      await tx.envelopeAssignment.upsert({
+        where: { planId_categoryId: { planId, categoryId } },
+        create: { planId, categoryId, assigned },
+        update: { assigned },
+      });
+
+      if (delta === 0) {
+        return;
+      }
+
+      await tx.envelopeMove.create({
+        data: {
+          planId,
+          fromCategoryId: delta < 0 ? categoryId : null,
+          toCategoryId: delta > 0 ? categoryId : null,
+          amount: Math.abs(delta),
+        },
+      });
+    });
+
+    return this.getPlan(userId, month);
+  }
+
+  /**
+   * Move money between envelopes (or to and from "left to assign") and record
+   * it in the ledger. An envelope cannot give away more than it was assigned.
+   */
+  async moveMoney(userId: string, month: Date, input: EnvelopeMoveInput): Promise<EnvelopePlanResponse> {
+    const validation = EnvelopePlanModel.validateMoveInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    if (input.fromCategoryId) {
+      await this.verifyCategory(userId, input.fromCategoryId);
+    }
+    if (input.toCategoryId) {
+      await this.verifyCategory(userId, input.toCategoryId);
+    }
+
+    const planId = await this.findOrCreatePlanId(userId, month);
+    const amount = this.roundCurrency(input.amount);
+
+    await prisma.$transaction(async (tx) => {
+      if (input.fromCategoryId) {
+        const source = await tx.envelopeAssignment.findUnique({
+          where: { planId_categoryId: { planId, categoryId: input.fromCategoryId } },
+        });
+
+        if (!source || Number(source.assigned) < amount) {
+          throw new Error('Validation failed: Cannot move more than is assigned to the source envelope');
+        }
+
+        await tx.envelopeAssignment.update({
+          where: { id: source.id },
+          data: { assigned: { decrement: amount } },
+        });
+      }
+
+      if (input.toCategoryId) {
+        await tx.envelopeAssignment.upsert({
+          where: { planId_categoryId: { planId, categoryId: input.toCategoryId } },
+          create: { planId, categoryId: input.toCategoryId, assigned: amount },
+          update: { assigned: { increment: amount } },
+        });
+      }
+
+      await tx.envelopeMove.create({
+        data: {
+          planId,
+          fromCategoryId: input.fromCategoryId || null,
+          toCategoryId: input.toCategoryId || null,
+          amount,
+          note: input.note?.trim() || null,
+        },
+      });
+    });
+
+    return this.getPlan(userId, month);
+  }
+
+  /**
+   * Get a month's ledger of money moves, newest first
+   */
+  async getLedger(userId: string, month: Date): Promise<EnvelopeMoveResponse[]> {
+    const moves = await prisma.envelopeMove.findMany({
+      where: {
+        plan: { userId, month },
+      },
+      include: {
+        fromCategory: true,
+        toCategory: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return moves.map(move =>
+      EnvelopePlanModel.toMoveResponse(move, move.fromCategory?.name, move.toCategory?.name)
+    );
+  }
+
+  private async findOrCreatePlanId(userId: string, month: Date): Promise<string> {
+    const plan = await prisma.envelopePlan.upsert({
+      where: { userId_month: { userId, month } },
+      create: { userId, month },
+      update: {},
+    });
+
+    return plan.id;
+  }
+
+  /**
+   * Envelopes hold spending categories available to the user
+   */
+  private async verifyCategory(userId: string, categoryId: string): Promise<void> {
+    const category = await prisma.category.findFirst({
+      where: {
+        id: categoryId,
+        OR: [{ userId }, { isSystem: true }],
+      },
+    });
+
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    if (category.group === 'income') {
+      throw new Error('Validation failed: Income categories cannot have an envelope');
+    }
+  }
+
+  /**
+   * Income received and net spending per category in a month, using Plaid's sign
+   * convention (positive = money out). Transfers and pending transactions are skipped.
+   */
+  private async getMonthActivity(userId: string, month: Date): Promise<{
+    income: number;
+    spentByCategory: Map<string, number>;
+    uncategorizedSpent: number;
+    categoryNames: Map<string, string>;
+  }> {
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        date: {
+          gte: month,
+          lte: EnvelopePlanModel.getMonthEnd(month),
+        },
+        isPending: false,
+        isTransfer: false,
+        deletedAt: null,
+      },
+      include: {
+        category: true,
+        splits: { include: { category: true } },
+      },
+    });
+
+    let income = 0;
+    let uncategorizedSpent = 0;
+    const spentByCategory = new Map<string, number>();
+    const categoryNames = new Map<string, string>();
+
+    for (const tx of transactions) {
+      const parts = tx.splits.length > 0
+        ? tx.splits.map(split => ({ category: split.category, amount: Number(split.amount) }))
+        : [{ category: tx.category, amount: Number(tx.amount) }];
+
+      for (const part of parts) {
+        // Uncategorized inflows count as income, as in reports
+        const uncategorized = !part.category || part.category.name === 'Uncategorized';
+
+        if (part.category?.group === 'income' || (uncategorized && part.amount < 0)) {
+          income += -part.amount;
+        } else if (part.category) {
+          spentByCategory.set(part.category.id, (spentByCategory.get(part.category.id) || 0) + part.amount);
+          categoryNames.set(part.category.id, part.category.name);
+        } else {
+          uncategorizedSpent += part.amount;
+        }
+      }
+    }
+
+    return { income, spentByCategory, uncategorizedSpent, categoryNames };
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default new EnvelopeService();
@@ -7,6 +7,8 @@ import {
   FraudAlertModel,
   FraudAlertResponse,
 } from '../models/FraudAlert';
+import notificationService from './notificationService';
+import webhookService from './webhookService';
 
 const prisma = getPrismaClient();
 
@@ -28,6 +30,8 @@ export class FraudDetectionService {
         userId,
         date: { gte: thirtyDaysAgo },
         isPending: false,
+        isTransfer: false,
+        deletedAt: null,
       },
     });
 
@@ -53,13 +57,19 @@ export class FraudDetectionService {
 
 
   /**
-   * Check if transaction is from a known sketchy merchant or pattern
+   * Check if transaction is from a known sketchy merchant or pattern. Matches
+   * the user already dismissed as false positives for the same canonical
+   * merchant are not raised again.
    */
   async checkSketchyMerchant(
     transaction: TransactionResponse
   ): Promise<{ isSketchy: boolean; reason: string; severity: FraudAlertSeverity }> {
     const merchantName = transaction.merchantName?.toLowerCase() || '';
     const description = transaction.description?.toLowerCase() || '';
+    const merchant = transaction.merchantId
+      ? await prisma.merchant.findUnique({ where: { id: transaction.merchantId } })
+      : null;
+    const canonicalName = merchant?.name.toLowerCase() || '';
     const amount = Math.abs(transaction.amount);
 
     const sketchyPatterns = [
@@ -110,11 +120,11 @@ export class FraudDetectionService {
     ];
 
     for (const { pattern, check, reason, severity } of sketchyPatterns) {
-      if (pattern) {
-        if (pattern.test(merchantName) || pattern.test(description)) {
-          return { isSketchy: true, reason, severity };
-        }
-      } else if (check && check()) {
+      const matched = pattern
+        ? pattern.test(merchantName) || pattern.test(canonicalName) || pattern.test(description)
+        : !!check && check();
+
+      if (matched && !(await this.isDismissedForMerchant(transaction, reason))) {
         return { isSketchy: true, reason, severity };
       }
     }
@@ -122,6 +132,25 @@ export class FraudDetectionService {
     return { isSketchy: false, reason: '', severity: 'low' };
   }
 
+  /**
+   * Whether the user marked an alert with this reason on the same merchant as a
+   * false positive
+   */
+  private async isDismissedForMerchant(transaction: TransactionResponse, reason: string): Promise<boolean> {
+    if (!transaction.merchantId) return false;
+
+    const dismissed = await prisma.fraudAlert.count({
+      where: {
+        userId: transaction.userId,
+        reason,
+        isFalsePositive: true,
+        transaction: { merchantId: transaction.merchantId },
+      },
+    });
+
+    return dismissed > 0;
+  }
+
   /**
    * Check if transaction location is unusual
    */
@@ -170,6 +199,8 @@ export class FraudDetectionService {
           gte: fiveMinutesAgo,
           lt: transaction.date,
         },
+        isTransfer: false,
+        deletedAt: null,
       },
     });
 
@@ -191,12 +222,18 @@ export class FraudDetectionService {
    */
   async analyzeTransaction(transaction: TransactionResponse): Promise<FraudAlertResponse[]> {
     const alerts: FraudAlertResponse[] = [];
+    const newAlerts: FraudAlertResponse[] = []; // Alerts that did not exist before this run
+
+    // Money moving between the user's own accounts is not a fraud signal
+    if (transaction.isTransfer) {
+      return alerts;
+    }
 
     try {
       // Check for sketchy merchants/patterns
       const sketchyCheck = await this.checkSketchyMerchant(transaction);
       if (sketchyCheck.isSketchy) {
-        const alert = await this.createFraudAlert({
+        const { alert, created } = await this.createFraudAlert({
           userId: transaction.userId,
           transactionId: transaction.id,
           alertType: 'unusual_amount',
@@ -204,12 +241,13 @@ export class FraudDetectionService {
           reason: sketchyCheck.reason,
         });
         alerts.push(alert);
+        if (created) newAlerts.push(alert);
       }
 
       // Check for unusual location
       const locationCheck = await this.checkUnusualLocation(transaction.userId, transaction);
       if (locationCheck.isUnusual) {
-        const alert = await this.createFraudAlert({
+        const { alert, created } = await this.createFraudAlert({
           userId: transaction.userId,
           transactionId: transaction.id,
           alertType: 'unusual_location',
@@ -217,12 +255,13 @@ export class FraudDetectionService {
           reason: locationCheck.reason,
         });
         alerts.push(alert);
+        if (created) newAlerts.push(alert);
       }
 
       // Check for rapid transactions
       const rapidCheck = await this.checkRapidTransactions(transaction.userId, transaction);
       if (rapidCheck.isUnusual) {
-        const alert = await this.createFraudAlert({
+        const { alert, created } = await this.createFraudAlert({
           userId: transaction.userId,
           transactionId: transaction.id,
           alertType: 'rapid_transactions',
@@ -230,10 +269,13 @@ export class FraudDetectionService {
           reason: rapidCheck.reason,
         });
         alerts.push(alert);
+        if (created) newAlerts.push(alert);
       }
 
-      if (alerts.length > 0) {
-        await this.sendNotifications(transaction.userId, alerts);
+      // Re-analysis (Plaid updates, pending charges posting) finds the same
+      // alerts again; only notify about new ones
+      if (newAlerts.length > 0) {
+        await this.sendNotifications(transaction.userId, newAlerts);
       }
 
       return alerts;
@@ -243,7 +285,13 @@ export class FraudDetectionService {
     }
   }
 
-  private async createFraudAlert(input: CreateFraudAlertInput): Promise<FraudAlertResponse> {
+  /**
+   * Create a fraud alert, or return the existing one of the same type for the
+   * transaction. `created` is false for an existing alert.
+   */
+  private async createFraudAlert(
+    input: CreateFraudAlertInput
+  ): Promise<{ alert: FraudAlertResponse; created: boolean }> {
     const validation = FraudAlertModel.validateCreateInput(input);
     if (!validation.valid) {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
@@ -257,7 +305,7 @@ export class FraudDetectionService {
     });
 
     if (existing) {
-      return FraudAlertModel.toResponse(existing);
+      return { alert: FraudAlertModel.toResponse(existing), created: false };
     }
 
     const alert = await prisma.fraudAlert.create({
@@ -272,24 +320,21 @@ export class FraudDetectionService {
       },
     });
 
-    return FraudAlertModel.toResponse(alert);
+    const response = FraudAlertModel.toResponse(alert);
+    webhookService.emit(input.userId, 'fraud_alert.created', response);
+
+    return { alert: response, created: true };
   }
 
   private async sendNotifications(userId: string, alerts: FraudAlertResponse[]): Promise<void> {
     try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { email: true, firstName: true },
-      });
-
-      if (!user) {
-        console.error(`User ${userId} not found for notification`);
-        return;
-      }
-
-      console.log(`[FRAUD ALERT] Sending ${alerts.length} fraud alert(s) to ${user.email}`);
-      alerts.forEach((alert) => {
-        console.log(`  - ${alert.alertType} (${alert.severity}): ${alert.reason}`);
+      await notificationService.notify(userId, {
+        eventType: 'fraud_alert',
+        title: alerts.length === 1
+          ? 'Suspicious transaction detected'
+          : `${alerts.length} suspicious activity alerts`,
+        body: alerts.map((alert) => `${alert.severity.toUpperCase()}: ${alert.reason}`).join('\n'),
+        link: '/',
       });
     } catch (error: any) {
       console.error('Error sending fraud alert notifications:', error.message);
@@ -308,7 +353,7 @@ export class FraudDetectionService {
       alertType?: FraudAlertType;
     }
   ): Promise<any[]> {
-    const where: any = { userId };
+    const where: any = { userId, transaction: { deletedAt: null } };
 
     if (options?.includeReviewed === false) {
       where.isReviewed = false;
@@ -383,6 +428,7 @@ export class FraudDetectionService {
         severity: alert.severity,
         amount: transaction.amount,
         merchantName: transaction.merchantName,
+        merchantId: transaction.merchantId,
         location: {
           city: transaction.locationCity,
           region: transaction.locationRegion,
@@ -0,0 +1,387 @@
+import { Prisma } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import {
+  CreateGoalInput,
+  GOAL_ACCOUNT_TYPES,
+  GoalContributionInput,
+  GoalContributionResponse,
+  GoalModel,
+  GoalResponse,
+  UpdateGoalInput,
+} from '../models/Goal';
+
+const prisma = getPrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30.44;
+
+// Pace is the average over the goal's recent history: at least a month, at most three
+const MIN_PACE_WINDOW_DAYS = 30;
+const MAX_PACE_WINDOW_DAYS = 90;
+
+type GoalWithAccounts = Prisma.GoalGetPayload<{
+  include: { accounts: { include: { account: true } } };
+}>;
+
+const goalInclude = {
+  accounts: { include: { account: true } },
+};
+
+export class GoalService {
+  /**
+   * Get all goals for a user with progress and projections
+   */
+  async getGoals(userId: string): Promise<GoalResponse[]> {
+    const goals = await prisma.goal.findMany({
+      where: { userId },
+      include: goalInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return Promise.all(goals.map(goal => this.toResponse(goal)));
+  }
+
+  /**
+   * Get a goal by ID
+   */
+  async getGoalById(goalId: string, userId: string): Promise<GoalResponse | null> {
+    const goal = await prisma.goal.findFirst({
+      where: { id: goalId, userId },
+      include: goalInclude,
+    });
+
+    return goal ? this.toResponse(goal) : null;
+  }
+
+  /**
+   * Create a goal, optionally linked to accounts whose balance counts toward it
+   */
+  async createGoal(input: CreateGoalInput): Promise<GoalResponse> {
+    if (!input.name || input.targetAmount === undefined) {
+      throw new Error('Validation failed: Name and target amount are required');
+    }
+
+    const validation = GoalModel.validateInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const accountIds = Array.from(new Set(input.accountIds || []));
+    const linkedBalance = await this.verifyAccounts(input.userId, accountIds);
+
+    const goal = await prisma.goal.create({
+      data: {
+        userId: input.userId,
+        name: input.name.trim(),
+        targetAmount: input.targetAmount,
+        targetDate: input.targetDate || null,
+        linkedBalance,
+        accounts: {
+          create: accountIds.map(accountId => ({ accountId })),
+        },
+      },
+      include: goalInclude,
+    });
+
+    return this.toResponse(goal);
+  }
+
+  /**
+   * Update a goal. Changing the linked accounts first records any balance
+   * change on the old links, then starts tracking the new ones from their
+   * current balance.
+   */
+  async updateGoal(goalId: string, userId: string, input: UpdateGoalInput): Promise<GoalResponse> {
+    const existing = await prisma.goal.findFirst({
+      where: { id: goalId, userId },
+      include: goalInclude,
+    });
+
+    if (!existing) {
+      throw new Error('Goal not found');
+    }
+
+    const validation = GoalModel.validateInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    let linkedBalance: number | undefined;
+    if (input.accountIds !== undefined) {
+      const accountIds = Array.from(new Set(input.accountIds));
+      linkedBalance = await this.verifyAccounts(userId, accountIds, goalId);
+
+      await this.recordLinkedBalance(existing);
+      await prisma.$transaction([
+        prisma.goalAccount.deleteMany({ where: { goalId } }),
+        prisma.goalAccount.createMany({
+          data: accountIds.map(accountId => ({ goalId, accountId })),
+        }),
+      ]);
+    }
+
+    const goal = await prisma.goal.update({
+      where: { id: goalId },
+      data: {
+        name: input.name?.trim(),
+        targetAmount: input.targetAmount,
+        targetDate: input.targetDate,
+        linkedBalance,
+      },
+      include: goalInclude,
+    });
+
+    return this.toResponse(goal);
+  }
+
+  /**
+   * Delete a goal and its contribution history
+   */
+  async deleteGoal(goalId: string, userId: string): Promise<void> {
+    await this.findGoal(goalId, userId);
+    await prisma.goal.delete({ where: { id: goalId } });
+  }
+
+  /**
+   * Record money put toward (or taken from) a goal
+   */
+  async addContribution(
+    goalId: string,
+    userId: string,
+    input: GoalContributionInput
+  ): Promise<GoalContributionResponse> {
+    await this.findGoal(goalId, userId);
+
+    const validation = GoalModel.validateContribution(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const contribution = await prisma.goalContribution.create({
+      data: {
+        goalId,
+        amount: input.amount,
+        date: input.date || new Date(),
+        source: 'manual',
+        note: input.note?.trim() || null,
+      },
+    });
+
+    return GoalModel.toContributionResponse(contribution);
+  }
+
+  /**
+   * Get a goal's contribution history, newest first. Includes recorded changes
+   * in linked account balances.
+   */
+  async getContributions(goalId: string, userId: string): Promise<GoalContributionResponse[]> {
+    await this.findGoal(goalId, userId);
+
+    const contributions = await prisma.goalContribution.findMany({
+      where: { goalId },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return contributions.map(contribution => GoalModel.toContributionResponse(contribution));
+  }
+
+  /**
+   * Delete a manual contribution
+   */
+  async deleteContribution(goalId: string, contributionId: string, userId: string): Promise<void> {
+    await this.findGoal(goalId, userId);
+
+    const contribution = await prisma.goalContribution.findFirst({
+      where: { id: contributionId, goalId },
+    });
+
+    if (!contribution) {
+      throw new Error('Contribution not found');
+    }
+
+    if (contribution.source !== 'manual') {
+      throw new Error('Validation failed: Only manual contributions can be deleted');
+    }
+
+    await prisma.goalContribution.delete({ where: { id: contributionId } });
+  }
+
+  /**
+   * Record how much each goal's linked accounts have grown or shrunk since the
+   * last run, so balance growth shows up in the goal's history and pace.
+   * Runs daily from the sync scheduler.
+   */
+  async recordLinkedBalances(): Promise<number> {
+    const goals = await prisma.goal.findMany({
+      where: { accounts: { some: {} } },
+      include: goalInclude,
+    });
+
+    let recorded = 0;
+    for (const goal of goals) {
+      try {
+        if (await this.recordLinkedBalance(goal)) {
+          recorded++;
+        }
+      } catch (error: any) {
+        console.error(`Error recording linked balance for goal ${goal.id}:`, error.message);
+      }
+    }
+
+    return recorded;
+  }
+
+  private async recordLinkedBalance(goal: GoalWithAccounts): Promise<boolean> {
+    const balance = this.sumBalances(goal);
+    const change = this.roundCurrency(balance - Number(goal.linkedBalance));
+
+    if (change === 0) {
+      return false;
+    }
+
+    await prisma.$transaction([
+      prisma.goalContribution.create({
+        data: {
+          goalId: goal.id,
+          amount: change,
+          date: new Date(),
+          source: 'account',
+        },
+      }),
+      prisma.goal.update({
+        where: { id: goal.id },
+        data: { linkedBalance: balance },
+      }),
+    ]);
+
+    return true;
+  }
+
+  private async findGoal(goalId: string, userId: string) {
+    const goal = await prisma.goal.findFirst({
+      where: { id: goalId, userId },
+    });
+
+    if (!goal) {
+      throw new Error('Goal not found');
+    }
+
+    return goal;
+  }
+
+  /**
+   * Check that accounts can be linked to a goal and return their combined balance
+   */
+  private async verifyAccounts(userId: string, accountIds: string[], goalId?: string): Promise<number> {
+    if (accountIds.length === 0) {
+      return 0;
+    }
+
+    const accounts = await prisma.plaidAccount.findMany({
+      where: { id: { in: accountIds }, userId, isActive: true },
+      include: { goalAccount: true },
+    });
+
+    if (accounts.length !== accountIds.length) {
+      throw new Error('Account not found');
+    }
+
+    for (const account of accounts) {
+      if (!GOAL_ACCOUNT_TYPES.includes(account.accountType)) {
+        throw new Error(`Validation failed: ${account.accountName} is not a savings or investment account`);
+      }
+
+      if (account.goalAccount && account.goalAccount.goalId !== goalId) {
+        throw new Error(`Validation failed: ${account.accountName} is already linked to another goal`);
+      }
+    }
+
+    return this.roundCurrency(accounts.reduce((sum, account) => sum + Number(account.currentBalance), 0));
+  }
+
+  private sumBalances(goal: GoalWithAccounts): number {
+    return this.roundCurrency(
+      goal.accounts
+        .filter(link => link.account.isActive)
+        .reduce((sum, link) => sum + Number(link.account.currentBalance), 0)
+    );
+  }
+
+  /**
+   * Progress and projection. The current amount is manual contributions plus
+   * the live balance of linked accounts; the pace averages all contributions,
+   * including recorded balance changes, over the goal's recent history.
+   */
+  private async toResponse(goal: GoalWithAccounts): Promise<GoalResponse> {
+    const now = new Date();
+    const ageDays = (now.getTime() - goal.createdAt.getTime()) / DAY_MS;
+    const windowDays = Math.min(MAX_PACE_WINDOW_DAYS, Math.max(MIN_PACE_WINDOW_DAYS, ageDays));
+
+    const [manual, recent] = await Promise.all([
+      prisma.goalContribution.aggregate({
+        where: { goalId: goal.id, source: 'manual' },
+        _sum: { amount: true },
+      }),
+      prisma.goalContribution.aggregate({
+        where: { goalId: goal.id, date: { gte: new Date(now.getTime() - windowDays * DAY_MS) } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const targetAmount = Number(goal.targetAmount);
+    const contributedAmount = Number(manual._sum.amount || 0);
+    const linkedBalance = this.sumBalances(goal);
+    const currentAmount = this.roundCurrency(contributedAmount + linkedBalance);
+    const remainingAmount = this.roundCurrency(Math.max(0, targetAmount - currentAmount));
+    const isComplete = remainingAmount === 0;
+
+    const dailyPace = Number(recent._sum.amount || 0) / windowDays;
+    const monthlyPace = this.roundCurrency(dailyPace * DAYS_PER_MONTH);
+
+    let projectedCompletionDate: Date | undefined;
+    if (isComplete) {
+      projectedCompletionDate = now;
+    } else if (dailyPace > 0) {
+      projectedCompletionDate = new Date(now.getTime() + Math.ceil(remainingAmount / dailyPace) * DAY_MS);
+    }
+
+    let requiredMonthly: number | undefined;
+    let isOnTrack: boolean | undefined;
+    if (goal.targetDate) {
+      const monthsLeft = (goal.targetDate.getTime() - now.getTime()) / (DAYS_PER_MONTH * DAY_MS);
+      requiredMonthly = isComplete ? 0 : this.roundCurrency(remainingAmount / Math.max(monthsLeft, 1));
+      isOnTrack =
+        isComplete ||
+        (projectedCompletionDate !== undefined && projectedCompletionDate <= goal.targetDate);
+    }
+
+    return {
+      id: goal.id,
+      name: goal.name,
+      targetAmount,
+      targetDate: goal.targetDate || undefined,
+      accounts: goal.accounts.map(link => ({
+        accountId: link.accountId,
+        accountName: link.account.accountName,
+        currentBalance: Number(link.account.currentBalance),
+      })),
+      contributedAmount,
+      linkedBalance,
+      currentAmount,
+      remainingAmount,
+      percentComplete: Math.max(0, Math.min(100, Math.round((currentAmount / targetAmount) * 1000) / 10)),
+      isComplete,
+      monthlyPace,
+      projectedCompletionDate,
+      requiredMonthly,
+      isOnTrack,
+      createdAt: goal.createdAt,
+    };
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default new GoalService();
@@ -0,0 +1,231 @@
+import { MerchantPatternRule } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import { cache } from '../config/redis';
+import { merchantPatternFixtures } from '../config/merchantPatternFixtures';
+import { builtInMerchantPatterns } from '../config/merchantPatterns';
+import {
+  ActiveMerchantPatternRule,
+  CreateMerchantPatternRuleInput,
+  MerchantPatternRuleModel,
+  MerchantPatternRuleResponse,
+  MerchantPatternRuleVersionResponse,
+  PatternEvaluation,
+  UpdateMerchantPatternRuleInput,
+} from '../models/MerchantPatternRule';
+
+const prisma = getPrismaClient();
+
+const ACTIVE_RULES_CACHE_KEY = 'merchant-patterns:active';
+const ACTIVE_RULES_CACHE_TTL = 60 * 60; // 1 hour; admin edits clear it sooner
+
+export class MerchantPatternService {
+  /**
+   * Get all merchant pattern rules, highest priority first
+   */
+  async getRules(): Promise<MerchantPatternRuleResponse[]> {
+    const rules = await prisma.merchantPatternRule.findMany({
+      include: { category: true },
+      orderBy: [{ priority: 'desc' }, { id: 'asc' }],
+    });
+
+    return rules.map(rule => MerchantPatternRuleModel.toResponse(rule));
+  }
+
+  /**
+   * Get a merchant pattern rule by ID
+   */
+  async getRuleById(ruleId: string): Promise<MerchantPatternRuleResponse | null> {
+    const rule = await prisma.merchantPatternRule.findUnique({
+      where: { id: ruleId },
+      include: { category: true },
+    });
+
+    return rule ? MerchantPatternRuleModel.toResponse(rule) : null;
+  }
+
+  /**
+   * Active rules in match order, for categorization. Until the table is
+   * seeded, the built-in list is used directly.
+   */
+  async getActiveRules(): Promise<ActiveMerchantPatternRule[]> {
+    const cached = await cache.get(ACTIVE_RULES_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached) as ActiveMerchantPatternRule[];
+    }
+
+    const rules = await prisma.merchantPatternRule.findMany({
+      where: { isActive: true },
+      select: { id: true, pattern: true, categoryId: true, confidence: true },
+      orderBy: [{ priority: 'desc' }, { id: 'asc' }],
+    });
+
+    // Not cached, so seeding takes effect right away
+    if (rules.length === 0 && (await prisma.merchantPatternRule.count()) === 0) {
+      return this.getBuiltInRules();
+    }
+
+    await cache.set(ACTIVE_RULES_CACHE_KEY, JSON.stringify(rules), ACTIVE_RULES_CACHE_TTL);
+    return rules;
+  }
+
+  /**
+   * Create a merchant pattern rule. Its category must be a system category,
+   * since the rule applies to every user.
+   */
+  async createRule(input: CreateMerchantPatternRuleInput, adminUserId: string): Promise<MerchantPatternRuleResponse> {
+    const validation = MerchantPatternRuleModel.validateCreateInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    await this.verifySystemCategory(input.categoryId);
+
+    const existing = await prisma.merchantPatternRule.findUnique({ where: { id: input.id } });
+    if (existing) {
+      throw new Error('Validation failed: A rule with this ID already exists');
+    }
+
+    const data = {
+      pattern: input.pattern.trim(),
+      categoryId: input.categoryId,
+      confidence: input.confidence,
+      priority: input.priority ?? 0,
+      isActive: input.isActive ?? true,
+    };
+
+    await prisma.merchantPatternRule.create({
+      data: {
+        id: input.id,
+        ...data,
+        updatedBy: adminUserId,
+        versions: { create: { version: 1, ...data, changedBy: adminUserId } },
+      },
+    });
+    await cache.del(ACTIVE_RULES_CACHE_KEY);
+
+    return (await this.getRuleById(input.id))!;
+  }
+
+  /**
+   * Update a merchant pattern rule, recording the new version. An edited
+   * built-in rule is no longer updated by the seed.
+   */
+  async updateRule(
+    ruleId: string,
+    input: UpdateMerchantPatternRuleInput,
+    adminUserId: string
+  ): Promise<MerchantPatternRuleResponse> {
+    const errors = MerchantPatternRuleModel.validateInput(input);
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    const rule = await this.findRule(ruleId);
+
+    if (input.categoryId) {
+      await this.verifySystemCategory(input.categoryId);
+    }
+
+    const data = {
+      pattern: input.pattern !== undefined ? input.pattern.trim() : rule.pattern,
+      categoryId: input.categoryId ?? rule.categoryId,
+      confidence: input.confidence ?? rule.confidence,
+      priority: input.priority ?? rule.priority,
+      isActive: input.isActive ?? rule.isActive,
+    };
+    const version = rule.version + 1;
+
+    await prisma.$transaction([
+      prisma.merchantPatternRule.update({
+        where: { id: ruleId },
+        data: { ...data, version, builtInVersion: null, updatedBy: adminUserId },
+      }),
+      prisma.merchantPatternRuleVersion.create({
+        data: { ruleId, version, ...data, changedBy: adminUserId },
+      }),
+    ]);
+    await cache.del(ACTIVE_RULES_CACHE_KEY);
+
+    return (await this.getRuleById(ruleId))!;
+  }
+
+  /**
+   * Get a rule's versions, newest first
+   */
+  async getRuleVersions(ruleId: string): Promise<MerchantPatternRuleVersionResponse[]> {
+    await this.findRule(ruleId);
+
+    const versions = await prisma.merchantPatternRuleVersion.findMany({
+      where: { ruleId },
+      orderBy: { version: 'desc' },
+    });
+
+    return versions.map(version => MerchantPatternRuleModel.toVersionResponse(version));
+  }
+
+  /**
+   * Score the active rules against the labeled fixtures
+   */
+  async evaluateRules(): Promise<PatternEvaluation> {
+    const rules = await prisma.merchantPatternRule.findMany({
+      where: { isActive: true },
+      include: { category: true },
+      orderBy: [{ priority: 'desc' }, { id: 'asc' }],
+    });
+
+    return MerchantPatternRuleModel.evaluate(
+      rules.map(rule => ({ id: rule.id, pattern: rule.pattern, category: rule.category.name })),
+      merchantPatternFixtures
+    );
+  }
+
+  /**
+   * The built-in list in match order, with category names resolved to system
+   * categories. Patterns whose category is missing are skipped.
+   */
+  private async getBuiltInRules(): Promise<ActiveMerchantPatternRule[]> {
+    const categories = await prisma.category.findMany({
+      where: { isSystem: true, name: { in: builtInMerchantPatterns.map(builtIn => builtIn.category) } },
+    });
+    const categoryIds = new Map(categories.map(category => [category.name, category.id]));
+
+    return builtInMerchantPatterns
+      .filter(builtIn => categoryIds.has(builtIn.category))
+      .map(builtIn => ({
+        id: builtIn.id,
+        pattern: builtIn.pattern,
+        categoryId: categoryIds.get(builtIn.category)!,
+        confidence: builtIn.confidence,
+      }));
+  }
+
+  /**
+   * Find a merchant pattern rule or throw
+   */
+  private async findRule(ruleId: string): Promise<MerchantPatternRule> {
+    const rule = await prisma.merchantPatternRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule) {
+      throw new Error('Merchant pattern rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Verify a category exists and is a system category
+   */
+  private async verifySystemCategory(categoryId: string): Promise<void> {
+    const category = await prisma.category.findFirst({
+      where: { id: categoryId, isSystem: true },
+    });
+
+    if (!category) {
+      throw new Error('Category not found');
+    }
+  }
+}
+
+export default new MerchantPatternService();
@@ -0,0 +1,326 @@
+import { Prisma } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import { MerchantModel, MerchantResponse } from '../models/Merchant';
+import reportingService from './reportingService';
+
+const prisma = getPrismaClient();
+
+// Transactions without a merchant are backfilled in batches
+const BACKFILL_BATCH_SIZE = 500;
+
+export interface ResolvedMerchant {
+  id: string;
+  name: string;
+}
+
+export class MerchantService {
+  /**
+   * Find the canonical merchant for a raw merchant name or bank description,
+   * creating it (with the normalized name as its first alias) the first time
+   * the merchant is seen. Returns null when nothing is left after normalizing.
+   */
+  async resolveMerchant(
+    userId: string,
+    merchantName: string | null | undefined,
+    description: string
+  ): Promise<ResolvedMerchant | null> {
+    const alias = MerchantModel.normalize(merchantName || description);
+    if (!alias) return null;
+
+    const existing = await prisma.merchantAlias.findUnique({
+      where: { userId_alias: { userId, alias } },
+      include: { merchant: true },
+    });
+    if (existing) {
+      return { id: existing.merchant.id, name: existing.merchant.name };
+    }
+
+    try {
+      const merchant = await prisma.merchant.create({
+        data: {
+          userId,
+          name: MerchantModel.displayName(alias),
+          aliases: { create: { userId, alias } },
+        },
+      });
+      return { id: merchant.id, name: merchant.name };
+    } catch (error) {
+      // Another import created the alias first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const created = await prisma.merchantAlias.findUnique({
+          where: { userId_alias: { userId, alias } },
+          include: { merchant: true },
+        });
+        if (created) {
+          return { id: created.merchant.id, name: created.merchant.name };
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the canonical merchant a rule renames transactions to: a merchant of
+   * that name, else the one its normalized name is an alias of, else a new
+   * merchant with that exact name
+   */
+  async resolveMerchantByName(userId: string, name: string): Promise<ResolvedMerchant | null> {
+    const named = await prisma.merchant.findFirst({
+      where: { userId, name: { equals: name.trim(), mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (named) {
+      return { id: named.id, name: named.name };
+    }
+
+    const alias = MerchantModel.normalize(name);
+    if (!alias) return null;
+
+    const existing = await prisma.merchantAlias.findUnique({
+      where: { userId_alias: { userId, alias } },
+      include: { merchant: true },
+    });
+    if (existing) {
+      return { id: existing.merchant.id, name: existing.merchant.name };
+    }
+
+    const merchant = await prisma.merchant.create({
+      data: {
+        userId,
+        name: name.trim(),
+        aliases: { create: { userId, alias } },
+      },
+    });
+    return { id: merchant.id, name: merchant.name };
+  }
+
+  /**
+   * Get a user's merchants with their aliases and transaction counts, optionally
+   * filtered by a search on the name or an alias
+   */
+  async getMerchants(userId: string, search?: string): Promise<MerchantResponse[]> {
+    const where: Prisma.MerchantWhereInput = { userId };
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { aliases: { some: { alias: { contains: search.toLowerCase() } } } },
+      ];
+    }
+
+    const merchants = await prisma.merchant.findMany({
+      where,
+      include: {
+        aliases: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { transactions: { where: { deletedAt: null } } } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return merchants.map(({ _count, ...merchant }) => MerchantModel.toResponse(merchant, _count.transactions));
+  }
+
+  /**
+   * Get a merchant by ID
+   */
+  async getMerchantById(merchantId: string, userId: string): Promise<MerchantResponse | null> {
+    const merchant = await prisma.merchant.findFirst({
+      where: { id: merchantId, userId },
+      include: {
+        aliases: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { transactions: { where: { deletedAt: null } } } },
+      },
+    });
+
+    if (!merchant) return null;
+
+    const { _count, ...rest } = merchant;
+    return MerchantModel.toResponse(rest, _count.transactions);
+  }
+
+  /**
+   * Rename a merchant. Transactions keep their raw names; reports and
+   * categorization use the new one.
+   */
+  async renameMerchant(merchantId: string, userId: string, name: string): Promise<MerchantResponse> {
+    const validation = MerchantModel.validateName(name);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    await this.findMerchant(merchantId, userId);
+
+    await prisma.merchant.update({
+      where: { id: merchantId },
+      data: { name: name.trim() },
+    });
+
+    await reportingService.invalidateUserCache(userId);
+
+    return (await this.getMerchantById(merchantId, userId))!;
+  }
+
+  /**
+   * Merge other merchants into one: their aliases, transactions and
+   * categorization rules move to the target and the merged merchants are
+   * deleted. Where both have a merchant rule, the target's rule wins.
+   */
+  async mergeMerchants(targetId: string, userId: string, sourceIds: string[]): Promise<MerchantResponse> {
+    const ids = Array.from(new Set(sourceIds)).filter(id => id !== targetId);
+    if (ids.length === 0) {
+      throw new Error('Validation failed: Select at least one other merchant to merge');
+    }
+
+    await this.findMerchant(targetId, userId);
+
+    const sources = await prisma.merchant.findMany({
+      where: { id: { in: ids }, userId },
+      select: { id: true },
+    });
+    if (sources.length !== ids.length) {
+      throw new Error('Merchant not found');
+    }
+
+    const targetHasRule = (await prisma.categorizationRule.count({ where: { merchantId: targetId } })) > 0;
+
+    await prisma.$transaction([
+      prisma.merchantAlias.updateMany({
+        where: { merchantId: { in: ids } },
+        data: { merchantId: targetId },
+      }),
+      prisma.transaction.updateMany({
+        where: { merchantId: { in: ids } },
+        data: { merchantId: targetId },
+      }),
+      targetHasRule
+        ? prisma.categorizationRule.deleteMany({ where: { merchantId: { in: ids } } })
+        : prisma.categorizationRule.updateMany({
+            where: { merchantId: { in: ids } },
+            data: { merchantId: targetId },
+          }),
+      prisma.merchant.deleteMany({ where: { id: { in: ids } } }),
+    ]);
+
+    await reportingService.invalidateUserCache(userId);
+
+    return (await this.getMerchantById(targetId, userId))!;
+  }
+
+  /**
+   * Split an alias that was wrongly grouped (by the normalizer or a merge) out
+   * into a merchant of its own, taking its transactions with it
+   */
+  async detachAlias(merchantId: string, aliasId: string, userId: string): Promise<MerchantResponse> {
+    await this.findMerchant(merchantId, userId);
+
+    const alias = await prisma.merchantAlias.findFirst({
+      where: { id: aliasId, merchantId },
+    });
+    if (!alias) {
+      throw new Error('Alias not found');
+    }
+
+    const aliasCount = await prisma.merchantAlias.count({ where: { merchantId } });
+    if (aliasCount === 1) {
+      throw new Error('Validation failed: A merchant must keep at least one alias');
+    }
+
+    // Transactions only store the raw name, so find the ones behind this alias
+    const transactions = await prisma.transaction.findMany({
+      where: { merchantId },
+      select: { id: true, merchantName: true, description: true },
+    });
+    const moved = transactions
+      .filter(tx => MerchantModel.normalize(tx.merchantName || tx.description) === alias.alias)
+      .map(tx => tx.id);
+
+    const merchant = await prisma.$transaction(async (tx) => {
+      const created = await tx.merchant.create({
+        data: { userId, name: MerchantModel.displayName(alias.alias) },
+      });
+
+      await tx.merchantAlias.update({
+        where: { id: alias.id },
+        data: { merchantId: created.id },
+      });
+
+      if (moved.length > 0) {
+        await tx.transaction.updateMany({
+          where: { id: { in: moved } },
+          data: { merchantId: created.id },
+        });
+      }
+
+      return created;
+    });
+
+    await reportingService.invalidateUserCache(userId);
+
+    return (await this.getMerchantById(merchant.id, userId))!;
+  }
+
+  /**
+   * Link transactions that have no merchant yet (imported before merchants
+   * existed) to their canonical merchant. Returns how many were linked.
+   */
+  async assignMissingMerchants(userId?: string): Promise<number> {
+    let assigned = 0;
+    let cursor: string | undefined;
+    const touchedUsers = new Set<string>();
+
+    for (;;) {
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          merchantId: null,
+          deletedAt: null,
+          ...(userId && { userId }),
+          ...(cursor && { id: { gt: cursor } }),
+        },
+        select: { id: true, userId: true, merchantName: true, description: true },
+        orderBy: { id: 'asc' },
+        take: BACKFILL_BATCH_SIZE,
+      });
+      if (transactions.length === 0) break;
+
+      for (const tx of transactions) {
+        try {
+          const merchant = await this.resolveMerchant(tx.userId, tx.merchantName, tx.description);
+          if (!merchant) continue;
+
+          await prisma.transaction.update({
+            where: { id: tx.id },
+            data: { merchantId: merchant.id },
+          });
+          assigned++;
+          touchedUsers.add(tx.userId);
+        } catch (error: any) {
+          console.error(`Error assigning merchant to transaction ${tx.id}:`, error.message);
+        }
+      }
+
+      cursor = transactions[transactions.length - 1].id;
+    }
+
+    for (const touchedUserId of touchedUsers) {
+      await reportingService.invalidateUserCache(touchedUserId);
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Find a merchant owned by the user or throw
+   */
+  private async findMerchant(merchantId: string, userId: string) {
+    const merchant = await prisma.merchant.findFirst({
+      where: { id: merchantId, userId },
+    });
+
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    return merchant;
+  }
+}
+
+export default new MerchantService();
@@ -0,0 +1,154 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import getPrismaClient from '../config/database';
+import { decrypt } from '../utils/encryption';
+import { assertPublicUrl } from '../utils/urlGuard';
+import {
+  NotificationChannelName,
+  NotificationMessage,
+  NotificationPreferenceResponse,
+} from '../models/Notification';
+import { signWebhookPayload } from './webhookService';
+
+const prisma = getPrismaClient();
+
+// Webhook receivers get this long to answer before the attempt counts as failed
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export interface NotificationRecipient {
+  userId: string;
+  email: string;
+  firstName: string;
+  preference: NotificationPreferenceResponse;
+  webhookSecret?: string; // Encrypted
+}
+
+/**
+ * A way of reaching a user. `send` gets one message, or several when a digest or
+ * a backlog from quiet hours goes out together, and throws if delivery failed.
+ */
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  isEnabled(preference: NotificationPreferenceResponse): boolean;
+  send(recipient: NotificationRecipient, messages: NotificationMessage[]): Promise<void>;
+}
+
+/**
+ * Email over SMTP. Configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASS and SMTP_FROM; without SMTP_HOST the channel is off.
+ */
+export class EmailChannel implements NotificationChannel {
+  name: NotificationChannelName = 'email';
+  private transporter: Transporter | null = null;
+
+  isEnabled(preference: NotificationPreferenceResponse): boolean {
+    return preference.emailEnabled && Boolean(process.env.SMTP_HOST);
+  }
+
+  async send(recipient: NotificationRecipient, messages: NotificationMessage[]): Promise<void> {
+    const subject = messages.length === 1
+      ? messages[0].title
+      : `${messages.length} updates from Budget App`;
+    const text = [
+      `Hi ${recipient.firstName},`,
+      '',
+      ...messages.map(message => this.formatMessage(message)),
+    ].join('\n');
+
+    await this.getTransporter().sendMail({
+      from: process.env.SMTP_FROM || 'Budget App <no-reply@localhost>',
+      to: recipient.email,
+      subject,
+      text,
+    });
+  }
+
+  private formatMessage(message: NotificationMessage): string {
+    const link = message.link ? `\n${process.env.FRONTEND_URL || 'http://localhost:5173'}${message.link}` : '';
+    return `${message.title}\n${message.body}${link}\n`;
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      });
+    }
+    return this.transporter;
+  }
+}
+
+/**
+ * JSON POST to the URL in the user's preferences. Any non-2xx answer is a failure.
+ */
+export class WebhookChannel implements NotificationChannel {
+  name: NotificationChannelName = 'webhook';
+
+  isEnabled(preference: NotificationPreferenceResponse): boolean {
+    return preference.webhookEnabled && Boolean(preference.webhookUrl);
+  }
+
+  /**
+   * POST the messages, signed like webhook subscription events. The host is
+   * checked before each send and redirects are not followed.
+   */
+  async send(recipient: NotificationRecipient, messages: NotificationMessage[]): Promise<void> {
+    if (!recipient.webhookSecret) {
+      throw new Error('Webhook has no signing secret; save the webhook URL again to get one');
+    }
+
+    const url = recipient.preference.webhookUrl!;
+    await assertPublicUrl(url);
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const payload = JSON.stringify({
+      sentAt: new Date().toISOString(),
+      notifications: messages,
+    });
+    const signature = signWebhookPayload(decrypt(recipient.webhookSecret), timestamp, payload);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signature}`,
+      },
+      body: payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * The in-app inbox. Always immediate: it makes no noise, so digests and quiet
+ * hours do not apply.
+ */
+export class InAppChannel implements NotificationChannel {
+  name: NotificationChannelName = 'in_app';
+
+  isEnabled(preference: NotificationPreferenceResponse): boolean {
+    return preference.inAppEnabled;
+  }
+
+  async send(recipient: NotificationRecipient, messages: NotificationMessage[]): Promise<void> {
+    await prisma.notification.createMany({
+      data: messages.map(message => ({
+        userId: recipient.userId,
+        eventType: message.eventType,
+        title: message.title,
+        body: message.body,
+        link: message.link || null,
+      })),
+    });
+  }
+}
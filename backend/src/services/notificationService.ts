@@ -0,0 +1,485 @@
+import { NotificationDelivery } from '@prisma/client';
+import crypto from 'crypto';
+import getPrismaClient from '../config/database';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationDeliveryResponse,
+  NotificationDeliveryStatus,
+  NotificationEventType,
+  NotificationListResponse,
+  NotificationMessage,
+  NotificationModel,
+  NotificationPreferenceInput,
+  NotificationPreferenceResponse,
+  NotificationResponse,
+} from '../models/Notification';
+import {
+  EmailChannel,
+  InAppChannel,
+  NotificationChannel,
+  NotificationRecipient,
+  WebhookChannel,
+} from './notificationChannels';
+import { encrypt } from '../utils/encryption';
+import { assertPublicUrl } from '../utils/urlGuard';
+
+const prisma = getPrismaClient();
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute, doubled after each failure
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const QUEUE_BATCH_SIZE = 500;
+const CLAIM_DURATION_MS = 5 * 60 * 1000; // A claimed delivery is due again after this, in case its sender died
+
+export class NotificationService {
+  private channels: Map<string, NotificationChannel> = new Map();
+
+  constructor() {
+    this.registerChannel(new InAppChannel());
+    this.registerChannel(new EmailChannel());
+    this.registerChannel(new WebhookChannel());
+  }
+
+  /**
+   * Add a delivery channel, replacing any registered under the same name
+   */
+  registerChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  /**
+   * Send a message to a user on every channel they have enabled. Immediate
+   * deliveries go out now unless quiet hours hold them back; digest deliveries
+   * wait for the next digest. Failures are logged and retried, never thrown.
+   */
+  async notify(userId: string, message: NotificationMessage): Promise<void> {
+    try {
+      const recipient = await this.getRecipient(userId);
+      if (!recipient) {
+        console.error(`User ${userId} not found for notification`);
+        return;
+      }
+
+      const quietHoursEnd = NotificationModel.getQuietHoursEnd(recipient.preference, new Date());
+
+      for (const channel of this.channels.values()) {
+        if (!channel.isEnabled(recipient.preference)) {
+          continue;
+        }
+
+        // The in-app inbox is silent, so it skips digests and quiet hours
+        const isInApp = channel.name === 'in_app';
+        const isDigest = !isInApp && recipient.preference.deliveryMode === 'digest';
+        const heldUntil = isInApp ? null : quietHoursEnd;
+        const sendNow = !isDigest && !heldUntil;
+
+        const delivery = await prisma.notificationDelivery.create({
+          data: {
+            userId,
+            channel: channel.name,
+            eventType: message.eventType,
+            title: message.title,
+            body: message.body,
+            link: message.link || null,
+            isDigest,
+            // Claimed for the send below, so processQueue leaves it alone
+            nextAttemptAt: sendNow ? new Date(Date.now() + CLAIM_DURATION_MS) : heldUntil,
+          },
+        });
+
+        if (sendNow) {
+          await this.deliver(channel, recipient, [delivery]);
+        }
+      }
+    } catch (error: any) {
+      console.error('Error sending notification:', error.message);
+    }
+  }
+
+  /**
+   * Get a user's in-app notifications, newest first, with unread counts per event type
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; eventType?: NotificationEventType; limit?: number } = {}
+  ): Promise<NotificationListResponse> {
+    const [notifications, unread] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(options.unreadOnly && { readAt: null }),
+          ...(options.eventType && { eventType: options.eventType }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit || 20,
+      }),
+      prisma.notification.groupBy({
+        by: ['eventType'],
+        where: { userId, readAt: null },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const unreadByType: Record<NotificationEventType, number> = {
+      fraud_alert: 0,
+      budget_threshold: 0,
+      sync_failed: 0,
+      recurring_charge: 0,
+    };
+    for (const group of unread) {
+      if (NotificationModel.validateEventType(group.eventType)) {
+        unreadByType[group.eventType as NotificationEventType] = group._count._all;
+      }
+    }
+
+    return {
+      notifications: notifications.map(notification => NotificationModel.toResponse(notification)),
+      unreadCount: unread.reduce((sum, group) => sum + group._count._all, 0),
+      unreadByType,
+    };
+  }
+
+  /**
+   * Mark one in-app notification as read
+   */
+  async markRead(notificationId: string, userId: string): Promise<NotificationResponse> {
+    const notification = await prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+
+    if (notification.readAt) {
+      return NotificationModel.toResponse(notification);
+    }
+
+    const updated = await prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+    });
+
+    return NotificationModel.toResponse(updated);
+  }
+
+  /**
+   * Mark all of a user's unread notifications as read, optionally of one event type
+   */
+  async markAllRead(userId: string, eventType?: NotificationEventType): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(eventType && { eventType }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Get a user's notification preferences, or the defaults if none are saved
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferenceResponse> {
+    const preference = await prisma.notificationPreference.findUnique({
+      where: { userId },
+    });
+
+    return preference
+      ? NotificationModel.toPreferenceResponse(preference)
+      : { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  }
+
+  /**
+   * Update a user's notification preferences. Setting a new webhook URL issues
+   * a new signing secret, returned only in this response.
+   */
+  async updatePreferences(
+    userId: string,
+    input: NotificationPreferenceInput
+  ): Promise<NotificationPreferenceResponse> {
+    const current = await this.getPreferences(userId);
+
+    // Quiet hours are checked as a pair, so fill in whichever end is not changing
+    const merged: NotificationPreferenceInput = {
+      ...input,
+      quietHoursStart: input.quietHoursStart !== undefined ? input.quietHoursStart : current.quietHoursStart,
+      quietHoursEnd: input.quietHoursEnd !== undefined ? input.quietHoursEnd : current.quietHoursEnd,
+    };
+
+    const validation = NotificationModel.validatePreferenceInput(merged);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const webhookEnabled = input.webhookEnabled ?? current.webhookEnabled;
+    const webhookUrl = input.webhookUrl !== undefined ? input.webhookUrl : current.webhookUrl;
+    if (webhookEnabled && !webhookUrl) {
+      throw new Error('Validation failed: A webhook URL is required to enable webhook notifications');
+    }
+
+    let webhookSecret: string | undefined;
+    let storedWebhookSecret: string | null | undefined;
+    if (input.webhookUrl) {
+      await assertPublicUrl(input.webhookUrl);
+
+      const stored = await prisma.notificationPreference.findUnique({
+        where: { userId },
+        select: { webhookSecret: true },
+      });
+      if (input.webhookUrl !== current.webhookUrl || !stored?.webhookSecret) {
+        webhookSecret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+        storedWebhookSecret = encrypt(webhookSecret);
+      }
+    } else if (input.webhookUrl !== undefined) {
+      storedWebhookSecret = null;
+    }
+
+    const data = {
+      emailEnabled: input.emailEnabled,
+      webhookEnabled: input.webhookEnabled,
+      webhookUrl: input.webhookUrl !== undefined ? input.webhookUrl || null : undefined,
+      webhookSecret: storedWebhookSecret,
+      inAppEnabled: input.inAppEnabled,
+      deliveryMode: input.deliveryMode,
+      quietHoursStart: merged.quietHoursStart || null,
+      quietHoursEnd: merged.quietHoursEnd || null,
+      timezone: input.timezone,
+    };
+
+    const preference = await prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    // Switching back to immediate delivery sends whatever the digest was holding
+    if (current.deliveryMode === 'digest' && preference.deliveryMode === 'immediate') {
+      await prisma.notificationDelivery.updateMany({
+        where: { userId, status: 'pending', isDigest: true, nextAttemptAt: null },
+        data: { nextAttemptAt: new Date() },
+      });
+    }
+
+    return NotificationModel.toPreferenceResponse(preference, webhookSecret);
+  }
+
+  /**
+   * Get the delivery log for a user, newest first
+   */
+  async getDeliveries(
+    userId: string,
+    status?: NotificationDeliveryStatus,
+    limit: number = 50
+  ): Promise<NotificationDeliveryResponse[]> {
+    const deliveries = await prisma.notificationDelivery.findMany({
+      where: {
+        userId,
+        ...(status && { status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return deliveries.map(delivery => NotificationModel.toDeliveryResponse(delivery));
+  }
+
+  /**
+   * Send everything that is due: retries, messages held by quiet hours and
+   * digests whose interval has passed. Messages for the same user and channel
+   * go out together.
+   */
+  async processQueue(): Promise<number> {
+    const now = new Date();
+    await this.releaseDigests(now);
+
+    const due = await prisma.notificationDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: QUEUE_BATCH_SIZE,
+    });
+
+    const groups = new Map<string, NotificationDelivery[]>();
+    for (const delivery of due) {
+      const key = `${delivery.userId}:${delivery.channel}`;
+      groups.set(key, [...(groups.get(key) || []), delivery]);
+    }
+
+    const recipients = new Map<string, NotificationRecipient | null>();
+    let sent = 0;
+
+    for (const deliveries of groups.values()) {
+      const { userId, channel: channelName } = deliveries[0];
+      const ids = deliveries.map(delivery => delivery.id);
+
+      if (!recipients.has(userId)) {
+        recipients.set(userId, await this.getRecipient(userId));
+      }
+      const recipient = recipients.get(userId);
+      const channel = this.channels.get(channelName);
+
+      if (!recipient || !channel || !channel.isEnabled(recipient.preference)) {
+        await prisma.notificationDelivery.updateMany({
+          where: { id: { in: ids } },
+          data: { status: 'failed', nextAttemptAt: null, lastError: 'Channel is no longer enabled' },
+        });
+        continue;
+      }
+
+      const heldUntil =
+        channelName === 'in_app' ? null : NotificationModel.getQuietHoursEnd(recipient.preference, now);
+      if (heldUntil) {
+        await prisma.notificationDelivery.updateMany({
+          where: { id: { in: ids } },
+          data: { nextAttemptAt: heldUntil },
+        });
+        continue;
+      }
+
+      // Skip the ones another run has already picked up
+      const claimed = await this.claim(deliveries);
+      if (claimed.length > 0 && (await this.deliver(channel, recipient, claimed))) {
+        sent += claimed.length;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Push due deliveries' next attempt back so other queue runs skip them while
+   * this one sends them. Returns the ones no other run changed since they were
+   * read.
+   */
+  private async claim(deliveries: NotificationDelivery[]): Promise<NotificationDelivery[]> {
+    const claimUntil = new Date(Date.now() + CLAIM_DURATION_MS);
+    const claimed: NotificationDelivery[] = [];
+
+    for (const delivery of deliveries) {
+      const { count } = await prisma.notificationDelivery.updateMany({
+        where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: claimUntil },
+      });
+      if (count === 1) {
+        claimed.push(delivery);
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Make held digest messages due for users whose digest interval has passed
+   */
+  private async releaseDigests(now: Date): Promise<void> {
+    const preferences = await prisma.notificationPreference.findMany({
+      where: {
+        deliveryMode: 'digest',
+        OR: [
+          { lastDigestAt: null },
+          { lastDigestAt: { lte: new Date(now.getTime() - DIGEST_INTERVAL_MS) } },
+        ],
+      },
+    });
+
+    for (const preference of preferences) {
+      const response = NotificationModel.toPreferenceResponse(preference);
+      if (NotificationModel.getQuietHoursEnd(response, now)) {
+        continue;
+      }
+
+      await prisma.notificationDelivery.updateMany({
+        where: { userId: preference.userId, status: 'pending', isDigest: true, nextAttemptAt: null },
+        data: { nextAttemptAt: now },
+      });
+
+      await prisma.notificationPreference.update({
+        where: { id: preference.id },
+        data: { lastDigestAt: now },
+      });
+    }
+  }
+
+  /**
+   * Send deliveries as one message batch and record the outcome. Failures are
+   * retried with exponential backoff until MAX_ATTEMPTS.
+   */
+  private async deliver(
+    channel: NotificationChannel,
+    recipient: NotificationRecipient,
+    deliveries: NotificationDelivery[]
+  ): Promise<boolean> {
+    const ids = deliveries.map(delivery => delivery.id);
+    const attempts = Math.max(...deliveries.map(delivery => delivery.attempts)) + 1;
+
+    try {
+      await channel.send(
+        recipient,
+        deliveries.map(delivery => ({
+          eventType: delivery.eventType as NotificationMessage['eventType'],
+          title: delivery.title,
+          body: delivery.body,
+          link: delivery.link || undefined,
+        }))
+      );
+
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { status: 'sent', attempts, sentAt: new Date(), nextAttemptAt: null, lastError: null },
+      });
+      return true;
+    } catch (error: any) {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      console.error(
+        `Notification delivery via ${channel.name} failed for user ${recipient.userId} ` +
+          `(attempt ${attempts}/${MAX_ATTEMPTS}):`,
+        error.message
+      );
+
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          lastError: String(error.message).slice(0, 500),
+          nextAttemptAt: exhausted
+            ? null
+            : new Date(Date.now() + BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1)),
+        },
+      });
+      return false;
+    }
+  }
+
+  private async getRecipient(userId: string): Promise<NotificationRecipient | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, firstName: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const preference = await prisma.notificationPreference.findUnique({
+      where: { userId },
+    });
+
+    return {
+      userId,
+      email: user.email,
+      firstName: user.firstName,
+      preference: preference
+        ? NotificationModel.toPreferenceResponse(preference)
+        : { ...DEFAULT_NOTIFICATION_PREFERENCES },
+      webhookSecret: preference?.webhookSecret || undefined,
+    };
+  }
+}
+
+export default new NotificationService();
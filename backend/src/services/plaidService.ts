@@ -1,7 +1,16 @@
-import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from 'plaid';
+import {
+  Configuration,
+  PlaidApi,
+  PlaidEnvironments,
+  Products,
+  CountryCode,
+  AccountBase,
+  Transaction as PlaidTransaction,
+} from 'plaid';
 import getPrismaClient from '../config/database';
 import crypto from 'crypto';
 import transactionService from './transactionService';
+import reportingService from './reportingService';
 
 const prisma = getPrismaClient();
 
@@ -55,6 +64,13 @@ function decryptToken(encryptedToken: string): string {
   return decrypted;
 }
 
+export interface SyncTransactionsResult {
+  added: number;
+  modified: number;
+  removed: number;
+  duplicates: number;
+}
+
 export class PlaidService {
   /**
    * Create a Plaid Link token for the user to initiate account linking
@@ -137,7 +153,7 @@ export class PlaidService {
   }
 
   /**
-   * Get all accounts for a user
+   * Get all Plaid-linked accounts for a user
    */
   async getAccounts(userId: string): Promise<any[]> {
     try {
@@ -145,6 +161,7 @@ export class PlaidService {
         where: {
           userId,
           isActive: true,
+          isManual: false,
         },
         select: {
           id: true,
@@ -175,10 +192,11 @@ export class PlaidService {
         where: {
           id: accountId,
           userId,
+          isManual: false,
         },
       });
 
-      if (!account) {
+      if (!account || !account.plaidAccessToken) {
         throw new Error('Account not found');
       }
 
@@ -207,9 +225,11 @@ export class PlaidService {
   }
 
   /**
-   * Sync transactions from Plaid for a specific account
+   * Sync transactions from Plaid for a specific account.
+   * Applies all three delta types returned by /transactions/sync: new transactions
+   * are imported, modified ones are updated in place and removed ones are tombstoned.
    */
-  async syncTransactions(accountId: string, userId: string): Promise<any[]> {
+  async syncTransactions(accountId: string, userId: string): Promise<SyncTransactionsResult> {
     try {
       // Fetch the account
       const account = await prisma.plaidAccount.findFirst({
@@ -217,10 +237,11 @@ export class PlaidService {
           id: accountId,
           userId,
           isActive: true,
+          isManual: false,
         },
       });
 
-      if (!account) {
+      if (!account || !account.plaidAccessToken || !account.plaidAccountId) {
         throw new Error('Account not found');
       }
 
@@ -230,7 +251,10 @@ export class PlaidService {
       // Get cursor for incremental sync
       let cursor = account.syncCursor || undefined;
       let hasMore = true;
-      const allTransactions: any[] = [];
+      const addedTransactions: PlaidTransaction[] = [];
+      const modifiedTransactions: PlaidTransaction[] = [];
+      const removedTransactionIds: string[] = [];
+      let syncedAccounts: AccountBase[] = [];
 
       // Fetch transactions using sync endpoint with pagination
       while (hasMore) {
@@ -239,40 +263,101 @@ export class PlaidService {
           cursor: cursor,
         });
 
-        const { added, modified, removed, next_cursor, has_more } = response.data;
+        const { accounts, added, modified, removed, next_cursor, has_more } = response.data;
 
         console.log(`Plaid sync response: added=${added.length}, modified=${modified.length}, removed=${removed.length}, has_more=${has_more}`);
 
-        // Process added transactions
-        allTransactions.push(...added);
+        addedTransactions.push(...added);
+        modifiedTransactions.push(...modified);
+        removedTransactionIds.push(...removed.map((tx) => tx.transaction_id));
+
+        // The last page has the latest balances
+        syncedAccounts = accounts;
 
         // Update cursor and pagination flag
         cursor = next_cursor;
         hasMore = has_more;
       }
 
-      console.log(`Total transactions fetched from Plaid: ${allTransactions.length}`);
+      console.log(
+        `Total deltas fetched from Plaid: added=${addedTransactions.length}, modified=${modifiedTransactions.length}, removed=${removedTransactionIds.length}`
+      );
+
+      // Apply deltas in the order Plaid expects: added, then modified, then removed
+      const importResult = await transactionService.importTransactions(addedTransactions, accountId, userId);
+      const modifyResult = await transactionService.applyModifiedTransactions(modifiedTransactions, accountId, userId);
+      const removedCount = await transactionService.removeTransactions(removedTransactionIds, userId);
+
+      const balances = await this.fetchBalances(account.plaidAccountId, accessToken, syncedAccounts);
+      const balancesChanged =
+        !!balances &&
+        (!account.currentBalance.equals(balances.currentBalance) ||
+          (account.availableBalance?.toNumber() ?? null) !== balances.availableBalance);
 
-      // Update the sync cursor and last synced time
+      // Only advance the cursor once every delta has been applied
       await prisma.plaidAccount.update({
         where: { id: accountId },
         data: {
+          ...balances,
           syncCursor: cursor,
           lastSyncedAt: new Date(),
         },
       });
 
-      // Import transactions into database
-      if (allTransactions.length > 0) {
-        await transactionService.importTransactions(allTransactions, accountId, userId);
+      const result: SyncTransactionsResult = {
+        added: importResult.imported + modifyResult.imported,
+        modified: modifyResult.updated,
+        removed: removedCount,
+        duplicates: importResult.duplicates,
+      };
+
+      // Cached reports no longer reflect the transaction table or balances
+      if (result.added > 0 || result.modified > 0 || result.removed > 0 || balancesChanged) {
+        await reportingService.invalidateUserCache(userId);
       }
 
-      return allTransactions;
+      return result;
     } catch (error: any) {
       console.error('Error syncing transactions:', error.response?.data || error.message);
       throw new Error('Failed to sync transactions');
     }
   }
+
+  /**
+   * Latest balances of a linked account. /transactions/sync only returns
+   * accounts that had transactions in the response, so the others are looked
+   * up with /accounts/get. Returns null when Plaid has no balance for it.
+   */
+  private async fetchBalances(
+    plaidAccountId: string,
+    accessToken: string,
+    syncedAccounts: AccountBase[]
+  ): Promise<{ currentBalance: number; availableBalance: number | null } | null> {
+    let plaidAccount = syncedAccounts.find((synced) => synced.account_id === plaidAccountId);
+
+    if (!plaidAccount) {
+      try {
+        const response = await plaidClient.accountsGet({
+          access_token: accessToken,
+          options: { account_ids: [plaidAccountId] },
+        });
+        plaidAccount = response.data.accounts.find((fetched) => fetched.account_id === plaidAccountId);
+      } catch (error: any) {
+        // Keep the stored balance; the transactions are already applied
+        console.error('Error fetching account balances:', error.response?.data || error.message);
+        return null;
+      }
+    }
+
+    if (!plaidAccount || plaidAccount.balances.current === null) {
+      return null;
+    }
+
+    return {
+      currentBalance: plaidAccount.balances.current,
+      availableBalance: plaidAccount.balances.available,
+    };
+  }
 }
 
 export default new PlaidService();
@@ -0,0 +1,407 @@
+import { Prisma } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import { cache } from '../config/redis';
+import {
+  RecurringCadence,
+  RecurringFlow,
+  RecurringOccurrence,
+  RecurringSeriesResponse,
+  RecurringStatus,
+  UpcomingRecurring,
+} from '../models/RecurringSeries';
+import { MerchantModel } from '../models/Merchant';
+import notificationService from './notificationService';
+
+const prisma = getPrismaClient();
+
+// Cache TTL: 1 hour (reportingService.invalidateUserCache clears it when transactions change)
+const RECURRING_CACHE_TTL = 60 * 60;
+
+// How far back to look for charges (two years covers two annual renewals)
+const HISTORY_DAYS = 2 * 365 + 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CadenceRule {
+  cadence: RecurringCadence;
+  days: number;
+  tolerance: number; // Allowed drift of a single interval, in days
+  minOccurrences: number;
+  grace: number; // Days past the expected date before a charge counts as missed
+}
+
+const CADENCES: CadenceRule[] = [
+  { cadence: 'weekly', days: 7, tolerance: 2, minOccurrences: 4, grace: 3 },
+  { cadence: 'biweekly', days: 14, tolerance: 3, minOccurrences: 3, grace: 4 },
+  { cadence: 'monthly', days: 30.4, tolerance: 5, minOccurrences: 3, grace: 7 },
+  { cadence: 'annual', days: 365, tolerance: 20, minOccurrences: 2, grace: 30 },
+];
+
+interface Charge {
+  id: string;
+  accountId: string;
+  date: Date;
+  amount: number;
+  merchantName: string;
+  categoryId: string | null;
+}
+
+export interface RecurringFilters {
+  flow?: RecurringFlow;
+  cadence?: RecurringCadence;
+  status?: RecurringStatus;
+}
+
+export class RecurringService {
+  /**
+   * Detect recurring charges (subscriptions, bills, memberships) in the user's
+   * history. Charges are grouped by normalized merchant, split into series by
+   * amount, and kept when the gaps between them follow a steady cadence.
+   * Pass flow 'income' for recurring deposits such as paychecks instead.
+   */
+  async getRecurring(userId: string, filters: RecurringFilters = {}): Promise<RecurringSeriesResponse[]> {
+    const series = await this.detectSeries(userId, filters.flow || 'expense');
+
+    return series.filter(
+      (item) =>
+        (!filters.cadence || item.cadence === filters.cadence) &&
+        (!filters.status || item.status === filters.status)
+    );
+  }
+
+  /**
+   * Notify the user about series that the given (newly imported) transactions
+   * just established: the charge completes the minimum run for its cadence.
+   * A stored marker keeps a series from being announced twice, e.g. when a
+   * pending charge is replaced by its posted version.
+   */
+  async notifyNewSeries(userId: string, transactionIds: string[]): Promise<RecurringSeriesResponse[]> {
+    const newIds = new Set(transactionIds);
+
+    // The cached detection predates these transactions
+    await cache.del(`recurring:${userId}`);
+    await cache.del(`recurring:${userId}:income`);
+    const series = await this.detectSeries(userId, 'expense');
+
+    const established = series.filter((item) => {
+      const rule = CADENCES.find((candidate) => candidate.cadence === item.cadence);
+      const latest = item.occurrences[item.occurrences.length - 1];
+      return (
+        item.status === 'active' &&
+        rule !== undefined &&
+        item.occurrences.length === rule.minOccurrences &&
+        newIds.has(latest.transactionId)
+      );
+    });
+
+    const announced: RecurringSeriesResponse[] = [];
+    for (const item of established) {
+      try {
+        await prisma.recurringAnnouncement.create({
+          data: { userId, seriesId: item.id },
+        });
+      } catch (error) {
+        // Announced already, or by a concurrent detection
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+
+      announced.push(item);
+      await notificationService.notify(userId, {
+        eventType: 'recurring_charge',
+        title: `New ${item.cadence} charge: ${item.merchantName}`,
+        body:
+          `${item.merchantName} has charged you ${item.occurrences.length} times. ` +
+          `Next charge of about ${item.amount.toFixed(2)} expected ${item.nextExpectedDate.toISOString().slice(0, 10)}.`,
+        link: '/recurring',
+      });
+    }
+
+    return announced;
+  }
+
+  /**
+   * Charges and deposits that active series are expected to make from now
+   * until the given date, soonest first. A charge that is due but has not
+   * arrived yet is expected today.
+   */
+  async getUpcoming(userId: string, until: Date): Promise<UpcomingRecurring[]> {
+    const [expenses, income] = await Promise.all([
+      this.detectSeries(userId, 'expense'),
+      this.detectSeries(userId, 'income'),
+    ]);
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    const upcoming: UpcomingRecurring[] = [];
+    for (const series of [...expenses, ...income]) {
+      const rule = CADENCES.find((candidate) => candidate.cadence === series.cadence);
+      if (series.status !== 'active' || !rule) continue;
+
+      for (let date = series.nextExpectedDate; date <= until; date = this.addCadence(date, rule)) {
+        upcoming.push({
+          seriesId: series.id,
+          merchantName: series.merchantName,
+          accountId: series.accountId,
+          flow: series.flow,
+          date: date < today ? today : date,
+          amount: series.amount,
+        });
+      }
+    }
+
+    return upcoming.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private async detectSeries(userId: string, flow: RecurringFlow): Promise<RecurringSeriesResponse[]> {
+    const cacheKey = flow === 'income' ? `recurring:${userId}:income` : `recurring:${userId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached, (key, value) =>
+          ['date', 'lastDate', 'nextExpectedDate', 'priceChangedAt'].includes(key) && value
+            ? new Date(value)
+            : value
+        );
+      } catch (error) {
+        console.error('Failed to parse cached recurring data:', error);
+      }
+    }
+
+    const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS);
+
+    // One direction at a time; transfers between the user's own accounts are not bills or income
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        date: { gte: since },
+        amount: flow === 'income' ? { lt: 0 } : { gt: 0 },
+        isPending: false,
+        isTransfer: false,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        accountId: true,
+        date: true,
+        amount: true,
+        merchantName: true,
+        description: true,
+        categoryId: true,
+        merchant: { select: { id: true, name: true } },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const groups = new Map<string, Charge[]>();
+    for (const tx of transactions) {
+      // Group by canonical merchant so every spelling of a subscription lands in one series
+      const merchantName = tx.merchant?.name || tx.merchantName || tx.description;
+      const key = tx.merchant?.id || MerchantModel.normalize(merchantName);
+      if (!key) continue;
+
+      const charges = groups.get(key) || [];
+      charges.push({
+        id: tx.id,
+        accountId: tx.accountId,
+        date: tx.date,
+        amount: Math.abs(Number(tx.amount)),
+        merchantName,
+        categoryId: tx.categoryId,
+      });
+      groups.set(key, charges);
+    }
+
+    const now = new Date();
+    const result: RecurringSeriesResponse[] = [];
+
+    for (const [merchantKey, charges] of groups) {
+      for (const cluster of this.clusterByAmount(charges)) {
+        const series = this.buildSeries(merchantKey, flow, cluster, now);
+        if (series) {
+          result.push(series);
+        }
+      }
+    }
+
+    // Series that need attention first, then soonest upcoming charge
+    const statusOrder: Record<RecurringStatus, number> = { missed: 0, active: 1, cancelled: 2 };
+    result.sort(
+      (a, b) =>
+        statusOrder[a.status] - statusOrder[b.status] ||
+        a.nextExpectedDate.getTime() - b.nextExpectedDate.getTime()
+    );
+
+    await cache.set(cacheKey, JSON.stringify(result), RECURRING_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Split one merchant's charges into series of similar amounts (two plans from
+   * the same provider are separate subscriptions). A series whose amount jumps
+   * is joined back up with the series it continues, so price changes survive.
+   */
+  private clusterByAmount(charges: Charge[]): Charge[][] {
+    const clusters: Charge[][] = [];
+
+    for (const charge of charges) {
+      let best: Charge[] | null = null;
+      let bestDiff = Infinity;
+
+      for (const cluster of clusters) {
+        const last = cluster[cluster.length - 1].amount;
+        const diff = Math.abs(charge.amount - last);
+        if (this.isSimilarAmount(last, charge.amount) && diff < bestDiff) {
+          best = cluster;
+          bestDiff = diff;
+        }
+      }
+
+      if (best) {
+        best.push(charge);
+      } else {
+        clusters.push([charge]);
+      }
+    }
+
+    // A later cluster that starts about one cadence after an earlier one ends is a price change
+    clusters.sort((a, b) => a[0].date.getTime() - b[0].date.getTime());
+    const merged: Charge[][] = [];
+
+    for (const cluster of clusters) {
+      const predecessor = merged.find((candidate) => {
+        if (candidate.length < 2) return false;
+        const gap = (cluster[0].date.getTime() - candidate[candidate.length - 1].date.getTime()) / DAY_MS;
+        const interval = this.median(this.intervals(candidate));
+        return gap > 0 && Math.abs(gap - interval) <= Math.max(3, interval * 0.25);
+      });
+
+      if (predecessor) {
+        predecessor.push(...cluster);
+      } else {
+        merged.push(cluster);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Turn a cluster of charges into a series, or null if it has no steady cadence
+   */
+  private buildSeries(
+    merchantKey: string,
+    flow: RecurringFlow,
+    charges: Charge[],
+    now: Date
+  ): RecurringSeriesResponse | null {
+    if (charges.length < 2) return null;
+
+    const intervals = this.intervals(charges);
+    const typical = this.median(intervals);
+    const rule = CADENCES.find((candidate) => Math.abs(typical - candidate.days) <= candidate.tolerance);
+
+    if (!rule || charges.length < rule.minOccurrences) return null;
+
+    // Most gaps must fit the cadence; one skipped or late charge is tolerated
+    const regular = intervals.filter((gap) => Math.abs(gap - rule.days) <= rule.tolerance).length;
+    if (regular / intervals.length < 0.75) return null;
+
+    const last = charges[charges.length - 1];
+    const total = charges.reduce((sum, charge) => sum + charge.amount, 0);
+
+    // Latest point where the amount moved beyond normal variation
+    let previousAmount: number | undefined;
+    let priceChangedAt: Date | undefined;
+    for (let i = charges.length - 1; i > 0; i--) {
+      if (!this.isSimilarAmount(charges[i - 1].amount, charges[i].amount)) {
+        previousAmount = charges[i - 1].amount;
+        priceChangedAt = charges[i].date;
+        break;
+      }
+    }
+
+    const nextExpectedDate = this.addCadence(last.date, rule);
+    const overdueDays = (now.getTime() - nextExpectedDate.getTime()) / DAY_MS;
+
+    let status: RecurringStatus = 'active';
+    if (overdueDays > rule.days + rule.grace) {
+      status = 'cancelled';
+    } else if (overdueDays > rule.grace) {
+      status = 'missed';
+    }
+
+    const occurrences: RecurringOccurrence[] = charges.map((charge) => ({
+      transactionId: charge.id,
+      date: charge.date,
+      amount: charge.amount,
+    }));
+
+    return {
+      id: `${merchantKey.replace(/\s+/g, '-')}:${rule.cadence}:${charges[0].id}`,
+      merchantKey,
+      merchantName: last.merchantName,
+      accountId: last.accountId,
+      categoryId: last.categoryId || undefined,
+      flow,
+      cadence: rule.cadence,
+      amount: last.amount,
+      averageAmount: Math.round((total / charges.length) * 100) / 100,
+      previousAmount,
+      priceIncreased: previousAmount !== undefined && last.amount > previousAmount,
+      priceChangedAt,
+      lastDate: last.date,
+      nextExpectedDate,
+      status,
+      occurrences,
+    };
+  }
+
+  /**
+   * Amounts within 5% (or a dollar, for small charges) count as the same price
+   */
+  private isSimilarAmount(a: number, b: number): boolean {
+    return Math.abs(a - b) <= Math.max(1, Math.max(a, b) * 0.05);
+  }
+
+  /**
+   * Days between consecutive charges
+   */
+  private intervals(charges: Charge[]): number[] {
+    const gaps: number[] = [];
+    for (let i = 1; i < charges.length; i++) {
+      gaps.push((charges[i].date.getTime() - charges[i - 1].date.getTime()) / DAY_MS);
+    }
+    return gaps;
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  /**
+   * Next expected charge date. Monthly and annual charges land on the same day
+   * of the month, clamped to the end of shorter months.
+   */
+  private addCadence(date: Date, rule: CadenceRule): Date {
+    if (rule.cadence === 'weekly' || rule.cadence === 'biweekly') {
+      return new Date(date.getTime() + rule.days * DAY_MS);
+    }
+
+    const months = rule.cadence === 'monthly' ? 1 : 12;
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+  }
+}
+
+export default new RecurringService();
@@ -1,15 +1,26 @@
+import { Category, Merchant, Prisma } from '@prisma/client';
 import getPrismaClient from '../config/database';
 import { cache } from '../config/redis';
+import { PlaidAccountModel } from '../models/PlaidAccount';
+import { MerchantModel } from '../models/Merchant';
+import { TransactionModel, TransactionResponse } from '../models/Transaction';
+import recurringService from './recurringService';
 
 const prisma = getPrismaClient();
 
 // Cache TTL: 5 minutes for reports
 const REPORT_CACHE_TTL = 5 * 60;
 
+// Forecast horizons in days; the longest sets how far ahead recurring series are projected
+const FORECAST_HORIZONS = [30, 60, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface SpendingByCategory {
   categoryId: string;
   categoryName: string;
-  totalAmount: number;
+  totalAmount: number; // Net of refunds
+  refundAmount: number;
   transactionCount: number;
   percentageOfTotal: number;
 }
@@ -22,11 +33,165 @@ export interface SpendingAnalysisOptions {
 
 export interface TrendData {
   period: string;
-  totalSpending: number;
+  totalSpending: number; // Net of refunds
+  totalIncome: number;
+  netSavings: number;
   transactionCount: number;
   averageTransaction: number;
 }
 
+export type CashflowInterval = 'week' | 'month';
+
+export interface CashflowPeriod {
+  period: string;
+  startDate: Date;
+  endDate: Date;
+  income: number;
+  expenses: number;
+  netSavings: number;
+  savingsRate: number;
+}
+
+export interface CashflowReport {
+  periods: CashflowPeriod[];
+  totals: {
+    income: number;
+    expenses: number;
+    netSavings: number;
+    savingsRate: number;
+  };
+}
+
+export type ReportInterval = 'day' | CashflowInterval;
+
+// Compare a range with the one right before it, or with the same dates a year earlier
+export type TrendCompareTo = 'previous' | 'year';
+
+export interface SpendingSeriesPeriod extends TrendData {
+  startDate: Date;
+  endDate: Date;
+  previousYear?: {
+    totalSpending: number;
+    totalIncome: number;
+  };
+}
+
+export interface SpendingSeries {
+  periods: SpendingSeriesPeriod[];
+  totals: TrendData;
+  previousYearTotals?: TrendData;
+}
+
+export interface CategoryTrend {
+  categoryId: string;
+  categoryName: string;
+  amounts: number[]; // Net spending per period, in the same order as the report's periods
+  total: number;
+  average: number;
+}
+
+export interface CategoryTrendReport {
+  periods: string[];
+  categories: CategoryTrend[];
+  totals: number[]; // Spending across all categories per period
+}
+
+export interface NetWorthSummary {
+  assets: number;
+  liabilities: number; // Amount owed on credit and loan accounts, as a positive number
+  netWorth: number;
+  byType: Record<string, number>; // Balance per account type
+}
+
+export interface NetWorthPoint extends NetWorthSummary {
+  period: string;
+  date: Date; // End of the period the balances were taken from
+}
+
+export interface NetWorthReport {
+  points: NetWorthPoint[];
+  current: NetWorthSummary; // From live account balances
+  change: {
+    amount: number; // Current net worth minus the first point's
+    percentage: number;
+  };
+}
+
+export interface ForecastEvent {
+  date: Date;
+  merchantName: string;
+  flow: 'expense' | 'income';
+  amount: number; // Change to the account balance
+  balance: number; // Projected balance after this event
+}
+
+export interface AccountForecast {
+  accountId: string;
+  accountName: string;
+  accountType: string;
+  accountSubtype: string;
+  currentBalance: number;
+  horizons: Array<{ days: number; date: Date; balance: number }>;
+  lowestBalance: number;
+  lowestBalanceDate: Date;
+  events: ForecastEvent[];
+}
+
+export interface LowBalanceWarning {
+  accountId: string;
+  accountName: string;
+  date: Date; // First day the balance is projected below the floor
+  projectedBalance: number;
+  floor: number;
+  merchantName?: string; // Charge that takes it below; unset when already below
+}
+
+export interface CashflowForecast {
+  floor: number;
+  accounts: AccountForecast[];
+  warnings: LowBalanceWarning[];
+}
+
+export type MerchantSort = 'spend' | 'visits';
+
+export interface MerchantSpending {
+  merchantKey: string; // Canonical merchant ID, or the normalized name for transactions not linked to one yet
+  merchantId?: string;
+  merchantName: string; // Canonical name, or the most common raw name when there is no merchant
+  totalSpend: number; // Net of refunds
+  visitCount: number; // Purchases, not counting refunds
+  averageTicket: number;
+  firstDate: Date;
+  lastDate: Date;
+  monthly: Array<{ period: string; totalSpend: number; visitCount: number }>;
+}
+
+export interface MerchantReport {
+  merchants: MerchantSpending[];
+  merchantCount: number; // Before the limit is applied
+  totalSpend: number;
+}
+
+export interface MerchantTransactions {
+  merchantKey: string;
+  merchantName: string;
+  transactions: Array<TransactionResponse & { categoryName?: string }>;
+}
+
+type TransactionWithCategories = Prisma.TransactionGetPayload<{
+  include: { category: true; splits: { include: { category: true } } };
+}>;
+
+type ReportTransaction = TransactionWithCategories & { merchant: Merchant | null };
+
+// One categorized slice of a transaction: the whole transaction, or one of its splits
+interface FlowPart {
+  categoryId: string | null;
+  category: Category | null;
+  amount: number; // Plaid convention: positive = money out
+  flow: 'income' | 'expense';
+}
+
 export interface TrendComparison {
   currentPeriod: TrendData;
   previousPeriod: TrendData;
@@ -61,6 +226,8 @@ export class ReportingService {
         lte: options.endDate,
       },
       isPending: false,
+      isTransfer: false,
+      deletedAt: null,
     };
 
     if (options.accountId) {
@@ -72,42 +239,55 @@ export class ReportingService {
       where,
       include: {
         category: true,
+        splits: {
+          include: { category: true },
+        },
       },
     });
 
-    // Calculate total spending
-    const totalSpending = transactions.reduce((sum, tx) => sum + Math.abs(Number(tx.amount)), 0);
-
-    // Group by category
+    // Group expense flows by category. Refunds (inflows) reduce their category.
     const categoryMap = new Map<string, {
       categoryId: string;
       categoryName: string;
       totalAmount: number;
+      refundAmount: number;
       transactionCount: number;
     }>();
 
     transactions.forEach(tx => {
-      const categoryId = tx.categoryId || 'uncategorized';
-      const categoryName = tx.category?.name || 'Uncategorized';
-
-      if (!categoryMap.has(categoryId)) {
-        categoryMap.set(categoryId, {
-          categoryId,
-          categoryName,
-          totalAmount: 0,
-          transactionCount: 0,
-        });
-      }
+      this.getFlowParts(tx)
+        .filter(part => part.flow === 'expense')
+        .forEach(part => {
+          const categoryId = part.categoryId || 'uncategorized';
+          const categoryName = part.category?.name || 'Uncategorized';
 
-      const category = categoryMap.get(categoryId)!;
-      category.totalAmount += Math.abs(Number(tx.amount));
-      category.transactionCount += 1;
+          if (!categoryMap.has(categoryId)) {
+            categoryMap.set(categoryId, {
+              categoryId,
+              categoryName,
+              totalAmount: 0,
+              refundAmount: 0,
+              transactionCount: 0,
+            });
+          }
+
+          const category = categoryMap.get(categoryId)!;
+          category.totalAmount += part.amount;
+          if (part.amount < 0) {
+            category.refundAmount += -part.amount;
+          }
+          category.transactionCount += 1;
+        });
     });
 
+    // Categories refunded more than they spent don't count toward the total
+    const totalSpending = Array.from(categoryMap.values())
+      .reduce((sum, cat) => sum + Math.max(0, cat.totalAmount), 0);
+
     // Convert to array and calculate percentages
     const result: SpendingByCategory[] = Array.from(categoryMap.values()).map(cat => ({
       ...cat,
-      percentageOfTotal: totalSpending > 0 ? (cat.totalAmount / totalSpending) * 100 : 0,
+      percentageOfTotal: totalSpending > 0 ? (Math.max(0, cat.totalAmount) / totalSpending) * 100 : 0,
     }));
 
     // Sort by total amount descending
@@ -120,17 +300,19 @@ export class ReportingService {
   }
 
   /**
-   * Get spending trends with month-over-month comparison
+   * Get spending trends compared with the preceding period of the same length,
+   * or with the same dates a year earlier
    * Requirements: 6.2
    */
   async getTrends(
     userId: string,
     currentStartDate: Date,
     currentEndDate: Date,
-    accountId?: string
+    accountId?: string,
+    compareTo: TrendCompareTo = 'previous'
   ): Promise<TrendComparison> {
     // Check cache first
-    const cacheKey = `trends:${userId}:${currentStartDate.toISOString()}:${currentEndDate.toISOString()}:${accountId || 'all'}`;
+    const cacheKey = `trends:${userId}:${currentStartDate.toISOString()}:${currentEndDate.toISOString()}:${accountId || 'all'}:${compareTo}`;
     const cached = await cache.get(cacheKey);
     if (cached) {
       try {
@@ -139,10 +321,17 @@ export class ReportingService {
         console.error('Failed to parse cached trends data:', error);
       }
     }
-    // Calculate previous period dates (same duration as current period)
-    const periodDuration = currentEndDate.getTime() - currentStartDate.getTime();
-    const previousStartDate = new Date(currentStartDate.getTime() - periodDuration);
-    const previousEndDate = new Date(currentStartDate.getTime() - 1); // Day before current period
+    // Calculate previous period dates (same duration as current period, or a year back)
+    let previousStartDate: Date;
+    let previousEndDate: Date;
+    if (compareTo === 'year') {
+      previousStartDate = this.shiftYears(currentStartDate, -1);
+      previousEndDate = this.shiftYears(currentEndDate, -1);
+    } else {
+      const periodDuration = currentEndDate.getTime() - currentStartDate.getTime();
+      previousStartDate = new Date(currentStartDate.getTime() - periodDuration);
+      previousEndDate = new Date(currentStartDate.getTime() - 1); // Day before current period
+    }
 
     // Get current period data
     const currentPeriodData = await this.getPeriodData(
@@ -202,6 +391,581 @@ export class ReportingService {
     endDate: Date,
     accountId?: string
   ): Promise<TrendData> {
+    const transactions = await this.findReportTransactions(userId, startDate, endDate, accountId);
+
+    // Format period string
+    const periodStr = `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`;
+
+    return this.toTrendData(periodStr, transactions);
+  }
+
+  /**
+   * Get spending and income per day, week or month over any date range,
+   * optionally next to the same periods a year earlier
+   */
+  async getSpendingSeries(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    interval: ReportInterval,
+    options: { accountId?: string; compareTo?: 'year' } = {}
+  ): Promise<SpendingSeries> {
+    // Check cache first
+    const cacheKey = `series:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}:${options.accountId || 'all'}:${options.compareTo || 'none'}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        console.error('Failed to parse cached series data:', error);
+      }
+    }
+
+    const compareYear = options.compareTo === 'year';
+    const [transactions, previousYear] = await Promise.all([
+      this.findReportTransactions(userId, startDate, endDate, options.accountId),
+      compareYear
+        ? this.findReportTransactions(
+            userId,
+            this.shiftYears(startDate, -1),
+            this.shiftYears(endDate, -1),
+            options.accountId
+          )
+        : Promise.resolve([]),
+    ]);
+
+    const periods: SpendingSeriesPeriod[] = this.getPeriodBoundaries(startDate, endDate, interval).map(
+      ({ label, start, end }) => {
+        const period: SpendingSeriesPeriod = {
+          ...this.toTrendData(label, transactions.filter(tx => tx.date >= start && tx.date <= end)),
+          startDate: start,
+          endDate: end,
+        };
+
+        if (compareYear) {
+          const previousStart = this.shiftYears(start, -1);
+          const previousEnd = this.shiftYears(end, -1);
+          const { income, expenses } = this.sumFlows(
+            previousYear.filter(tx => tx.date >= previousStart && tx.date <= previousEnd)
+          );
+          period.previousYear = { totalSpending: expenses, totalIncome: income };
+        }
+
+        return period;
+      }
+    );
+
+    const range = `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`;
+    const result: SpendingSeries = {
+      periods,
+      totals: this.toTrendData(range, transactions),
+      previousYearTotals: compareYear ? this.toTrendData('previous year', previousYear) : undefined,
+    };
+
+    await cache.set(cacheKey, JSON.stringify(result), REPORT_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Get net spending per category per week or month: one trend line per
+   * category, which together form a category-by-period matrix. Categories are
+   * ordered by total spending.
+   */
+  async getCategoryTrends(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    interval: CashflowInterval,
+    accountId?: string
+  ): Promise<CategoryTrendReport> {
+    // Check cache first
+    const cacheKey = `category-trends:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}:${accountId || 'all'}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        console.error('Failed to parse cached category trends data:', error);
+      }
+    }
+
+    const transactions = await this.findReportTransactions(userId, startDate, endDate, accountId);
+    const boundaries = this.getPeriodBoundaries(startDate, endDate, interval);
+
+    const categoryMap = new Map<string, { categoryId: string; categoryName: string; amounts: number[] }>();
+    const totals = boundaries.map(() => 0);
+
+    boundaries.forEach(({ start, end }, index) => {
+      transactions
+        .filter(tx => tx.date >= start && tx.date <= end)
+        .forEach(tx => {
+          this.getFlowParts(tx)
+            .filter(part => part.flow === 'expense')
+            .forEach(part => {
+              const categoryId = part.categoryId || 'uncategorized';
+
+              if (!categoryMap.has(categoryId)) {
+                categoryMap.set(categoryId, {
+                  categoryId,
+                  categoryName: part.category?.name || 'Uncategorized',
+                  amounts: boundaries.map(() => 0),
+                });
+              }
+
+              categoryMap.get(categoryId)!.amounts[index] += part.amount;
+              totals[index] += part.amount;
+            });
+        });
+    });
+
+    const categories: CategoryTrend[] = Array.from(categoryMap.values()).map(category => {
+      const total = category.amounts.reduce((sum, amount) => sum + amount, 0);
+      return {
+        ...category,
+        total,
+        average: boundaries.length > 0 ? total / boundaries.length : 0,
+      };
+    });
+
+    categories.sort((a, b) => b.total - a.total);
+
+    const result: CategoryTrendReport = {
+      periods: boundaries.map(boundary => boundary.label),
+      categories,
+      totals,
+    };
+
+    await cache.set(cacheKey, JSON.stringify(result), REPORT_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Rank merchants by net spending or by number of visits over a date range,
+   * with average ticket size and spending per month. Income and transfers are
+   * left out.
+   */
+  async getMerchantSpending(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    options: { sort?: MerchantSort; limit?: number; accountId?: string } = {}
+  ): Promise<MerchantReport> {
+    const sort = options.sort || 'spend';
+    const limit = options.limit || 50;
+
+    // Check cache first
+    const cacheKey = `merchants:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${sort}:${limit}:${options.accountId || 'all'}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        console.error('Failed to parse cached merchant data:', error);
+      }
+    }
+
+    const transactions = await this.findReportTransactions(userId, startDate, endDate, options.accountId);
+    const months = this.getPeriodBoundaries(startDate, endDate, 'month');
+
+    const merchantMap = new Map<string, MerchantSpending & { names: Map<string, number> }>();
+
+    transactions.forEach(tx => {
+      const spend = this.getFlowParts(tx)
+        .filter(part => part.flow === 'expense')
+        .reduce((sum, part) => sum + part.amount, 0);
+      if (spend === 0) return;
+
+      const rawName = tx.merchantName || tx.description;
+      const merchantKey = this.merchantKey(tx);
+      if (!merchantKey) return;
+
+      if (!merchantMap.has(merchantKey)) {
+        merchantMap.set(merchantKey, {
+          merchantKey,
+          merchantId: tx.merchant?.id,
+          merchantName: tx.merchant?.name || rawName,
+          totalSpend: 0,
+          visitCount: 0,
+          averageTicket: 0,
+          firstDate: tx.date,
+          lastDate: tx.date,
+          monthly: months.map(month => ({ period: month.label, totalSpend: 0, visitCount: 0 })),
+          names: new Map(),
+        });
+      }
+
+      const merchant = merchantMap.get(merchantKey)!;
+      const isVisit = spend > 0;
+      merchant.totalSpend += spend;
+      merchant.visitCount += isVisit ? 1 : 0;
+      merchant.names.set(rawName, (merchant.names.get(rawName) || 0) + 1);
+      if (tx.date < merchant.firstDate) merchant.firstDate = tx.date;
+      if (tx.date > merchant.lastDate) merchant.lastDate = tx.date;
+
+      const monthIndex = months.findIndex(month => tx.date >= month.start && tx.date <= month.end);
+      if (monthIndex >= 0) {
+        merchant.monthly[monthIndex].totalSpend += spend;
+        merchant.monthly[monthIndex].visitCount += isVisit ? 1 : 0;
+      }
+    });
+
+    const merchants: MerchantSpending[] = Array.from(merchantMap.values()).map(({ names, ...merchant }) => ({
+      ...merchant,
+      merchantName: merchant.merchantId
+        ? merchant.merchantName
+        : Array.from(names.entries()).sort((a, b) => b[1] - a[1])[0][0],
+      totalSpend: this.roundCurrency(merchant.totalSpend),
+      averageTicket: merchant.visitCount > 0 ? this.roundCurrency(merchant.totalSpend / merchant.visitCount) : 0,
+      monthly: merchant.monthly.map(month => ({ ...month, totalSpend: this.roundCurrency(month.totalSpend) })),
+    }));
+
+    merchants.sort((a, b) =>
+      sort === 'visits'
+        ? b.visitCount - a.visitCount || b.totalSpend - a.totalSpend
+        : b.totalSpend - a.totalSpend || b.visitCount - a.visitCount
+    );
+
+    const result: MerchantReport = {
+      merchants: merchants.slice(0, limit),
+      merchantCount: merchants.length,
+      totalSpend: this.roundCurrency(merchants.reduce((sum, merchant) => sum + merchant.totalSpend, 0)),
+    };
+
+    await cache.set(cacheKey, JSON.stringify(result), REPORT_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Get the transactions behind one merchant in the merchant report, newest first
+   */
+  async getMerchantTransactions(
+    userId: string,
+    merchantKey: string,
+    startDate: Date,
+    endDate: Date,
+    accountId?: string
+  ): Promise<MerchantTransactions> {
+    const transactions = (await this.findReportTransactions(userId, startDate, endDate, accountId))
+      .filter(tx => this.merchantKey(tx) === merchantKey)
+      .filter(tx => this.getFlowParts(tx).some(part => part.flow === 'expense'))
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+    if (transactions.length === 0) {
+      throw new Error('Merchant not found');
+    }
+
+    return {
+      merchantKey,
+      merchantName: transactions[0].merchant?.name || transactions[0].merchantName || transactions[0].description,
+      transactions: transactions.map(tx => ({
+        ...TransactionModel.toResponse(tx),
+        categoryName: tx.category?.name,
+      })),
+    };
+  }
+
+  /**
+   * Get income, expenses and net savings per week or month
+   */
+  async getCashflow(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    interval: CashflowInterval,
+    accountId?: string
+  ): Promise<CashflowReport> {
+    // Check cache first
+    const cacheKey = `cashflow:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}:${accountId || 'all'}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        console.error('Failed to parse cached cashflow data:', error);
+      }
+    }
+
+    const transactions = await this.findReportTransactions(userId, startDate, endDate, accountId);
+
+    const periods: CashflowPeriod[] = this.getPeriodBoundaries(startDate, endDate, interval).map(
+      ({ label, start, end }) => {
+        const { income, expenses } = this.sumFlows(
+          transactions.filter(tx => tx.date >= start && tx.date <= end)
+        );
+
+        return {
+          period: label,
+          startDate: start,
+          endDate: end,
+          income,
+          expenses,
+          netSavings: income - expenses,
+          savingsRate: income > 0 ? ((income - expenses) / income) * 100 : 0,
+        };
+      }
+    );
+
+    const income = periods.reduce((sum, p) => sum + p.income, 0);
+    const expenses = periods.reduce((sum, p) => sum + p.expenses, 0);
+
+    const result: CashflowReport = {
+      periods,
+      totals: {
+        income,
+        expenses,
+        netSavings: income - expenses,
+        savingsRate: income > 0 ? ((income - expenses) / income) * 100 : 0,
+      },
+    };
+
+    await cache.set(cacheKey, JSON.stringify(result), REPORT_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Get assets, liabilities and net worth over time from daily balance
+   * snapshots. Each point uses every account's latest snapshot up to the end of
+   * the period; closed accounts drop out after their last snapshot.
+   */
+  async getNetWorth(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    interval: ReportInterval
+  ): Promise<NetWorthReport> {
+    // Check cache first
+    const cacheKey = `networth:${userId}:${startDate.toISOString()}:${endDate.toISOString()}:${interval}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        console.error('Failed to parse cached net worth data:', error);
+      }
+    }
+
+    const now = new Date();
+    const rangeEnd = endDate > now ? now : endDate;
+
+    const [accounts, earlier, snapshots] = await Promise.all([
+      prisma.plaidAccount.findMany({
+        where: { userId },
+        select: { id: true, accountType: true, currentBalance: true, isActive: true },
+      }),
+      // Balance each account had going into the range
+      prisma.balanceSnapshot.findMany({
+        where: { userId, date: { lt: startDate } },
+        distinct: ['accountId'],
+        orderBy: [{ accountId: 'asc' }, { date: 'desc' }],
+      }),
+      prisma.balanceSnapshot.findMany({
+        where: { userId, date: { gte: startDate, lte: rangeEnd } },
+        orderBy: { date: 'asc' },
+      }),
+    ]);
+
+    const activeIds = new Set(accounts.filter(a => a.isActive).map(a => a.id));
+    const history = [...earlier, ...snapshots];
+
+    const points: NetWorthPoint[] = [];
+    for (const { label, start, end } of this.getPeriodBoundaries(startDate, rangeEnd, interval)) {
+      const latest = new Map<string, (typeof history)[number]>();
+      history
+        .filter(snapshot => snapshot.date <= end)
+        .forEach(snapshot => latest.set(snapshot.accountId, snapshot));
+
+      const balances = Array.from(latest.values())
+        .filter(snapshot => activeIds.has(snapshot.accountId) || snapshot.date >= start)
+        .map(snapshot => ({ accountType: snapshot.accountType, balance: Number(snapshot.currentBalance) }));
+
+      // Nothing recorded yet this far back
+      if (balances.length === 0) {
+        continue;
+      }
+
+      points.push({ period: label, date: end, ...this.summarizeBalances(balances) });
+    }
+
+    const current = this.summarizeBalances(
+      accounts
+        .filter(account => account.isActive)
+        .map(account => ({ accountType: account.accountType, balance: Number(account.currentBalance) }))
+    );
+
+    const first = points.length > 0 ? points[0].netWorth : current.netWorth;
+    const changeAmount = this.roundCurrency(current.netWorth - first);
+
+    const result: NetWorthReport = {
+      points,
+      current,
+      change: {
+        amount: changeAmount,
+        percentage: first !== 0 ? (changeAmount / Math.abs(first)) * 100 : 0,
+      },
+    };
+
+    await cache.set(cacheKey, JSON.stringify(result), REPORT_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Project each account's balance 30, 60 and 90 days ahead from its current
+   * balance and the user's recurring charges and deposits, and warn when a
+   * checking account is projected to drop below the user's floor. Transfers
+   * between the user's own accounts (card payments, for example) are not
+   * recurring series, so they are not projected.
+   */
+  async getForecast(userId: string): Promise<CashflowForecast> {
+    // Check cache first
+    const cacheKey = `forecast:${userId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        console.error('Failed to parse cached forecast data:', error);
+      }
+    }
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const horizonDates = FORECAST_HORIZONS.map(days => ({ days, date: new Date(today.getTime() + days * DAY_MS) }));
+    const until = horizonDates[horizonDates.length - 1].date;
+
+    const [user, accounts, upcoming] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { lowBalanceFloor: true } }),
+      prisma.plaidAccount.findMany({
+        where: { userId, isActive: true },
+        orderBy: { accountName: 'asc' },
+      }),
+      recurringService.getUpcoming(userId, until),
+    ]);
+
+    const floor = Number(user?.lowBalanceFloor || 0);
+    const warnings: LowBalanceWarning[] = [];
+
+    const forecasts: AccountForecast[] = accounts.map(account => {
+      const currentBalance = Number(account.currentBalance);
+      // Manual accounts have free-text subtypes, such as "Checking"
+      const isChecking = account.accountSubtype.trim().toLowerCase() === 'checking';
+      let balance = currentBalance;
+      let lowestBalance = currentBalance;
+      let lowestBalanceDate = today;
+      let warning: LowBalanceWarning | undefined;
+
+      if (isChecking && balance < floor) {
+        warning = { accountId: account.id, accountName: account.accountName, date: today, projectedBalance: balance, floor };
+      }
+
+      const events: ForecastEvent[] = upcoming
+        .filter(item => item.accountId === account.id)
+        .map(item => {
+          const amount = PlaidAccountModel.balanceDelta(
+            account.accountType,
+            item.flow === 'expense' ? item.amount : -item.amount
+          );
+          balance = this.roundCurrency(balance + amount);
+
+          if (balance < lowestBalance) {
+            lowestBalance = balance;
+            lowestBalanceDate = item.date;
+          }
+
+          if (isChecking && !warning && balance < floor) {
+            warning = {
+              accountId: account.id,
+              accountName: account.accountName,
+              date: item.date,
+              projectedBalance: balance,
+              floor,
+              merchantName: item.merchantName,
+            };
+          }
+
+          return { date: item.date, merchantName: item.merchantName, flow: item.flow, amount, balance };
+        });
+
+      if (warning) {
+        warnings.push(warning);
+      }
+
+      return {
+        accountId: account.id,
+        accountName: account.accountName,
+        accountType: account.accountType,
+        accountSubtype: account.accountSubtype,
+        currentBalance,
+        horizons: horizonDates.map(({ days, date }) => {
+          const last = events.filter(event => event.date <= date).pop();
+          return { days, date, balance: last ? last.balance : currentBalance };
+        }),
+        lowestBalance,
+        lowestBalanceDate,
+        events,
+      };
+    });
+
+    const result: CashflowForecast = {
+      floor,
+      accounts: forecasts,
+      warnings: warnings.sort((a, b) => a.date.getTime() - b.date.getTime()),
+    };
+
+    await cache.set(cacheKey, JSON.stringify(result), REPORT_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Set the balance checking accounts should stay above in the forecast
+   */
+  async setLowBalanceFloor(userId: string, floor: number): Promise<number> {
+    if (!Number.isFinite(floor)) {
+      throw new Error('Validation failed: Floor must be a number');
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { lowBalanceFloor: this.roundCurrency(floor) },
+      select: { lowBalanceFloor: true },
+    });
+
+    await cache.del(`forecast:${userId}`);
+
+    return Number(user.lowBalanceFloor);
+  }
+
+  /**
+   * Drop cached reports (and detected recurring series) for a user after their
+   * transactions change
+   */
+  async invalidateUserCache(userId: string): Promise<void> {
+    await cache.delPattern(`spending:${userId}:*`);
+    await cache.delPattern(`trends:${userId}:*`);
+    await cache.delPattern(`cashflow:${userId}:*`);
+    await cache.delPattern(`networth:${userId}:*`);
+    await cache.delPattern(`series:${userId}:*`);
+    await cache.delPattern(`category-trends:${userId}:*`);
+    await cache.delPattern(`merchants:${userId}:*`);
+    await cache.del(`recurring:${userId}`);
+    await cache.del(`recurring:${userId}:income`);
+    await cache.del(`forecast:${userId}`);
+  }
+
+  /**
+   * Settled, non-transfer transactions in a date range with their categories and splits
+   */
+  private async findReportTransactions(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    accountId?: string
+  ): Promise<ReportTransaction[]> {
     const where: any = {
       userId,
       date: {
@@ -209,31 +973,185 @@ export class ReportingService {
         lte: endDate,
       },
       isPending: false,
+      isTransfer: false,
+      deletedAt: null,
     };
 
     if (accountId) {
       where.accountId = accountId;
     }
 
-    const transactions = await prisma.transaction.findMany({
+    return prisma.transaction.findMany({
       where,
+      include: {
+        category: true,
+        merchant: true,
+        splits: {
+          include: { category: true },
+        },
+      },
     });
+  }
+
+  /**
+   * Key a transaction's merchant in reports: the canonical merchant when it has
+   * one, otherwise its normalized name
+   */
+  private merchantKey(tx: ReportTransaction): string {
+    return tx.merchant?.id || MerchantModel.normalize(tx.merchantName || tx.description);
+  }
 
-    const totalSpending = transactions.reduce((sum, tx) => sum + Math.abs(Number(tx.amount)), 0);
-    const transactionCount = transactions.length;
-    const averageTransaction = transactionCount > 0 ? totalSpending / transactionCount : 0;
+  /**
+   * Spending and income summary for a set of transactions
+   */
+  private toTrendData(period: string, transactions: TransactionWithCategories[]): TrendData {
+    const { income, expenses, expenseCount } = this.sumFlows(transactions);
 
-    // Format period string
-    const periodStr = `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`;
+    return {
+      period,
+      totalSpending: expenses,
+      totalIncome: income,
+      netSavings: income - expenses,
+      transactionCount: expenseCount,
+      averageTransaction: expenseCount > 0 ? expenses / expenseCount : 0,
+    };
+  }
+
+  /**
+   * Same moment a number of years earlier or later (Feb 29 rolls to Mar 1)
+   */
+  private shiftYears(date: Date, years: number): Date {
+    const shifted = new Date(date);
+    shifted.setUTCFullYear(shifted.getUTCFullYear() + years);
+    return shifted;
+  }
+
+  /**
+   * Split a transaction into categorized flows using Plaid's sign convention.
+   * Income-group categories are income (a negative flow there is a reversal);
+   * other categories are spending, where an inflow is a refund. Uncategorized
+   * amounts fall back to their sign.
+   */
+  private getFlowParts(tx: TransactionWithCategories): FlowPart[] {
+    const parts = tx.splits.length > 0
+      ? tx.splits.map(split => ({ categoryId: split.categoryId, category: split.category, amount: Number(split.amount) }))
+      : [{ categoryId: tx.categoryId, category: tx.category, amount: Number(tx.amount) }];
+
+    return parts.map(part => {
+      let flow: FlowPart['flow'];
+
+      if (part.category?.group === 'income') {
+        flow = 'income';
+      } else if (!part.category || part.category.name === 'Uncategorized') {
+        flow = part.amount < 0 ? 'income' : 'expense';
+      } else {
+        flow = 'expense';
+      }
+
+      return { ...part, flow };
+    });
+  }
+
+  /**
+   * Total income and net expenses (both positive numbers) for a set of transactions
+   */
+  private sumFlows(transactions: TransactionWithCategories[]): {
+    income: number;
+    expenses: number;
+    expenseCount: number;
+  } {
+    let income = 0;
+    let expenses = 0;
+    let expenseCount = 0;
+
+    transactions.forEach(tx => {
+      const parts = this.getFlowParts(tx);
+
+      parts.forEach(part => {
+        if (part.flow === 'income') {
+          income += -part.amount;
+        } else {
+          expenses += part.amount;
+        }
+      });
+
+      if (parts.some(part => part.flow === 'expense' && part.amount > 0)) {
+        expenseCount += 1;
+      }
+    });
+
+    return { income, expenses, expenseCount };
+  }
+
+  /**
+   * Total account balances into assets and liabilities by account type
+   */
+  private summarizeBalances(balances: Array<{ accountType: string; balance: number }>): NetWorthSummary {
+    let assets = 0;
+    let liabilities = 0;
+    const byType: Record<string, number> = {};
+
+    balances.forEach(({ accountType, balance }) => {
+      if (PlaidAccountModel.isLiability(accountType)) {
+        liabilities += balance;
+      } else {
+        assets += balance;
+      }
+      byType[accountType] = this.roundCurrency((byType[accountType] || 0) + balance);
+    });
 
     return {
-      period: periodStr,
-      totalSpending,
-      transactionCount,
-      averageTransaction,
+      assets: this.roundCurrency(assets),
+      liabilities: this.roundCurrency(liabilities),
+      netWorth: this.roundCurrency(assets - liabilities),
+      byType,
     };
   }
 
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Break a date range into days, calendar weeks (starting Monday) or months,
+   * clipped to the range
+   */
+  private getPeriodBoundaries(
+    startDate: Date,
+    endDate: Date,
+    interval: ReportInterval
+  ): Array<{ label: string; start: Date; end: Date }> {
+    const boundaries: Array<{ label: string; start: Date; end: Date }> = [];
+    let cursor = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate()));
+
+    if (interval === 'month') {
+      cursor.setUTCDate(1);
+    } else if (interval === 'week') {
+      cursor.setUTCDate(cursor.getUTCDate() - ((cursor.getUTCDay() + 6) % 7));
+    }
+
+    while (cursor <= endDate) {
+      const next = new Date(cursor);
+      if (interval === 'month') {
+        next.setUTCMonth(next.getUTCMonth() + 1);
+      } else {
+        next.setUTCDate(next.getUTCDate() + (interval === 'week' ? 7 : 1));
+      }
+
+      const start = cursor < startDate ? startDate : cursor;
+      const periodEnd = new Date(next.getTime() - 1);
+      const end = periodEnd > endDate ? endDate : periodEnd;
+      const label = interval === 'month'
+        ? cursor.toISOString().substring(0, 7)
+        : cursor.toISOString().split('T')[0];
+
+      boundaries.push({ label, start, end });
+      cursor = next;
+    }
+
+    return boundaries;
+  }
+
   /**
    * Export transactions as CSV
    * Requirements: 6.5
@@ -249,6 +1167,7 @@ export class ReportingService {
         gte: options.startDate,
         lte: options.endDate,
       },
+      deletedAt: null,
     };
 
     if (options.accountId) {
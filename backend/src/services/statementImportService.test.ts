@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from 'vitest';
+import statementImportService from './statementImportService';
+
+// The parsers never touch the database
+vi.mock('../config/database', () => ({ default: () => ({}) }));
+
+const parseCsv = statementImportService['parseCsv'].bind(statementImportService);
+const parseOfx = statementImportService['parseOfx'].bind(statementImportService);
+
+describe('StatementImportService CSV parsing', () => {
+  const mapping = { dateColumn: 'Date', amountColumn: 'Amount', descriptionColumn: 'Description' };
+
+  it('maps columns by header name and inverts signed amounts', () => {
+    const rows = parseCsv(
+      'Date,Description,Amount\n2026-03-01,Coffee,-4.50\n2026-03-02,Paycheck,"1,200.00"\n',
+      mapping
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        date: new Date(Date.UTC(2026, 2, 1)),
+        amount: 4.5,
+        description: 'Coffee',
+        merchantName: undefined,
+      },
+      {
+        line: 3,
+        date: new Date(Date.UTC(2026, 2, 2)),
+        amount: -1200,
+        description: 'Paycheck',
+        merchantName: undefined,
+      },
+    ]);
+  });
+
+  it('keeps quoted delimiters and escaped quotes in a field', () => {
+    const [row] = parseCsv(
+      'Date,Description,Amount\n2026-03-01,"Joe\'s ""Pizza"", Inc",-12\n',
+      mapping
+    );
+    expect(row.description).toBe('Joe\'s "Pizza", Inc');
+  });
+
+  it('maps columns by number when the file has no header', () => {
+    const [row] = parseCsv('03/15/2026;Books;(20.00)\n', {
+      hasHeader: false,
+      delimiter: ';',
+      dateColumn: '0',
+      dateFormat: 'MM/DD/YYYY',
+      descriptionColumn: '1',
+      amountColumn: '2',
+      invertAmounts: false,
+    });
+
+    expect(row).toMatchObject({
+      line: 1,
+      date: new Date(Date.UTC(2026, 2, 15)),
+      amount: -20,
+      description: 'Books',
+    });
+  });
+
+  it('refuses column names when the file has no header', () => {
+    expect(() => parseCsv('2026-03-01,Coffee,4.50\n', { ...mapping, hasHeader: false })).toThrow(
+      'must be a column number'
+    );
+  });
+
+  it('refuses mappings to columns the file does not have', () => {
+    expect(() => parseCsv('Date,Memo,Amount\n2026-03-01,Coffee,4.50\n', mapping)).toThrow(
+      'Mapped columns were not found'
+    );
+  });
+
+  it('reads unsigned debit and credit columns', () => {
+    const rows = parseCsv(
+      'Date,Description,Debit,Credit\n2026-03-01,Coffee,4.50,\n2026-03-02,Refund,,10.00\n',
+      {
+        dateColumn: 'Date',
+        descriptionColumn: 'Description',
+        debitColumn: 'Debit',
+        creditColumn: 'Credit',
+      }
+    );
+
+    expect(rows.map((row) => row.amount)).toEqual([4.5, -10]);
+    expect(rows.every((row) => row.error === undefined)).toBe(true);
+  });
+
+  it('flags debit and credit cells that are not numbers, or both blank', () => {
+    const rows = parseCsv(
+      'Date,Description,Debit,Credit\n2026-03-01,Coffee,n/a,\n2026-03-02,Nothing,,\n',
+      {
+        dateColumn: 'Date',
+        descriptionColumn: 'Description',
+        debitColumn: 'Debit',
+        creditColumn: 'Credit',
+      }
+    );
+
+    expect(rows.map((row) => row.error)).toEqual(['Invalid amount', 'Invalid amount']);
+  });
+
+  it('flags invalid and rolled-over dates', () => {
+    const rows = parseCsv(
+      'Date,Description,Amount\n2026-02-31,Coffee,-4.50\nyesterday,Tea,-3\n',
+      mapping
+    );
+    expect(rows.map((row) => row.error)).toEqual([
+      'Invalid date: 2026-02-31',
+      'Invalid date: yesterday',
+    ]);
+  });
+
+  it('reads day-first dates', () => {
+    const [row] = parseCsv('Date,Description,Amount\n03/04/2026,Coffee,-4.50\n', {
+      ...mapping,
+      dateFormat: 'DD/MM/YYYY',
+    });
+    expect(row.date).toEqual(new Date(Date.UTC(2026, 3, 3)));
+  });
+});
+
+describe('StatementImportService OFX parsing', () => {
+  it('reads SGML transactions and inverts their amounts', () => {
+    const rows = parseOfx(
+      [
+        'OFXHEADER:100',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260301120000<TRNAMT>-4.50<NAME>BLUE BOTTLE &amp; CO<MEMO>Card 1234',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260302<TRNAMT>1200.00<MEMO>Payroll',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+      ].join('\n')
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 1,
+        date: new Date(Date.UTC(2026, 2, 1)),
+        amount: 4.5,
+        description: 'BLUE BOTTLE & CO',
+        merchantName: 'BLUE BOTTLE & CO',
+      },
+      {
+        line: 2,
+        date: new Date(Date.UTC(2026, 2, 2)),
+        amount: -1200,
+        description: 'Payroll',
+        merchantName: undefined,
+      },
+    ]);
+  });
+
+  it('reads XML transactions', () => {
+    const [row] = parseOfx(
+      '<OFX><BANKTRANLIST><STMTTRN><DTPOSTED>20260305</DTPOSTED><TRNAMT>-9.99</TRNAMT><NAME>NETFLIX</NAME></STMTTRN></BANKTRANLIST></OFX>'
+    );
+    expect(row).toMatchObject({
+      date: new Date(Date.UTC(2026, 2, 5)),
+      amount: 9.99,
+      description: 'NETFLIX',
+    });
+  });
+
+  it('flags transactions without a valid date or amount', () => {
+    const rows = parseOfx(
+      '<BANKTRANLIST><STMTTRN><DTPOSTED>2026<TRNAMT>-1<NAME>A<STMTTRN><DTPOSTED>20260301<TRNAMT>abc<NAME>B</BANKTRANLIST>'
+    );
+    expect(rows.map((row) => row.error)).toEqual(['Invalid date: 2026', 'Invalid amount']);
+  });
+});
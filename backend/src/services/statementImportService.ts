@@ -0,0 +1,390 @@
+import getPrismaClient from '../config/database';
+import {
+  ImportProfileInput,
+  ImportProfileModel,
+  ImportProfileResponse,
+  StatementDateFormat,
+  StatementFormat,
+} from '../models/ImportProfile';
+import transactionService, { StatementImportResult, StatementRow } from './transactionService';
+import reportingService from './reportingService';
+
+const prisma = getPrismaClient();
+
+export interface StatementImportInput {
+  accountId: string;
+  content: string;
+  format?: StatementFormat;
+  fileName?: string;
+  mapping?: ImportProfileInput;
+  saveProfile?: boolean;
+  dryRun?: boolean;
+}
+
+export class StatementImportService {
+  /**
+   * Parse a CSV, OFX or QFX statement and import it into an account.
+   * With `dryRun` nothing is written and the response previews what would happen.
+   */
+  async importStatement(userId: string, input: StatementImportInput): Promise<StatementImportResult> {
+    await this.findAccount(input.accountId, userId);
+
+    if (typeof input.content !== 'string') {
+      throw new Error('Validation failed: Statement content must be text');
+    }
+
+    if (input.content.trim().length === 0) {
+      throw new Error('Statement file is empty');
+    }
+
+    const format = input.format || this.detectFormat(input.fileName, input.content);
+    if (!ImportProfileModel.validateFormat(format)) {
+      throw new Error('Invalid statement format');
+    }
+
+    let rows: StatementRow[];
+
+    if (format === 'csv') {
+      const mapping = input.mapping || (await this.getSavedMapping(input.accountId));
+      if (!mapping) {
+        throw new Error('Validation failed: Column mapping is required for CSV imports');
+      }
+
+      const validation = ImportProfileModel.validateInput(mapping);
+      if (!validation.valid) {
+        throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+      }
+
+      // Remember the mapping for the next statement from this account
+      if (input.mapping && input.saveProfile) {
+        await this.saveImportProfile(input.accountId, userId, input.mapping);
+      }
+
+      rows = this.parseCsv(input.content, mapping);
+    } else {
+      rows = this.parseOfx(input.content);
+    }
+
+    const dryRun = input.dryRun !== false;
+    const result = await transactionService.importStatementRows(
+      rows,
+      input.accountId,
+      userId,
+      format,
+      dryRun
+    );
+
+    if (result.imported > 0) {
+      await reportingService.invalidateUserCache(userId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the saved CSV column mapping for an account
+   */
+  async getImportProfile(accountId: string, userId: string): Promise<ImportProfileResponse | null> {
+    await this.findAccount(accountId, userId);
+
+    const profile = await prisma.importProfile.findUnique({
+      where: { accountId },
+    });
+
+    return profile ? ImportProfileModel.toResponse(profile) : null;
+  }
+
+  /**
+   * Create or replace the CSV column mapping for an account
+   */
+  async saveImportProfile(
+    accountId: string,
+    userId: string,
+    input: ImportProfileInput
+  ): Promise<ImportProfileResponse> {
+    await this.findAccount(accountId, userId);
+
+    const validation = ImportProfileModel.validateInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const data = {
+      delimiter: input.delimiter || ',',
+      hasHeader: input.hasHeader !== false,
+      dateColumn: input.dateColumn.trim(),
+      dateFormat: input.dateFormat || 'YYYY-MM-DD',
+      amountColumn: input.amountColumn?.trim() || null,
+      debitColumn: input.debitColumn?.trim() || null,
+      creditColumn: input.creditColumn?.trim() || null,
+      descriptionColumn: input.descriptionColumn.trim(),
+      merchantColumn: input.merchantColumn?.trim() || null,
+      invertAmounts: input.invertAmounts !== false,
+    };
+
+    const profile = await prisma.importProfile.upsert({
+      where: { accountId },
+      create: { userId, accountId, ...data },
+      update: data,
+    });
+
+    return ImportProfileModel.toResponse(profile);
+  }
+
+  /**
+   * Guess the format from the file name, falling back to sniffing the content
+   */
+  private detectFormat(fileName: string | undefined, content: string): string {
+    const extension = fileName?.split('.').pop()?.toLowerCase();
+    if (extension && ImportProfileModel.validateFormat(extension)) {
+      return extension;
+    }
+
+    return /<OFX>/i.test(content) || /^OFXHEADER:/m.test(content) ? 'ofx' : 'csv';
+  }
+
+  /**
+   * Parse a CSV statement using a column mapping.
+   * Amounts are converted to Plaid's convention (positive = money out).
+   */
+  private parseCsv(content: string, mapping: ImportProfileInput): StatementRow[] {
+    const records = this.splitCsv(content, mapping.delimiter || ',');
+    const hasHeader = mapping.hasHeader !== false;
+    const header = hasHeader ? (records.shift() || []).map((name) => name.trim().toLowerCase()) : [];
+    const firstLine = hasHeader ? 2 : 1;
+
+    const columnIndex = (column?: string): number => {
+      if (!column) return -1;
+      if (!hasHeader) {
+        // Without a header, columns are mapped by number
+        if (!/^\s*\d+\s*$/.test(column)) {
+          throw new Error(`Validation failed: Column "${column}" must be a column number when the file has no header`);
+        }
+        return parseInt(column, 10);
+      }
+      return header.indexOf(column.trim().toLowerCase());
+    };
+
+    const dateIndex = columnIndex(mapping.dateColumn);
+    const amountIndex = columnIndex(mapping.amountColumn);
+    const debitIndex = columnIndex(mapping.debitColumn);
+    const creditIndex = columnIndex(mapping.creditColumn);
+    const descriptionIndex = columnIndex(mapping.descriptionColumn);
+    const merchantIndex = columnIndex(mapping.merchantColumn);
+
+    if (dateIndex < 0 || descriptionIndex < 0 || (amountIndex < 0 && debitIndex < 0 && creditIndex < 0)) {
+      throw new Error('Validation failed: Mapped columns were not found in the file');
+    }
+
+    return records.map((record, i) => {
+      const line = firstLine + i;
+      const date = this.parseDate(record[dateIndex], mapping.dateFormat || 'YYYY-MM-DD');
+      const description = (record[descriptionIndex] || '').trim();
+      const merchantName = merchantIndex >= 0 ? record[merchantIndex]?.trim() || undefined : undefined;
+
+      let amount: number;
+      if (amountIndex >= 0) {
+        const value = this.parseAmount(record[amountIndex]);
+        amount = mapping.invertAmounts !== false ? -value : value;
+      } else {
+        // Separate debit/credit columns hold unsigned values; one is usually blank
+        const cell = (index: number) => (index >= 0 ? (record[index] || '').trim() : '');
+        const debitText = cell(debitIndex);
+        const creditText = cell(creditIndex);
+        const debit = debitText ? Math.abs(this.parseAmount(debitText)) : 0;
+        const credit = creditText ? Math.abs(this.parseAmount(creditText)) : 0;
+        amount = debitText || creditText ? debit - credit : NaN;
+      }
+
+      const row: StatementRow = { line, date, amount, description, merchantName };
+
+      if (isNaN(date.getTime())) {
+        row.error = `Invalid date: ${record[dateIndex] || ''}`;
+      } else if (isNaN(amount)) {
+        row.error = 'Invalid amount';
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Parse an OFX or QFX statement (SGML or XML flavoured).
+   * OFX amounts are negative for money out, so they are inverted.
+   */
+  private parseOfx(content: string): StatementRow[] {
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+    const readTag = (block: string, tag: string): string | undefined => {
+      const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+      return match ? this.decodeEntities(match[1].trim()) : undefined;
+    };
+
+    return blocks.map((block, i) => {
+      const posted = readTag(block, 'DTPOSTED') || '';
+      const date = this.parseDate(posted.substring(0, 8), 'YYYYMMDD');
+      const amount = -this.parseAmount(readTag(block, 'TRNAMT'));
+      const name = readTag(block, 'NAME');
+      const memo = readTag(block, 'MEMO');
+
+      const row: StatementRow = {
+        line: i + 1,
+        date,
+        amount,
+        description: name || memo || '',
+        merchantName: name,
+      };
+
+      if (isNaN(date.getTime())) {
+        row.error = `Invalid date: ${posted}`;
+      } else if (isNaN(amount)) {
+        row.error = 'Invalid amount';
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Split CSV content into records, honouring quoted fields
+   */
+  private splitCsv(content: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field.length > 0 || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    // Drop blank lines
+    return records.filter((r) => r.some((value) => value.trim().length > 0));
+  }
+
+  /**
+   * Parse a date string into a UTC date (matching how Plaid dates are stored)
+   */
+  private parseDate(value: string | undefined, format: StatementDateFormat | 'YYYYMMDD'): Date {
+    const text = (value || '').trim();
+    let match: RegExpMatchArray | null;
+    let year: number, month: number, day: number;
+
+    switch (format) {
+      case 'YYYYMMDD':
+        match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+        if (!match) return new Date(NaN);
+        [year, month, day] = [+match[1], +match[2], +match[3]];
+        break;
+      case 'MM/DD/YYYY':
+        match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+        if (!match) return new Date(NaN);
+        [month, day, year] = [+match[1], +match[2], +match[3]];
+        break;
+      case 'DD/MM/YYYY':
+        match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+        if (!match) return new Date(NaN);
+        [day, month, year] = [+match[1], +match[2], +match[3]];
+        break;
+      default:
+        match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+        if (!match) return new Date(NaN);
+        [year, month, day] = [+match[1], +match[2], +match[3]];
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    // Reject rollovers such as 02/31
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return new Date(NaN);
+    }
+
+    return date;
+  }
+
+  /**
+   * Parse an amount, tolerating currency symbols, thousands separators and (negatives)
+   */
+  private parseAmount(value: string | undefined): number {
+    const text = (value || '').trim();
+    if (text.length === 0) return NaN;
+
+    const negative = /^\(.*\)$/.test(text);
+    const amount = parseFloat(text.replace(/[()$,\s]/g, ''));
+
+    return negative ? -amount : amount;
+  }
+
+  /**
+   * Decode the handful of XML entities OFX files use
+   */
+  private decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Load the saved column mapping for an account, if any
+   */
+  private async getSavedMapping(accountId: string): Promise<ImportProfileInput | null> {
+    const profile = await prisma.importProfile.findUnique({
+      where: { accountId },
+    });
+
+    return profile ? ImportProfileModel.toInput(profile) : null;
+  }
+
+  /**
+   * Find an active account (linked or manual) owned by the user
+   */
+  private async findAccount(accountId: string, userId: string) {
+    const account = await prisma.plaidAccount.findFirst({
+      where: {
+        id: accountId,
+        userId,
+        isActive: true,
+      },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    return account;
+  }
+}
+
+export default new StatementImportService();
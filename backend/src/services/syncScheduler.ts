@@ -1,6 +1,11 @@
 import getPrismaClient from '../config/database';
 import plaidService from './plaidService';
-import transactionService from './transactionService';
+import budgetService from './budgetService';
+import goalService from './goalService';
+import accountService from './accountService';
+import merchantService from './merchantService';
+import notificationService from './notificationService';
+import webhookService from './webhookService';
 
 const prisma = getPrismaClient();
 
@@ -8,6 +13,8 @@ interface SyncResult {
   accountId: string;
   success: boolean;
   imported?: number;
+  modified?: number;
+  removed?: number;
   duplicates?: number;
   error?: string;
   retryCount?: number;
@@ -15,7 +22,10 @@ interface SyncResult {
 
 export class SyncScheduler {
   private syncInterval: NodeJS.Timeout | null = null;
+  private deliveryInterval: NodeJS.Timeout | null = null;
+  private deliveryRunning = false;
   private readonly SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly DELIVERY_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
   private readonly MAX_RETRIES = 3;
   private readonly BASE_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
   private retryQueue: Map<string, { retryCount: number; nextRetry: Date }> = new Map();
@@ -38,6 +48,11 @@ export class SyncScheduler {
     this.syncInterval = setInterval(() => {
       this.runDailySync();
     }, this.SYNC_INTERVAL_MS);
+
+    // Send notification and webhook retries, digests and messages held by quiet hours
+    this.deliveryInterval = setInterval(() => {
+      this.processDeliveryQueues();
+    }, this.DELIVERY_INTERVAL_MS);
   }
 
   /**
@@ -49,6 +64,44 @@ export class SyncScheduler {
       this.syncInterval = null;
       console.log('Sync scheduler stopped');
     }
+
+    if (this.deliveryInterval) {
+      clearInterval(this.deliveryInterval);
+      this.deliveryInterval = null;
+    }
+  }
+
+  /**
+   * Work through the notification and webhook delivery queues
+   */
+  private async processDeliveryQueues(): Promise<void> {
+    // A run can outlast the interval when endpoints are slow
+    if (this.deliveryRunning) {
+      console.log('Delivery queues still being processed, skipping this run');
+      return;
+    }
+
+    this.deliveryRunning = true;
+
+    try {
+      const sent = await notificationService.processQueue();
+      if (sent > 0) {
+        console.log(`Notification queue processed: ${sent} delivered`);
+      }
+    } catch (error: any) {
+      console.error('Error processing notification queue:', error.message);
+    }
+
+    try {
+      const delivered = await webhookService.processQueue();
+      if (delivered > 0) {
+        console.log(`Webhook queue processed: ${delivered} delivered`);
+      }
+    } catch (error: any) {
+      console.error('Error processing webhook queue:', error.message);
+    }
+
+    this.deliveryRunning = false;
   }
 
   /**
@@ -60,7 +113,7 @@ export class SyncScheduler {
     try {
       // Get all active accounts
       const accounts = await prisma.plaidAccount.findMany({
-        where: { isActive: true },
+        where: { isActive: true, isManual: false },
         select: {
           id: true,
           userId: true,
@@ -110,6 +163,48 @@ export class SyncScheduler {
     } catch (error: any) {
       console.error('Error during daily sync:', error.message);
     }
+
+    await this.runDailyMaintenance();
+  }
+
+  /**
+   * Daily jobs that follow the account syncs. Each runs on its own so one
+   * failing does not skip the rest; a missed balance snapshot cannot be
+   * recorded later.
+   */
+  private async runDailyMaintenance(): Promise<void> {
+    // Start the new period of recurring budgets
+    try {
+      const renewed = await budgetService.renewRecurringBudgets();
+      console.log(`Recurring budgets renewed: ${renewed} new periods`);
+    } catch (error: any) {
+      console.error('Error renewing recurring budgets:', error.message);
+    }
+
+    // The account syncs above refreshed linked balances, so record what
+    // linked accounts added to goals
+    try {
+      const goalsUpdated = await goalService.recordLinkedBalances();
+      console.log(`Goal balances recorded: ${goalsUpdated} goals changed`);
+    } catch (error: any) {
+      console.error('Error recording goal balances:', error.message);
+    }
+
+    // Keep a daily history of balances for net worth reporting
+    try {
+      const snapshots = await accountService.recordBalanceSnapshots();
+      console.log(`Balance snapshots recorded: ${snapshots} accounts`);
+    } catch (error: any) {
+      console.error('Error recording balance snapshots:', error.message);
+    }
+
+    // Link transactions imported before merchants existed
+    try {
+      const merchantsAssigned = await merchantService.assignMissingMerchants();
+      console.log(`Merchants assigned: ${merchantsAssigned} transactions`);
+    } catch (error: any) {
+      console.error('Error assigning merchants:', error.message);
+    }
   }
 
   /**
@@ -119,25 +214,21 @@ export class SyncScheduler {
     try {
       console.log(`Syncing account ${accountId}...`);
 
-      // Fetch transactions from Plaid
-      const plaidTransactions = await plaidService.syncTransactions(accountId, userId);
-
-      // Import transactions
-      const importResult = await transactionService.importTransactions(
-        plaidTransactions,
-        accountId,
-        userId
-      );
+      // Fetch and apply transaction deltas from Plaid
+      const syncResult = await plaidService.syncTransactions(accountId, userId);
 
       console.log(
-        `Account ${accountId} synced: ${importResult.imported} imported, ${importResult.duplicates} duplicates`
+        `Account ${accountId} synced: ${syncResult.added} imported, ${syncResult.modified} modified, ` +
+          `${syncResult.removed} removed, ${syncResult.duplicates} duplicates`
       );
 
       return {
         accountId,
         success: true,
-        imported: importResult.imported,
-        duplicates: importResult.duplicates,
+        imported: syncResult.added,
+        modified: syncResult.modified,
+        removed: syncResult.removed,
+        duplicates: syncResult.duplicates,
       };
     } catch (error: any) {
       console.error(`Error syncing account ${accountId}:`, error.message);
@@ -171,6 +262,11 @@ export class SyncScheduler {
       // Log error to database
       await this.logSyncError(accountId, error, retryInfo.retryCount);
 
+      // Tell the owner once, on the first failure of a run
+      if (retryInfo.retryCount === 1) {
+        await this.notifySyncFailure(accountId, error);
+      }
+
       // Schedule retry
       setTimeout(() => {
         this.retrySync(accountId);
@@ -227,6 +323,33 @@ export class SyncScheduler {
     // In a production system, you would store this in a database table or external logging service
   }
 
+  /**
+   * Notify the account owner (and their webhooks) that syncing failed
+   */
+  private async notifySyncFailure(accountId: string, error: string): Promise<void> {
+    const account = await prisma.plaidAccount.findUnique({
+      where: { id: accountId },
+      select: { userId: true, accountName: true },
+    });
+
+    if (!account) {
+      return;
+    }
+
+    webhookService.emit(account.userId, 'account.sync_failed', {
+      accountId,
+      accountName: account.accountName,
+      error,
+    });
+
+    await notificationService.notify(account.userId, {
+      eventType: 'sync_failed',
+      title: `Couldn't sync ${account.accountName}`,
+      body: `We'll keep retrying automatically. Last error: ${error}`,
+      link: '/accounts',
+    });
+  }
+
   /**
    * Manual sync trigger for a specific account
    */
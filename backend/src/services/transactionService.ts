@@ -1,8 +1,22 @@
+import { Prisma, Transaction as PrismaTransaction } from '@prisma/client';
 import getPrismaClient from '../config/database';
-import { TransactionModel, CreateTransactionInput, TransactionResponse } from '../models/Transaction';
+import {
+  TransactionModel,
+  CreateTransactionInput,
+  TransactionResponse,
+  TransactionLocation,
+} from '../models/Transaction';
+import { TransactionSplitInput, TransactionSplitModel } from '../models/TransactionSplit';
 import { Transaction as PlaidTransaction } from 'plaid';
-import categorizationService from './categorizationService';
+import categorizationService, { CategorizationResult } from './categorizationService';
 import fraudDetectionService from './fraudDetectionService';
+import accountService from './accountService';
+import reportingService from './reportingService';
+import transferService from './transferService';
+import budgetAlertService from './budgetAlertService';
+import recurringService from './recurringService';
+import merchantService from './merchantService';
+import webhookService from './webhookService';
 
 const prisma = getPrismaClient();
 
@@ -18,6 +32,38 @@ export interface TransactionFilters {
   limit?: number;
 }
 
+export interface ManualTransactionInput {
+  accountId: string;
+  amount: number;
+  date: Date;
+  merchantName?: string;
+  description: string;
+  categoryId?: string;
+  location?: TransactionLocation;
+}
+
+export interface StatementRow {
+  line: number;
+  date: Date;
+  amount: number;
+  description: string;
+  merchantName?: string;
+  error?: string;
+}
+
+export interface StatementPreviewRow extends StatementRow {
+  status: 'new' | 'duplicate' | 'invalid';
+}
+
+export interface StatementImportResult {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  rows: StatementPreviewRow[];
+}
+
 export interface PaginatedTransactions {
   transactions: TransactionResponse[];
   total: number;
@@ -26,6 +72,13 @@ export interface PaginatedTransactions {
   totalPages: number;
 }
 
+// Transaction fields set by user rule actions
+interface RuleActionData {
+  tags?: string[];
+  merchantId?: string;
+  isTransfer?: boolean;
+}
+
 export class TransactionService {
   /**
    * Get all available categories
@@ -52,6 +105,7 @@ export class TransactionService {
   ): Promise<{ imported: number; duplicates: number }> {
     let imported = 0;
     let duplicates = 0;
+    const createdTransactions: PrismaTransaction[] = [];
 
     for (const plaidTx of plaidTransactions) {
       try {
@@ -65,6 +119,17 @@ export class TransactionService {
           continue;
         }
 
+        // A posted transaction points back to the pending row it replaces
+        const pendingTransaction = plaidTx.pending_transaction_id
+          ? await prisma.transaction.findFirst({
+              where: {
+                userId,
+                plaidTransactionId: plaidTx.pending_transaction_id,
+                deletedAt: null,
+              },
+            })
+          : null;
+
         // Create transaction hash for additional duplicate checking
         const txHash = TransactionModel.generateTransactionHash(
           accountId,
@@ -73,8 +138,11 @@ export class TransactionService {
           plaidTx.merchant_name || undefined
         );
 
-        // Check for duplicates using hash (in case plaidTransactionId changed)
-        const hashDuplicate = await this.findByHash(userId, txHash);
+        // Check for duplicates using hash (in case plaidTransactionId changed).
+        // The pending row being superseded is not a duplicate of its posted row.
+        const hashDuplicate = await this.findByHash(userId, txHash, {
+          excludeTransactionId: pendingTransaction?.id,
+        });
         if (hashDuplicate) {
           duplicates++;
           continue;
@@ -85,6 +153,7 @@ export class TransactionService {
           userId,
           accountId,
           plaidTransactionId: plaidTx.transaction_id,
+          pendingTransactionId: plaidTx.pending_transaction_id || undefined,
           amount: plaidTx.amount,
           date: new Date(plaidTx.date),
           merchantName: plaidTx.merchant_name || undefined,
@@ -104,21 +173,45 @@ export class TransactionService {
           continue;
         }
 
-        // Auto-categorize the transaction (Requirements: 3.1, 3.3)
-        try {
-          const categorization = await categorizationService.categorizeTransaction(userId, {
-            merchantName: transactionData.merchantName,
-            description: transactionData.description,
-            plaidCategory: plaidTx.personal_finance_category?.primary 
-              ? [plaidTx.personal_finance_category.primary]
-              : plaidTx.category || undefined,
-          });
+        // Keep a category the user assigned while the transaction was pending
+        const userCategory =
+          pendingTransaction?.categoryId && pendingTransaction.categoryConfidence === 100
+            ? pendingTransaction.categoryId
+            : null;
 
-          transactionData.categoryId = categorization.categoryId;
-          transactionData.categoryConfidence = categorization.confidence;
-        } catch (error: any) {
-          console.error(`Error categorizing transaction: ${error.message}`);
-          // Continue without categorization
+        const merchant = await merchantService.resolveMerchant(
+          userId,
+          transactionData.merchantName,
+          transactionData.description
+        );
+        transactionData.merchantId = merchant?.id;
+        let ruleActions: RuleActionData = {};
+
+        if (userCategory) {
+          transactionData.categoryId = userCategory;
+          transactionData.categoryConfidence = 100;
+        } else {
+          // Auto-categorize the transaction (Requirements: 3.1, 3.3)
+          try {
+            const categorization = await categorizationService.categorizeTransaction(userId, {
+              merchantName: transactionData.merchantName,
+              description: transactionData.description,
+              merchant: merchant || undefined,
+              amount: transactionData.amount,
+              accountId: transactionData.accountId,
+              date: transactionData.date,
+              plaidCategory: plaidTx.personal_finance_category?.primary 
+                ? [plaidTx.personal_finance_category.primary]
+                : plaidTx.category || undefined,
+            });
+
+            transactionData.categoryId = categorization.categoryId;
+            transactionData.categoryConfidence = categorization.confidence;
+            ruleActions = await this.ruleActionData(userId, categorization);
+          } catch (error: any) {
+            console.error(`Error categorizing transaction: ${error.message}`);
+            // Continue without categorization
+          }
         }
 
         // Store transaction
@@ -127,9 +220,11 @@ export class TransactionService {
             userId: transactionData.userId,
             accountId: transactionData.accountId,
             plaidTransactionId: transactionData.plaidTransactionId,
+            pendingTransactionId: transactionData.pendingTransactionId,
             amount: transactionData.amount,
             date: transactionData.date,
             merchantName: transactionData.merchantName,
+            merchantId: transactionData.merchantId,
             description: transactionData.description,
             categoryId: transactionData.categoryId,
             categoryConfidence: transactionData.categoryConfidence || 0,
@@ -138,57 +233,477 @@ export class TransactionService {
             locationRegion: transactionData.location?.region,
             locationCountry: transactionData.location?.country,
             isFraudulent: transactionData.isFraudulent || false,
+            ...ruleActions,
           },
         });
 
         imported++;
 
-        // Run fraud detection on new transaction (Requirements: 5.1, 5.2, 5.3)
-        // Run asynchronously to not block import process
-        setImmediate(async () => {
+        if (pendingTransaction) {
+          await this.supersedePendingTransaction(pendingTransaction, createdTransaction);
+        }
+
+        createdTransactions.push(createdTransaction);
+      } catch (error: any) {
+        console.error(`Error importing transaction ${plaidTx.transaction_id}:`, error.message);
+        // Continue with next transaction
+      }
+    }
+
+    await this.afterImport(createdTransactions, userId);
+
+    return { imported, duplicates };
+  }
+
+  /**
+   * Apply Plaid `modified` deltas to previously imported transactions.
+   * Transactions we have never seen are imported as new ones; ones we have
+   * tombstoned stay removed.
+   */
+  async applyModifiedTransactions(
+    plaidTransactions: PlaidTransaction[],
+    accountId: string,
+    userId: string
+  ): Promise<{ updated: number; imported: number }> {
+    let updated = 0;
+    const unknown: PlaidTransaction[] = [];
+
+    for (const plaidTx of plaidTransactions) {
+      try {
+        const existing = await prisma.transaction.findFirst({
+          where: {
+            userId,
+            plaidTransactionId: plaidTx.transaction_id,
+          },
+        });
+
+        if (!existing) {
+          unknown.push(plaidTx);
+          continue;
+        }
+
+        // Removed, or a pending row replaced by its posted version; bringing it
+        // back would count it twice
+        if (existing.deletedAt) {
+          continue;
+        }
+
+        const merchantName = plaidTx.merchant_name || null;
+        const data: Prisma.TransactionUpdateInput = {
+          amount: plaidTx.amount,
+          date: new Date(plaidTx.date),
+          merchantName,
+          description: plaidTx.name,
+          isPending: plaidTx.pending,
+          locationCity: plaidTx.location?.city || null,
+          locationRegion: plaidTx.location?.region || null,
+          locationCountry: plaidTx.location?.country || null,
+        };
+
+        // Re-resolve and re-categorize when the merchant changed, unless the user picked the category
+        const merchantChanged =
+          existing.merchantName !== merchantName || existing.description !== plaidTx.name;
+        const merchant = merchantChanged
+          ? await merchantService.resolveMerchant(userId, merchantName, plaidTx.name)
+          : null;
+        if (merchantChanged) {
+          data.merchant = merchant ? { connect: { id: merchant.id } } : { disconnect: true };
+        }
+        if (merchantChanged && existing.categoryConfidence < 100) {
           try {
-            const transactionResponse = TransactionModel.toResponse(createdTransaction);
-            const fraudAlerts = await fraudDetectionService.analyzeTransaction(transactionResponse);
-            
-            // If fraud detected, mark transaction as fraudulent
-            if (fraudAlerts.length > 0) {
-              await prisma.transaction.update({
-                where: { id: createdTransaction.id },
-                data: { isFraudulent: true },
-              });
+            const categorization = await categorizationService.categorizeTransaction(userId, {
+              merchantName: merchantName || undefined,
+              description: plaidTx.name,
+              merchant: merchant || undefined,
+              amount: plaidTx.amount,
+              accountId: existing.accountId,
+              date: new Date(plaidTx.date),
+              plaidCategory: plaidTx.personal_finance_category?.primary
+                ? [plaidTx.personal_finance_category.primary]
+                : plaidTx.category || undefined,
+            });
+            data.category = { connect: { id: categorization.categoryId } };
+            data.categoryConfidence = categorization.confidence;
+
+            const ruleActions = await this.ruleActionData(userId, categorization);
+            if (ruleActions.tags) {
+              data.tags = Array.from(new Set([...existing.tags, ...ruleActions.tags]));
+            }
+            if (ruleActions.merchantId) {
+              data.merchant = { connect: { id: ruleActions.merchantId } };
+            }
+            if (ruleActions.isTransfer) {
+              data.isTransfer = true;
             }
           } catch (error: any) {
-            console.error(`Error running fraud detection on transaction ${createdTransaction.id}:`, error.message);
+            console.error(`Error categorizing transaction: ${error.message}`);
           }
+        }
+
+        const updatedTransaction = await prisma.transaction.update({
+          where: { id: existing.id },
+          data,
         });
+
+        // Splits and transfer pairs no longer add up once the amount changes
+        if (Number(existing.amount) !== plaidTx.amount) {
+          await prisma.transactionSplit.deleteMany({ where: { transactionId: existing.id } });
+          await transferService.releaseTransfers([existing.id]);
+        }
+
+        updated++;
+
+        if (updatedTransaction.categoryId !== existing.categoryId) {
+          webhookService.emit(userId, 'transaction.categorized', {
+            transaction: TransactionModel.toResponse(updatedTransaction),
+            source: 'auto',
+          });
+        }
+
+        // Amount, date or location may have changed, so re-run fraud checks
+        this.scheduleFraudDetection(updatedTransaction);
       } catch (error: any) {
-        console.error(`Error importing transaction ${plaidTx.transaction_id}:`, error.message);
-        // Continue with next transaction
+        console.error(`Error updating transaction ${plaidTx.transaction_id}:`, error.message);
       }
     }
 
-    return { imported, duplicates };
+    let imported = 0;
+    if (unknown.length > 0) {
+      const result = await this.importTransactions(unknown, accountId, userId);
+      imported = result.imported;
+    }
+
+    return { updated, imported };
   }
 
   /**
-   * Find transaction by hash for duplicate detection
+   * Tombstone transactions that Plaid reports as removed (e.g. reversed charges)
+   * and drop any fraud alerts the user has not reviewed yet
    */
-  private async findByHash(userId: string, hash: string): Promise<boolean> {
-    // Parse hash to extract components
-    const parts = hash.split('-');
-    if (parts.length < 4) return false;
-
-    const accountId = parts[0];
-    const amount = parseFloat(parts[1]);
-    const dateStr = parts[2];
-    const merchantName = parts.slice(3).join('-');
-
-    // Validate date string format (YYYY-MM-DD)
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      console.error(`Invalid date format in hash: ${dateStr}`);
-      return false;
+  async removeTransactions(plaidTransactionIds: string[], userId: string): Promise<number> {
+    if (plaidTransactionIds.length === 0) {
+      return 0;
     }
 
+    const removed = await prisma.transaction.findMany({
+      where: {
+        userId,
+        plaidTransactionId: { in: plaidTransactionIds },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    const removedIds = removed.map((tx) => tx.id);
+
+    const result = await prisma.transaction.updateMany({
+      where: { id: { in: removedIds } },
+      data: { deletedAt: new Date() },
+    });
+
+    // The other side of a transfer is a normal transaction again
+    await transferService.releaseTransfers(removedIds);
+
+    await prisma.fraudAlert.deleteMany({
+      where: {
+        userId,
+        isReviewed: false,
+        transaction: { plaidTransactionId: { in: plaidTransactionIds } },
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Import rows parsed from a statement file. Every row is checked against the
+   * transactions already stored before anything is written, so a dry run reports
+   * exactly what a real import would do. Rows are historical, so manual account
+   * balances are left alone.
+   */
+  async importStatementRows(
+    rows: StatementRow[],
+    accountId: string,
+    userId: string,
+    importSource: string,
+    dryRun: boolean
+  ): Promise<StatementImportResult> {
+    const preview: StatementPreviewRow[] = [];
+
+    for (const row of rows) {
+      if (row.error) {
+        preview.push({ ...row, status: 'invalid' });
+        continue;
+      }
+
+      const validation = TransactionModel.validateCreateInput({
+        userId,
+        accountId,
+        amount: row.amount,
+        date: row.date,
+        merchantName: row.merchantName,
+        description: row.description,
+      });
+      if (!validation.valid) {
+        preview.push({ ...row, status: 'invalid', error: validation.errors.join(', ') });
+        continue;
+      }
+
+      // Overlapping Plaid data has the same amount and date but a cleaned-up merchant name
+      const txHash = TransactionModel.generateTransactionHash(
+        accountId,
+        row.amount,
+        row.date,
+        row.merchantName
+      );
+      const isDuplicate = await this.findByHash(userId, txHash, { anyMerchant: true });
+
+      preview.push({ ...row, status: isDuplicate ? 'duplicate' : 'new' });
+    }
+
+    const result: StatementImportResult = {
+      dryRun,
+      total: rows.length,
+      imported: 0,
+      duplicates: preview.filter((row) => row.status === 'duplicate').length,
+      invalid: preview.filter((row) => row.status === 'invalid').length,
+      rows: preview,
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    // Rows on a manual account can be edited like the ones entered by hand
+    const account = await prisma.plaidAccount.findFirst({
+      where: { id: accountId, userId },
+      select: { isManual: true },
+    });
+    const isManual = account?.isManual ?? false;
+
+    const createdTransactions: PrismaTransaction[] = [];
+
+    for (const row of preview) {
+      if (row.status !== 'new') continue;
+
+      try {
+        let categoryId: string | undefined;
+        let categoryConfidence = 0;
+        let ruleActions: RuleActionData = {};
+
+        const merchant = await merchantService.resolveMerchant(userId, row.merchantName, row.description);
+
+        try {
+          const categorization = await categorizationService.categorizeTransaction(userId, {
+            merchantName: row.merchantName,
+            description: row.description,
+            merchant: merchant || undefined,
+            amount: row.amount,
+            accountId,
+            date: row.date,
+          });
+          categoryId = categorization.categoryId;
+          categoryConfidence = categorization.confidence;
+          ruleActions = await this.ruleActionData(userId, categorization);
+        } catch (error: any) {
+          console.error(`Error categorizing transaction: ${error.message}`);
+        }
+
+        const created = await prisma.transaction.create({
+          data: {
+            userId,
+            accountId,
+            amount: row.amount,
+            date: row.date,
+            merchantName: row.merchantName,
+            merchantId: merchant?.id,
+            description: row.description,
+            categoryId,
+            categoryConfidence,
+            isPending: false,
+            isManual,
+            importSource,
+            ...ruleActions,
+          },
+        });
+
+        result.imported++;
+        createdTransactions.push(created);
+      } catch (error: any) {
+        console.error(`Error importing statement line ${row.line}:`, error.message);
+        row.status = 'invalid';
+        row.error = 'Failed to import';
+        result.invalid++;
+      }
+    }
+
+    await this.afterImport(createdTransactions, userId);
+
+    return result;
+  }
+
+  /**
+   * Fields set by the actions of the user rules that categorized a transaction
+   * besides its category. A renamed merchant links the transaction to the
+   * canonical merchant of that name; the raw name is kept for deduplication.
+   */
+  private async ruleActionData(userId: string, categorization: CategorizationResult): Promise<RuleActionData> {
+    const renamed = categorization.merchantName
+      ? await merchantService.resolveMerchantByName(userId, categorization.merchantName)
+      : null;
+
+    return {
+      ...(categorization.tags && { tags: categorization.tags }),
+      ...(renamed && { merchantId: renamed.id }),
+      ...(categorization.isTransfer && { isTransfer: true }),
+    };
+  }
+
+  /**
+   * Retire a pending transaction once its posted counterpart has been stored.
+   * Fraud alerts (including their review state) move to the posted row, and the
+   * pending row is tombstoned so it is never counted alongside the posted one.
+   * Splits move too, as long as the posted amount still matches.
+   */
+  private async supersedePendingTransaction(
+    pendingTransaction: PrismaTransaction,
+    postedTransaction: PrismaTransaction
+  ): Promise<void> {
+    const keepSplits = Number(pendingTransaction.amount) === Number(postedTransaction.amount);
+
+    await prisma.$transaction([
+      prisma.fraudAlert.updateMany({
+        where: { transactionId: pendingTransaction.id },
+        data: { transactionId: postedTransaction.id },
+      }),
+      ...(keepSplits
+        ? [
+            prisma.transactionSplit.updateMany({
+              where: { transactionId: pendingTransaction.id },
+              data: { transactionId: postedTransaction.id },
+            }),
+          ]
+        : []),
+      prisma.transaction.update({
+        where: { id: postedTransaction.id },
+        data: { isFraudulent: pendingTransaction.isFraudulent },
+      }),
+      prisma.transaction.update({
+        where: { id: pendingTransaction.id },
+        data: { deletedAt: new Date() },
+      }),
+    ]);
+  }
+
+  /**
+   * Match transfers across the user's accounts once a batch has been stored, then
+   * fraud-check whatever was not paired. Matching first keeps transfers from
+   * raising alerts in the first place.
+   */
+  private async afterImport(createdTransactions: PrismaTransaction[], userId: string): Promise<void> {
+    let transfers = new Set<string>();
+
+    try {
+      transfers = await transferService.detectTransfers(
+        userId,
+        createdTransactions.map((tx) => tx.id)
+      );
+    } catch (error: any) {
+      console.error('Error detecting transfers:', error.message);
+    }
+
+    for (const transaction of createdTransactions) {
+      webhookService.emit(userId, 'transaction.created', TransactionModel.toResponse(transaction));
+
+      if (!transfers.has(transaction.id)) {
+        // Run fraud detection on new transaction (Requirements: 5.1, 5.2, 5.3)
+        this.scheduleFraudDetection(transaction);
+      }
+    }
+
+    if (createdTransactions.length > 0) {
+      this.scheduleBudgetAlerts(userId);
+      this.scheduleRecurringDetection(userId, createdTransactions.map((tx) => tx.id));
+    }
+  }
+
+  /**
+   * Look for subscriptions the new charges have just established
+   */
+  private scheduleRecurringDetection(userId: string, transactionIds: string[]): void {
+    setImmediate(async () => {
+      try {
+        await recurringService.notifyNewSeries(userId, transactionIds);
+      } catch (error: any) {
+        console.error(`Error detecting new recurring charges for user ${userId}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * Check budget thresholds asynchronously once new spending has been stored
+   */
+  private scheduleBudgetAlerts(userId: string): void {
+    setImmediate(async () => {
+      try {
+        await budgetAlertService.evaluateBudgetAlerts(userId);
+      } catch (error: any) {
+        console.error(`Error evaluating budget alerts for user ${userId}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * Run fraud detection asynchronously so it doesn't block the sync.
+   * The row is re-read first, since it may have been paired as a transfer or
+   * removed by the time this runs.
+   */
+  private scheduleFraudDetection(transaction: PrismaTransaction): void {
+    setImmediate(async () => {
+      try {
+        const current = await prisma.transaction.findUnique({
+          where: { id: transaction.id },
+        });
+
+        if (!current || current.deletedAt) {
+          return;
+        }
+
+        const transactionResponse = TransactionModel.toResponse(current);
+        const fraudAlerts = await fraudDetectionService.analyzeTransaction(transactionResponse);
+
+        // If fraud detected, mark transaction as fraudulent
+        if (fraudAlerts.length > 0) {
+          await prisma.transaction.update({
+            where: { id: transaction.id },
+            data: { isFraudulent: true },
+          });
+        }
+      } catch (error: any) {
+        console.error(`Error running fraud detection on transaction ${transaction.id}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * Find transaction by hash for duplicate detection.
+   * Statement files describe merchants differently from Plaid, so statement imports
+   * set `anyMerchant` to match on account, amount and date alone.
+   */
+  private async findByHash(
+    userId: string,
+    hash: string,
+    options: { excludeTransactionId?: string; anyMerchant?: boolean } = {}
+  ): Promise<boolean> {
+    // Parse hash to extract components. Account IDs are UUIDs and amounts may be
+    // negative, so the parts can't simply be split on '-'.
+    const match = hash.match(/^(.+?)-(-?\d+(?:\.\d+)?)-(\d{4}-\d{2}-\d{2})-(.*)$/);
+    if (!match) return false;
+
+    const accountId = match[1];
+    const amount = parseFloat(match[2]);
+    const dateStr = match[3];
+    const merchantName = match[4];
+
     // Create date range for the day
     const startDate = new Date(dateStr + 'T00:00:00.000Z');
     const endDate = new Date(dateStr + 'T23:59:59.999Z');
@@ -209,7 +724,9 @@ export class TransactionService {
           gte: startDate,
           lte: endDate,
         },
-        merchantName: merchantName === 'unknown' ? null : merchantName,
+        ...(!options.anyMerchant && { merchantName: merchantName === 'unknown' ? null : merchantName }),
+        deletedAt: null,
+        ...(options.excludeTransactionId && { id: { not: options.excludeTransactionId } }),
       },
       take: 1,
     });
@@ -226,7 +743,7 @@ export class TransactionService {
     const skip = (page - 1) * limit;
 
     // Build where clause
-    const where: any = { userId };
+    const where: any = { userId, deletedAt: null };
 
     if (filters.startDate || filters.endDate) {
       where.date = {};
@@ -235,7 +752,10 @@ export class TransactionService {
     }
 
     if (filters.categoryId) {
-      where.categoryId = filters.categoryId;
+      where.OR = [
+        { categoryId: filters.categoryId },
+        { splits: { some: { categoryId: filters.categoryId } } },
+      ];
     }
 
     if (filters.accountId) {
@@ -272,6 +792,7 @@ export class TransactionService {
             color: true,
           },
         },
+        splits: true,
       },
     });
 
@@ -297,7 +818,9 @@ export class TransactionService {
       where: {
         id: transactionId,
         userId,
+        deletedAt: null,
       },
+      include: { splits: true },
     });
 
     if (!transaction) {
@@ -320,6 +843,7 @@ export class TransactionService {
       where: {
         id: transactionId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -348,6 +872,8 @@ export class TransactionService {
       },
     });
 
+    await reportingService.invalidateUserCache(userId);
+
     // Learn from user correction (Requirements: 3.5)
     try {
       await categorizationService.learnFromCorrection(userId, transactionId, categoryId);
@@ -356,8 +882,334 @@ export class TransactionService {
       // Don't fail the update if learning fails
     }
 
+    const response = TransactionModel.toResponse(updated);
+    webhookService.emit(userId, 'transaction.categorized', { transaction: response, source: 'user' });
+
+    return response;
+  }
+
+  /**
+   * Replace the category splits of a transaction.
+   * Passing an empty list removes the splits so the transaction's own category applies again.
+   */
+  async updateSplits(
+    transactionId: string,
+    userId: string,
+    splits: TransactionSplitInput[]
+  ): Promise<TransactionResponse> {
+    const transaction = await prisma.transaction.findFirst({
+      where: {
+        id: transactionId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    const validation = TransactionSplitModel.validateSplits(Number(transaction.amount), splits);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    for (const categoryId of new Set(splits.map((split) => split.categoryId))) {
+      await this.verifyCategory(categoryId, userId);
+    }
+
+    await prisma.$transaction([
+      prisma.transactionSplit.deleteMany({ where: { transactionId } }),
+      prisma.transactionSplit.createMany({
+        data: splits.map((split) => ({
+          transactionId,
+          categoryId: split.categoryId,
+          amount: split.amount,
+          note: split.note?.trim() || null,
+        })),
+      }),
+    ]);
+
+    await reportingService.invalidateUserCache(userId);
+
+    const updated = await prisma.transaction.findUniqueOrThrow({
+      where: { id: transactionId },
+      include: { splits: true },
+    });
+
     return TransactionModel.toResponse(updated);
   }
+
+  /**
+   * Create a transaction on a manual account
+   */
+  async createManualTransaction(
+    userId: string,
+    input: ManualTransactionInput
+  ): Promise<TransactionResponse> {
+    this.checkManualInputTypes(input);
+    await accountService.findManualAccount(input.accountId, userId);
+
+    const transactionData: CreateTransactionInput = {
+      userId,
+      accountId: input.accountId,
+      amount: input.amount,
+      date: input.date,
+      merchantName: input.merchantName?.trim() || undefined,
+      description: input.description?.trim(),
+      location: input.location,
+    };
+
+    const validation = TransactionModel.validateCreateInput(transactionData);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const merchant = await merchantService.resolveMerchant(
+      userId,
+      transactionData.merchantName,
+      transactionData.description
+    );
+    transactionData.merchantId = merchant?.id;
+    let ruleActions: RuleActionData = {};
+
+    if (input.categoryId) {
+      await this.verifyCategory(input.categoryId, userId);
+      transactionData.categoryId = input.categoryId;
+      transactionData.categoryConfidence = 100; // User-assigned categories have 100% confidence
+    } else {
+      try {
+        const categorization = await categorizationService.categorizeTransaction(userId, {
+          merchantName: transactionData.merchantName,
+          description: transactionData.description,
+          merchant: merchant || undefined,
+          amount: transactionData.amount,
+          accountId: transactionData.accountId,
+          date: transactionData.date,
+        });
+        transactionData.categoryId = categorization.categoryId;
+        transactionData.categoryConfidence = categorization.confidence;
+        ruleActions = await this.ruleActionData(userId, categorization);
+      } catch (error: any) {
+        console.error(`Error categorizing transaction: ${error.message}`);
+      }
+    }
+
+    const created = await prisma.transaction.create({
+      data: {
+        userId,
+        accountId: transactionData.accountId,
+        amount: transactionData.amount,
+        date: transactionData.date,
+        merchantName: transactionData.merchantName,
+        merchantId: transactionData.merchantId,
+        description: transactionData.description,
+        categoryId: transactionData.categoryId,
+        categoryConfidence: transactionData.categoryConfidence || 0,
+        isPending: false,
+        isManual: true,
+        locationCity: transactionData.location?.city,
+        locationRegion: transactionData.location?.region,
+        locationCountry: transactionData.location?.country,
+        ...ruleActions,
+      },
+    });
+
+    await accountService.applyTransactionToBalance(created.accountId, transactionData.amount);
+    await reportingService.invalidateUserCache(userId);
+
+    webhookService.emit(userId, 'transaction.created', TransactionModel.toResponse(created));
+    this.scheduleFraudDetection(created);
+    this.scheduleBudgetAlerts(userId);
+
+    return TransactionModel.toResponse(created);
+  }
+
+  /**
+   * Update a transaction on a manual account
+   */
+  async updateManualTransaction(
+    transactionId: string,
+    userId: string,
+    input: Partial<ManualTransactionInput>
+  ): Promise<TransactionResponse> {
+    this.checkManualInputTypes(input);
+    const existing = await this.findManualTransaction(transactionId, userId);
+
+    if (input.accountId !== undefined && input.accountId !== existing.accountId) {
+      await accountService.findManualAccount(input.accountId, userId);
+    }
+
+    if (input.amount !== undefined && isNaN(input.amount)) {
+      throw new Error('Validation failed: Amount is required');
+    }
+
+    if (input.date !== undefined && isNaN(input.date.getTime())) {
+      throw new Error('Validation failed: Date is required');
+    }
+
+    if (input.description !== undefined && input.description.trim().length === 0) {
+      throw new Error('Validation failed: Description is required');
+    }
+
+    if (input.categoryId) {
+      await this.verifyCategory(input.categoryId, userId);
+    }
+
+    // A new name can mean a different merchant
+    const merchant =
+      input.merchantName !== undefined || input.description !== undefined
+        ? await merchantService.resolveMerchant(
+            userId,
+            input.merchantName !== undefined ? input.merchantName.trim() : existing.merchantName,
+            input.description !== undefined ? input.description.trim() : existing.description
+          )
+        : undefined;
+
+    const updated = await prisma.transaction.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.accountId !== undefined && { accountId: input.accountId }),
+        ...(input.amount !== undefined && { amount: input.amount }),
+        ...(input.date !== undefined && { date: input.date }),
+        ...(input.merchantName !== undefined && { merchantName: input.merchantName.trim() || null }),
+        ...(input.description !== undefined && { description: input.description.trim() }),
+        ...(merchant !== undefined && { merchantId: merchant?.id || null }),
+        ...(input.categoryId && { categoryId: input.categoryId, categoryConfidence: 100 }),
+        ...(input.location !== undefined && {
+          locationCity: input.location?.city || null,
+          locationRegion: input.location?.region || null,
+          locationCountry: input.location?.country || null,
+        }),
+      },
+    });
+
+    // Move the amount between balances if the account or amount changed
+    const oldAmount = Number(existing.amount);
+    const newAmount = Number(updated.amount);
+
+    // Splits no longer add up once the amount changes
+    if (oldAmount !== newAmount) {
+      await prisma.transactionSplit.deleteMany({ where: { transactionId: existing.id } });
+    }
+
+    // A transfer pair needs equal amounts in two different accounts
+    if (oldAmount !== newAmount || existing.accountId !== updated.accountId) {
+      await transferService.releaseTransfers([existing.id]);
+    }
+
+    if (!existing.importSource && (existing.accountId !== updated.accountId || oldAmount !== newAmount)) {
+      await accountService.applyTransactionToBalance(existing.accountId, -oldAmount);
+      await accountService.applyTransactionToBalance(updated.accountId, newAmount);
+    }
+
+    await reportingService.invalidateUserCache(userId);
+    this.scheduleFraudDetection(updated);
+
+    return TransactionModel.toResponse(updated);
+  }
+
+  /**
+   * Delete a transaction on a manual account (tombstoned like Plaid removals)
+   */
+  async deleteManualTransaction(transactionId: string, userId: string): Promise<void> {
+    const existing = await this.findManualTransaction(transactionId, userId);
+
+    await prisma.transaction.update({
+      where: { id: existing.id },
+      data: { deletedAt: new Date() },
+    });
+
+    await prisma.fraudAlert.deleteMany({
+      where: { transactionId: existing.id, isReviewed: false },
+    });
+
+    await transferService.releaseTransfers([existing.id]);
+
+    // Statement imports never touched the balance
+    if (!existing.importSource) {
+      await accountService.applyTransactionToBalance(existing.accountId, -Number(existing.amount));
+    }
+
+    await reportingService.invalidateUserCache(userId);
+  }
+
+  /**
+   * Find a manual transaction owned by the user
+   */
+  private async findManualTransaction(transactionId: string, userId: string): Promise<PrismaTransaction> {
+    const transaction = await prisma.transaction.findFirst({
+      where: {
+        id: transactionId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (!transaction.isManual) {
+      throw new Error('Only manual transactions can be edited');
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Check the types of the manual transaction fields that are set, so bad
+   * input fails validation rather than breaking the code that reads it
+   */
+  private checkManualInputTypes(input: Partial<ManualTransactionInput>): void {
+    const errors: string[] = [];
+
+    for (const [field, label] of [
+      ['accountId', 'Account ID'],
+      ['merchantName', 'Merchant name'],
+      ['description', 'Description'],
+      ['categoryId', 'Category ID'],
+    ] as const) {
+      if (input[field] !== undefined && typeof input[field] !== 'string') {
+        errors.push(`${label} must be a string`);
+      }
+    }
+
+    // null clears the location
+    const location: unknown = input.location;
+    if (location !== undefined && location !== null) {
+      if (typeof location !== 'object' || Array.isArray(location)) {
+        errors.push('Location must be an object');
+      } else {
+        for (const key of ['city', 'region', 'country'] as const) {
+          const value = (location as Record<string, unknown>)[key];
+          if (value !== undefined && value !== null && typeof value !== 'string') {
+            errors.push(`Location ${key} must be a string`);
+          }
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    }
+  }
+
+  /**
+   * Verify a category exists and is available to the user
+   */
+  private async verifyCategory(categoryId: string, userId: string): Promise<void> {
+    const category = await prisma.category.findFirst({
+      where: {
+        id: categoryId,
+        OR: [{ userId }, { isSystem: true }],
+      },
+    });
+
+    if (!category) {
+      throw new Error('Category not found');
+    }
+  }
 }
 
 export default new TransactionService();
@@ -0,0 +1,299 @@
+import { Transaction as PrismaTransaction } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import { TransactionModel } from '../models/Transaction';
+import { TransferPairModel, TransferPairResponse, TransferPairStatus } from '../models/TransferPair';
+import reportingService from './reportingService';
+
+const prisma = getPrismaClient();
+
+// Transfers can take a few business days to land in the receiving account
+const MATCH_WINDOW_DAYS = 3;
+
+export class TransferService {
+  /**
+   * Pair newly imported transactions with their mirror image in another of the
+   * user's accounts: equal amount, opposite sign, dated within a few days.
+   * Both sides are marked as transfers straight away so budgets, reports and
+   * fraud checks skip them; the user can confirm or unlink the suggestion later.
+   * Returns the IDs of every transaction that ended up in a new pair.
+   */
+  async detectTransfers(userId: string, transactionIds: string[]): Promise<Set<string>> {
+    const paired = new Set<string>();
+
+    if (transactionIds.length === 0) {
+      return paired;
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        id: { in: transactionIds },
+        userId,
+        isPending: false,
+        isTransfer: false,
+        deletedAt: null,
+        amount: { not: 0 },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    for (const transaction of transactions) {
+      if (paired.has(transaction.id)) continue;
+
+      try {
+        const counterpart = await this.findCounterpart(transaction, paired);
+        if (!counterpart) continue;
+
+        const [outflow, inflow] =
+          Number(transaction.amount) > 0 ? [transaction, counterpart] : [counterpart, transaction];
+
+        await this.linkPair(userId, outflow.id, inflow.id);
+        paired.add(outflow.id);
+        paired.add(inflow.id);
+      } catch (error: any) {
+        console.error(`Error matching transfer for transaction ${transaction.id}:`, error.message);
+      }
+    }
+
+    if (paired.size > 0) {
+      await reportingService.invalidateUserCache(userId);
+    }
+
+    return paired;
+  }
+
+  /**
+   * Get transfer pairs for a user, newest first
+   */
+  async getTransfers(userId: string, status?: TransferPairStatus): Promise<TransferPairResponse[]> {
+    const pairs = await prisma.transferPair.findMany({
+      where: {
+        userId,
+        ...(status ? { status } : { status: { not: 'unlinked' } }),
+      },
+      include: {
+        outflowTransaction: true,
+        inflowTransaction: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return pairs.map((pair) =>
+      TransferPairModel.toResponse(
+        pair,
+        TransactionModel.toResponse(pair.outflowTransaction),
+        TransactionModel.toResponse(pair.inflowTransaction)
+      )
+    );
+  }
+
+  /**
+   * Confirm a suggested pair. Confirming a pair that was unlinked links it again,
+   * provided neither side has since been matched elsewhere.
+   */
+  async confirmTransfer(pairId: string, userId: string): Promise<TransferPairResponse> {
+    const pair = await this.findPair(pairId, userId);
+
+    if (pair.status === 'unlinked') {
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          id: { in: [pair.outflowTransactionId, pair.inflowTransactionId] },
+          isTransfer: false,
+          deletedAt: null,
+        },
+      });
+      const outflow = transactions.find((tx) => tx.id === pair.outflowTransactionId);
+      const inflow = transactions.find((tx) => tx.id === pair.inflowTransactionId);
+
+      if (!outflow || !inflow || !TransferPairModel.isMirrorAmount(Number(outflow.amount), Number(inflow.amount))) {
+        throw new Error('Transfer can no longer be linked');
+      }
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.transaction.updateMany({
+        where: { id: { in: [pair.outflowTransactionId, pair.inflowTransactionId] } },
+        data: { isTransfer: true },
+      }),
+      prisma.transferPair.update({
+        where: { id: pair.id },
+        data: { status: 'confirmed', reviewedAt: new Date() },
+        include: { outflowTransaction: true, inflowTransaction: true },
+      }),
+    ]);
+
+    if (pair.status === 'unlinked') {
+      await reportingService.invalidateUserCache(userId);
+    }
+
+    return TransferPairModel.toResponse(
+      updated,
+      TransactionModel.toResponse(updated.outflowTransaction),
+      TransactionModel.toResponse(updated.inflowTransaction)
+    );
+  }
+
+  /**
+   * Unlink a pair. Both transactions count as ordinary spending and income again,
+   * and the pair is remembered so the matcher does not suggest it a second time.
+   */
+  async unlinkTransfer(pairId: string, userId: string): Promise<TransferPairResponse> {
+    const pair = await this.findPair(pairId, userId);
+
+    if (pair.status === 'unlinked') {
+      throw new Error('Transfer is already unlinked');
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.transaction.updateMany({
+        where: { id: { in: [pair.outflowTransactionId, pair.inflowTransactionId] } },
+        data: { isTransfer: false },
+      }),
+      prisma.transferPair.update({
+        where: { id: pair.id },
+        data: { status: 'unlinked', reviewedAt: new Date() },
+        include: { outflowTransaction: true, inflowTransaction: true },
+      }),
+    ]);
+
+    await reportingService.invalidateUserCache(userId);
+
+    return TransferPairModel.toResponse(
+      updated,
+      TransactionModel.toResponse(updated.outflowTransaction),
+      TransactionModel.toResponse(updated.inflowTransaction)
+    );
+  }
+
+  /**
+   * Break the active pairs of transactions that were removed or whose amount
+   * changed. The other side of each pair goes back to being a normal transaction.
+   */
+  async releaseTransfers(transactionIds: string[]): Promise<void> {
+    if (transactionIds.length === 0) return;
+
+    const pairs = await prisma.transferPair.findMany({
+      where: {
+        status: { not: 'unlinked' },
+        OR: [
+          { outflowTransactionId: { in: transactionIds } },
+          { inflowTransactionId: { in: transactionIds } },
+        ],
+      },
+    });
+
+    if (pairs.length === 0) return;
+
+    const affectedIds = pairs.flatMap((pair) => [pair.outflowTransactionId, pair.inflowTransactionId]);
+
+    await prisma.$transaction([
+      prisma.transferPair.deleteMany({
+        where: { id: { in: pairs.map((pair) => pair.id) } },
+      }),
+      prisma.transaction.updateMany({
+        where: { id: { in: affectedIds } },
+        data: { isTransfer: false },
+      }),
+    ]);
+
+    for (const userId of new Set(pairs.map((pair) => pair.userId))) {
+      await reportingService.invalidateUserCache(userId);
+    }
+  }
+
+  /**
+   * Find the closest-dated mirror transaction in another account. Pairs the user
+   * has unlinked before are never suggested again.
+   */
+  private async findCounterpart(
+    transaction: PrismaTransaction,
+    exclude: Set<string>
+  ): Promise<PrismaTransaction | null> {
+    const windowMs = MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const date = transaction.date.getTime();
+
+    const unlinked = await prisma.transferPair.findMany({
+      where: {
+        status: 'unlinked',
+        OR: [{ outflowTransactionId: transaction.id }, { inflowTransactionId: transaction.id }],
+      },
+    });
+    const rejectedIds = new Set(
+      unlinked.map((pair) =>
+        pair.outflowTransactionId === transaction.id ? pair.inflowTransactionId : pair.outflowTransactionId
+      )
+    );
+
+    const candidates = await prisma.transaction.findMany({
+      where: {
+        userId: transaction.userId,
+        accountId: { not: transaction.accountId },
+        amount: transaction.amount.negated(),
+        date: {
+          gte: new Date(date - windowMs),
+          lte: new Date(date + windowMs),
+        },
+        isPending: false,
+        isTransfer: false,
+        deletedAt: null,
+      },
+    });
+
+    const eligible = candidates
+      .filter((candidate) => !exclude.has(candidate.id) && !rejectedIds.has(candidate.id))
+      .sort(
+        (a, b) => Math.abs(a.date.getTime() - date) - Math.abs(b.date.getTime() - date)
+      );
+
+    return eligible[0] || null;
+  }
+
+  /**
+   * Create a suggested pair and flag both transactions. Fraud alerts the user has
+   * not looked at yet are dropped, since they were raised before the match.
+   */
+  private async linkPair(userId: string, outflowId: string, inflowId: string): Promise<void> {
+    const ids = [outflowId, inflowId];
+
+    await prisma.$transaction(async (tx) => {
+      // Another sync may have claimed one of the transactions in the meantime
+      const flagged = await tx.transaction.updateMany({
+        where: { id: { in: ids }, isTransfer: false },
+        data: { isTransfer: true },
+      });
+
+      if (flagged.count !== ids.length) {
+        throw new Error('Transaction is already part of a transfer');
+      }
+
+      await tx.transferPair.create({
+        data: { userId, outflowTransactionId: outflowId, inflowTransactionId: inflowId },
+      });
+
+      await tx.fraudAlert.deleteMany({
+        where: { transactionId: { in: ids }, isReviewed: false },
+      });
+
+      await tx.transaction.updateMany({
+        where: { id: { in: ids }, fraudAlerts: { none: {} } },
+        data: { isFraudulent: false },
+      });
+    });
+  }
+
+  /**
+   * Find a transfer pair owned by the user
+   */
+  private async findPair(pairId: string, userId: string) {
+    const pair = await prisma.transferPair.findFirst({
+      where: { id: pairId, userId },
+    });
+
+    if (!pair) {
+      throw new Error('Transfer not found');
+    }
+
+    return pair;
+  }
+}
+
+export default new TransferService();
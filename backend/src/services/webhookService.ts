@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import { WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import getPrismaClient from '../config/database';
+import { decrypt, encrypt } from '../utils/encryption';
+import { assertPublicUrl } from '../utils/urlGuard';
+import {
+  CreateWebhookSubscriptionInput,
+  UpdateWebhookSubscriptionInput,
+  WEBHOOK_TEST_EVENT,
+  WebhookDeliveryResponse,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscriptionModel,
+  WebhookSubscriptionResponse,
+} from '../models/WebhookSubscription';
+
+const prisma = getPrismaClient();
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute, doubled after each failure (~2 hours in total)
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const QUEUE_BATCH_SIZE = 200;
+const CLAIM_DURATION_MS = 5 * 60 * 1000; // A claimed delivery is due again after this, in case its sender died
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+/**
+ * HMAC-SHA256 signature of `${timestamp}.${payload}`, sent as
+ * `X-Webhook-Signature: sha256=<hex>` so receivers can verify both the body and
+ * when it was signed
+ */
+export function signWebhookPayload(secret: string, timestamp: number, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+export class WebhookService {
+  /**
+   * Create a subscription. The signing secret is only returned here and when rotated.
+   */
+  async createSubscription(
+    userId: string,
+    input: CreateWebhookSubscriptionInput
+  ): Promise<WebhookSubscriptionResponse> {
+    if (!input.url || !input.events) {
+      throw new Error('Validation failed: URL and events are required');
+    }
+
+    const validation = WebhookSubscriptionModel.validateInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    await assertPublicUrl(input.url);
+
+    const count = await prisma.webhookSubscription.count({ where: { userId } });
+    if (count >= MAX_SUBSCRIPTIONS_PER_USER) {
+      throw new Error(`Validation failed: A maximum of ${MAX_SUBSCRIPTIONS_PER_USER} webhooks is allowed`);
+    }
+
+    const secret = this.generateSecret();
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        userId,
+        url: input.url,
+        secret: encrypt(secret),
+        events: Array.from(new Set(input.events)),
+        description: input.description?.trim() || null,
+      },
+    });
+
+    return WebhookSubscriptionModel.toResponse(subscription, secret);
+  }
+
+  /**
+   * Get all subscriptions for a user
+   */
+  async getSubscriptions(userId: string): Promise<WebhookSubscriptionResponse[]> {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return subscriptions.map(subscription => WebhookSubscriptionModel.toResponse(subscription));
+  }
+
+  /**
+   * Update a subscription's URL, events, description or active state
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    userId: string,
+    input: UpdateWebhookSubscriptionInput
+  ): Promise<WebhookSubscriptionResponse> {
+    await this.findSubscription(subscriptionId, userId);
+
+    const validation = WebhookSubscriptionModel.validateInput(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    if (input.url !== undefined) {
+      await assertPublicUrl(input.url);
+    }
+
+    const updated = await prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: {
+        url: input.url,
+        events: input.events ? Array.from(new Set(input.events)) : undefined,
+        description: input.description !== undefined ? input.description?.trim() || null : undefined,
+        isActive: input.isActive,
+      },
+    });
+
+    return WebhookSubscriptionModel.toResponse(updated);
+  }
+
+  /**
+   * Delete a subscription and its delivery log
+   */
+  async deleteSubscription(subscriptionId: string, userId: string): Promise<void> {
+    await this.findSubscription(subscriptionId, userId);
+    await prisma.webhookSubscription.delete({ where: { id: subscriptionId } });
+  }
+
+  /**
+   * Replace a subscription's signing secret
+   */
+  async rotateSecret(subscriptionId: string, userId: string): Promise<WebhookSubscriptionResponse> {
+    await this.findSubscription(subscriptionId, userId);
+
+    const secret = this.generateSecret();
+    const updated = await prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: { secret: encrypt(secret) },
+    });
+
+    return WebhookSubscriptionModel.toResponse(updated, secret);
+  }
+
+  /**
+   * Send a `webhook.test` event right away and return the logged delivery.
+   * Works for inactive subscriptions too, so an endpoint can be checked before
+   * it is switched on.
+   */
+  async sendTestEvent(subscriptionId: string, userId: string): Promise<WebhookDeliveryResponse> {
+    const subscription = await this.findSubscription(subscriptionId, userId);
+
+    const delivery = await this.createDelivery(subscription, WEBHOOK_TEST_EVENT, {
+      message: 'This is a test event from Budget App',
+    });
+    const result = await this.attempt(delivery, subscription);
+
+    return WebhookSubscriptionModel.toDeliveryResponse(result);
+  }
+
+  /**
+   * Get the delivery log for a subscription, newest first
+   */
+  async getDeliveries(
+    subscriptionId: string,
+    userId: string,
+    status?: WebhookDeliveryStatus,
+    limit: number = 50
+  ): Promise<WebhookDeliveryResponse[]> {
+    await this.findSubscription(subscriptionId, userId);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId,
+        ...(status && { status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return deliveries.map(delivery => WebhookSubscriptionModel.toDeliveryResponse(delivery));
+  }
+
+  /**
+   * Send an event to every active subscription that wants it. Runs after the
+   * caller's work finishes and never throws; failed sends are retried by
+   * processQueue.
+   */
+  emit(userId: string, eventType: WebhookEventType, data: unknown): void {
+    setImmediate(async () => {
+      try {
+        const subscriptions = await prisma.webhookSubscription.findMany({
+          where: { userId, isActive: true, events: { has: eventType } },
+        });
+
+        for (const subscription of subscriptions) {
+          const delivery = await this.createDelivery(subscription, eventType, data);
+          await this.attempt(delivery, subscription);
+        }
+      } catch (error: any) {
+        console.error(`Error emitting webhook event ${eventType} for user ${userId}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed
+   */
+  async processQueue(): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() },
+      },
+      include: { subscription: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: QUEUE_BATCH_SIZE,
+    });
+
+    let succeeded = 0;
+    for (const { subscription, ...delivery } of due) {
+      if (!subscription.isActive) {
+        await prisma.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: { status: 'failed', nextAttemptAt: null, lastError: 'Subscription is inactive' },
+        });
+        continue;
+      }
+
+      // Another run has already picked it up
+      if (!(await this.claim(delivery))) {
+        continue;
+      }
+
+      const result = await this.attempt(delivery, subscription);
+      if (result.status === 'succeeded') {
+        succeeded++;
+      }
+    }
+
+    return succeeded;
+  }
+
+  /**
+   * Push a due delivery's next attempt back so other queue runs skip it while
+   * this one sends it. Fails if another run changed it since it was read.
+   */
+  private async claim(delivery: WebhookDelivery): Promise<boolean> {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + CLAIM_DURATION_MS) },
+    });
+
+    return count === 1;
+  }
+
+  private async findSubscription(subscriptionId: string, userId: string): Promise<WebhookSubscription> {
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id: subscriptionId, userId },
+    });
+
+    if (!subscription) {
+      throw new Error('Webhook subscription not found');
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Log a delivery for its first, inline attempt. It has no nextAttemptAt until
+   * that attempt fails, so processQueue cannot send it at the same time.
+   */
+  private async createDelivery(
+    subscription: WebhookSubscription,
+    eventType: string,
+    data: unknown
+  ): Promise<WebhookDelivery> {
+    const eventId = crypto.randomUUID();
+    const payload = JSON.stringify({
+      id: eventId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data,
+    });
+
+    return prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: subscription.id,
+        eventId,
+        eventType,
+        payload,
+        nextAttemptAt: null,
+      },
+    });
+  }
+
+  /**
+   * POST a delivery's payload and record the outcome. Anything but a 2xx is
+   * retried with exponential backoff until MAX_ATTEMPTS. The host is checked
+   * again before each send, since its DNS may have changed, and redirects are
+   * not followed.
+   */
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+
+    try {
+      await assertPublicUrl(subscription.url);
+
+      const signature = signWebhookPayload(decrypt(subscription.secret), timestamp, delivery.payload);
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'BudgetApp-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signature}`,
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with ${response.status}`);
+      }
+
+      return await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'succeeded',
+          attempts,
+          responseStatus,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: new Date(),
+        },
+      });
+    } catch (error: any) {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      console.error(
+        `Webhook delivery ${delivery.id} to ${subscription.url} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`,
+        error.message
+      );
+
+      return prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          responseStatus,
+          lastError: String(error.message).slice(0, 500),
+          nextAttemptAt: exhausted
+            ? null
+            : new Date(Date.now() + BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1)),
+        },
+      });
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+}
+
+export default new WebhookService();
@@ -0,0 +1,78 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local (incl. cloud metadata at 169.254.169.254),
+// carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+blockedAddresses.addSubnet('224.0.0.0', 3, 'ipv4');
+blockedAddresses.addAddress('::', 'ipv6');
+blockedAddresses.addAddress('::1', 'ipv6');
+blockedAddresses.addSubnet('64:ff9b::', 96, 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6');
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6');
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  if (family === 6) {
+    // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPublicAddress(mapped[1]);
+    return !blockedAddresses.check(address, 'ipv6');
+  }
+
+  return !blockedAddresses.check(address, 'ipv4');
+}
+
+/**
+ * Check that a URL we are about to call on a user's behalf is https (plain
+ * HTTP only outside production) and that every address its host resolves to
+ * is public, so it cannot reach internal services. Throws a
+ * 'Validation failed' error otherwise.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Validation failed: URL is invalid');
+  }
+
+  const allowHttp = process.env.NODE_ENV !== 'production';
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && allowHttp)) {
+    throw new Error('Validation failed: URL must be a valid https URL');
+  }
+
+  // Bracketed IPv6 literals come back as "[::1]"
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      const results = await dns.promises.lookup(host, { all: true, verbatim: true });
+      addresses = results.map(result => result.address);
+    } catch {
+      throw new Error('Validation failed: URL host could not be resolved');
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error('Validation failed: URL must point to a public host');
+  }
+}
@@ -10,7 +10,11 @@ import { DashboardPage } from './pages/DashboardPage';
 import { AccountsPage } from './pages/AccountsPage';
 import { TransactionsPage } from './pages/TransactionsPage';
 import { BudgetsPage } from './pages/BudgetsPage';
+import { PlanningPage } from './pages/PlanningPage';
 import { ReportsPage } from './pages/ReportsPage';
+import { RecurringPage } from './pages/RecurringPage';
+import { MerchantsPage } from './pages/MerchantsPage';
+import { RulesPage } from './pages/RulesPage';
 
 function App() {
   return (
@@ -31,6 +35,10 @@ function App() {
               <Route path="/accounts" element={<AccountsPage />} />
               <Route path="/transactions" element={<TransactionsPage />} />
               <Route path="/budgets" element={<BudgetsPage />} />
+              <Route path="/planning" element={<PlanningPage />} />
+              <Route path="/recurring" element={<RecurringPage />} />
+              <Route path="/merchants" element={<MerchantsPage />} />
+              <Route path="/rules" element={<RulesPage />} />
               <Route path="/reports" element={<ReportsPage />} />
             </Route>
             <Route path="*" element={<Navigate to="/" replace />} />
@@ -7,16 +7,18 @@ interface Account {
   availableBalance: number;
   lastSyncedAt: string;
   isActive: boolean;
+  isManual: boolean;
 }
 
 interface AccountCardProps {
   account: Account;
   onDisconnect: (accountId: string) => void;
   onSync: (accountId: string) => void;
+  onEdit?: (account: Account) => void;
   isSyncing?: boolean;
 }
 
-export function AccountCard({ account, onDisconnect, onSync, isSyncing }: AccountCardProps) {
+export function AccountCard({ account, onDisconnect, onSync, onEdit, isSyncing }: AccountCardProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -39,7 +41,14 @@ export function AccountCard({ account, onDisconnect, onSync, isSyncing }: Accoun
     <div className="bg-white rounded-lg shadow p-6">
       <div className="flex justify-between items-start mb-4">
         <div>
-          <h3 className="text-lg font-semibold text-gray-900">{account.accountName}</h3>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {account.accountName}
+            {account.isManual && (
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded-full align-middle">
+                Manual
+              </span>
+            )}
+          </h3>
           <p className="text-sm text-gray-500 capitalize">
             {account.accountType} - {account.accountSubtype}
           </p>
@@ -48,7 +57,7 @@ export function AccountCard({ account, onDisconnect, onSync, isSyncing }: Accoun
           onClick={() => onDisconnect(account.id)}
           className="text-sm text-red-600 hover:text-red-800"
         >
-          Disconnect
+          {account.isManual ? 'Delete' : 'Disconnect'}
         </button>
       </div>
       
@@ -59,25 +68,38 @@ export function AccountCard({ account, onDisconnect, onSync, isSyncing }: Accoun
             {formatCurrency(account.currentBalance)}
           </span>
         </div>
-        <div className="flex justify-between">
-          <span className="text-sm text-gray-600">Available Balance:</span>
-          <span className="text-sm font-medium text-gray-900">
-            {formatCurrency(account.availableBalance)}
-          </span>
-        </div>
+        {!account.isManual && (
+          <div className="flex justify-between">
+            <span className="text-sm text-gray-600">Available Balance:</span>
+            <span className="text-sm font-medium text-gray-900">
+              {formatCurrency(account.availableBalance)}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between pt-2 border-t">
-          <span className="text-xs text-gray-500">Last synced:</span>
+          <span className="text-xs text-gray-500">
+            {account.isManual ? 'Last updated:' : 'Last synced:'}
+          </span>
           <span className="text-xs text-gray-500">{formatDate(account.lastSyncedAt)}</span>
         </div>
       </div>
 
-      <button
-        onClick={() => onSync(account.id)}
-        disabled={isSyncing}
-        className="mt-4 w-full px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {isSyncing ? 'Syncing...' : 'Sync Transactions'}
-      </button>
+      {account.isManual ? (
+        <button
+          onClick={() => onEdit?.(account)}
+          className="mt-4 w-full px-4 py-2 text-sm font-medium text-gray-700 bg-gray-50 rounded-md hover:bg-gray-100"
+        >
+          Edit Account
+        </button>
+      ) : (
+        <button
+          onClick={() => onSync(account.id)}
+          disabled={isSyncing}
+          className="mt-4 w-full px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSyncing ? 'Syncing...' : 'Sync Transactions'}
+        </button>
+      )}
     </div>
   );
 }
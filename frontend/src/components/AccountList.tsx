@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { AccountCard } from './AccountCard';
 import { AccountLinkButton } from './AccountLinkButton';
+import { ManualAccountForm } from './ManualAccountForm';
 import { useState } from 'react';
 
 interface Account {
@@ -12,18 +13,21 @@ interface Account {
   availableBalance: number;
   lastSyncedAt: string;
   isActive: boolean;
+  isManual: boolean;
 }
 
 export function AccountList() {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [syncingAccountId, setSyncingAccountId] = useState<string | null>(null);
+  const [showManualForm, setShowManualForm] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | undefined>();
   const queryClient = useQueryClient();
 
   const { data: accounts, isLoading } = useQuery<Account[]>({
     queryKey: ['accounts'],
     queryFn: async () => {
-      const response = await fetch('/api/plaid/accounts', {
+      const response = await fetch('/api/accounts', {
         credentials: 'include',
       });
       if (!response.ok) {
@@ -35,19 +39,26 @@ export function AccountList() {
   });
 
   const disconnectMutation = useMutation({
-    mutationFn: async (accountId: string) => {
-      const response = await fetch(`/api/plaid/accounts/${accountId}`, {
+    mutationFn: async (account: Account) => {
+      // Manual accounts have no Plaid item to revoke
+      const url = account.isManual
+        ? `/api/accounts/${account.id}`
+        : `/api/plaid/accounts/${account.id}`;
+      const response = await fetch(url, {
         method: 'DELETE',
         credentials: 'include',
       });
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to disconnect account');
+        throw new Error(error.error || error.message || 'Failed to disconnect account');
       }
+      return account;
     },
-    onSuccess: () => {
+    onSuccess: (account) => {
       queryClient.invalidateQueries({ queryKey: ['accounts'] });
-      setSuccess('Account disconnected successfully');
+      setSuccess(
+        account.isManual ? 'Account deleted successfully' : 'Account disconnected successfully'
+      );
       setTimeout(() => setSuccess(''), 3000);
     },
     onError: (err: any) => {
@@ -96,6 +107,16 @@ export function AccountList() {
     },
   });
 
+  const handleEdit = (account: Account) => {
+    setEditingAccount(account);
+    setShowManualForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowManualForm(false);
+    setEditingAccount(undefined);
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center py-12">
@@ -108,7 +129,15 @@ export function AccountList() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Connected Accounts</h2>
-        <AccountLinkButton onSuccess={handleLinkSuccess} onError={handleLinkError} />
+        <div className="flex gap-3">
+          <button
+            onClick={() => setShowManualForm(true)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Add Manual Account
+          </button>
+          <AccountLinkButton onSuccess={handleLinkSuccess} onError={handleLinkError} />
+        </div>
       </div>
 
       {error && (
@@ -127,7 +156,8 @@ export function AccountList() {
         <div className="text-center py-12 bg-gray-50 rounded-lg">
           <p className="text-gray-500 mb-4">No accounts connected yet</p>
           <p className="text-sm text-gray-400">
-            Click "Link Account" to connect your bank or credit card
+            Click "Link Account" to connect your bank or credit card, or add a manual
+            account for cash and unsupported institutions
           </p>
         </div>
       ) : (
@@ -136,13 +166,18 @@ export function AccountList() {
             <AccountCard
               key={account.id}
               account={account}
-              onDisconnect={(id) => disconnectMutation.mutate(id)}
+              onDisconnect={() => disconnectMutation.mutate(account)}
               onSync={(id) => syncMutation.mutate(id)}
+              onEdit={handleEdit}
               isSyncing={syncingAccountId === account.id}
             />
           ))}
         </div>
       )}
+
+      {showManualForm && (
+        <ManualAccountForm account={editingAccount} onClose={handleCloseForm} />
+      )}
     </div>
   );
 }
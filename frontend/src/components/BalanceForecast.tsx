@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+interface AccountForecast {
+  accountId: string;
+  accountName: string;
+  accountType: string;
+  currentBalance: number;
+  horizons: { days: number; date: string; balance: number }[];
+  lowestBalance: number;
+  lowestBalanceDate: string;
+}
+
+interface LowBalanceWarning {
+  accountId: string;
+  accountName: string;
+  date: string;
+  projectedBalance: number;
+  floor: number;
+  merchantName?: string;
+}
+
+interface Forecast {
+  floor: number;
+  accounts: AccountForecast[];
+  warnings: LowBalanceWarning[];
+}
+
+export function BalanceForecast() {
+  const [floor, setFloor] = useState('');
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<Forecast>({
+    queryKey: ['forecast-report'],
+    queryFn: async () => {
+      const response = await fetch('/api/reports/forecast', {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch forecast');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setFloor(data.floor.toString());
+    }
+  }, [data]);
+
+  const floorMutation = useMutation({
+    mutationFn: async (value: number) => {
+      const response = await fetch('/api/reports/forecast/floor', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ floor: value }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update floor');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['forecast-report'] });
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to update floor');
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(value);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
+  const saveFloor = () => {
+    const value = parseFloat(floor);
+    if (isNaN(value)) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    floorMutation.mutate(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="text-gray-500">Loading forecast...</div>
+      </div>
+    );
+  }
+
+  const accounts = data?.accounts || [];
+  const horizons = accounts[0]?.horizons || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Balance Forecast</h2>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Keep checking above</label>
+          <div className="relative w-32">
+            <span className="absolute left-3 top-2 text-gray-500">$</span>
+            <input
+              type="number"
+              step="0.01"
+              value={floor}
+              onChange={(e) => setFloor(e.target.value)}
+              className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            onClick={saveFloor}
+            disabled={floorMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {data?.warnings.map((warning) => (
+        <div key={warning.accountId} className="rounded-md bg-yellow-50 p-4 mb-4">
+          <p className="text-sm text-yellow-800">
+            {warning.accountName} is projected to drop to {formatCurrency(warning.projectedBalance)} on{' '}
+            {formatDate(warning.date)}
+            {warning.merchantName && ` after ${warning.merchantName}`}, below your floor of{' '}
+            {formatCurrency(warning.floor)}.
+          </p>
+        </div>
+      ))}
+
+      {accounts.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No accounts to forecast</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Today</th>
+                {horizons.map((horizon) => (
+                  <th key={horizon.days} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    {horizon.days} Days
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Lowest</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {accounts.map((account) => (
+                <tr key={account.accountId}>
+                  <td className="px-4 py-2 text-sm text-gray-900">{account.accountName}</td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-900">
+                    {formatCurrency(account.currentBalance)}
+                  </td>
+                  {account.horizons.map((horizon) => (
+                    <td key={horizon.days} className="px-4 py-2 text-sm text-right text-gray-900">
+                      {formatCurrency(horizon.balance)}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-sm text-right text-gray-500">
+                    {formatCurrency(account.lowestBalance)} ({formatDate(account.lowestBalanceDate)})
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-4 text-xs text-gray-500">
+            Based on your current balances and detected recurring bills and deposits
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { BudgetHistory } from './BudgetHistory';
 
 interface Budget {
   id: string;
@@ -6,12 +8,21 @@ interface Budget {
   categoryName?: string;
   amount: number;
   period: 'monthly' | 'quarterly' | 'annual';
+  isRecurring?: boolean;
   startDate: string;
-  endDate: string;
+  endDate?: string;
+  currentPeriod?: { startDate: string; endDate: string; amount: number };
   alertThreshold: number;
   isActive: boolean;
+  rollover?: boolean;
+  rolloverCap?: number;
   spent?: number;
   percentageUsed?: number;
+  rolloverAmount?: number;
+  availableAmount?: number;
+  periodStartDate?: string;
+  periodEndDate?: string;
+  breakdown?: Array<{ categoryId: string; categoryName: string; spending: number }>;
 }
 
 interface BudgetDashboardProps {
@@ -20,6 +31,8 @@ interface BudgetDashboardProps {
 }
 
 export function BudgetDashboard({ onCreateBudget, onEditBudget }: BudgetDashboardProps) {
+  const [historyBudget, setHistoryBudget] = useState<Budget | null>(null);
+
   const { data: budgets, isLoading } = useQuery<Budget[]>({
     queryKey: ['budgets'],
     queryFn: async () => {
@@ -43,8 +56,13 @@ export function BudgetDashboard({ onCreateBudget, onEditBudget }: BudgetDashboar
               const progress = await progressResponse.json();
               return {
                 ...budget,
-                spent: progress.spent,
+                spent: progress.currentSpending,
                 percentageUsed: progress.percentageUsed,
+                rolloverAmount: progress.rolloverAmount,
+                availableAmount: progress.availableAmount,
+                periodStartDate: progress.periodStartDate,
+                periodEndDate: progress.periodEndDate,
+                breakdown: progress.breakdown,
               };
             }
           } catch (error) {
@@ -65,6 +83,14 @@ export function BudgetDashboard({ onCreateBudget, onEditBudget }: BudgetDashboar
     }).format(amount);
   };
 
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
   const getProgressColor = (percentage: number, threshold: number) => {
     if (percentage >= 100) return 'bg-red-500';
     if (percentage >= threshold) return 'bg-yellow-500';
@@ -133,7 +159,15 @@ export function BudgetDashboard({ onCreateBudget, onEditBudget }: BudgetDashboar
                   <h3 className="text-lg font-semibold text-gray-900">
                     {budget.categoryName || 'Unknown Category'}
                   </h3>
-                  <p className="text-sm text-gray-500 capitalize">{budget.period}</p>
+                  <p className="text-sm text-gray-500 capitalize">
+                    {budget.period}
+                    {budget.isRecurring && ' · renews automatically'}
+                  </p>
+                  {budget.periodStartDate && budget.periodEndDate && (
+                    <p className="text-xs text-gray-400">
+                      {formatDate(budget.periodStartDate)} – {formatDate(budget.periodEndDate)}
+                    </p>
+                  )}
                 </div>
                 {budget.percentageUsed !== undefined && (
                   <div>{getStatusBadge(budget.percentageUsed, budget.alertThreshold)}</div>
@@ -150,9 +184,22 @@ export function BudgetDashboard({ onCreateBudget, onEditBudget }: BudgetDashboar
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Budget:</span>
                   <span className="font-medium text-gray-900">
-                    {formatCurrency(budget.amount)}
+                    {formatCurrency(budget.currentPeriod?.amount ?? budget.amount)}
                   </span>
                 </div>
+                {budget.rollover && budget.rolloverAmount !== undefined && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Rolled over:</span>
+                    <span
+                      className={`font-medium ${
+                        budget.rolloverAmount < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}
+                    >
+                      {budget.rolloverAmount >= 0 ? '+' : ''}
+                      {formatCurrency(budget.rolloverAmount)}
+                    </span>
+                  </div>
+                )}
 
                 {budget.percentageUsed !== undefined && (
                   <>
@@ -168,16 +215,53 @@ export function BudgetDashboard({ onCreateBudget, onEditBudget }: BudgetDashboar
                     <div className="flex justify-between text-xs text-gray-500">
                       <span>{budget.percentageUsed.toFixed(1)}% used</span>
                       <span>
-                        {formatCurrency(budget.amount - (budget.spent || 0))} remaining
+                        {formatCurrency((budget.availableAmount ?? budget.amount) - (budget.spent || 0))}{' '}
+                        remaining
                       </span>
                     </div>
                   </>
                 )}
+
+                {budget.breakdown && budget.breakdown.length > 0 && (
+                  <div className="pt-3 border-t border-gray-100 space-y-1">
+                    <p className="text-xs font-medium text-gray-500 uppercase">Includes</p>
+                    {budget.breakdown.map((item) => (
+                      <div key={item.categoryId} className="flex justify-between text-xs">
+                        <span className="text-gray-600">
+                          {item.categoryId === budget.categoryId
+                            ? `${item.categoryName} (direct)`
+                            : item.categoryName}
+                        </span>
+                        <span className="text-gray-900">{formatCurrency(item.spending)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-4 text-right">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setHistoryBudget(budget);
+                  }}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  History
+                </button>
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {historyBudget && (
+        <BudgetHistory
+          budgetId={historyBudget.id}
+          categoryName={historyBudget.categoryName}
+          onClose={() => setHistoryBudget(null)}
+        />
+      )}
     </div>
   );
 }
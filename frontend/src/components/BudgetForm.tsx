@@ -6,9 +6,13 @@ interface Budget {
   categoryId: string;
   amount: number;
   period: 'monthly' | 'quarterly' | 'annual';
+  isRecurring?: boolean;
   startDate: string;
-  endDate: string;
+  endDate?: string;
+  currentPeriod?: { startDate: string; endDate: string; amount: number };
   alertThreshold: number;
+  rollover?: boolean;
+  rolloverCap?: number;
 }
 
 interface BudgetFormProps {
@@ -25,6 +29,12 @@ export function BudgetForm({ budget, onClose }: BudgetFormProps) {
   const [alertThreshold, setAlertThreshold] = useState(
     budget?.alertThreshold?.toString() || '80'
   );
+  const [rollover, setRollover] = useState(budget?.rollover || false);
+  const [rolloverCap, setRolloverCap] = useState(budget?.rolloverCap?.toString() || '');
+  // New budgets renew automatically unless turned off
+  const [isRecurring, setIsRecurring] = useState(budget ? budget.isRecurring || false : true);
+  const [applyFrom, setApplyFrom] = useState<'current' | 'next'>('current');
+  const editingRecurring = Boolean(budget?.id && budget.isRecurring);
   const [error, setError] = useState('');
   const queryClient = useQueryClient();
 
@@ -126,6 +136,12 @@ export function BudgetForm({ budget, onClose }: BudgetFormProps) {
       return;
     }
 
+    const capNum = rolloverCap === '' ? null : parseFloat(rolloverCap);
+    if (capNum !== null && (isNaN(capNum) || capNum < 0)) {
+      setError('Rollover cap must be 0 or greater');
+      return;
+    }
+
     // Calculate start and end dates based on period
     const now = new Date();
     const startDate = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -144,15 +160,29 @@ export function BudgetForm({ budget, onClose }: BudgetFormProps) {
         break;
     }
 
-    const budgetData = {
+    const budgetData: any = {
       categoryId,
       amount: amountNum,
       period,
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
       alertThreshold: thresholdNum,
+      rollover,
+      rolloverCap: rollover ? capNum : null,
     };
 
+    if (editingRecurring) {
+      // Periods are fixed once generated; only say where a new amount takes effect
+      if (amountNum !== budget?.amount && budget?.currentPeriod) {
+        budgetData.effectiveFrom =
+          applyFrom === 'next'
+            ? new Date(new Date(budget.currentPeriod.endDate).getTime() + 1).toISOString()
+            : budget.currentPeriod.startDate;
+      }
+    } else {
+      budgetData.startDate = startDate.toISOString();
+      budgetData.isRecurring = isRecurring;
+      budgetData.endDate = isRecurring ? null : endDate.toISOString();
+    }
+
     if (budget?.id) {
       updateMutation.mutate(budgetData);
     } else {
@@ -237,6 +267,7 @@ export function BudgetForm({ budget, onClose }: BudgetFormProps) {
               value={period}
               onChange={(e) => setPeriod(e.target.value as any)}
               required
+              disabled={editingRecurring}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="monthly">Monthly</option>
@@ -245,6 +276,42 @@ export function BudgetForm({ budget, onClose }: BudgetFormProps) {
             </select>
           </div>
 
+          {!budget?.id && (
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isRecurring}
+                  onChange={(e) => setIsRecurring(e.target.checked)}
+                  className="mr-2"
+                />
+                Renews automatically
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                A new budget period starts each {period === 'annual' ? 'year' : period === 'quarterly' ? 'quarter' : 'month'}
+              </p>
+            </div>
+          )}
+
+          {editingRecurring && budget?.currentPeriod && amount !== budget.amount.toString() && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Apply new amount from
+              </label>
+              <select
+                value={applyFrom}
+                onChange={(e) => setApplyFrom(e.target.value as 'current' | 'next')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="current">This period</option>
+                <option value="next">Next period</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Earlier periods keep the amount they had
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Alert Threshold (%) *
@@ -264,6 +331,38 @@ export function BudgetForm({ budget, onClose }: BudgetFormProps) {
             </p>
           </div>
 
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={rollover}
+                onChange={(e) => setRollover(e.target.checked)}
+                className="mr-2"
+              />
+              Roll over unspent or overspent amounts
+            </label>
+            <p className="mt-1 text-xs text-gray-500">
+              What's left from the previous period is added to (or taken from) this one
+            </p>
+            {rollover && (
+              <div className="relative mt-2">
+                <span className="absolute left-3 top-2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={rolloverCap}
+                  onChange={(e) => setRolloverCap(e.target.value)}
+                  placeholder="No cap"
+                  className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Maximum amount carried over either way (leave blank for no cap)
+                </p>
+              </div>
+            )}
+          </div>
+
           <div className="flex justify-between gap-3 pt-4">
             {budget?.id && (
               <button
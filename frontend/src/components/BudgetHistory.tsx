@@ -0,0 +1,133 @@
+import { useQuery } from '@tanstack/react-query';
+
+interface BudgetPeriodSummary {
+  budgetId: string;
+  periodId?: string;
+  startDate: string;
+  endDate: string;
+  amount: number;
+  carriedIn: number;
+  availableAmount: number;
+  spending: number;
+  percentageUsed: number;
+  carriedOut: number;
+}
+
+interface BudgetHistoryProps {
+  budgetId: string;
+  categoryName?: string;
+  onClose: () => void;
+}
+
+export function BudgetHistory({ budgetId, categoryName, onClose }: BudgetHistoryProps) {
+  const { data: history, isLoading, error } = useQuery<BudgetPeriodSummary[]>({
+    queryKey: ['budget-history', budgetId],
+    queryFn: async () => {
+      const response = await fetch(`/api/budgets/${budgetId}/history`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch budget history');
+      }
+      const data = await response.json();
+      return data.history || [];
+    },
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            {categoryName || 'Budget'} History
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading history...</div>
+        ) : error ? (
+          <div className="rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-800">{(error as Error).message}</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Budget
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rolled over
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Spent
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Used
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {history?.map((entry) => (
+                <tr key={entry.periodId || entry.budgetId}>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {formatDate(entry.startDate)} – {formatDate(entry.endDate)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatCurrency(entry.amount)}
+                  </td>
+                  <td
+                    className={`px-4 py-3 whitespace-nowrap text-sm text-right ${
+                      entry.carriedIn < 0 ? 'text-red-600' : 'text-gray-900'
+                    }`}
+                  >
+                    {entry.carriedIn === 0 ? '—' : formatCurrency(entry.carriedIn)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatCurrency(entry.spending)}
+                  </td>
+                  <td
+                    className={`px-4 py-3 whitespace-nowrap text-sm text-right font-medium ${
+                      entry.percentageUsed > 100 ? 'text-red-600' : 'text-gray-900'
+                    }`}
+                  >
+                    {entry.percentageUsed.toFixed(0)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
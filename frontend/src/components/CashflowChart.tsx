@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+type Range = '3months' | '6months' | '12months';
+
+interface CashflowPeriod {
+  period: string;
+  income: number;
+  expenses: number;
+  netSavings: number;
+  savingsRate: number;
+}
+
+interface CashflowReport {
+  periods: CashflowPeriod[];
+  totals: {
+    income: number;
+    expenses: number;
+    netSavings: number;
+    savingsRate: number;
+  };
+}
+
+export function CashflowChart() {
+  const [range, setRange] = useState<Range>('6months');
+
+  const { data, isLoading } = useQuery<CashflowReport>({
+    queryKey: ['cashflow-report', range],
+    queryFn: async () => {
+      const months = range === '3months' ? 3 : range === '6months' ? 6 : 12;
+      const now = new Date();
+      const startDate = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+      const params = new URLSearchParams({
+        startDate: startDate.toISOString(),
+        endDate: now.toISOString(),
+        interval: 'month',
+      });
+      const response = await fetch(`/api/reports/cashflow?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch cashflow data');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="text-gray-500">Loading cash flow data...</div>
+      </div>
+    );
+  }
+
+  const periods = data?.periods || [];
+  const hasData = periods.some((p) => p.income !== 0 || p.expenses !== 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Cash Flow</h2>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value as Range)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="3months">Last 3 Months</option>
+          <option value="6months">Last 6 Months</option>
+          <option value="12months">Last 12 Months</option>
+        </select>
+      </div>
+
+      {!hasData ? (
+        <div className="text-center py-12 text-gray-500">
+          No cash flow data available for this period
+        </div>
+      ) : (
+        <>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={periods}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Legend />
+                <Bar dataKey="income" fill="#10B981" name="Income" />
+                <Bar dataKey="expenses" fill="#EF4444" name="Expenses" />
+                <Bar dataKey="netSavings" fill="#3B82F6" name="Net Savings" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {data && (
+            <div className="mt-6 pt-6 border-t grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <p className="text-sm text-gray-500">Income</p>
+                <p className="text-2xl font-bold text-green-600">
+                  {formatCurrency(data.totals.income)}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm text-gray-500">Expenses</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {formatCurrency(data.totals.expenses)}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm text-gray-500">Net Savings</p>
+                <p
+                  className={`text-2xl font-bold ${
+                    data.totals.netSavings >= 0 ? 'text-gray-900' : 'text-red-600'
+                  }`}
+                >
+                  {formatCurrency(data.totals.netSavings)}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm text-gray-500">Savings Rate</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {data.totals.savingsRate.toFixed(1)}%
+                </p>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
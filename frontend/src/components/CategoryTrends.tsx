@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { DateRangePicker } from './DateRangePicker';
+import { DateRange, getPresetRange, toRangeParams } from '../lib/dateRange';
+
+type Interval = 'week' | 'month';
+
+interface CategoryTrend {
+  categoryId: string;
+  categoryName: string;
+  amounts: number[];
+  total: number;
+  average: number;
+}
+
+interface CategoryTrendReport {
+  periods: string[];
+  categories: CategoryTrend[];
+  totals: number[];
+}
+
+// Only the biggest categories get a trend line; the matrix shows them all
+const CHARTED_CATEGORIES = 5;
+
+const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6'];
+
+export function CategoryTrends() {
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('12months'));
+  const [interval, setTrendInterval] = useState<Interval>('month');
+
+  const { data, isLoading } = useQuery<CategoryTrendReport>({
+    queryKey: ['category-trends', range.startDate, range.endDate, interval],
+    queryFn: async () => {
+      const params = new URLSearchParams({ ...toRangeParams(range), interval });
+      const response = await fetch(`/api/reports/category-trends?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch category trends');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const categories = data?.categories || [];
+  const periods = data?.periods || [];
+  const charted = categories.filter((category) => category.total > 0).slice(0, CHARTED_CATEGORIES);
+
+  // One row per period with a key per charted category
+  const chartData = periods.map((period, index) => {
+    const point: Record<string, string | number> = { period };
+    charted.forEach((category) => {
+      point[category.categoryId] = category.amounts[index];
+    });
+    return point;
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Category Trends</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <DateRangePicker value={range} onChange={setRange} />
+          <select
+            value={interval}
+            onChange={(e) => setTrendInterval(e.target.value as Interval)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="text-gray-500">Loading category trends...</div>
+        </div>
+      ) : charted.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          No spending data available for this period
+        </div>
+      ) : (
+        <>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Legend />
+                {charted.map((category, index) => (
+                  <Line
+                    key={category.categoryId}
+                    type="monotone"
+                    dataKey={category.categoryId}
+                    stroke={COLORS[index % COLORS.length]}
+                    name={category.categoryName}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-6 pt-6 border-t overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                  {periods.map((period) => (
+                    <th key={period} className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase whitespace-nowrap">
+                      {period}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Average</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {categories.map((category) => (
+                  <tr key={category.categoryId}>
+                    <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{category.categoryName}</td>
+                    {category.amounts.map((amount, index) => (
+                      <td key={periods[index]} className="px-3 py-2 text-right text-gray-700">
+                        {amount === 0 ? '—' : formatCurrency(amount)}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right text-gray-500">{formatCurrency(category.average)}</td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">{formatCurrency(category.total)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="px-3 py-2 text-gray-900">Total</td>
+                  {(data?.totals || []).map((total, index) => (
+                    <td key={periods[index]} className="px-3 py-2 text-right text-gray-900">
+                      {formatCurrency(total)}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2" />
+                  <td className="px-3 py-2 text-right text-gray-900">
+                    {formatCurrency((data?.totals || []).reduce((sum, total) => sum + total, 0))}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
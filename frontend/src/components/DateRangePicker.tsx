@@ -0,0 +1,67 @@
+import { DateRange, RangePreset, getPresetRange } from '../lib/dateRange';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const PRESET_LABELS: Record<RangePreset, string> = {
+  month: 'This Month',
+  lastMonth: 'Last Month',
+  '3months': 'Last 3 Months',
+  quarter: 'This Quarter',
+  year: 'This Year',
+  '12months': 'Last 12 Months',
+  all: 'All Time',
+  custom: 'Custom Range',
+};
+
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const selectPreset = (preset: RangePreset) => {
+    onChange(preset === 'custom' ? { ...value, preset } : getPresetRange(preset));
+  };
+
+  const setDate = (field: 'startDate' | 'endDate', date: string) => {
+    // Ignore half-typed dates and ranges that end before they start
+    if (!date) return;
+    const next = { ...value, preset: 'custom' as const, [field]: date };
+    if (next.startDate <= next.endDate) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={value.preset}
+        onChange={(e) => selectPreset(e.target.value as RangePreset)}
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      >
+        {(Object.keys(PRESET_LABELS) as RangePreset[]).map((preset) => (
+          <option key={preset} value={preset}>
+            {PRESET_LABELS[preset]}
+          </option>
+        ))}
+      </select>
+      {value.preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={value.startDate}
+            max={value.endDate}
+            onChange={(e) => setDate('startDate', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={value.endDate}
+            min={value.startDate}
+            onChange={(e) => setDate('endDate', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </>
+      )}
+    </div>
+  );
+}
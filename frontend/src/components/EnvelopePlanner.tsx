@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MoveMoneyForm } from './MoveMoneyForm';
+
+interface Envelope {
+  categoryId: string;
+  categoryName: string;
+  assigned: number;
+  spent: number;
+  available: number;
+  isOverspent: boolean;
+}
+
+interface EnvelopePlan {
+  id?: string;
+  month: string;
+  expectedIncome: number;
+  actualIncome: number;
+  totalAssigned: number;
+  totalSpent: number;
+  uncategorizedSpent: number;
+  leftToAssign: number;
+  envelopes: Envelope[];
+}
+
+interface EnvelopeMove {
+  id: string;
+  fromCategoryName?: string;
+  toCategoryName?: string;
+  amount: number;
+  note?: string;
+  createdAt: string;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  group: string;
+}
+
+// Body of a plan change: expected income or an envelope's assigned amount
+type PlanUpdate = { expectedIncome: number } | { assigned: number };
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+export function EnvelopePlanner() {
+  const [month, setMonth] = useState(currentMonth());
+  const [moveTo, setMoveTo] = useState<string | null>(null);
+  const [newCategoryId, setNewCategoryId] = useState('');
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: plan, isLoading } = useQuery<EnvelopePlan>({
+    queryKey: ['envelopes', month],
+    queryFn: async () => {
+      const response = await fetch(`/api/envelopes/${month}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch plan');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: moves } = useQuery<EnvelopeMove[]>({
+    queryKey: ['envelope-moves', month],
+    queryFn: async () => {
+      const response = await fetch(`/api/envelopes/${month}/moves`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch ledger');
+      }
+      const data = await response.json();
+      return data.moves || [];
+    },
+  });
+
+  const { data: categoriesData } = useQuery<{ categories: Category[] }>({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const response = await fetch('/api/transactions/categories', {
+        credentials: 'include',
+      });
+      if (!response.ok) return { categories: [] };
+      return response.json();
+    },
+  });
+
+  // Every plan change answers with the updated plan
+  const planMutation = useMutation({
+    mutationFn: async ({ path, body }: { path: string; body: PlanUpdate }) => {
+      const response = await fetch(`/api/envelopes/${month}${path}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update plan');
+      }
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      setError('');
+      queryClient.setQueryData(['envelopes', month], updated);
+      queryClient.invalidateQueries({ queryKey: ['envelope-moves', month] });
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to update plan');
+    },
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(new Date(dateString));
+  };
+
+  const saveIncome = (value: string) => {
+    const income = parseFloat(value || '0');
+    if (!plan || isNaN(income) || income === plan.expectedIncome) return;
+    planMutation.mutate({ path: '', body: { expectedIncome: income } });
+  };
+
+  const saveAssigned = (envelope: Envelope, value: string) => {
+    const assigned = parseFloat(value || '0');
+    if (isNaN(assigned) || assigned === envelope.assigned) return;
+    planMutation.mutate({ path: `/assignments/${envelope.categoryId}`, body: { assigned } });
+  };
+
+  const addEnvelope = () => {
+    if (!newCategoryId) return;
+    planMutation.mutate({ path: `/assignments/${newCategoryId}`, body: { assigned: 0 } });
+    setNewCategoryId('');
+  };
+
+  const describeMove = (move: EnvelopeMove) => {
+    const from = move.fromCategoryName || 'Left to assign';
+    const to = move.toCategoryName || 'Left to assign';
+    return `${from} → ${to}`;
+  };
+
+  const availableCategories = (categoriesData?.categories || []).filter(
+    (category) =>
+      category.group !== 'income' &&
+      !plan?.envelopes.some((envelope) => envelope.categoryId === category.id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Spending Plan</h2>
+          <p className="text-sm text-gray-500">Give every dollar of this month's income a job</p>
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading || !plan ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="text-gray-500">Loading plan...</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow p-4">
+              <label className="block text-sm text-gray-500 mb-1">Expected income</label>
+              <div className="relative">
+                <span className="absolute left-3 top-2 text-gray-500">$</span>
+                <input
+                  key={`${month}-${plan.expectedIncome}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={plan.expectedIncome || ''}
+                  onBlur={(e) => saveIncome(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {formatCurrency(plan.actualIncome)} received so far
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Assigned</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(plan.totalAssigned)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">Spent</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(plan.totalSpent)}</p>
+              {plan.uncategorizedSpent > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Includes {formatCurrency(plan.uncategorizedSpent)} uncategorized
+                </p>
+              )}
+            </div>
+            <div
+              className={`rounded-lg shadow p-4 ${
+                plan.leftToAssign < 0 ? 'bg-red-50' : plan.leftToAssign > 0 ? 'bg-green-50' : 'bg-white'
+              }`}
+            >
+              <p className="text-sm text-gray-500">Left to assign</p>
+              <p
+                className={`text-2xl font-bold ${
+                  plan.leftToAssign < 0 ? 'text-red-600' : 'text-gray-900'
+                }`}
+              >
+                {formatCurrency(plan.leftToAssign)}
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Envelope
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Assigned
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Spent
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Available
+                  </th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {plan.envelopes.map((envelope) => (
+                  <tr key={envelope.categoryId}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {envelope.categoryName}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <input
+                        key={`${envelope.categoryId}-${envelope.assigned}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        defaultValue={envelope.assigned}
+                        onBlur={(e) => saveAssigned(envelope, e.target.value)}
+                        className="w-32 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(envelope.spent)}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                        envelope.isOverspent ? 'text-red-600' : 'text-green-600'
+                      }`}
+                    >
+                      {formatCurrency(envelope.available)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <button
+                        onClick={() => setMoveTo(envelope.categoryId)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {envelope.isOverspent ? 'Cover overspending' : 'Move money'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {plan.envelopes.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No envelopes yet. Add a category below to start assigning money.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            <div className="px-6 py-4 bg-gray-50 flex gap-3">
+              <select
+                value={newCategoryId}
+                onChange={(e) => setNewCategoryId(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Add an envelope...</option>
+                {availableCategories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={addEnvelope}
+                disabled={!newCategoryId || planMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Ledger</h3>
+            {moves && moves.length > 0 ? (
+              <ul className="divide-y divide-gray-200">
+                {moves.map((move) => (
+                  <li key={move.id} className="py-3 flex justify-between text-sm">
+                    <div>
+                      <p className="text-gray-900">{describeMove(move)}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateTime(move.createdAt)}
+                        {move.note && ` · ${move.note}`}
+                      </p>
+                    </div>
+                    <span className="font-medium text-gray-900">{formatCurrency(move.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No money has been moved this month</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {moveTo !== null && plan && (
+        <MoveMoneyForm
+          month={month}
+          envelopes={plan.envelopes}
+          toCategoryId={moveTo}
+          onClose={() => setMoveTo(null)}
+        />
+      )}
+    </div>
+  );
+}
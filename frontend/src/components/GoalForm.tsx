@@ -0,0 +1,269 @@
+import { useState, FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate?: string;
+  accounts: { accountId: string; accountName: string }[];
+}
+
+interface Account {
+  id: string;
+  accountName: string;
+  accountType: string;
+  currentBalance: number;
+}
+
+interface GoalInput {
+  name: string;
+  targetAmount: number;
+  targetDate: string | null;
+  accountIds: string[];
+}
+
+interface GoalFormProps {
+  goal?: Goal;
+  onClose: () => void;
+}
+
+// Only balances that are saved, not owed, can count toward a goal
+const GOAL_ACCOUNT_TYPES = ['depository', 'investment'];
+
+export function GoalForm({ goal, onClose }: GoalFormProps) {
+  const [name, setName] = useState(goal?.name || '');
+  const [targetAmount, setTargetAmount] = useState(goal?.targetAmount?.toString() || '');
+  const [targetDate, setTargetDate] = useState(goal?.targetDate?.slice(0, 10) || '');
+  const [accountIds, setAccountIds] = useState<string[]>(
+    goal?.accounts.map((account) => account.accountId) || []
+  );
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ['accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/accounts', {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch accounts');
+      }
+      const data = await response.json();
+      return data.accounts;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: GoalInput) => {
+      const response = await fetch(goal ? `/api/goals/${goal.id}` : '/api/goals', {
+        method: goal ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save goal');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      onClose();
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to save goal');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/goals/${goal?.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete goal');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      onClose();
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to delete goal');
+    },
+  });
+
+  const toggleAccount = (accountId: string) => {
+    setAccountIds((current) =>
+      current.includes(accountId)
+        ? current.filter((id) => id !== accountId)
+        : [...current, accountId]
+    );
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const amountNum = parseFloat(targetAmount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid target amount');
+      return;
+    }
+
+    saveMutation.mutate({
+      name: name.trim(),
+      targetAmount: amountNum,
+      targetDate: targetDate ? new Date(`${targetDate}T00:00:00Z`).toISOString() : null,
+      accountIds,
+    });
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Are you sure you want to delete this goal and its history?')) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const savingsAccounts = (accounts || []).filter((account) =>
+    GOAL_ACCOUNT_TYPES.includes(account.accountType)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">{goal ? 'Edit Goal' : 'New Goal'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              maxLength={100}
+              placeholder="Vacation"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Target Amount *</label>
+            <div className="relative">
+              <span className="absolute left-3 top-2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                required
+                placeholder="5000.00"
+                className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Target Date</label>
+            <input
+              type="date"
+              value={targetDate}
+              onChange={(e) => setTargetDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Linked Accounts</label>
+            {savingsAccounts.length === 0 ? (
+              <p className="text-sm text-gray-500">No savings or investment accounts to link</p>
+            ) : (
+              <div className="space-y-2">
+                {savingsAccounts.map((account) => (
+                  <label key={account.id} className="flex items-center justify-between text-sm text-gray-700">
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={accountIds.includes(account.id)}
+                        onChange={() => toggleAccount(account.id)}
+                        className="mr-2"
+                      />
+                      {account.accountName}
+                    </span>
+                    <span className="text-gray-500">{formatCurrency(account.currentBalance)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              The balance of linked accounts counts toward the goal
+            </p>
+          </div>
+
+          <div className="flex justify-between pt-4">
+            {goal ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saveMutation.isPending ? 'Saving...' : goal ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
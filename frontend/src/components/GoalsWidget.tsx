@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { GoalForm } from './GoalForm';
+
+interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate?: string;
+  accounts: { accountId: string; accountName: string; currentBalance: number }[];
+  currentAmount: number;
+  remainingAmount: number;
+  percentComplete: number;
+  isComplete: boolean;
+  monthlyPace: number;
+  projectedCompletionDate?: string;
+  requiredMonthly?: number;
+  isOnTrack?: boolean;
+}
+
+export function GoalsWidget() {
+  const [editingGoal, setEditingGoal] = useState<Goal | undefined>();
+  const [showForm, setShowForm] = useState(false);
+  const [contributingTo, setContributingTo] = useState<string | null>(null);
+  const [contribution, setContribution] = useState('');
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: goals, isLoading } = useQuery<Goal[]>({
+    queryKey: ['goals'],
+    queryFn: async () => {
+      const response = await fetch('/api/goals', {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch goals');
+      }
+      const data = await response.json();
+      return data.goals || [];
+    },
+  });
+
+  const contributeMutation = useMutation({
+    mutationFn: async ({ goalId, amount }: { goalId: string; amount: number }) => {
+      const response = await fetch(`/api/goals/${goalId}/contributions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ amount }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add contribution');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setError('');
+      setContributingTo(null);
+      setContribution('');
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to add contribution');
+    },
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
+  const submitContribution = (goalId: string) => {
+    const amount = parseFloat(contribution);
+    if (isNaN(amount) || amount === 0) {
+      setError('Please enter a non-zero amount');
+      return;
+    }
+    contributeMutation.mutate({ goalId, amount });
+  };
+
+  const describePace = (goal: Goal) => {
+    if (goal.isComplete) return 'Goal reached 🎉';
+    if (!goal.projectedCompletionDate) return 'Add a contribution to see when you will get there';
+    return `At ${formatCurrency(goal.monthlyPace)}/month, done by ${formatDate(goal.projectedCompletionDate)}`;
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingGoal(undefined);
+  };
+
+  return (
+    <div className="space-y-4 mb-8">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-white">Savings Goals</h2>
+        <button
+          onClick={() => setShowForm(true)}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          New Goal
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-gray-400">Loading goals...</div>
+      ) : !goals || goals.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">No goals yet. Save toward something like a vacation or an emergency fund.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {goals.map((goal) => (
+            <div key={goal.id} className="bg-white rounded-lg shadow p-6">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{goal.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {formatCurrency(goal.currentAmount)} of {formatCurrency(goal.targetAmount)}
+                    {goal.targetDate && ` by ${formatDate(goal.targetDate)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setEditingGoal(goal)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Edit
+                </button>
+              </div>
+
+              <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
+                <div
+                  className={`h-3 rounded-full ${
+                    goal.isComplete ? 'bg-green-500' : goal.isOnTrack === false ? 'bg-yellow-500' : 'bg-blue-600'
+                  }`}
+                  style={{ width: `${goal.percentComplete}%` }}
+                />
+              </div>
+
+              <p className="text-sm text-gray-600">{describePace(goal)}</p>
+              {goal.isOnTrack === false && goal.requiredMonthly !== undefined && (
+                <p className="text-sm text-yellow-700">
+                  Save {formatCurrency(goal.requiredMonthly)}/month to finish on time
+                </p>
+              )}
+              {goal.accounts.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Includes {goal.accounts.map((account) => account.accountName).join(', ')}
+                </p>
+              )}
+
+              {!goal.isComplete && (
+                <div className="mt-4">
+                  {contributingTo === goal.id ? (
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <span className="absolute left-3 top-2 text-gray-500">$</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={contribution}
+                          onChange={(e) => setContribution(e.target.value)}
+                          placeholder="0.00"
+                          autoFocus
+                          className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <button
+                        onClick={() => submitContribution(goal.id)}
+                        disabled={contributeMutation.isPending}
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                      <button
+                        onClick={() => setContributingTo(null)}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setContributingTo(goal.id);
+                        setContribution('');
+                      }}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      + Add contribution
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(showForm || editingGoal) && <GoalForm goal={editingGoal} onClose={closeForm} />}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { Link, Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useState } from 'react';
+import { NotificationBell } from './NotificationBell';
 
 export function Layout() {
   const { user, logout } = useAuth();
@@ -20,6 +21,10 @@ export function Layout() {
     { path: '/accounts', label: 'Accounts' },
     { path: '/transactions', label: 'Transactions' },
     { path: '/budgets', label: 'Budgets' },
+    { path: '/planning', label: 'Plan' },
+    { path: '/recurring', label: 'Subscriptions' },
+    { path: '/merchants', label: 'Merchants' },
+    { path: '/rules', label: 'Rules' },
     { path: '/reports', label: 'Reports' },
   ];
 
@@ -51,6 +56,7 @@ export function Layout() {
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <NotificationBell />
               <span className="hidden sm:block text-sm text-gray-300">
                 {user?.firstName} {user?.lastName}
               </span>
@@ -0,0 +1,190 @@
+import { useState, FormEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+type AccountType = 'depository' | 'credit' | 'loan' | 'investment';
+
+interface ManualAccount {
+  id: string;
+  accountName: string;
+  accountType: string;
+  accountSubtype: string;
+  currentBalance: number;
+}
+
+interface ManualAccountInput {
+  accountName: string;
+  accountType: AccountType;
+  accountSubtype: string;
+  currentBalance: number;
+}
+
+interface ManualAccountFormProps {
+  account?: ManualAccount;
+  onClose: () => void;
+}
+
+export function ManualAccountForm({ account, onClose }: ManualAccountFormProps) {
+  const [accountName, setAccountName] = useState(account?.accountName || '');
+  const [accountType, setAccountType] = useState<AccountType>(
+    (account?.accountType as AccountType) || 'depository'
+  );
+  const [accountSubtype, setAccountSubtype] = useState(account?.accountSubtype || '');
+  const [currentBalance, setCurrentBalance] = useState(
+    account?.currentBalance?.toString() || ''
+  );
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ManualAccountInput) => {
+      const response = await fetch(account ? `/api/accounts/${account.id}` : '/api/accounts', {
+        method: account ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save account');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      onClose();
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to save account');
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!accountName.trim()) {
+      setError('Please enter an account name');
+      return;
+    }
+
+    const balanceNum = parseFloat(currentBalance);
+    if (isNaN(balanceNum)) {
+      setError('Please enter a valid balance');
+      return;
+    }
+
+    saveMutation.mutate({
+      accountName,
+      accountType,
+      accountSubtype,
+      currentBalance: balanceNum,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            {account ? 'Edit Manual Account' : 'Add Manual Account'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Account Name *
+            </label>
+            <input
+              type="text"
+              value={accountName}
+              onChange={(e) => setAccountName(e.target.value)}
+              required
+              placeholder="Cash wallet"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Account Type *
+            </label>
+            <select
+              value={accountType}
+              onChange={(e) => setAccountType(e.target.value as AccountType)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="depository">Cash / Bank</option>
+              <option value="credit">Credit Card</option>
+              <option value="loan">Loan</option>
+              <option value="investment">Investment / HSA</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subtype</label>
+            <input
+              type="text"
+              value={accountSubtype}
+              onChange={(e) => setAccountSubtype(e.target.value)}
+              placeholder="checking, hsa, ..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Current Balance *
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="0.01"
+                value={currentBalance}
+                onChange={(e) => setCurrentBalance(e.target.value)}
+                required
+                placeholder="0.00"
+                className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saveMutation.isPending ? 'Saving...' : account ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, FormEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+interface Envelope {
+  categoryId: string;
+  categoryName: string;
+  available: number;
+}
+
+interface EnvelopeMoveInput {
+  fromCategoryId: string | null;
+  toCategoryId: string | null;
+  amount: number;
+  note?: string;
+}
+
+interface MoveMoneyFormProps {
+  month: string;
+  envelopes: Envelope[];
+  toCategoryId?: string;
+  onClose: () => void;
+}
+
+// Empty select value stands for the plan's "left to assign" balance
+const LEFT_TO_ASSIGN = '';
+
+export function MoveMoneyForm({ month, envelopes, toCategoryId, onClose }: MoveMoneyFormProps) {
+  const destination = envelopes.find((e) => e.categoryId === toCategoryId);
+  const [fromCategoryId, setFromCategoryId] = useState(LEFT_TO_ASSIGN);
+  const [toCategory, setToCategory] = useState(toCategoryId || LEFT_TO_ASSIGN);
+  const [amount, setAmount] = useState(
+    destination && destination.available < 0 ? (-destination.available).toFixed(2) : ''
+  );
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const moveMutation = useMutation({
+    mutationFn: async (data: EnvelopeMoveInput) => {
+      const response = await fetch(`/api/envelopes/${month}/moves`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to move money');
+      }
+      return response.json();
+    },
+    onSuccess: (plan) => {
+      queryClient.setQueryData(['envelopes', month], plan);
+      queryClient.invalidateQueries({ queryKey: ['envelope-moves', month] });
+      onClose();
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to move money');
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    if (fromCategoryId === toCategory) {
+      setError('Choose two different envelopes');
+      return;
+    }
+
+    moveMutation.mutate({
+      fromCategoryId: fromCategoryId || null,
+      toCategoryId: toCategory || null,
+      amount: amountNum,
+      note: note || undefined,
+    });
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(value);
+  };
+
+  const renderOptions = () => (
+    <>
+      <option value={LEFT_TO_ASSIGN}>Left to assign</option>
+      {envelopes.map((envelope) => (
+        <option key={envelope.categoryId} value={envelope.categoryId}>
+          {envelope.categoryName} ({formatCurrency(envelope.available)})
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Move Money</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <select
+              value={fromCategoryId}
+              onChange={(e) => setFromCategoryId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {renderOptions()}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <select
+              value={toCategory}
+              onChange={(e) => setToCategory(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {renderOptions()}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount *</label>
+            <div className="relative">
+              <span className="absolute left-3 top-2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+                placeholder="0.00"
+                className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="Optional"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={moveMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {moveMutation.isPending ? 'Moving...' : 'Move'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
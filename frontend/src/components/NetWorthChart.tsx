@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+type Range = '30days' | '6months' | '12months' | '24months';
+
+interface NetWorthSummary {
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+  byType: Record<string, number>;
+}
+
+interface NetWorthPoint extends NetWorthSummary {
+  period: string;
+  date: string;
+}
+
+interface NetWorthReport {
+  points: NetWorthPoint[];
+  current: NetWorthSummary;
+  change: {
+    amount: number;
+    percentage: number;
+  };
+}
+
+export function NetWorthChart() {
+  const [range, setRange] = useState<Range>('12months');
+
+  const { data, isLoading } = useQuery<NetWorthReport>({
+    queryKey: ['net-worth-report', range],
+    queryFn: async () => {
+      const now = new Date();
+      let startDate: Date;
+      let interval: string;
+      if (range === '30days') {
+        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 29);
+        interval = 'day';
+      } else {
+        const months = range === '6months' ? 6 : range === '12months' ? 12 : 24;
+        startDate = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+        interval = range === '6months' ? 'week' : 'month';
+      }
+      const params = new URLSearchParams({
+        startDate: startDate.toISOString(),
+        endDate: now.toISOString(),
+        interval,
+      });
+      const response = await fetch(`/api/reports/net-worth?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch net worth data');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="text-gray-500">Loading net worth data...</div>
+      </div>
+    );
+  }
+
+  const points = data?.points || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Net Worth</h2>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value as Range)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="30days">Last 30 Days</option>
+          <option value="6months">Last 6 Months</option>
+          <option value="12months">Last 12 Months</option>
+          <option value="24months">Last 24 Months</option>
+        </select>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          No balance history yet. Balances are recorded once a day.
+        </div>
+      ) : (
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" />
+              <YAxis tickFormatter={(value) => formatCurrency(value)} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Legend />
+              <Line type="monotone" dataKey="assets" stroke="#10B981" name="Assets" dot={false} />
+              <Line type="monotone" dataKey="liabilities" stroke="#EF4444" name="Liabilities" dot={false} />
+              <Line type="monotone" dataKey="netWorth" stroke="#3B82F6" strokeWidth={2} name="Net Worth" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {data && (
+        <div className="mt-6 pt-6 border-t grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="text-center">
+            <p className="text-sm text-gray-500">Assets</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(data.current.assets)}</p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-gray-500">Liabilities</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(data.current.liabilities)}</p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-gray-500">Net Worth</p>
+            <p
+              className={`text-2xl font-bold ${
+                data.current.netWorth >= 0 ? 'text-gray-900' : 'text-red-600'
+              }`}
+            >
+              {formatCurrency(data.current.netWorth)}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-gray-500">Change</p>
+            <p
+              className={`text-2xl font-bold ${
+                data.change.amount >= 0 ? 'text-green-600' : 'text-red-600'
+              }`}
+            >
+              {data.change.amount >= 0 ? '+' : ''}
+              {formatCurrency(data.change.amount)}
+            </p>
+            <p className="text-xs text-gray-500">{data.change.percentage.toFixed(1)}%</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
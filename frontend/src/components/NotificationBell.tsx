@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+type NotificationEventType = 'fraud_alert' | 'budget_threshold' | 'sync_failed' | 'recurring_charge';
+
+interface Notification {
+  id: string;
+  eventType: NotificationEventType;
+  title: string;
+  body: string;
+  link?: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+  unreadByType: Record<NotificationEventType, number>;
+}
+
+const EVENT_TYPES: { type: NotificationEventType; label: string; color: string }[] = [
+  { type: 'fraud_alert', label: 'Fraud alerts', color: 'bg-red-100 text-red-800' },
+  { type: 'budget_threshold', label: 'Budgets', color: 'bg-yellow-100 text-yellow-800' },
+  { type: 'sync_failed', label: 'Failed syncs', color: 'bg-orange-100 text-orange-800' },
+  { type: 'recurring_charge', label: 'New recurring', color: 'bg-blue-100 text-blue-800' },
+];
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<NotificationEventType | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ['notifications', filter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '10' });
+      if (filter) params.append('eventType', filter);
+
+      const response = await fetch(`/api/notifications?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications');
+      }
+      return response.json();
+    },
+    refetchInterval: 60 * 1000,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const response = await fetch(`/api/notifications/${notificationId}/read`, {
+        method: 'PATCH',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to mark notification read');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/notifications/read-all', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(filter ? { eventType: filter } : {}),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to mark notifications read');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(new Date(dateString));
+  };
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.isRead) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const unreadCount = data?.unreadCount || 0;
+  const notifications = data?.notifications || [];
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700/50 transition-all"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+      >
+        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-xl overflow-hidden z-50">
+          <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            <button
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending || unreadCount === 0}
+              className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Mark all read
+            </button>
+          </div>
+
+          <div className="px-4 py-2 border-b border-gray-200 flex flex-wrap gap-2">
+            {EVENT_TYPES.map(({ type, label, color }) => (
+              <button
+                key={type}
+                onClick={() => setFilter(filter === type ? null : type)}
+                className={`px-2 py-1 rounded-full text-xs font-medium ${color} ${
+                  filter === type ? 'ring-2 ring-offset-1 ring-blue-500' : ''
+                }`}
+              >
+                {label} {data?.unreadByType[type] || 0}
+              </button>
+            ))}
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  onClick={() => openNotification(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                    notification.isRead ? '' : 'bg-blue-50'
+                  }`}
+                >
+                  <div className="flex justify-between gap-2">
+                    <p
+                      className={`text-sm text-gray-900 ${
+                        notification.isRead ? '' : 'font-semibold'
+                      }`}
+                    >
+                      {notification.title}
+                    </p>
+                    {!notification.isRead && (
+                      <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-blue-600" />
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-600 whitespace-pre-line line-clamp-3">
+                    {notification.body}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-400">{formatDate(notification.createdAt)}</p>
+                </button>
+              </li>
+            ))}
+            {notifications.length === 0 && (
+              <li className="px-4 py-8 text-center text-sm text-gray-500">
+                You're all caught up
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
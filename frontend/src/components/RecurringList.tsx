@@ -0,0 +1,160 @@
+import { useQuery } from '@tanstack/react-query';
+
+interface RecurringSeries {
+  id: string;
+  merchantName: string;
+  cadence: 'weekly' | 'biweekly' | 'monthly' | 'annual';
+  amount: number;
+  averageAmount: number;
+  previousAmount?: number;
+  priceIncreased: boolean;
+  priceChangedAt?: string;
+  lastDate: string;
+  nextExpectedDate: string;
+  status: 'active' | 'missed' | 'cancelled';
+  occurrences: Array<{ transactionId: string; date: string; amount: number }>;
+}
+
+// Rough multipliers for turning each cadence into a monthly cost
+const MONTHLY_FACTOR: Record<RecurringSeries['cadence'], number> = {
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  monthly: 1,
+  annual: 1 / 12,
+};
+
+export function RecurringList() {
+  const { data: series, isLoading } = useQuery<RecurringSeries[]>({
+    queryKey: ['recurring'],
+    queryFn: async () => {
+      const response = await fetch('/api/recurring', {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch recurring transactions');
+      }
+      const data = await response.json();
+      return data.recurring || [];
+    },
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'missed':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'cancelled':
+        return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-green-100 text-green-800';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="text-gray-500">Loading recurring charges...</div>
+      </div>
+    );
+  }
+
+  const active = series?.filter((s) => s.status !== 'cancelled') || [];
+  const cancelled = series?.filter((s) => s.status === 'cancelled') || [];
+  const monthlyTotal = active.reduce((sum, s) => sum + s.amount * MONTHLY_FACTOR[s.cadence], 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6 flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Subscriptions & Bills</h2>
+          <p className="text-sm text-gray-500">Detected from your transaction history</p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-gray-500">Estimated monthly cost</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(monthlyTotal)}</p>
+        </div>
+      </div>
+
+      {active.length === 0 && cancelled.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">No recurring charges detected yet</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Merchant
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Frequency
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Next Charge
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {[...active, ...cancelled].map((s) => (
+                <tr key={s.id} className={s.status === 'cancelled' ? 'opacity-60' : ''}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div className="font-medium">{s.merchantName}</div>
+                    <div className="text-gray-500 text-xs">
+                      {s.occurrences.length} charges since {formatDate(s.occurrences[0].date)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                    {s.cadence}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {formatCurrency(s.amount)}
+                    {s.priceIncreased && s.previousAmount !== undefined && (
+                      <div className="text-xs font-normal text-red-600">
+                        Up from {formatCurrency(s.previousAmount)}
+                        {s.priceChangedAt && ` on ${formatDate(s.priceChangedAt)}`}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {s.status === 'cancelled' ? '—' : formatDate(s.nextExpectedDate)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(s.status)}`}>
+                      {s.status === 'missed'
+                        ? 'Missed charge'
+                        : s.status === 'cancelled'
+                          ? 'Likely cancelled'
+                          : 'Active'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,48 +1,19 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { DateRangePicker } from './DateRangePicker';
+import { DateRange, getPresetRange, toRangeParams } from '../lib/dateRange';
 
 type ChartType = 'pie' | 'bar';
-type Period = 'month' | 'quarter' | 'year' | 'all';
 
 export function SpendingChart() {
   const [chartType, setChartType] = useState<ChartType>('pie');
-  const [period, setPeriod] = useState<Period>('all');
-
-  const getDateRange = (period: Period) => {
-    const now = new Date();
-    let startDate: Date;
-    let endDate = new Date();
-
-    switch (period) {
-      case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-        break;
-      case 'quarter':
-        const quarter = Math.floor(now.getMonth() / 3);
-        startDate = new Date(now.getFullYear(), quarter * 3, 1);
-        break;
-      case 'year':
-        startDate = new Date(now.getFullYear(), 0, 1);
-        break;
-      case 'all':
-        startDate = new Date(2020, 0, 1); // Start from 2020
-        break;
-      default:
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-    }
-
-    return { startDate, endDate };
-  };
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('all'));
 
   const { data, isLoading } = useQuery({
-    queryKey: ['spending-report', period],
+    queryKey: ['spending-report', range.startDate, range.endDate],
     queryFn: async () => {
-      const { startDate, endDate } = getDateRange(period);
-      const params = new URLSearchParams({
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-      });
+      const params = new URLSearchParams(toRangeParams(range));
       const response = await fetch(`/api/reports/spending?${params}`, {
         credentials: 'include',
       });
@@ -72,7 +43,8 @@ export function SpendingChart() {
     );
   }
 
-  const chartData = Array.isArray(data) ? data.map((item: any) => ({
+  // Categories fully offset by refunds have nothing left to plot
+  const chartData = Array.isArray(data) ? data.filter((item: any) => item.totalAmount > 0).map((item: any) => ({
     categoryName: item.categoryName,
     amount: item.totalAmount,
   })) : [];
@@ -82,16 +54,7 @@ export function SpendingChart() {
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-bold text-gray-900">Spending by Category</h2>
         <div className="flex gap-4">
-          <select
-            value={period}
-            onChange={(e) => setPeriod(e.target.value as Period)}
-            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-          >
-            <option value="all">All Time</option>
-            <option value="month">This Month</option>
-            <option value="quarter">This Quarter</option>
-            <option value="year">This Year</option>
-          </select>
+          <DateRangePicker value={range} onChange={setRange} />
           <div className="flex gap-2">
             <button
               onClick={() => setChartType('pie')}
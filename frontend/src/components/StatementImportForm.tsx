@@ -0,0 +1,349 @@
+import { useState, useEffect, ChangeEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+interface Account {
+  id: string;
+  accountName: string;
+}
+
+interface ColumnMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: string;
+  dateFormat: string;
+  amountColumn: string;
+  debitColumn: string;
+  creditColumn: string;
+  descriptionColumn: string;
+  merchantColumn: string;
+  invertAmounts: boolean;
+}
+
+interface PreviewRow {
+  line: number;
+  date: string | null;
+  amount: number | null;
+  description: string;
+  merchantName?: string;
+  status: 'new' | 'duplicate' | 'invalid';
+  error?: string;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  rows: PreviewRow[];
+}
+
+interface StatementImportFormProps {
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const DEFAULT_MAPPING: ColumnMapping = {
+  delimiter: ',',
+  hasHeader: true,
+  dateColumn: 'Date',
+  dateFormat: 'MM/DD/YYYY',
+  amountColumn: 'Amount',
+  debitColumn: '',
+  creditColumn: '',
+  descriptionColumn: 'Description',
+  merchantColumn: '',
+  invertAmounts: true,
+};
+
+export function StatementImportForm({ accounts, onClose }: StatementImportFormProps) {
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>(DEFAULT_MAPPING);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const isCsv = !/\.(ofx|qfx)$/i.test(fileName);
+
+  // Load the saved column mapping for the selected account
+  useEffect(() => {
+    if (!accountId) return;
+
+    fetch(`/api/accounts/${accountId}/import-profile`, { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((profile) => {
+        if (profile) {
+          setMapping({
+            ...DEFAULT_MAPPING,
+            ...Object.fromEntries(
+              Object.entries(profile).filter(([key]) => key in DEFAULT_MAPPING)
+            ),
+          });
+        } else {
+          setMapping(DEFAULT_MAPPING);
+        }
+      })
+      .catch(() => setMapping(DEFAULT_MAPPING));
+    setPreview(null);
+  }, [accountId]);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<ImportResult> => {
+      const response = await fetch('/api/transactions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          accountId,
+          fileName,
+          content,
+          mapping: isCsv
+            ? {
+                ...mapping,
+                amountColumn: mapping.amountColumn || undefined,
+                debitColumn: mapping.debitColumn || undefined,
+                creditColumn: mapping.creditColumn || undefined,
+                merchantColumn: mapping.merchantColumn || undefined,
+              }
+            : undefined,
+          saveProfile: isCsv && !dryRun,
+          dryRun,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to import statement');
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      onClose();
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to import statement');
+    },
+  });
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setContent(await file.text());
+    setPreview(null);
+    setError('');
+  };
+
+  const updateMapping = (field: keyof ColumnMapping, value: string | boolean) => {
+    setMapping({ ...mapping, [field]: value });
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    setError('');
+    if (!content) {
+      setError('Please choose a statement file');
+      return;
+    }
+    importMutation.mutate(true);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      signDisplay: 'always',
+    }).format(-amount);
+  };
+
+  const statusStyles: Record<PreviewRow['status'], string> = {
+    new: 'bg-green-100 text-green-800',
+    duplicate: 'bg-gray-100 text-gray-800',
+    invalid: 'bg-red-100 text-red-800',
+  };
+
+  const newCount = preview ? preview.total - preview.duplicates - preview.invalid : 0;
+
+  const textField = (label: string, field: keyof ColumnMapping, placeholder = '') => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={mapping[field] as string}
+        onChange={(e) => updateMapping(field, e.target.value)}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Import Statement</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Account *</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.accountName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Statement File (CSV, OFX, QFX) *
+              </label>
+              <input
+                type="file"
+                accept=".csv,.ofx,.qfx"
+                onChange={handleFileChange}
+                className="w-full text-sm text-gray-700"
+              />
+            </div>
+          </div>
+
+          {isCsv && (
+            <div className="border border-gray-200 rounded-md p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Column Mapping</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {textField('Date Column *', 'dateColumn')}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date Format</label>
+                  <select
+                    value={mapping.dateFormat}
+                    onChange={(e) => updateMapping('dateFormat', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                  </select>
+                </div>
+                {textField('Description Column *', 'descriptionColumn')}
+                {textField('Amount Column', 'amountColumn')}
+                {textField('Debit Column', 'debitColumn', 'If no amount column')}
+                {textField('Credit Column', 'creditColumn', 'If no amount column')}
+                {textField('Merchant Column', 'merchantColumn')}
+                {textField('Delimiter', 'delimiter')}
+              </div>
+              <div className="flex gap-6 mt-3">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeader}
+                    onChange={(e) => updateMapping('hasHeader', e.target.checked)}
+                    className="mr-2"
+                  />
+                  First row is a header
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={mapping.invertAmounts}
+                    onChange={(e) => updateMapping('invertAmounts', e.target.checked)}
+                    className="mr-2"
+                  />
+                  Negative amounts are money out
+                </label>
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <div>
+              <p className="text-sm text-gray-700 mb-2">
+                {newCount} new, {preview.duplicates} already imported, {preview.invalid} invalid
+              </p>
+              <div className="border border-gray-200 rounded-md max-h-64 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.rows.map((row) => (
+                      <tr key={row.line}>
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                          {row.date ? row.date.split('T')[0] : '—'}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.description}
+                          {row.error && <div className="text-xs text-red-600">{row.error}</div>}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                          {row.amount === null ? '—' : formatCurrency(row.amount)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-1 text-xs rounded-full ${statusStyles[row.status]}`}>
+                            {row.status}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          {preview ? (
+            <button
+              onClick={() => importMutation.mutate(false)}
+              disabled={importMutation.isPending || newCount === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importMutation.isPending ? 'Importing...' : `Import ${newCount} Transactions`}
+            </button>
+          ) : (
+            <button
+              onClick={handlePreview}
+              disabled={importMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importMutation.isPending ? 'Checking...' : 'Preview'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,26 @@
 import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
+interface TransactionSplit {
+  id: string;
+  categoryId: string;
+  amount: number;
+  note?: string;
+}
+
+interface SplitRow {
+  categoryId: string;
+  amount: string;
+  note: string;
+}
+
+interface TransferPair {
+  id: string;
+  outflowTransactionId: string;
+  inflowTransactionId: string;
+  status: 'suggested' | 'confirmed' | 'unlinked';
+}
+
 interface Transaction {
   id: string;
   amount: number;
@@ -11,6 +31,9 @@ interface Transaction {
   categoryConfidence: number;
   isPending: boolean;
   isFraudulent: boolean;
+  isManual?: boolean;
+  isTransfer?: boolean;
+  splits?: TransactionSplit[];
   location?: {
     city?: string;
     region?: string;
@@ -18,6 +41,11 @@ interface Transaction {
   };
 }
 
+interface Category {
+  id: string;
+  name: string;
+}
+
 interface TransactionDetailProps {
   transaction: Transaction;
   onClose: () => void;
@@ -25,12 +53,23 @@ interface TransactionDetailProps {
 
 export function TransactionDetail({ transaction, onClose }: TransactionDetailProps) {
   const [selectedCategoryId, setSelectedCategoryId] = useState(transaction.categoryId);
+  const hadSplits = (transaction.splits?.length || 0) > 0;
+  // Split amounts are edited as positive numbers and take the transaction's sign on save
+  const [splitRows, setSplitRows] = useState<SplitRow[]>(
+    (transaction.splits || []).map((split) => ({
+      categoryId: split.categoryId,
+      amount: Math.abs(split.amount).toFixed(2),
+      note: split.note || '',
+    }))
+  );
+  const [isSplitting, setIsSplitting] = useState(hadSplits);
+  const [splitError, setSplitError] = useState('');
   const queryClient = useQueryClient();
 
-  const { data: categoriesData } = useQuery({
+  const { data: categoriesData } = useQuery<{ categories: Category[] }>({
     queryKey: ['categories'],
     queryFn: async () => {
-      const response = await fetch('/api/categories', {
+      const response = await fetch('/api/transactions/categories', {
         credentials: 'include',
       });
       if (!response.ok) return { categories: [] };
@@ -58,6 +97,93 @@ export function TransactionDetail({ transaction, onClose }: TransactionDetailPro
     },
   });
 
+  const saveSplitsMutation = useMutation({
+    mutationFn: async (splits: Array<{ categoryId: string; amount: number; note?: string }>) => {
+      const response = await fetch(`/api/transactions/${transaction.id}/splits`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ splits }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save splits');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      if (!isSplitting && selectedCategoryId !== transaction.categoryId) {
+        updateCategoryMutation.mutate(selectedCategoryId);
+      } else {
+        onClose();
+      }
+    },
+    onError: (err: unknown) => {
+      setSplitError(err instanceof Error ? err.message : 'Failed to save splits');
+    },
+  });
+
+  const { data: transfersData } = useQuery<{ transfers: TransferPair[] }>({
+    queryKey: ['transfers'],
+    queryFn: async () => {
+      const response = await fetch('/api/transfers', {
+        credentials: 'include',
+      });
+      if (!response.ok) return { transfers: [] };
+      return response.json();
+    },
+    enabled: !!transaction.isTransfer,
+  });
+
+  const transferPair = transfersData?.transfers.find(
+    (pair) =>
+      pair.outflowTransactionId === transaction.id || pair.inflowTransactionId === transaction.id
+  );
+
+  const transferMutation = useMutation({
+    mutationFn: async (action: 'confirm' | 'unlink') => {
+      const response = await fetch(`/api/transfers/${transferPair!.id}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update transfer');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['transfers'] });
+      onClose();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/transactions/${transaction.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete transaction');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      onClose();
+    },
+  });
+
+  const handleDelete = () => {
+    if (window.confirm('Are you sure you want to delete this transaction?')) {
+      deleteMutation.mutate();
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -74,8 +200,55 @@ export function TransactionDetail({ transaction, onClose }: TransactionDetailPro
     }).format(date);
   };
 
+  const totalCents = Math.round(Math.abs(transaction.amount) * 100);
+  const splitCents = splitRows.reduce(
+    (sum, row) => sum + Math.round((parseFloat(row.amount) || 0) * 100),
+    0
+  );
+  const remainingCents = totalCents - splitCents;
+
+  const startSplitting = () => {
+    if (splitRows.length === 0) {
+      setSplitRows([
+        {
+          categoryId: selectedCategoryId,
+          amount: Math.abs(transaction.amount).toFixed(2),
+          note: '',
+        },
+        { categoryId: '', amount: '', note: '' },
+      ]);
+    }
+    setIsSplitting(true);
+  };
+
+  const updateSplitRow = (index: number, field: keyof SplitRow, value: string) => {
+    setSplitRows(splitRows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
   const handleSave = () => {
-    if (selectedCategoryId !== transaction.categoryId) {
+    setSplitError('');
+
+    if (isSplitting) {
+      if (splitRows.some((row) => !row.categoryId || !(parseFloat(row.amount) > 0))) {
+        setSplitError('Each split needs a category and an amount');
+        return;
+      }
+      if (remainingCents !== 0) {
+        setSplitError('Split amounts must add up to the transaction amount');
+        return;
+      }
+
+      const sign = transaction.amount < 0 ? -1 : 1;
+      saveSplitsMutation.mutate(
+        splitRows.map((row) => ({
+          categoryId: row.categoryId,
+          amount: sign * parseFloat(row.amount),
+          note: row.note || undefined,
+        }))
+      );
+    } else if (hadSplits) {
+      saveSplitsMutation.mutate([]);
+    } else if (selectedCategoryId !== transaction.categoryId) {
       updateCategoryMutation.mutate(selectedCategoryId);
     } else {
       onClose();
@@ -132,27 +305,135 @@ export function TransactionDetail({ transaction, onClose }: TransactionDetailPro
             </div>
           )}
 
-          <div>
-            <label className="block text-sm font-medium text-gray-500 mb-2">
-              Category
-              {transaction.categoryConfidence < 70 && (
-                <span className="ml-2 text-xs text-yellow-600">
-                  (Low confidence: {transaction.categoryConfidence}%)
+          {isSplitting ? (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-500">Split Categories</label>
+                <button
+                  onClick={() => setIsSplitting(false)}
+                  className="text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Remove split
+                </button>
+              </div>
+              <div className="space-y-2">
+                {splitRows.map((row, index) => (
+                  <div key={index} className="flex gap-2">
+                    <select
+                      value={row.categoryId}
+                      onChange={(e) => updateSplitRow(index, 'categoryId', e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select a category</option>
+                      {categoriesData?.categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={row.amount}
+                      onChange={(e) => updateSplitRow(index, 'amount', e.target.value)}
+                      placeholder="0.00"
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <input
+                      type="text"
+                      value={row.note}
+                      onChange={(e) => updateSplitRow(index, 'note', e.target.value)}
+                      placeholder="Note"
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => setSplitRows(splitRows.filter((_, i) => i !== index))}
+                      disabled={splitRows.length <= 2}
+                      className="px-2 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between items-center mt-2">
+                <button
+                  onClick={() => setSplitRows([...splitRows, { categoryId: '', amount: '', note: '' }])}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  + Add split
+                </button>
+                <span
+                  className={`text-sm ${remainingCents === 0 ? 'text-green-600' : 'text-red-600'}`}
+                >
+                  {remainingCents === 0
+                    ? 'Fully allocated'
+                    : `${formatCurrency(Math.abs(remainingCents) / 100)} ${
+                        remainingCents > 0 ? 'left to allocate' : 'over'
+                      }`}
                 </span>
-              )}
-            </label>
-            <select
-              value={selectedCategoryId}
-              onChange={(e) => setSelectedCategoryId(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              {categoriesData?.categories.map((category: any) => (
-                <option key={category.id} value={category.id}>
-                  {category.name}
-                </option>
-              ))}
-            </select>
-          </div>
+              </div>
+              {splitError && <p className="mt-2 text-sm text-red-600">{splitError}</p>}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-2">
+                Category
+                {transaction.categoryConfidence < 70 && (
+                  <span className="ml-2 text-xs text-yellow-600">
+                    (Low confidence: {transaction.categoryConfidence}%)
+                  </span>
+                )}
+              </label>
+              <select
+                value={selectedCategoryId}
+                onChange={(e) => setSelectedCategoryId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {categoriesData?.categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={startSplitting}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                Split across categories
+              </button>
+              {splitError && <p className="mt-2 text-sm text-red-600">{splitError}</p>}
+            </div>
+          )}
+
+          {transferPair && (
+            <div className="rounded-md bg-blue-50 p-4">
+              <p className="text-sm text-blue-800">
+                {transferPair.status === 'confirmed'
+                  ? 'Confirmed transfer between your accounts. It is left out of budgets and spending reports.'
+                  : 'This looks like a transfer between your accounts, so it is left out of budgets and spending reports.'}
+              </p>
+              <div className="mt-3 flex gap-3">
+                {transferPair.status === 'suggested' && (
+                  <button
+                    onClick={() => transferMutation.mutate('confirm')}
+                    disabled={transferMutation.isPending}
+                    className="text-sm font-medium text-blue-700 hover:text-blue-900 disabled:opacity-50"
+                  >
+                    Confirm transfer
+                  </button>
+                )}
+                <button
+                  onClick={() => transferMutation.mutate('unlink')}
+                  disabled={transferMutation.isPending}
+                  className="text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                >
+                  Not a transfer
+                </button>
+              </div>
+            </div>
+          )}
 
           <div className="flex gap-2">
             {transaction.isPending && (
@@ -169,6 +450,15 @@ export function TransactionDetail({ transaction, onClose }: TransactionDetailPro
         </div>
 
         <div className="mt-6 flex justify-end gap-3">
+          {transaction.isManual && (
+            <button
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="mr-auto px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </button>
+          )}
           <button
             onClick={onClose}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
@@ -177,10 +467,10 @@ export function TransactionDetail({ transaction, onClose }: TransactionDetailPro
           </button>
           <button
             onClick={handleSave}
-            disabled={updateCategoryMutation.isPending}
+            disabled={updateCategoryMutation.isPending || saveSplitsMutation.isPending}
             className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {updateCategoryMutation.isPending ? 'Saving...' : 'Save'}
+            {updateCategoryMutation.isPending || saveSplitsMutation.isPending ? 'Saving...' : 'Save'}
           </button>
         </div>
       </div>
@@ -2,6 +2,8 @@ import { useQuery } from '@tanstack/react-query';
 import { useState } from 'react';
 import { TransactionFilters, FilterValues } from './TransactionFilters';
 import { TransactionDetail } from './TransactionDetail';
+import { ManualTransactionForm } from './ManualTransactionForm';
+import { StatementImportForm } from './StatementImportForm';
 
 interface Transaction {
   id: string;
@@ -16,6 +18,16 @@ interface Transaction {
   categoryConfidence: number;
   isPending: boolean;
   isFraudulent: boolean;
+  isManual: boolean;
+  isTransfer: boolean;
+  tags: string[];
+  splits?: Array<{ id: string; categoryId: string; amount: number; note?: string }>;
+}
+
+interface Account {
+  id: string;
+  accountName: string;
+  isManual: boolean;
 }
 
 interface PaginatedResponse {
@@ -30,6 +42,8 @@ export function TransactionList() {
   const [page, setPage] = useState(1);
   const [filters, setFilters] = useState<FilterValues>({});
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [showManualForm, setShowManualForm] = useState(false);
+  const [showImportForm, setShowImportForm] = useState(false);
 
   const { data, isLoading } = useQuery<PaginatedResponse>({
     queryKey: ['transactions', page, filters],
@@ -54,18 +68,20 @@ export function TransactionList() {
     },
   });
 
-  const { data: accounts } = useQuery({
+  const { data: accounts } = useQuery<Account[]>({
     queryKey: ['accounts'],
     queryFn: async () => {
-      const response = await fetch('/api/plaid/accounts', {
+      const response = await fetch('/api/accounts', {
         credentials: 'include',
       });
-      if (!response.ok) return { accounts: [] };
+      if (!response.ok) return [];
       const data = await response.json();
-      return data;
+      return data.accounts;
     },
   });
 
+  const manualAccounts = accounts?.filter((account) => account.isManual) || [];
+
   const { data: categoriesData } = useQuery({
     queryKey: ['categories'],
     queryFn: async () => {
@@ -112,11 +128,31 @@ export function TransactionList() {
 
   return (
     <div className="space-y-6">
-      <h2 className="text-2xl font-bold text-gray-900">Transactions</h2>
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Transactions</h2>
+        <div className="flex gap-3">
+          {accounts && accounts.length > 0 && (
+            <button
+              onClick={() => setShowImportForm(true)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Import Statement
+            </button>
+          )}
+          {manualAccounts.length > 0 && (
+            <button
+              onClick={() => setShowManualForm(true)}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Add Transaction
+            </button>
+          )}
+        </div>
+      </div>
 
       <TransactionFilters
         onFilterChange={handleFilterChange}
-        accounts={accounts?.accounts}
+        accounts={accounts}
         categories={categoriesData?.categories}
       />
 
@@ -162,7 +198,11 @@ export function TransactionList() {
                       <div className="text-gray-500 text-xs">{transaction.description}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      {transaction.categoryName ? (
+                      {transaction.splits && transaction.splits.length > 0 ? (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          Split ({transaction.splits.length})
+                        </span>
+                      ) : transaction.categoryName ? (
                         <span 
                           className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
                           style={{ 
@@ -186,11 +226,21 @@ export function TransactionList() {
                           Pending
                         </span>
                       )}
+                      {transaction.isTransfer && (
+                        <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800 ml-2">
+                          Transfer
+                        </span>
+                      )}
                       {transaction.isFraudulent && (
                         <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800 ml-2">
                           Flagged
                         </span>
                       )}
+                      {transaction.tags?.map((tag) => (
+                        <span key={tag} className="px-2 py-1 text-xs rounded-full bg-purple-100 text-purple-800 ml-2">
+                          {tag}
+                        </span>
+                      ))}
                       {transaction.categoryConfidence < 70 && transaction.categoryName && (
                         <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800 ml-2">
                           Review
@@ -235,6 +285,18 @@ export function TransactionList() {
           onClose={() => setSelectedTransaction(null)}
         />
       )}
+
+      {showManualForm && (
+        <ManualTransactionForm
+          accounts={manualAccounts}
+          categories={categoriesData?.categories}
+          onClose={() => setShowManualForm(false)}
+        />
+      )}
+
+      {showImportForm && accounts && (
+        <StatementImportForm accounts={accounts} onClose={() => setShowImportForm(false)} />
+      )}
     </div>
   );
 }
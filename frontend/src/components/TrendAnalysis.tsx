@@ -1,17 +1,79 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { DateRangePicker } from './DateRangePicker';
+import { DateRange, getPresetRange, toRangeParams } from '../lib/dateRange';
+
+type Interval = 'day' | 'week' | 'month';
+
+interface TrendData {
+  period: string;
+  totalSpending: number;
+  totalIncome: number;
+  netSavings: number;
+  transactionCount: number;
+  averageTransaction: number;
+}
+
+interface SeriesPeriod extends TrendData {
+  previousYear?: {
+    totalSpending: number;
+    totalIncome: number;
+  };
+}
+
+interface SpendingSeries {
+  periods: SeriesPeriod[];
+  totals: TrendData;
+  previousYearTotals?: TrendData;
+}
+
+interface TrendComparison {
+  currentPeriod: TrendData;
+  previousPeriod: TrendData;
+  percentageChange: number;
+  trend: 'up' | 'down' | 'stable';
+}
 
 export function TrendAnalysis() {
-  const { data, isLoading } = useQuery({
-    queryKey: ['trends'],
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('12months'));
+  const [interval, setSeriesInterval] = useState<Interval>('month');
+  const [compareYear, setCompareYear] = useState(false);
+
+  const { data: series, isLoading, error } = useQuery<SpendingSeries>({
+    queryKey: ['spending-series', range.startDate, range.endDate, interval, compareYear],
+    queryFn: async () => {
+      const params = new URLSearchParams({ ...toRangeParams(range), interval });
+      if (compareYear) {
+        params.set('compareTo', 'year');
+      }
+      const response = await fetch(`/api/reports/series?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch trends');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const { data: comparison } = useQuery<TrendComparison>({
+    queryKey: ['trends', range.startDate, range.endDate, compareYear],
     queryFn: async () => {
-      const response = await fetch('/api/reports/trends', {
+      const params = new URLSearchParams({
+        ...toRangeParams(range),
+        compareTo: compareYear ? 'year' : 'previous',
+      });
+      const response = await fetch(`/api/reports/trends?${params}`, {
         credentials: 'include',
       });
       if (!response.ok) {
-        throw new Error('Failed to fetch trends');
+        throw new Error('Failed to fetch trend comparison');
       }
-      return response.json();
+      const result = await response.json();
+      return result.data;
     },
   });
 
@@ -23,73 +85,104 @@ export function TrendAnalysis() {
     }).format(value);
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex justify-center items-center py-12">
-        <div className="text-gray-500">Loading trend data...</div>
-      </div>
-    );
-  }
-
-  const trendData = data?.trends || [];
+  const chartData = (series?.periods || []).map((period) => ({
+    period: period.period,
+    spending: period.totalSpending,
+    income: period.totalIncome,
+    lastYear: period.previousYear?.totalSpending,
+  }));
+  const hasData = chartData.some((point) => point.spending !== 0 || point.income !== 0 || point.lastYear);
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
-      <h2 className="text-xl font-bold text-gray-900 mb-6">Spending Trends</h2>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Spending Trends</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <DateRangePicker value={range} onChange={setRange} />
+          <select
+            value={interval}
+            onChange={(e) => setSeriesInterval(e.target.value as Interval)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={compareYear}
+              onChange={(e) => setCompareYear(e.target.checked)}
+              className="mr-2"
+            />
+            Compare to last year
+          </label>
+        </div>
+      </div>
 
-      {trendData.length === 0 ? (
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="text-gray-500">Loading trend data...</div>
+        </div>
+      ) : error ? (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error.message}</p>
+        </div>
+      ) : !hasData ? (
         <div className="text-center py-12 text-gray-500">
-          No trend data available yet
+          No trend data available for this period
         </div>
       ) : (
-        <>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={trendData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="period" />
-                <YAxis tickFormatter={(value) => formatCurrency(value)} />
-                <Tooltip formatter={(value: any) => formatCurrency(value)} />
-                <Legend />
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" />
+              <YAxis tickFormatter={(value) => formatCurrency(value)} />
+              <Tooltip formatter={(value: any) => formatCurrency(value)} />
+              <Legend />
+              <Line type="monotone" dataKey="spending" stroke="#3B82F6" strokeWidth={2} name="Spending" />
+              <Line type="monotone" dataKey="income" stroke="#10B981" name="Income" />
+              {compareYear && (
                 <Line
                   type="monotone"
-                  dataKey="amount"
-                  stroke="#3B82F6"
-                  strokeWidth={2}
-                  name="Total Spending"
+                  dataKey="lastYear"
+                  stroke="#9CA3AF"
+                  strokeDasharray="5 5"
+                  name="Spending Last Year"
                 />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
 
-          {data?.comparison && (
-            <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="text-center">
-                <p className="text-sm text-gray-500">Current Period</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(data.comparison.current)}
-                </p>
-              </div>
-              <div className="text-center">
-                <p className="text-sm text-gray-500">Previous Period</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(data.comparison.previous)}
-                </p>
-              </div>
-              <div className="text-center">
-                <p className="text-sm text-gray-500">Change</p>
-                <p
-                  className={`text-2xl font-bold ${
-                    data.comparison.percentageChange > 0 ? 'text-red-600' : 'text-green-600'
-                  }`}
-                >
-                  {data.comparison.percentageChange > 0 ? '+' : ''}
-                  {data.comparison.percentageChange.toFixed(1)}%
-                </p>
-              </div>
-            </div>
-          )}
-        </>
+      {comparison && (
+        <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="text-center">
+            <p className="text-sm text-gray-500">Selected Period</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatCurrency(comparison.currentPeriod.totalSpending)}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-gray-500">{compareYear ? 'Same Period Last Year' : 'Previous Period'}</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatCurrency(comparison.previousPeriod.totalSpending)}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm text-gray-500">Change</p>
+            <p
+              className={`text-2xl font-bold ${
+                comparison.percentageChange > 0 ? 'text-red-600' : 'text-green-600'
+              }`}
+            >
+              {comparison.percentageChange > 0 ? '+' : ''}
+              {comparison.percentageChange.toFixed(1)}%
+            </p>
+          </div>
+        </div>
       )}
     </div>
   );
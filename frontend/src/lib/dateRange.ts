@@ -0,0 +1,60 @@
+// Date ranges shared by the report filters
+
+export type RangePreset = 'month' | 'lastMonth' | '3months' | 'quarter' | 'year' | '12months' | 'all' | 'custom';
+
+export interface DateRange {
+  preset: RangePreset;
+  startDate: string; // YYYY-MM-DD, local time
+  endDate: string;
+}
+
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Date range for a preset, ending today (or at the end of last month)
+ */
+export function getPresetRange(preset: Exclude<RangePreset, 'custom'>): DateRange {
+  const now = new Date();
+  let startDate: Date;
+  let endDate = now;
+
+  switch (preset) {
+    case 'lastMonth':
+      startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      endDate = new Date(now.getFullYear(), now.getMonth(), 0);
+      break;
+    case '3months':
+      startDate = new Date(now.getFullYear(), now.getMonth() - 2, 1);
+      break;
+    case 'quarter':
+      startDate = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+      break;
+    case 'year':
+      startDate = new Date(now.getFullYear(), 0, 1);
+      break;
+    case '12months':
+      startDate = new Date(now.getFullYear(), now.getMonth() - 11, 1);
+      break;
+    case 'all':
+      startDate = new Date(2020, 0, 1); // Start from 2020
+      break;
+    default:
+      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+
+  return { preset, startDate: toDateInput(startDate), endDate: toDateInput(endDate) };
+}
+
+/**
+ * Query parameters covering whole days of the range
+ */
+export function toRangeParams(range: DateRange): { startDate: string; endDate: string } {
+  return {
+    startDate: new Date(`${range.startDate}T00:00:00`).toISOString(),
+    endDate: new Date(`${range.endDate}T23:59:59.999`).toISOString(),
+  };
+}
@@ -8,8 +8,10 @@ interface Budget {
   categoryName?: string;
   amount: number;
   period: 'monthly' | 'quarterly' | 'annual';
+  isRecurring?: boolean;
   startDate: string;
-  endDate: string;
+  endDate?: string;
+  currentPeriod?: { startDate: string; endDate: string; amount: number };
   alertThreshold: number;
   isActive: boolean;
 }
@@ -1,4 +1,5 @@
 import { FraudAlertList } from '../components/FraudAlertList';
+import { GoalsWidget } from '../components/GoalsWidget';
 import { Link } from 'react-router-dom';
 
 export function DashboardPage() {
@@ -57,6 +58,9 @@ export function DashboardPage() {
         ))}
       </div>
 
+      {/* Savings Goals */}
+      <GoalsWidget />
+
       {/* Fraud Alerts */}
       <FraudAlertList />
     </div>
@@ -0,0 +1,391 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { DateRangePicker } from '../components/DateRangePicker';
+import { DateRange, getPresetRange, toRangeParams } from '../lib/dateRange';
+
+type Sort = 'spend' | 'visits';
+
+interface MerchantSpending {
+  merchantKey: string;
+  merchantId?: string;
+  merchantName: string;
+  totalSpend: number;
+  visitCount: number;
+  averageTicket: number;
+  firstDate: string;
+  lastDate: string;
+  monthly: { period: string; totalSpend: number; visitCount: number }[];
+}
+
+interface MerchantReport {
+  merchants: MerchantSpending[];
+  merchantCount: number;
+  totalSpend: number;
+}
+
+interface Merchant {
+  id: string;
+  name: string;
+  aliases: { id: string; alias: string }[];
+  transactionCount?: number;
+}
+
+interface MerchantTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  description: string;
+  categoryName?: string;
+}
+
+export function MerchantsPage() {
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('12months'));
+  const [sort, setSort] = useState<Sort>('spend');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [mergeId, setMergeId] = useState('');
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<MerchantReport>({
+    queryKey: ['merchant-report', range.startDate, range.endDate, sort],
+    queryFn: async () => {
+      const params = new URLSearchParams({ ...toRangeParams(range), sort });
+      const response = await fetch(`/api/reports/merchants?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch merchants');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const merchants = data?.merchants || [];
+  const selected = merchants.find((merchant) => merchant.merchantKey === selectedKey) || null;
+
+  const { data: transactions, isLoading: transactionsLoading } = useQuery<MerchantTransaction[]>({
+    queryKey: ['merchant-transactions', selected?.merchantKey, range.startDate, range.endDate],
+    enabled: !!selected,
+    queryFn: async () => {
+      const params = new URLSearchParams(toRangeParams(range));
+      const response = await fetch(
+        `/api/reports/merchants/${encodeURIComponent(selected!.merchantKey)}/transactions?${params}`,
+        { credentials: 'include' }
+      );
+      if (!response.ok) {
+        throw new Error('Failed to fetch merchant transactions');
+      }
+      const result = await response.json();
+      return result.transactions;
+    },
+  });
+
+  const { data: merchantDetails } = useQuery<Merchant>({
+    queryKey: ['merchant', selected?.merchantId],
+    enabled: !!selected?.merchantId,
+    queryFn: async () => {
+      const response = await fetch(`/api/merchants/${selected!.merchantId}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch merchant');
+      }
+      return response.json();
+    },
+  });
+
+  // Merchant edits change how every report groups transactions
+  const merchantMutation = useMutation({
+    mutationFn: async ({ path, method, body }: { path: string; method: string; body?: unknown }) => {
+      const response = await fetch(`/api/merchants/${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update merchant');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setError('');
+      setRenaming(false);
+      setMergeId('');
+      queryClient.invalidateQueries({ queryKey: ['merchant-report'] });
+      queryClient.invalidateQueries({ queryKey: ['merchant-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['merchant'] });
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to update merchant');
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(value);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
+  const changeRange = (next: DateRange) => {
+    setRange(next);
+    setSelectedKey(null);
+  };
+
+  const selectMerchant = (key: string) => {
+    setSelectedKey(key);
+    setRenaming(false);
+    setMergeId('');
+    setError('');
+  };
+
+  const renameMerchant = () => {
+    if (!newName.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+    merchantMutation.mutate({ path: selected!.merchantId!, method: 'PUT', body: { name: newName.trim() } });
+  };
+
+  const mergeMerchant = () => {
+    merchantMutation.mutate({
+      path: `${selected!.merchantId}/merge`,
+      method: 'POST',
+      body: { merchantIds: [mergeId] },
+    });
+  };
+
+  const splitAlias = (aliasId: string) => {
+    merchantMutation.mutate({ path: `${selected!.merchantId}/aliases/${aliasId}`, method: 'DELETE' });
+  };
+
+  const mergeCandidates = merchants.filter(
+    (candidate) => candidate.merchantId && candidate.merchantId !== selected?.merchantId
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-white">Merchants</h1>
+        <div className="flex flex-wrap items-center gap-4">
+          <DateRangePicker value={range} onChange={changeRange} />
+          <div className="flex gap-2">
+            <button
+              onClick={() => setSort('spend')}
+              className={`px-3 py-2 text-sm rounded-md ${
+                sort === 'spend' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              By Spend
+            </button>
+            <button
+              onClick={() => setSort('visits')}
+              className={`px-3 py-2 text-sm rounded-md ${
+                sort === 'visits' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              By Visits
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-white rounded-lg shadow p-6">
+          {isLoading ? (
+            <div className="text-center py-12 text-gray-500">Loading merchants...</div>
+          ) : merchants.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No spending in this period</div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                {data?.merchantCount} merchants, {formatCurrency(data?.totalSpend || 0)} total
+              </p>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Merchant</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spend</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Visits</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Avg Ticket</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {merchants.map((merchant, index) => (
+                    <tr
+                      key={merchant.merchantKey}
+                      onClick={() => selectMerchant(merchant.merchantKey)}
+                      className={`cursor-pointer hover:bg-gray-50 ${
+                        selectedKey === merchant.merchantKey ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                      <td className="px-3 py-2 text-gray-900">{merchant.merchantName}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(merchant.totalSpend)}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{merchant.visitCount}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(merchant.averageTicket)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          {!selected ? (
+            <div className="text-center py-12 text-gray-500">Select a merchant to see its trend and transactions</div>
+          ) : (
+            <>
+              {renaming ? (
+                <div className="flex gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    autoFocus
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    onClick={renameMerchant}
+                    disabled={merchantMutation.isPending}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setRenaming(false)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex justify-between items-start">
+                  <h2 className="text-xl font-bold text-gray-900">{selected.merchantName}</h2>
+                  {selected.merchantId && (
+                    <button
+                      onClick={() => {
+                        setNewName(selected.merchantName);
+                        setRenaming(true);
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      Rename
+                    </button>
+                  )}
+                </div>
+              )}
+              <p className="text-sm text-gray-500 mb-4">
+                {selected.visitCount} visits, {formatCurrency(selected.averageTicket)} average, last on{' '}
+                {formatDate(selected.lastDate)}
+              </p>
+
+              {error && (
+                <div className="rounded-md bg-red-50 p-4 mb-4">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              {merchantDetails && (
+                <div className="mb-4 text-sm">
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">Appears as</p>
+                  <ul className="flex flex-wrap gap-2">
+                    {merchantDetails.aliases.map((alias) => (
+                      <li key={alias.id} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-gray-700">
+                        {alias.alias}
+                        {merchantDetails.aliases.length > 1 && (
+                          <button
+                            onClick={() => splitAlias(alias.id)}
+                            disabled={merchantMutation.isPending}
+                            title="Split into its own merchant"
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {selected.merchantId && mergeCandidates.length > 0 && (
+                <div className="flex gap-2 mb-6">
+                  <select
+                    value={mergeId}
+                    onChange={(e) => setMergeId(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Merge another merchant into this one...</option>
+                    {mergeCandidates.map((candidate) => (
+                      <option key={candidate.merchantKey} value={candidate.merchantId}>
+                        {candidate.merchantName}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={mergeMerchant}
+                    disabled={!mergeId || merchantMutation.isPending}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                </div>
+              )}
+
+              <div className="h-48 mb-6">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={selected.monthly}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                    <Bar dataKey="totalSpend" fill="#3B82F6" name="Spend" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              {transactionsLoading ? (
+                <div className="text-gray-500">Loading transactions...</div>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {(transactions || []).map((tx) => (
+                    <li key={tx.id} className="py-2 flex justify-between text-sm">
+                      <div>
+                        <p className="text-gray-900">{tx.description}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(tx.date)}
+                          {tx.categoryName && ` · ${tx.categoryName}`}
+                        </p>
+                      </div>
+                      <span className={tx.amount < 0 ? 'text-green-600' : 'text-gray-900'}>
+                        {formatCurrency(-tx.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { EnvelopePlanner } from '../components/EnvelopePlanner';
+
+export function PlanningPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <EnvelopePlanner />
+    </div>
+  );
+}
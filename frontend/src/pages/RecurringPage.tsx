@@ -0,0 +1,9 @@
+import { RecurringList } from '../components/RecurringList';
+
+export function RecurringPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <RecurringList />
+    </div>
+  );
+}
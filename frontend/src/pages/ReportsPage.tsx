@@ -1,5 +1,9 @@
 import { SpendingChart } from '../components/SpendingChart';
+import { CashflowChart } from '../components/CashflowChart';
+import { NetWorthChart } from '../components/NetWorthChart';
+import { BalanceForecast } from '../components/BalanceForecast';
 import { TrendAnalysis } from '../components/TrendAnalysis';
+import { CategoryTrends } from '../components/CategoryTrends';
 import { ReportExport } from '../components/ReportExport';
 
 export function ReportsPage() {
@@ -8,7 +12,11 @@ export function ReportsPage() {
       <h1 className="text-3xl font-bold mb-8 text-gray-900">Reports & Analytics</h1>
       <div className="space-y-8">
         <SpendingChart />
+        <CashflowChart />
+        <NetWorthChart />
+        <BalanceForecast />
         <TrendAnalysis />
+        <CategoryTrends />
         <ReportExport />
       </div>
     </div>
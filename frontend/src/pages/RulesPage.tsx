@@ -0,0 +1,544 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+interface Rule {
+  id: string;
+  merchantPattern?: string;
+  merchantId?: string;
+  merchantName?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  accountId?: string;
+  keywords: string[];
+  dayOfMonthFrom?: number;
+  dayOfMonthTo?: number;
+  direction?: 'inflow' | 'outflow';
+  categoryId?: string;
+  categoryName?: string;
+  tags: string[];
+  renameMerchantTo?: string;
+  markAsTransfer: boolean;
+  priority: number;
+  learnedFromUser: boolean;
+}
+
+interface Account {
+  id: string;
+  accountName: string;
+}
+
+// Form fields for a new rule; empty ones are left out
+interface RuleDraft {
+  merchantPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  accountId: string;
+  keywords: string;
+  dayOfMonthFrom: string;
+  dayOfMonthTo: string;
+  direction: string;
+  categoryId: string;
+  tags: string;
+  renameMerchantTo: string;
+  markAsTransfer: boolean;
+}
+
+const emptyDraft: RuleDraft = {
+  merchantPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  accountId: '',
+  keywords: '',
+  dayOfMonthFrom: '',
+  dayOfMonthTo: '',
+  direction: '',
+  categoryId: '',
+  tags: '',
+  renameMerchantTo: '',
+  markAsTransfer: false,
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+// The draft's conditions, as the test and create endpoints take them
+function draftConditions(draft: RuleDraft) {
+  return {
+    merchantPattern: draft.merchantPattern.trim() || undefined,
+    minAmount: draft.minAmount || undefined,
+    maxAmount: draft.maxAmount || undefined,
+    accountId: draft.accountId || undefined,
+    keywords: splitList(draft.keywords),
+    dayOfMonthFrom: draft.dayOfMonthFrom || undefined,
+    dayOfMonthTo: draft.dayOfMonthTo || undefined,
+    direction: draft.direction || undefined,
+  };
+}
+
+function draftActions(draft: RuleDraft) {
+  return {
+    categoryId: draft.categoryId || undefined,
+    tags: splitList(draft.tags),
+    renameMerchantTo: draft.renameMerchantTo.trim() || undefined,
+    markAsTransfer: draft.markAsTransfer,
+  };
+}
+
+interface Category {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+interface RuleTestResult {
+  matchCount: number;
+  transactions: { id: string; date: string; amount: number; merchantName?: string; description: string }[];
+}
+
+async function request(path: string, method: string, body?: unknown) {
+  const response = await fetch(`/api/categorization-rules${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Request failed');
+  }
+  return response.status === 204 ? null : response.json();
+}
+
+export function RulesPage() {
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+  const [applyToExisting, setApplyToExisting] = useState(false);
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery<Rule[]>({
+    queryKey: ['categorization-rules'],
+    queryFn: async () => {
+      const response = await fetch('/api/categorization-rules', {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch rules');
+      }
+      const data = await response.json();
+      return data.rules || [];
+    },
+  });
+
+  const { data: categoriesData } = useQuery<{ categories: Category[] }>({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const response = await fetch('/api/transactions/categories', {
+        credentials: 'include',
+      });
+      if (!response.ok) return { categories: [] };
+      return response.json();
+    },
+  });
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ['accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/accounts', {
+        credentials: 'include',
+      });
+      if (!response.ok) return [];
+      const data = await response.json();
+      return data.accounts;
+    },
+  });
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setTestResult(null);
+  };
+
+  const onError = (err: Error) => {
+    setMessage('');
+    setError(err.message);
+  };
+
+  // Applying a rule changes transactions, so their lists and reports refresh too
+  const refresh = (appliedCount?: number) => {
+    setError('');
+    setMessage(appliedCount !== undefined ? `Updated ${appliedCount} transactions` : '');
+    queryClient.invalidateQueries({ queryKey: ['categorization-rules'] });
+    if (appliedCount) {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    }
+  };
+
+  const testMutation = useMutation({
+    mutationFn: () => request('/test', 'POST', draftConditions(draft)),
+    onSuccess: (result: RuleTestResult) => {
+      setError('');
+      setTestResult(result);
+    },
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      request('', 'POST', { ...draftConditions(draft), ...draftActions(draft), applyToExisting }),
+    onSuccess: (rule: Rule & { appliedCount?: number }) => {
+      setDraft(emptyDraft);
+      setTestResult(null);
+      refresh(rule.appliedCount);
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...body }: { id: string; categoryId: string | null }) => request(`/${id}`, 'PUT', body),
+    onSuccess: () => refresh(),
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ruleIds: string[]) => request('/reorder', 'PUT', { ruleIds }),
+    onSuccess: () => refresh(),
+    onError,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (id: string) => request(`/${id}/apply`, 'POST'),
+    onSuccess: (result: { appliedCount: number }) => refresh(result.appliedCount),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => request(`/${id}`, 'DELETE'),
+    onSuccess: () => refresh(),
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = (rules || []).map((rule) => rule.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ids);
+  };
+
+  const submitRule = () => {
+    const actions = draftActions(draft);
+    if (!actions.categoryId && actions.tags.length === 0 && !actions.renameMerchantTo && !actions.markAsTransfer) {
+      setError('Please pick at least one action');
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const accountName = (accountId: string) =>
+    accounts?.find((account) => account.id === accountId)?.accountName || 'Unknown account';
+
+  // Plain-language summary of what a rule matches
+  const describeConditions = (rule: Rule) => {
+    const parts: string[] = [];
+    if (rule.merchantName) parts.push(`merchant ${rule.merchantName}`);
+    else if (rule.merchantPattern) parts.push(`merchant matches /${rule.merchantPattern}/`);
+    if (rule.direction) parts.push(rule.direction === 'outflow' ? 'money out' : 'money in');
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined) {
+      parts.push(`amount ${rule.minAmount}–${rule.maxAmount}`);
+    } else if (rule.minAmount !== undefined) {
+      parts.push(`amount at least ${rule.minAmount}`);
+    } else if (rule.maxAmount !== undefined) {
+      parts.push(`amount at most ${rule.maxAmount}`);
+    }
+    if (rule.accountId) parts.push(`in ${accountName(rule.accountId)}`);
+    if (rule.keywords.length > 0) parts.push(`description has "${rule.keywords.join('" or "')}"`);
+    if (rule.dayOfMonthFrom !== undefined) parts.push(`on day ${rule.dayOfMonthFrom}–${rule.dayOfMonthTo}`);
+    return parts.join(', ');
+  };
+
+  const describeActions = (rule: Rule) => {
+    const parts: string[] = [];
+    if (rule.tags.length > 0) parts.push(`tag ${rule.tags.join(', ')}`);
+    if (rule.renameMerchantTo) parts.push(`rename to ${rule.renameMerchantTo}`);
+    if (rule.markAsTransfer) parts.push('mark as transfer');
+    return parts.join(', ');
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(-amount);
+  };
+
+  const categories = categoriesData?.categories || [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <h1 className="text-3xl font-bold text-white">Categorization Rules</h1>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="rounded-md bg-green-50 p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">New Rule</h2>
+        <p className="text-sm text-gray-500 mb-2">When a transaction matches all of these (leave out any you don't need)</p>
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={draft.merchantPattern}
+            onChange={(e) => updateDraft({ merchantPattern: e.target.value })}
+            placeholder="Merchant pattern, e.g. ^blue bottle"
+            className={`flex-1 min-w-[16rem] ${inputClass}`}
+          />
+          <input
+            type="text"
+            value={draft.keywords}
+            onChange={(e) => updateDraft({ keywords: e.target.value })}
+            placeholder="Description keywords, comma separated"
+            className={`flex-1 min-w-[16rem] ${inputClass}`}
+          />
+        </div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          <select
+            value={draft.direction}
+            onChange={(e) => updateDraft({ direction: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Money in or out</option>
+            <option value="outflow">Money out</option>
+            <option value="inflow">Money in</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.minAmount}
+            onChange={(e) => updateDraft({ minAmount: e.target.value })}
+            placeholder="Min amount"
+            className={`w-32 ${inputClass}`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.maxAmount}
+            onChange={(e) => updateDraft({ maxAmount: e.target.value })}
+            placeholder="Max amount"
+            className={`w-32 ${inputClass}`}
+          />
+          <select
+            value={draft.accountId}
+            onChange={(e) => updateDraft({ accountId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Any account</option>
+            {(accounts || []).map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.accountName}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="1"
+            max="31"
+            value={draft.dayOfMonthFrom}
+            onChange={(e) => updateDraft({ dayOfMonthFrom: e.target.value })}
+            placeholder="From day"
+            className={`w-28 ${inputClass}`}
+          />
+          <input
+            type="number"
+            min="1"
+            max="31"
+            value={draft.dayOfMonthTo}
+            onChange={(e) => updateDraft({ dayOfMonthTo: e.target.value })}
+            placeholder="To day"
+            className={`w-28 ${inputClass}`}
+          />
+          <button
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Test
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mt-4 mb-2">Then</p>
+        <div className="flex flex-wrap gap-2 items-center">
+          <select
+            value={draft.categoryId}
+            onChange={(e) => updateDraft({ categoryId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Keep category</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.icon} {category.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={draft.tags}
+            onChange={(e) => updateDraft({ tags: e.target.value })}
+            placeholder="Add tags, comma separated"
+            className={`min-w-[12rem] ${inputClass}`}
+          />
+          <input
+            type="text"
+            value={draft.renameMerchantTo}
+            onChange={(e) => updateDraft({ renameMerchantTo: e.target.value })}
+            placeholder="Rename merchant to"
+            className={`min-w-[12rem] ${inputClass}`}
+          />
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.markAsTransfer}
+              onChange={(e) => updateDraft({ markAsTransfer: e.target.checked })}
+              className="mr-2"
+            />
+            Mark as transfer
+          </label>
+          <button
+            onClick={submitRule}
+            disabled={createMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Rule
+          </button>
+        </div>
+        <label className="mt-3 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={applyToExisting}
+            onChange={(e) => setApplyToExisting(e.target.checked)}
+            className="mr-2"
+          />
+          Also apply to existing transactions (categories you picked yourself are kept)
+        </label>
+
+        {testResult && (
+          <div className="mt-4 text-sm">
+            <p className="font-medium text-gray-900">
+              This rule would match {testResult.matchCount} transaction{testResult.matchCount === 1 ? '' : 's'}
+            </p>
+            <ul className="mt-2 divide-y divide-gray-200">
+              {testResult.transactions.map((tx) => (
+                <li key={tx.id} className="py-1 flex justify-between text-gray-700">
+                  <span>{tx.merchantName || tx.description}</span>
+                  <span>{formatCurrency(tx.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Rules</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          For each action, the first matching rule that sets it wins; tags from every matching rule are added.
+          Corrections you make to transactions add rules here.
+        </p>
+
+        {isLoading ? (
+          <div className="text-gray-500">Loading rules...</div>
+        ) : !rules || rules.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No rules yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Matches</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Also</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.map((rule, index) => (
+                <tr key={rule.id}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === rules.length - 1 || reorderMutation.isPending}
+                      className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                  </td>
+                  <td className="px-3 py-2 text-gray-900">
+                    {describeConditions(rule)}
+                    {rule.learnedFromUser && <span className="ml-2 text-xs text-gray-400">learned</span>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={rule.categoryId || ''}
+                      onChange={(e) => updateMutation.mutate({ id: rule.id, categoryId: e.target.value || null })}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Keep category</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{describeActions(rule)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => applyMutation.mutate(rule.id)}
+                      disabled={applyMutation.isPending}
+                      className="text-sm text-blue-600 hover:text-blue-800 mr-4 disabled:opacity-50"
+                    >
+                      Apply to existing
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Are you sure you want to delete this rule?')) {
+                          deleteMutation.mutate(rule.id);
+                        }
+                      }}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}